@@ -0,0 +1,4 @@
+ALTER TABLE "sessions" ADD COLUMN "kind" text DEFAULT 'session' NOT NULL;--> statement-breakpoint
+ALTER TABLE "sessions" ADD COLUMN "family_id" uuid;--> statement-breakpoint
+ALTER TABLE "sessions" ADD COLUMN "rotated_at" timestamp;--> statement-breakpoint
+CREATE INDEX "sessions_family_idx" ON "sessions" USING btree ("family_id");
\ No newline at end of file
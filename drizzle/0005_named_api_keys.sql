@@ -0,0 +1,7 @@
+ALTER TABLE "api_keys" DROP CONSTRAINT "api_keys_tenant_id_unique";--> statement-breakpoint
+ALTER TABLE "api_keys" ADD COLUMN "prefix" text;--> statement-breakpoint
+-- The prefix of keys issued before it was stored is unknown
+UPDATE "api_keys" SET "prefix" = 'sk_live_' WHERE "prefix" IS NULL;--> statement-breakpoint
+ALTER TABLE "api_keys" ALTER COLUMN "prefix" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "api_keys" ADD COLUMN "expires_at" timestamp;--> statement-breakpoint
+ALTER TABLE "api_keys" ADD COLUMN "revoked_at" timestamp;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "api_keys" ADD COLUMN "mode" text DEFAULT 'live' NOT NULL;
\ No newline at end of file
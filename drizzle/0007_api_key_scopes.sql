@@ -0,0 +1 @@
+ALTER TABLE "api_keys" ADD COLUMN "scopes" jsonb DEFAULT '["*"]'::jsonb NOT NULL;
\ No newline at end of file
@@ -0,0 +1,8 @@
+-- Counters are short-lived; existing ones have no state to carry over
+DELETE FROM "rate_limit_counters";--> statement-breakpoint
+ALTER TABLE "rate_limit_counters" ADD COLUMN "state" jsonb NOT NULL;--> statement-breakpoint
+ALTER TABLE "rate_limit_counters" ADD COLUMN "version" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "rate_limit_counters" ADD COLUMN "expires_at" timestamp NOT NULL;--> statement-breakpoint
+CREATE INDEX "rate_limit_counters_expires_at_idx" ON "rate_limit_counters" USING btree ("expires_at");--> statement-breakpoint
+ALTER TABLE "rate_limit_counters" DROP COLUMN "count";--> statement-breakpoint
+ALTER TABLE "rate_limit_counters" DROP COLUMN "reset_at";
\ No newline at end of file
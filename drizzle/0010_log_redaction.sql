@@ -0,0 +1 @@
+ALTER TABLE "tenant_settings" ADD COLUMN "log_redaction" jsonb DEFAULT '{"rules":[],"fullyRedactEmails":false}'::jsonb NOT NULL;
\ No newline at end of file
@@ -0,0 +1,61 @@
+ALTER TABLE "api_keys" ENABLE ROW LEVEL SECURITY;--> statement-breakpoint
+ALTER TABLE "audit_events" ENABLE ROW LEVEL SECURITY;--> statement-breakpoint
+ALTER TABLE "email_verification_tokens" ENABLE ROW LEVEL SECURITY;--> statement-breakpoint
+ALTER TABLE "invitations" ENABLE ROW LEVEL SECURITY;--> statement-breakpoint
+ALTER TABLE "mfa_challenges" ENABLE ROW LEVEL SECURITY;--> statement-breakpoint
+ALTER TABLE "mfa_factors" ENABLE ROW LEVEL SECURITY;--> statement-breakpoint
+ALTER TABLE "mfa_recovery_codes" ENABLE ROW LEVEL SECURITY;--> statement-breakpoint
+ALTER TABLE "organization_members" ENABLE ROW LEVEL SECURITY;--> statement-breakpoint
+ALTER TABLE "organizations" ENABLE ROW LEVEL SECURITY;--> statement-breakpoint
+ALTER TABLE "outbox" ENABLE ROW LEVEL SECURITY;--> statement-breakpoint
+ALTER TABLE "password_reset_tokens" ENABLE ROW LEVEL SECURITY;--> statement-breakpoint
+ALTER TABLE "roles" ENABLE ROW LEVEL SECURITY;--> statement-breakpoint
+ALTER TABLE "sessions" ENABLE ROW LEVEL SECURITY;--> statement-breakpoint
+ALTER TABLE "subscription_tiers" ENABLE ROW LEVEL SECURITY;--> statement-breakpoint
+ALTER TABLE "subscriptions" ENABLE ROW LEVEL SECURITY;--> statement-breakpoint
+ALTER TABLE "tenant_settings" ENABLE ROW LEVEL SECURITY;--> statement-breakpoint
+ALTER TABLE "usage_records" ENABLE ROW LEVEL SECURITY;--> statement-breakpoint
+ALTER TABLE "users" ENABLE ROW LEVEL SECURITY;--> statement-breakpoint
+ALTER TABLE "webhook_deliveries" ENABLE ROW LEVEL SECURITY;--> statement-breakpoint
+ALTER TABLE "webhook_endpoints" ENABLE ROW LEVEL SECURITY;--> statement-breakpoint
+CREATE POLICY "tenant_isolation" ON "api_keys" AS PERMISSIVE FOR ALL TO public USING ((current_setting('app.bypass_rls', true) = 'on' or "api_keys"."tenant_id" = current_setting('app.tenant_id', true))) WITH CHECK ((current_setting('app.bypass_rls', true) = 'on' or "api_keys"."tenant_id" = current_setting('app.tenant_id', true)));--> statement-breakpoint
+CREATE POLICY "tenant_isolation" ON "audit_events" AS PERMISSIVE FOR ALL TO public USING ((current_setting('app.bypass_rls', true) = 'on' or "audit_events"."tenant_id" = current_setting('app.tenant_id', true))) WITH CHECK ((current_setting('app.bypass_rls', true) = 'on' or "audit_events"."tenant_id" = current_setting('app.tenant_id', true)));--> statement-breakpoint
+CREATE POLICY "tenant_isolation" ON "email_verification_tokens" AS PERMISSIVE FOR ALL TO public USING ((current_setting('app.bypass_rls', true) = 'on' or "email_verification_tokens"."tenant_id" = current_setting('app.tenant_id', true))) WITH CHECK ((current_setting('app.bypass_rls', true) = 'on' or "email_verification_tokens"."tenant_id" = current_setting('app.tenant_id', true)));--> statement-breakpoint
+CREATE POLICY "tenant_isolation" ON "invitations" AS PERMISSIVE FOR ALL TO public USING ((current_setting('app.bypass_rls', true) = 'on' or "invitations"."organization_id" in (select id from organizations))) WITH CHECK ((current_setting('app.bypass_rls', true) = 'on' or "invitations"."organization_id" in (select id from organizations)));--> statement-breakpoint
+CREATE POLICY "tenant_isolation" ON "mfa_challenges" AS PERMISSIVE FOR ALL TO public USING ((current_setting('app.bypass_rls', true) = 'on' or "mfa_challenges"."tenant_id" = current_setting('app.tenant_id', true))) WITH CHECK ((current_setting('app.bypass_rls', true) = 'on' or "mfa_challenges"."tenant_id" = current_setting('app.tenant_id', true)));--> statement-breakpoint
+CREATE POLICY "tenant_isolation" ON "mfa_factors" AS PERMISSIVE FOR ALL TO public USING ((current_setting('app.bypass_rls', true) = 'on' or "mfa_factors"."tenant_id" = current_setting('app.tenant_id', true))) WITH CHECK ((current_setting('app.bypass_rls', true) = 'on' or "mfa_factors"."tenant_id" = current_setting('app.tenant_id', true)));--> statement-breakpoint
+CREATE POLICY "tenant_isolation" ON "mfa_recovery_codes" AS PERMISSIVE FOR ALL TO public USING ((current_setting('app.bypass_rls', true) = 'on' or "mfa_recovery_codes"."tenant_id" = current_setting('app.tenant_id', true))) WITH CHECK ((current_setting('app.bypass_rls', true) = 'on' or "mfa_recovery_codes"."tenant_id" = current_setting('app.tenant_id', true)));--> statement-breakpoint
+CREATE POLICY "tenant_isolation" ON "organization_members" AS PERMISSIVE FOR ALL TO public USING ((current_setting('app.bypass_rls', true) = 'on' or "organization_members"."organization_id" in (select id from organizations))) WITH CHECK ((current_setting('app.bypass_rls', true) = 'on' or "organization_members"."organization_id" in (select id from organizations)));--> statement-breakpoint
+CREATE POLICY "tenant_isolation" ON "organizations" AS PERMISSIVE FOR ALL TO public USING ((current_setting('app.bypass_rls', true) = 'on' or "organizations"."tenant_id" = current_setting('app.tenant_id', true))) WITH CHECK ((current_setting('app.bypass_rls', true) = 'on' or "organizations"."tenant_id" = current_setting('app.tenant_id', true)));--> statement-breakpoint
+CREATE POLICY "tenant_isolation" ON "outbox" AS PERMISSIVE FOR ALL TO public USING ((current_setting('app.bypass_rls', true) = 'on' or "outbox"."tenant_id" = current_setting('app.tenant_id', true))) WITH CHECK ((current_setting('app.bypass_rls', true) = 'on' or "outbox"."tenant_id" = current_setting('app.tenant_id', true)));--> statement-breakpoint
+CREATE POLICY "tenant_isolation" ON "password_reset_tokens" AS PERMISSIVE FOR ALL TO public USING ((current_setting('app.bypass_rls', true) = 'on' or "password_reset_tokens"."tenant_id" = current_setting('app.tenant_id', true))) WITH CHECK ((current_setting('app.bypass_rls', true) = 'on' or "password_reset_tokens"."tenant_id" = current_setting('app.tenant_id', true)));--> statement-breakpoint
+CREATE POLICY "tenant_isolation" ON "roles" AS PERMISSIVE FOR ALL TO public USING ((current_setting('app.bypass_rls', true) = 'on' or "roles"."tenant_id" = current_setting('app.tenant_id', true))) WITH CHECK ((current_setting('app.bypass_rls', true) = 'on' or "roles"."tenant_id" = current_setting('app.tenant_id', true)));--> statement-breakpoint
+CREATE POLICY "tenant_isolation" ON "sessions" AS PERMISSIVE FOR ALL TO public USING ((current_setting('app.bypass_rls', true) = 'on' or "sessions"."tenant_id" = current_setting('app.tenant_id', true))) WITH CHECK ((current_setting('app.bypass_rls', true) = 'on' or "sessions"."tenant_id" = current_setting('app.tenant_id', true)));--> statement-breakpoint
+CREATE POLICY "tenant_isolation" ON "subscription_tiers" AS PERMISSIVE FOR ALL TO public USING ((current_setting('app.bypass_rls', true) = 'on' or "subscription_tiers"."tenant_id" = current_setting('app.tenant_id', true))) WITH CHECK ((current_setting('app.bypass_rls', true) = 'on' or "subscription_tiers"."tenant_id" = current_setting('app.tenant_id', true)));--> statement-breakpoint
+CREATE POLICY "tenant_isolation" ON "subscriptions" AS PERMISSIVE FOR ALL TO public USING ((current_setting('app.bypass_rls', true) = 'on' or "subscriptions"."organization_id" in (select id from organizations))) WITH CHECK ((current_setting('app.bypass_rls', true) = 'on' or "subscriptions"."organization_id" in (select id from organizations)));--> statement-breakpoint
+CREATE POLICY "tenant_isolation" ON "tenant_settings" AS PERMISSIVE FOR ALL TO public USING ((current_setting('app.bypass_rls', true) = 'on' or "tenant_settings"."tenant_id" = current_setting('app.tenant_id', true))) WITH CHECK ((current_setting('app.bypass_rls', true) = 'on' or "tenant_settings"."tenant_id" = current_setting('app.tenant_id', true)));--> statement-breakpoint
+CREATE POLICY "tenant_isolation" ON "usage_records" AS PERMISSIVE FOR ALL TO public USING ((current_setting('app.bypass_rls', true) = 'on' or "usage_records"."tenant_id" = current_setting('app.tenant_id', true))) WITH CHECK ((current_setting('app.bypass_rls', true) = 'on' or "usage_records"."tenant_id" = current_setting('app.tenant_id', true)));--> statement-breakpoint
+CREATE POLICY "tenant_isolation" ON "users" AS PERMISSIVE FOR ALL TO public USING ((current_setting('app.bypass_rls', true) = 'on' or "users"."tenant_id" = current_setting('app.tenant_id', true))) WITH CHECK ((current_setting('app.bypass_rls', true) = 'on' or "users"."tenant_id" = current_setting('app.tenant_id', true)));--> statement-breakpoint
+CREATE POLICY "tenant_isolation" ON "webhook_deliveries" AS PERMISSIVE FOR ALL TO public USING ((current_setting('app.bypass_rls', true) = 'on' or "webhook_deliveries"."tenant_id" = current_setting('app.tenant_id', true))) WITH CHECK ((current_setting('app.bypass_rls', true) = 'on' or "webhook_deliveries"."tenant_id" = current_setting('app.tenant_id', true)));--> statement-breakpoint
+CREATE POLICY "tenant_isolation" ON "webhook_endpoints" AS PERMISSIVE FOR ALL TO public USING ((current_setting('app.bypass_rls', true) = 'on' or "webhook_endpoints"."tenant_id" = current_setting('app.tenant_id', true))) WITH CHECK ((current_setting('app.bypass_rls', true) = 'on' or "webhook_endpoints"."tenant_id" = current_setting('app.tenant_id', true)));--> statement-breakpoint
+-- Policies also apply to the table owner the application connects as
+ALTER TABLE "api_keys" FORCE ROW LEVEL SECURITY;--> statement-breakpoint
+ALTER TABLE "audit_events" FORCE ROW LEVEL SECURITY;--> statement-breakpoint
+ALTER TABLE "email_verification_tokens" FORCE ROW LEVEL SECURITY;--> statement-breakpoint
+ALTER TABLE "invitations" FORCE ROW LEVEL SECURITY;--> statement-breakpoint
+ALTER TABLE "mfa_challenges" FORCE ROW LEVEL SECURITY;--> statement-breakpoint
+ALTER TABLE "mfa_factors" FORCE ROW LEVEL SECURITY;--> statement-breakpoint
+ALTER TABLE "mfa_recovery_codes" FORCE ROW LEVEL SECURITY;--> statement-breakpoint
+ALTER TABLE "organization_members" FORCE ROW LEVEL SECURITY;--> statement-breakpoint
+ALTER TABLE "organizations" FORCE ROW LEVEL SECURITY;--> statement-breakpoint
+ALTER TABLE "outbox" FORCE ROW LEVEL SECURITY;--> statement-breakpoint
+ALTER TABLE "password_reset_tokens" FORCE ROW LEVEL SECURITY;--> statement-breakpoint
+ALTER TABLE "roles" FORCE ROW LEVEL SECURITY;--> statement-breakpoint
+ALTER TABLE "sessions" FORCE ROW LEVEL SECURITY;--> statement-breakpoint
+ALTER TABLE "subscription_tiers" FORCE ROW LEVEL SECURITY;--> statement-breakpoint
+ALTER TABLE "subscriptions" FORCE ROW LEVEL SECURITY;--> statement-breakpoint
+ALTER TABLE "tenant_settings" FORCE ROW LEVEL SECURITY;--> statement-breakpoint
+ALTER TABLE "usage_records" FORCE ROW LEVEL SECURITY;--> statement-breakpoint
+ALTER TABLE "users" FORCE ROW LEVEL SECURITY;--> statement-breakpoint
+ALTER TABLE "webhook_deliveries" FORCE ROW LEVEL SECURITY;--> statement-breakpoint
+ALTER TABLE "webhook_endpoints" FORCE ROW LEVEL SECURITY;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "tenant_settings" ADD COLUMN "config" jsonb DEFAULT '{}'::jsonb NOT NULL;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "tenants" ADD COLUMN "purge_after" timestamp;
\ No newline at end of file
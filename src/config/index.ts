@@ -5,7 +5,11 @@
  * Configuration is loaded from environment variables.
  */
 
-import { Env } from '../types';
+import type { Context } from 'hono';
+import { AppEnv, Env } from '../types';
+import { RateLimitStoreType } from '../services/rate-limit-store';
+import { RateLimitAlgorithm, RATE_LIMIT_ALGORITHMS } from '../services/rate-limit-algorithms';
+import { LogLevel, LOG_LEVELS } from '../middleware/logger';
 
 export interface AppConfig {
   // Environment
@@ -18,12 +22,36 @@ export interface AppConfig {
   jwtSecret: string;
   bcryptWorkFactor: number;
   sessionExpirationSeconds: number;
+  passwordResetExpirationSeconds: number;
+  emailVerificationExpirationSeconds: number;
+  accessTokenExpirationSeconds: number;
+  refreshTokenExpirationSeconds: number;
+  
+  // Organizations
+  invitationExpirationSeconds: number;
+  
+  // API Keys
+  apiKeyRotationGraceSeconds: number;
+  
+  // Tenants
+  tenantDeletionGraceSeconds: number; // Time before a deleted tenant is purged
   
   // Email
   resendApiKey?: string;
   
+  // Operator endpoints (/metrics, /tenants); disabled when unset
+  operatorToken?: string;
+  
+  // Logging
+  logLevel: LogLevel;
+  logSampleRate: number; // Fraction of requests whose debug/info logs are kept
+  logSinkUrl?: string; // Also send logs here in NDJSON batches
+  logSinkToken?: string;
+  
   // Rate Limiting
   rateLimitPerMinute: number;
+  rateLimitStore: RateLimitStoreType;
+  rateLimitAlgorithm: RateLimitAlgorithm;
   
   // Defaults
   defaults: {
@@ -32,6 +60,10 @@ export interface AppConfig {
   };
 }
 
+// Longest a rotated API key may stay valid, so rotation can't be used to keep
+// an old key around indefinitely
+const MAX_API_KEY_ROTATION_GRACE_SECONDS = 30 * 24 * 60 * 60; // 30 days
+
 /**
  * Default configuration values for different environments
  */
@@ -40,7 +72,18 @@ const DEFAULT_CONFIGS: Record<string, Partial<AppConfig>> = {
     environment: 'development',
     bcryptWorkFactor: 10,
     sessionExpirationSeconds: 604800, // 7 days
+    passwordResetExpirationSeconds: 3600, // 1 hour
+    emailVerificationExpirationSeconds: 86400, // 24 hours
+    accessTokenExpirationSeconds: 900, // 15 minutes
+    refreshTokenExpirationSeconds: 2592000, // 30 days
+    invitationExpirationSeconds: 604800, // 7 days
+    apiKeyRotationGraceSeconds: 86400, // 24 hours
+    tenantDeletionGraceSeconds: 2592000, // 30 days
     rateLimitPerMinute: 1000,
+    rateLimitStore: 'memory',
+    rateLimitAlgorithm: 'token_bucket',
+    logLevel: 'debug',
+    logSampleRate: 1,
     defaults: {
       role: 'member',
     },
@@ -49,7 +92,18 @@ const DEFAULT_CONFIGS: Record<string, Partial<AppConfig>> = {
     environment: 'staging',
     bcryptWorkFactor: 11,
     sessionExpirationSeconds: 604800, // 7 days
+    passwordResetExpirationSeconds: 3600, // 1 hour
+    emailVerificationExpirationSeconds: 86400, // 24 hours
+    accessTokenExpirationSeconds: 900, // 15 minutes
+    refreshTokenExpirationSeconds: 2592000, // 30 days
+    invitationExpirationSeconds: 604800, // 7 days
+    apiKeyRotationGraceSeconds: 86400, // 24 hours
+    tenantDeletionGraceSeconds: 2592000, // 30 days
     rateLimitPerMinute: 500,
+    rateLimitStore: 'durable_object',
+    rateLimitAlgorithm: 'token_bucket',
+    logLevel: 'info',
+    logSampleRate: 1,
     defaults: {
       role: 'member',
     },
@@ -58,7 +112,18 @@ const DEFAULT_CONFIGS: Record<string, Partial<AppConfig>> = {
     environment: 'production',
     bcryptWorkFactor: 12,
     sessionExpirationSeconds: 604800, // 7 days
+    passwordResetExpirationSeconds: 3600, // 1 hour
+    emailVerificationExpirationSeconds: 86400, // 24 hours
+    accessTokenExpirationSeconds: 900, // 15 minutes
+    refreshTokenExpirationSeconds: 2592000, // 30 days
+    invitationExpirationSeconds: 604800, // 7 days
+    apiKeyRotationGraceSeconds: 86400, // 24 hours
+    tenantDeletionGraceSeconds: 2592000, // 30 days
     rateLimitPerMinute: 1000,
+    rateLimitStore: 'durable_object',
+    rateLimitAlgorithm: 'token_bucket',
+    logLevel: 'info',
+    logSampleRate: 1,
     defaults: {
       role: 'member',
     },
@@ -67,7 +132,18 @@ const DEFAULT_CONFIGS: Record<string, Partial<AppConfig>> = {
     environment: 'test',
     bcryptWorkFactor: 4, // Faster for tests
     sessionExpirationSeconds: 3600, // 1 hour
+    passwordResetExpirationSeconds: 900, // 15 minutes
+    emailVerificationExpirationSeconds: 3600, // 1 hour
+    accessTokenExpirationSeconds: 300, // 5 minutes
+    refreshTokenExpirationSeconds: 86400, // 1 day
+    invitationExpirationSeconds: 86400, // 1 day
+    apiKeyRotationGraceSeconds: 60, // 1 minute
+    tenantDeletionGraceSeconds: 60, // 1 minute
     rateLimitPerMinute: 10000,
+    rateLimitStore: 'memory',
+    rateLimitAlgorithm: 'token_bucket',
+    logLevel: 'warn',
+    logSampleRate: 1,
     defaults: {
       role: 'member',
     },
@@ -91,10 +167,41 @@ export function loadConfig(env: Env): AppConfig {
     sessionExpirationSeconds: env.SESSION_EXPIRATION 
       ? parseInt(env.SESSION_EXPIRATION, 10) 
       : defaults.sessionExpirationSeconds!,
+    passwordResetExpirationSeconds: env.PASSWORD_RESET_EXPIRATION
+      ? parseInt(env.PASSWORD_RESET_EXPIRATION, 10)
+      : defaults.passwordResetExpirationSeconds!,
+    emailVerificationExpirationSeconds: env.EMAIL_VERIFICATION_EXPIRATION
+      ? parseInt(env.EMAIL_VERIFICATION_EXPIRATION, 10)
+      : defaults.emailVerificationExpirationSeconds!,
+    accessTokenExpirationSeconds: env.ACCESS_TOKEN_EXPIRATION
+      ? parseInt(env.ACCESS_TOKEN_EXPIRATION, 10)
+      : defaults.accessTokenExpirationSeconds!,
+    refreshTokenExpirationSeconds: env.REFRESH_TOKEN_EXPIRATION
+      ? parseInt(env.REFRESH_TOKEN_EXPIRATION, 10)
+      : defaults.refreshTokenExpirationSeconds!,
+    invitationExpirationSeconds: env.INVITATION_EXPIRATION
+      ? parseInt(env.INVITATION_EXPIRATION, 10)
+      : defaults.invitationExpirationSeconds!,
+    apiKeyRotationGraceSeconds: env.API_KEY_ROTATION_GRACE_PERIOD
+      ? parseInt(env.API_KEY_ROTATION_GRACE_PERIOD, 10)
+      : defaults.apiKeyRotationGraceSeconds!,
+    tenantDeletionGraceSeconds: env.TENANT_DELETION_GRACE_PERIOD
+      ? parseInt(env.TENANT_DELETION_GRACE_PERIOD, 10)
+      : defaults.tenantDeletionGraceSeconds!,
     resendApiKey: env.RESEND_API_KEY,
+    operatorToken: env.OPERATOR_TOKEN || undefined,
+    logLevel: (env.LOG_LEVEL || defaults.logLevel!) as LogLevel,
+    logSampleRate: env.LOG_SAMPLE_RATE
+      ? parseFloat(env.LOG_SAMPLE_RATE)
+      : defaults.logSampleRate!,
+    logSinkUrl: env.LOG_SINK_URL || undefined,
+    logSinkToken: env.LOG_SINK_TOKEN || undefined,
     rateLimitPerMinute: env.RATE_LIMIT_PER_MINUTE 
       ? parseInt(env.RATE_LIMIT_PER_MINUTE, 10) 
       : defaults.rateLimitPerMinute!,
+    rateLimitStore: (env.RATE_LIMIT_STORE || defaults.rateLimitStore!) as RateLimitStoreType,
+    rateLimitAlgorithm: (env.RATE_LIMIT_ALGORITHM ||
+      defaults.rateLimitAlgorithm!) as RateLimitAlgorithm,
     defaults: {
       role: defaults.defaults!.role,
       subscriptionTier: defaults.defaults!.subscriptionTier,
@@ -102,6 +209,43 @@ export function loadConfig(env: Env): AppConfig {
   };
 }
 
+/**
+ * Settings a tenant can override (stored in tenant_settings.config, see
+ * getTenantConfig). Secrets and infrastructure settings stay per environment.
+ */
+export const TENANT_CONFIG_KEYS = [
+  'sessionExpirationSeconds',
+  'passwordResetExpirationSeconds',
+  'emailVerificationExpirationSeconds',
+  'accessTokenExpirationSeconds',
+  'refreshTokenExpirationSeconds',
+  'invitationExpirationSeconds',
+  'apiKeyRotationGraceSeconds',
+] as const;
+
+/**
+ * Settings only an operator can override for a tenant (PATCH /tenants/:id):
+ * they bound what a tenant costs the platform and how strong its password
+ * hashes are, so the tenant's own API keys can't change them.
+ */
+export const OPERATOR_CONFIG_KEYS = ['bcryptWorkFactor', 'rateLimitPerMinute'] as const;
+
+export type TenantConfigKey =
+  | (typeof TENANT_CONFIG_KEYS)[number]
+  | (typeof OPERATOR_CONFIG_KEYS)[number];
+
+export type TenantConfigOverrides = Partial<Pick<AppConfig, TenantConfigKey>> & {
+  defaults?: Partial<AppConfig['defaults']>;
+};
+
+/**
+ * Get the configuration for a request: the tenant's resolved configuration
+ * once apiKeyAuth has run, otherwise the environment's
+ */
+export function getConfig(c: Context<AppEnv>): AppConfig {
+  return c.get('config') ?? loadConfig(c.env);
+}
+
 /**
  * Validate configuration
  */
@@ -127,11 +271,71 @@ export function validateConfig(config: AppConfig): { valid: boolean; errors: str
     errors.push('SESSION_EXPIRATION must be at least 60 seconds');
   }
   
+  // Validate password reset expiration
+  if (config.passwordResetExpirationSeconds < 60) {
+    errors.push('PASSWORD_RESET_EXPIRATION must be at least 60 seconds');
+  }
+  
+  // Validate email verification expiration
+  if (config.emailVerificationExpirationSeconds < 60) {
+    errors.push('EMAIL_VERIFICATION_EXPIRATION must be at least 60 seconds');
+  }
+  
+  // Validate token mode expirations
+  if (config.accessTokenExpirationSeconds < 60) {
+    errors.push('ACCESS_TOKEN_EXPIRATION must be at least 60 seconds');
+  }
+  
+  if (config.refreshTokenExpirationSeconds <= config.accessTokenExpirationSeconds) {
+    errors.push('REFRESH_TOKEN_EXPIRATION must be longer than ACCESS_TOKEN_EXPIRATION');
+  }
+  
+  // Validate invitation expiration
+  if (config.invitationExpirationSeconds < 60) {
+    errors.push('INVITATION_EXPIRATION must be at least 60 seconds');
+  }
+  
+  // Validate API key rotation grace period
+  if (config.apiKeyRotationGraceSeconds < 0) {
+    errors.push('API_KEY_ROTATION_GRACE_PERIOD must not be negative');
+  } else if (config.apiKeyRotationGraceSeconds > MAX_API_KEY_ROTATION_GRACE_SECONDS) {
+    errors.push(
+      `API_KEY_ROTATION_GRACE_PERIOD must be at most ${MAX_API_KEY_ROTATION_GRACE_SECONDS} seconds`
+    );
+  }
+  
+  // Validate tenant deletion grace period
+  if (config.tenantDeletionGraceSeconds < 0) {
+    errors.push('TENANT_DELETION_GRACE_PERIOD must not be negative');
+  }
+  
   // Validate rate limit
   if (config.rateLimitPerMinute < 1) {
     errors.push('RATE_LIMIT_PER_MINUTE must be at least 1');
   }
   
+  const validRateLimitStores = ['memory', 'postgres', 'durable_object'];
+  if (!validRateLimitStores.includes(config.rateLimitStore)) {
+    errors.push(`RATE_LIMIT_STORE must be one of: ${validRateLimitStores.join(', ')}`);
+  }
+  
+  if (!RATE_LIMIT_ALGORITHMS.includes(config.rateLimitAlgorithm)) {
+    errors.push(`RATE_LIMIT_ALGORITHM must be one of: ${RATE_LIMIT_ALGORITHMS.join(', ')}`);
+  }
+  
+  // Validate logging
+  if (!LOG_LEVELS.includes(config.logLevel)) {
+    errors.push(`LOG_LEVEL must be one of: ${LOG_LEVELS.join(', ')}`);
+  }
+  
+  if (!(config.logSampleRate >= 0 && config.logSampleRate <= 1)) {
+    errors.push('LOG_SAMPLE_RATE must be between 0 and 1');
+  }
+  
+  if (config.logSinkUrl && !/^https?:\/\//.test(config.logSinkUrl)) {
+    errors.push('LOG_SINK_URL must be an http(s) URL');
+  }
+  
   // Validate environment
   const validEnvironments = ['development', 'staging', 'production', 'test'];
   if (!validEnvironments.includes(config.environment)) {
@@ -156,7 +360,7 @@ export function getDefaultConfig(environment: string): Partial<AppConfig> {
  */
 export function mergeConfig(
   base: Partial<AppConfig>,
-  custom: Partial<AppConfig>
+  custom: Omit<Partial<AppConfig>, 'defaults'> & { defaults?: Partial<AppConfig['defaults']> }
 ): Partial<AppConfig> {
   return {
     ...base,
@@ -164,6 +368,6 @@ export function mergeConfig(
     defaults: {
       ...base.defaults,
       ...custom.defaults,
-    },
+    } as AppConfig['defaults'],
   };
 }
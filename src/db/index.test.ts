@@ -0,0 +1,148 @@
+import { describe, test, expect, beforeAll, beforeEach } from 'vitest';
+import { eq, sql } from 'drizzle-orm';
+import { getSandboxTenantId } from '../services/sandbox';
+import { createDb, createUnscopedDb } from '../db';
+import { schema } from '../db';
+import { createUser } from '../services/auth';
+import { createOrganization, inviteMember, acceptInvitation } from '../services/organization';
+import {
+  defineTier,
+  subscribe,
+  getSubscriptionStatus,
+  cancelSubscription,
+} from '../services/subscription';
+import { getUserRole } from '../services/permission';
+import { createTenantScopedDb } from '../middleware/tenant-isolation';
+
+const db = createUnscopedDb(process.env.DATABASE_URL!);
+
+// Tenant-owned rows need their tenant, and test-mode rows its sandbox partition
+async function createTestTenant(tenantId: string) {
+  await db
+    .insert(schema.tenants)
+    .values([
+      { id: tenantId, name: tenantId },
+      { id: getSandboxTenantId(tenantId), name: tenantId },
+    ])
+    .onConflictDoNothing();
+}
+
+// Table owners skip row-level security unless it's forced, and the tests
+// usually connect as the owner
+beforeAll(async () => {
+  for (const table of [
+    'users',
+    'organizations',
+    'organization_members',
+    'invitations',
+    'subscription_tiers',
+    'subscriptions',
+  ]) {
+    await db.execute(sql.raw(`alter table "${table}" force row level security`));
+  }
+});
+
+// Clean up database before each test
+beforeEach(async () => {
+  await db.delete(schema.subscriptions);
+  await db.delete(schema.subscriptionTiers);
+  await db.delete(schema.organizationMembers);
+  await db.delete(schema.invitations);
+  await db.delete(schema.organizations);
+  await db.delete(schema.users);
+});
+
+// An organization with an owner, a subscription and a pending invitation
+async function createTenantData(tenantId: string) {
+  const tenantDb = createTenantScopedDb(db, tenantId);
+  const owner = await createUser(tenantDb, `owner@${tenantId}.com`, 'password123', 4);
+  const org = await createOrganization(tenantDb, 'Acme', owner.id);
+  const tier = await defineTier(tenantDb, 'pro', ['api'], { api_calls: 1000 });
+  const subscription = await subscribe(tenantDb, org.id, tier.id);
+  const invitation = await inviteMember(
+    tenantDb,
+    org.id,
+    `invitee@${tenantId}.com`,
+    'member',
+    owner.id,
+    604800
+  );
+
+  return { owner, org, subscription, invitation };
+}
+
+describe('Row-Level Security', () => {
+  test('A tenant only sees its own rows', async () => {
+    const tenantA = `tenant_a_${Date.now()}`;
+    await createTestTenant(tenantA);
+    const tenantB = `tenant_b_${Date.now()}`;
+    await createTestTenant(tenantB);
+    await createTenantData(tenantA);
+    await createTenantData(tenantB);
+
+    const dbA = createDb(process.env.DATABASE_URL!, tenantA);
+    const users = await dbA.select().from(schema.users);
+    const members = await dbA.select().from(schema.organizationMembers);
+
+    expect(users.map((user) => user.tenantId)).toEqual([tenantA]);
+    expect(members).toHaveLength(1);
+
+    // Transactions are scoped the same way
+    const orgs = await dbA.transaction((tx) => tx.select().from(schema.organizations));
+    expect(orgs.map((org) => org.tenantId)).toEqual([tenantA]);
+  });
+
+  test('Rows cannot be written for another tenant', async () => {
+    const tenantA = `tenant_a_${Date.now()}`;
+    await createTestTenant(tenantA);
+    const tenantB = `tenant_b_${Date.now()}`;
+    await createTestTenant(tenantB);
+    const dbA = createDb(process.env.DATABASE_URL!, tenantA);
+
+    await expect(
+      dbA.insert(schema.users).values({
+        tenantId: tenantB,
+        email: 'intruder@example.com',
+        passwordHash: 'hash',
+      })
+    ).rejects.toThrow();
+
+    const { org } = await createTenantData(tenantB);
+    const updated = await dbA
+      .update(schema.organizations)
+      .set({ name: 'Renamed' })
+      .where(eq(schema.organizations.id, org.id))
+      .returning();
+    expect(updated).toHaveLength(0);
+  });
+
+  test('Lookups by ID alone fail closed for other tenants', async () => {
+    const tenantA = `tenant_a_${Date.now()}`;
+    await createTestTenant(tenantA);
+    const tenantB = `tenant_b_${Date.now()}`;
+    await createTestTenant(tenantB);
+    const { owner, org, subscription, invitation } = await createTenantData(tenantA);
+    const intruder = await createUser(
+      createTenantScopedDb(db, tenantB),
+      `invitee@${tenantA}.com`,
+      'password123',
+      4
+    );
+    // Scoped to tenant A by the helpers, but row-level security limits the
+    // connection to tenant B
+    const dbB = createTenantScopedDb(createDb(process.env.DATABASE_URL!, tenantB), tenantA);
+
+    expect(await getSubscriptionStatus(dbB, org.id)).toBeNull();
+    expect(await getUserRole(dbB, owner.id, org.id)).toBeNull();
+    await expect(cancelSubscription(dbB, subscription.id)).rejects.toThrow(
+      'Subscription not found'
+    );
+    await expect(
+      acceptInvitation(dbB, invitation.id, intruder.id, intruder.email)
+    ).rejects.toThrow('Invitation not found');
+
+    // Nothing changed for the owning tenant
+    const status = await getSubscriptionStatus(createTenantScopedDb(db, tenantA), org.id);
+    expect(status?.status).toBe('active');
+  });
+});
@@ -1,11 +1,97 @@
 import { drizzle } from 'drizzle-orm/neon-http';
-import { neon } from '@neondatabase/serverless';
+import { drizzle as drizzleWebSocket } from 'drizzle-orm/neon-serverless';
+import { neon, Pool, HTTPQueryOptions, NeonQueryFunction } from '@neondatabase/serverless';
+import { sql } from 'drizzle-orm';
+import type { PgDatabase, PgQueryResultHKT } from 'drizzle-orm/pg-core';
 import * as schema from './schema';
 
-export function createDb(databaseUrl: string) {
-  const sql = neon(databaseUrl);
-  return drizzle(sql, { schema });
+// A database connection or an open transaction. Service functions accept
+// either, so one that runs in a transaction can be called from another.
+export type Database = PgDatabase<PgQueryResultHKT, typeof schema>;
+
+// Postgres settings the row-level security policies read (see schema.ts)
+type SessionSettings = Record<string, string>;
+
+// A tenant's queries can only see and write that tenant's rows. Bypassing the
+// policies is only for work that isn't done on behalf of one tenant, like API
+// key lookup, the operator routes and the scheduled jobs.
+function getSessionSettings(scope: { tenantId: string } | { bypassRls: true }): SessionSettings {
+  return 'tenantId' in scope ? { 'app.tenant_id': scope.tenantId } : { 'app.bypass_rls': 'on' };
+}
+
+// Every HTTP query is its own session, so the settings are applied in a
+// transaction with each query. It's still one round trip.
+function withSessionSettings(
+  client: NeonQueryFunction<boolean, boolean>,
+  settings: SessionSettings
+): NeonQueryFunction<boolean, boolean> {
+  const query = async (
+    text: string,
+    params?: unknown[],
+    options?: HTTPQueryOptions<boolean, boolean>
+  ) => {
+    const results = await client.transaction(
+      [
+        ...Object.entries(settings).map(([name, value]) =>
+          client.query('select set_config($1, $2, true)', [name, value])
+        ),
+        client.query(text, params, options),
+      ],
+      options
+    );
+    return results[results.length - 1];
+  };
+
+  return { query } as unknown as NeonQueryFunction<boolean, boolean>;
+}
+
+// Queries go over HTTP (one round trip each, nothing to clean up). The HTTP
+// driver can't run interactive transactions, so db.transaction() opens a
+// WebSocket connection for the duration of the transaction instead.
+function connect(databaseUrl: string, settings: SessionSettings): Database {
+  const client = withSessionSettings(neon(databaseUrl), settings);
+  const db = drizzle(client, { schema }) as unknown as Database;
+
+  db.transaction = async (transaction, config) => {
+    // Workers can't reuse a connection across requests, so each transaction
+    // gets its own pool
+    const pool = new Pool({ connectionString: databaseUrl });
+    try {
+      return await drizzleWebSocket(pool, { schema }).transaction(async (tx) => {
+        for (const [name, value] of Object.entries(settings)) {
+          await tx.execute(sql`select set_config(${name}, ${value}, true)`);
+        }
+        return transaction(tx);
+      }, config);
+    } finally {
+      await pool.end();
+    }
+  };
+
+  return db;
+}
+
+// A connection for the tenant a request is made for, so row-level security
+// rejects anything a query forgets to filter by tenant
+export function createDb(databaseUrl: string, tenantId: string): Database {
+  return connect(databaseUrl, getSessionSettings({ tenantId }));
+}
+
+// A connection that bypasses row-level security and sees every tenant's rows.
+// Only use it for work that spans tenants.
+export function createUnscopedDb(databaseUrl: string): Database {
+  return connect(databaseUrl, getSessionSettings({ bypassRls: true }));
+}
+
+// Whether a query failed on a unique constraint. Drizzle wraps driver errors,
+// so the Postgres error code may be on a cause.
+export function isUniqueViolation(error: unknown): boolean {
+  for (let current = error; current instanceof Error; current = current.cause) {
+    if ((current as { code?: unknown }).code === '23505') {
+      return true;
+    }
+  }
+  return false;
 }
 
-export type Database = ReturnType<typeof createDb>;
 export { schema };
@@ -1,34 +1,165 @@
-import { pgTable, text, timestamp, uuid, boolean, jsonb, integer, index, uniqueIndex } from 'drizzle-orm/pg-core';
+import { sql } from 'drizzle-orm';
+import {
+  pgTable,
+  pgPolicy,
+  text,
+  timestamp,
+  uuid,
+  boolean,
+  jsonb,
+  integer,
+  index,
+  uniqueIndex,
+  AnyPgColumn,
+} from 'drizzle-orm/pg-core';
+import type { RedactionPolicy } from '../middleware/logger';
+import type { TenantConfigOverrides } from '../config';
+import type { AuditChanges } from '../types';
+
+// Row-level security. createDb runs every query with app.tenant_id set to the
+// tenant it is made for, or with app.bypass_rls set for work that spans
+// tenants. A query with neither set sees no tenant-owned rows.
+const bypassRls = sql`current_setting('app.bypass_rls', true) = 'on'`;
+
+// Rows are visible to, and can only be written for, their own tenant
+function tenantIsolation(tenantId: AnyPgColumn) {
+  const isTenantRow = sql`(${bypassRls} or ${tenantId} = current_setting('app.tenant_id', true))`;
+  return pgPolicy('tenant_isolation', { for: 'all', using: isTenantRow, withCheck: isTenantRow });
+}
+
+// Rows without a tenant column belong to their organization's tenant. The
+// subquery is itself filtered by the policy on organizations.
+function organizationIsolation(organizationId: AnyPgColumn) {
+  const isTenantRow = sql`(${bypassRls} or ${organizationId} in (select id from organizations))`;
+  return pgPolicy('tenant_isolation', { for: 'all', using: isTenantRow, withCheck: isTenantRow });
+}
+
+// Tenants table. Tenant-owned rows reference it, so a tenant's data goes
+// with it. The sandbox partition of a tenant (`<id>:test`) has its own row.
+export const tenants = pgTable('tenants', {
+  id: text('id').primaryKey(),
+  name: text('name').notNull(),
+  status: text('status').notNull().default('active'), // active, suspended, deleted
+  plan: text('plan'),
+  metadata: jsonb('metadata').notNull().default({}).$type<Record<string, unknown>>(),
+  purgeAfter: timestamp('purge_after'), // Set while the tenant is deleted
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => ({
+  tenantIsolation: tenantIsolation(table.id),
+}));
 
 // Users table
 export const users = pgTable('users', {
   id: uuid('id').primaryKey().defaultRandom(),
-  tenantId: text('tenant_id').notNull(),
+  tenantId: text('tenant_id').notNull().references(() => tenants.id, { onDelete: 'cascade' }),
   email: text('email').notNull(),
   passwordHash: text('password_hash').notNull(),
+  emailVerifiedAt: timestamp('email_verified_at'),
   createdAt: timestamp('created_at').defaultNow().notNull(),
   updatedAt: timestamp('updated_at').defaultNow().notNull(),
 }, (table) => ({
   emailTenantIdx: uniqueIndex('users_email_tenant_idx').on(table.email, table.tenantId),
   tenantIdx: index('users_tenant_idx').on(table.tenantId),
+  tenantIsolation: tenantIsolation(table.tenantId),
 }));
 
 // Sessions table
+// kind 'session' rows hold opaque session tokens; kind 'refresh' rows hold the
+// SHA-256 hash of a refresh token, grouped into rotation families
 export const sessions = pgTable('sessions', {
   token: text('token').primaryKey(),
   userId: uuid('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
-  tenantId: text('tenant_id').notNull(),
+  tenantId: text('tenant_id').notNull().references(() => tenants.id, { onDelete: 'cascade' }),
+  kind: text('kind').notNull().default('session'), // session, refresh
+  familyId: uuid('family_id'),
+  rotatedAt: timestamp('rotated_at'),
   createdAt: timestamp('created_at').defaultNow().notNull(),
   expiresAt: timestamp('expires_at').notNull(),
 }, (table) => ({
   userIdx: index('sessions_user_idx').on(table.userId),
   tenantIdx: index('sessions_tenant_idx').on(table.tenantId),
+  familyIdx: index('sessions_family_idx').on(table.familyId),
+  tenantIsolation: tenantIsolation(table.tenantId),
+}));
+
+// Password reset tokens table (only the SHA-256 hash of each token is stored)
+export const passwordResetTokens = pgTable('password_reset_tokens', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  tokenHash: text('token_hash').notNull().unique(),
+  userId: uuid('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  tenantId: text('tenant_id').notNull().references(() => tenants.id, { onDelete: 'cascade' }),
+  expiresAt: timestamp('expires_at').notNull(),
+  usedAt: timestamp('used_at'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => ({
+  userIdx: index('password_reset_tokens_user_idx').on(table.userId),
+  tenantIdx: index('password_reset_tokens_tenant_idx').on(table.tenantId),
+  tenantIsolation: tenantIsolation(table.tenantId),
+}));
+
+// Email verification tokens table (only the SHA-256 hash of each token is stored)
+export const emailVerificationTokens = pgTable('email_verification_tokens', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  tokenHash: text('token_hash').notNull().unique(),
+  userId: uuid('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  tenantId: text('tenant_id').notNull().references(() => tenants.id, { onDelete: 'cascade' }),
+  expiresAt: timestamp('expires_at').notNull(),
+  usedAt: timestamp('used_at'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => ({
+  userIdx: index('email_verification_tokens_user_idx').on(table.userId),
+  tenantIdx: index('email_verification_tokens_tenant_idx').on(table.tenantId),
+  tenantIsolation: tenantIsolation(table.tenantId),
+}));
+
+// MFA factors table (one TOTP factor per user; confirmedAt is set once enrollment is verified)
+export const mfaFactors = pgTable('mfa_factors', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  userId: uuid('user_id').notNull().unique().references(() => users.id, { onDelete: 'cascade' }),
+  tenantId: text('tenant_id').notNull().references(() => tenants.id, { onDelete: 'cascade' }),
+  secret: text('secret').notNull(),
+  confirmedAt: timestamp('confirmed_at'),
+  lastUsedStep: integer('last_used_step'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => ({
+  tenantIdx: index('mfa_factors_tenant_idx').on(table.tenantId),
+  tenantIsolation: tenantIsolation(table.tenantId),
+}));
+
+// MFA recovery codes table (only the SHA-256 hash of each code is stored)
+export const mfaRecoveryCodes = pgTable('mfa_recovery_codes', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  userId: uuid('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  tenantId: text('tenant_id').notNull().references(() => tenants.id, { onDelete: 'cascade' }),
+  codeHash: text('code_hash').notNull(),
+  usedAt: timestamp('used_at'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => ({
+  userIdx: index('mfa_recovery_codes_user_idx').on(table.userId),
+  tenantIdx: index('mfa_recovery_codes_tenant_idx').on(table.tenantId),
+  tenantIsolation: tenantIsolation(table.tenantId),
+}));
+
+// MFA login challenges table (issued after a successful password check)
+export const mfaChallenges = pgTable('mfa_challenges', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  tokenHash: text('token_hash').notNull().unique(),
+  userId: uuid('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  tenantId: text('tenant_id').notNull().references(() => tenants.id, { onDelete: 'cascade' }),
+  attempts: integer('attempts').default(0).notNull(),
+  expiresAt: timestamp('expires_at').notNull(),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => ({
+  userIdx: index('mfa_challenges_user_idx').on(table.userId),
+  tenantIdx: index('mfa_challenges_tenant_idx').on(table.tenantId),
+  tenantIsolation: tenantIsolation(table.tenantId),
 }));
 
 // Organizations table
 export const organizations = pgTable('organizations', {
   id: uuid('id').primaryKey().defaultRandom(),
-  tenantId: text('tenant_id').notNull(),
+  tenantId: text('tenant_id').notNull().references(() => tenants.id, { onDelete: 'cascade' }),
   name: text('name').notNull(),
   ownerId: uuid('owner_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
   subscriptionId: uuid('subscription_id'),
@@ -36,6 +167,7 @@ export const organizations = pgTable('organizations', {
 }, (table) => ({
   tenantIdx: index('organizations_tenant_idx').on(table.tenantId),
   ownerIdx: index('organizations_owner_idx').on(table.ownerId),
+  tenantIsolation: tenantIsolation(table.tenantId),
 }));
 
 // Organization members table
@@ -48,6 +180,7 @@ export const organizationMembers = pgTable('organization_members', {
 }, (table) => ({
   orgUserIdx: uniqueIndex('org_members_org_user_idx').on(table.organizationId, table.userId),
   userIdx: index('org_members_user_idx').on(table.userId),
+  tenantIsolation: organizationIsolation(table.organizationId),
 }));
 
 // Invitations table
@@ -63,12 +196,13 @@ export const invitations = pgTable('invitations', {
 }, (table) => ({
   orgIdx: index('invitations_org_idx').on(table.organizationId),
   emailIdx: index('invitations_email_idx').on(table.email),
+  tenantIsolation: organizationIsolation(table.organizationId),
 }));
 
 // Roles table
 export const roles = pgTable('roles', {
   id: uuid('id').primaryKey().defaultRandom(),
-  tenantId: text('tenant_id').notNull(),
+  tenantId: text('tenant_id').notNull().references(() => tenants.id, { onDelete: 'cascade' }),
   name: text('name').notNull(),
   permissions: jsonb('permissions').notNull().$type<string[]>(),
   isDefault: boolean('is_default').default(false).notNull(),
@@ -76,18 +210,20 @@ export const roles = pgTable('roles', {
 }, (table) => ({
   tenantNameIdx: uniqueIndex('roles_tenant_name_idx').on(table.tenantId, table.name),
   tenantIdx: index('roles_tenant_idx').on(table.tenantId),
+  tenantIsolation: tenantIsolation(table.tenantId),
 }));
 
 // Subscription tiers table
 export const subscriptionTiers = pgTable('subscription_tiers', {
   id: uuid('id').primaryKey().defaultRandom(),
-  tenantId: text('tenant_id').notNull(),
+  tenantId: text('tenant_id').notNull().references(() => tenants.id, { onDelete: 'cascade' }),
   name: text('name').notNull(),
   features: jsonb('features').notNull().$type<string[]>(),
   limits: jsonb('limits').notNull().$type<Record<string, number>>(),
   createdAt: timestamp('created_at').defaultNow().notNull(),
 }, (table) => ({
   tenantIdx: index('subscription_tiers_tenant_idx').on(table.tenantId),
+  tenantIsolation: tenantIsolation(table.tenantId),
 }));
 
 // Subscriptions table
@@ -101,13 +237,14 @@ export const subscriptions = pgTable('subscriptions', {
   createdAt: timestamp('created_at').defaultNow().notNull(),
 }, (table) => ({
   orgIdx: uniqueIndex('subscriptions_org_idx').on(table.organizationId),
+  tenantIsolation: organizationIsolation(table.organizationId),
 }));
 
 // Usage records table
 export const usageRecords = pgTable('usage_records', {
   id: uuid('id').primaryKey().defaultRandom(),
   organizationId: uuid('organization_id').notNull().references(() => organizations.id, { onDelete: 'cascade' }),
-  tenantId: text('tenant_id').notNull(),
+  tenantId: text('tenant_id').notNull().references(() => tenants.id, { onDelete: 'cascade' }),
   metricName: text('metric_name').notNull(),
   quantity: integer('quantity').notNull(),
   timestamp: timestamp('timestamp').defaultNow().notNull(),
@@ -115,16 +252,134 @@ export const usageRecords = pgTable('usage_records', {
   orgMetricIdx: index('usage_records_org_metric_idx').on(table.organizationId, table.metricName),
   timestampIdx: index('usage_records_timestamp_idx').on(table.timestamp),
   tenantIdx: index('usage_records_tenant_idx').on(table.tenantId),
+  tenantIsolation: tenantIsolation(table.tenantId),
 }));
 
 // API keys table
 export const apiKeys = pgTable('api_keys', {
   id: uuid('id').primaryKey().defaultRandom(),
   keyHash: text('key_hash').notNull().unique(),
-  tenantId: text('tenant_id').notNull().unique(),
+  tenantId: text('tenant_id').notNull().references(() => tenants.id, { onDelete: 'cascade' }),
   name: text('name').notNull(),
+  prefix: text('prefix').notNull(), // leading characters of the key, for identification
+  mode: text('mode').notNull().default('live'), // live, test
+  scopes: jsonb('scopes').notNull().default(['*']).$type<string[]>(),
   createdAt: timestamp('created_at').defaultNow().notNull(),
   lastUsedAt: timestamp('last_used_at'),
+  expiresAt: timestamp('expires_at'),
+  revokedAt: timestamp('revoked_at'),
 }, (table) => ({
   tenantIdx: index('api_keys_tenant_idx').on(table.tenantId),
+  tenantIsolation: tenantIsolation(table.tenantId),
+}));
+
+// Tenant settings table (per-tenant policy options)
+export const tenantSettings = pgTable('tenant_settings', {
+  tenantId: text('tenant_id').primaryKey().references(() => tenants.id, { onDelete: 'cascade' }),
+  requireEmailVerification: boolean('require_email_verification').default(false).notNull(),
+  logRedaction: jsonb('log_redaction')
+    .notNull()
+    .default({ rules: [], fullyRedactEmails: false })
+    .$type<RedactionPolicy>(),
+  config: jsonb('config').notNull().default({}).$type<TenantConfigOverrides>(),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => ({
+  tenantIsolation: tenantIsolation(table.tenantId),
+}));
+
+// Rate limit state for the Postgres rate limit store. The version column backs
+// compare-and-set updates; expiresAt marks rows that can be pruned.
+export const rateLimitCounters = pgTable('rate_limit_counters', {
+  key: text('key').primaryKey(),
+  state: jsonb('state').notNull(),
+  version: integer('version').notNull().default(0),
+  expiresAt: timestamp('expires_at').notNull(),
+}, (table) => ({
+  expiresAtIdx: index('rate_limit_counters_expires_at_idx').on(table.expiresAt),
+}));
+
+// Audit events table (append-only). Organization, actor and target IDs aren't
+// foreign keys so the trail outlives the records it describes.
+export const auditEvents = pgTable('audit_events', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  tenantId: text('tenant_id').notNull().references(() => tenants.id, { onDelete: 'cascade' }),
+  organizationId: uuid('organization_id'),
+  actorType: text('actor_type').notNull(), // user, api_key, system
+  actorId: text('actor_id'),
+  action: text('action').notNull(),
+  targetType: text('target_type').notNull(),
+  targetId: text('target_id'),
+  changes: jsonb('changes').$type<AuditChanges>(),
+  ipAddress: text('ip_address'),
+  requestId: text('request_id'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => ({
+  tenantCreatedIdx: index('audit_events_tenant_created_idx').on(table.tenantId, table.createdAt),
+  orgIdx: index('audit_events_org_idx').on(table.organizationId),
+  actorIdx: index('audit_events_actor_idx').on(table.tenantId, table.actorId),
+  targetIdx: index('audit_events_target_idx').on(table.targetType, table.targetId),
+  tenantIsolation: tenantIsolation(table.tenantId),
+}));
+
+// Webhook endpoints table. The signing secret is stored as-is because every
+// delivery has to be signed with it.
+export const webhookEndpoints = pgTable('webhook_endpoints', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  tenantId: text('tenant_id').notNull().references(() => tenants.id, { onDelete: 'cascade' }),
+  url: text('url').notNull(),
+  secret: text('secret').notNull(),
+  events: jsonb('events').notNull().$type<string[]>(),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => ({
+  tenantIdx: index('webhook_endpoints_tenant_idx').on(table.tenantId),
+  tenantIsolation: tenantIsolation(table.tenantId),
+}));
+
+// Webhook deliveries table (one row per event per endpoint, plus one per manual
+// redelivery). Deliveries of the same event share an eventId; the unique index
+// lets the outbox hand an event over more than once without duplicates.
+export const webhookDeliveries = pgTable('webhook_deliveries', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  endpointId: uuid('endpoint_id').notNull().references(() => webhookEndpoints.id, { onDelete: 'cascade' }),
+  tenantId: text('tenant_id').notNull().references(() => tenants.id, { onDelete: 'cascade' }),
+  eventId: uuid('event_id').notNull(),
+  eventType: text('event_type').notNull(),
+  payload: jsonb('payload').notNull(),
+  status: text('status').notNull().default('pending'), // pending, succeeded, failed
+  attempts: integer('attempts').notNull().default(0),
+  nextAttemptAt: timestamp('next_attempt_at'),
+  lastResponseStatus: integer('last_response_status'),
+  lastError: text('last_error'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  deliveredAt: timestamp('delivered_at'),
+  redeliveryOf: uuid('redelivery_of'),
+}, (table) => ({
+  endpointIdx: index('webhook_deliveries_endpoint_idx').on(table.endpointId),
+  tenantIdx: index('webhook_deliveries_tenant_idx').on(table.tenantId),
+  dueIdx: index('webhook_deliveries_due_idx').on(table.status, table.nextAttemptAt),
+  eventIdx: uniqueIndex('webhook_deliveries_event_idx')
+    .on(table.endpointId, table.eventId)
+    .where(sql`${table.redeliveryOf} is null`),
+  tenantIsolation: tenantIsolation(table.tenantId),
+}));
+
+// Outbox table. Domain events are written in the same transaction as the change
+// they describe, then handed to consumers (webhooks, email) by the dispatcher. An
+// event can reach a consumer more than once; its ID is the idempotency key.
+export const outbox = pgTable('outbox', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  tenantId: text('tenant_id').notNull().references(() => tenants.id, { onDelete: 'cascade' }),
+  eventType: text('event_type').notNull(),
+  payload: jsonb('payload').notNull().$type<Record<string, unknown>>(),
+  status: text('status').notNull().default('pending'), // pending, dispatched, failed
+  attempts: integer('attempts').notNull().default(0),
+  availableAt: timestamp('available_at'), // Next dispatch attempt; null once done
+  lastError: text('last_error'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  dispatchedAt: timestamp('dispatched_at'),
+}, (table) => ({
+  tenantIdx: index('outbox_tenant_idx').on(table.tenantId),
+  dueIdx: index('outbox_due_idx').on(table.status, table.availableAt),
+  tenantIsolation: tenantIsolation(table.tenantId),
 }));
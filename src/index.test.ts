@@ -0,0 +1,153 @@
+import { describe, test, expect, vi, beforeEach, afterEach } from 'vitest';
+import { app } from './index';
+import { ErrorResponse } from './types';
+
+const env = {
+  DATABASE_URL: '',
+  JWT_SECRET: 'test-secret',
+  BCRYPT_WORK_FACTOR: '4',
+  SESSION_EXPIRATION: '3600',
+  RATE_LIMIT_PER_MINUTE: '1000',
+  ENVIRONMENT: 'test',
+  RESEND_API_KEY: '',
+  OPERATOR_TOKEN: 'operator-secret',
+};
+
+describe('API Routes - Authentication', () => {
+  let consoleErrorSpy: any;
+
+  beforeEach(() => {
+    consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    consoleErrorSpy.mockRestore();
+  });
+
+  const protectedRoutes: Array<[string, string]> = [
+    ['POST', '/auth/register'],
+    ['POST', '/auth/login'],
+    ['POST', '/auth/logout'],
+    ['POST', '/auth/password-reset/request'],
+    ['POST', '/auth/password-reset/complete'],
+    ['POST', '/auth/verify-email'],
+    ['POST', '/auth/verify-email/resend'],
+    ['POST', '/auth/login/mfa'],
+    ['POST', '/auth/token'],
+    ['POST', '/auth/token/mfa'],
+    ['POST', '/auth/token/refresh'],
+    ['POST', '/auth/token/revoke'],
+    ['POST', '/auth/mfa/enroll'],
+    ['POST', '/auth/mfa/confirm'],
+    ['POST', '/organizations'],
+    ['GET', '/organizations/org_123'],
+    ['POST', '/organizations/org_123/invitations'],
+    ['DELETE', '/organizations/org_123/members/user_123'],
+    ['GET', '/users/user_123/organizations'],
+    ['POST', '/invitations/inv_123/accept'],
+    ['POST', '/roles'],
+    ['GET', '/roles'],
+    ['POST', '/roles/check'],
+    ['POST', '/tiers'],
+    ['GET', '/tiers'],
+    ['POST', '/subscriptions'],
+    ['POST', '/subscriptions/sub_123/cancel'],
+    ['POST', '/usage'],
+    ['GET', '/usage/limit'],
+    ['GET', '/settings'],
+    ['PATCH', '/settings'],
+    ['POST', '/api-keys'],
+    ['GET', '/api-keys'],
+    ['POST', '/api-keys/key_123/rotate'],
+    ['POST', '/api-keys/key_123/revoke'],
+    ['POST', '/sandbox/reset'],
+  ];
+
+  test.each(protectedRoutes)('%s %s requires an API key', async (method, path) => {
+    const res = await app.request(
+      path,
+      { method, headers: { 'x-request-id': 'req_test' } },
+      env
+    );
+
+    expect(res.status).toBe(401);
+
+    const body = (await res.json()) as ErrorResponse;
+    expect(body.error.code).toBe('MISSING_AUTH');
+    expect(body.error.requestId).toBe('req_test');
+  });
+
+  test('Malformed Authorization header is rejected', async () => {
+    const res = await app.request(
+      '/organizations',
+      { method: 'POST', headers: { Authorization: 'Token sk_live_abc' } },
+      env
+    );
+
+    expect(res.status).toBe(401);
+
+    const body = (await res.json()) as ErrorResponse;
+    expect(body.error.code).toBe('INVALID_API_KEY');
+  });
+
+  test('API info endpoint does not require an API key', async () => {
+    const res = await app.request('/', {}, env);
+
+    expect(res.status).toBe(200);
+    expect(res.headers.get('x-request-id')).toBeTruthy();
+  });
+});
+
+describe('API Routes - Metrics', () => {
+  let consoleErrorSpy: any;
+
+  beforeEach(() => {
+    consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    consoleErrorSpy.mockRestore();
+  });
+
+  test('Metrics require the operator token', async () => {
+    const missing = await app.request('/metrics', {}, env);
+    expect(missing.status).toBe(401);
+
+    const wrong = await app.request(
+      '/metrics',
+      { headers: { Authorization: 'Bearer sk_live_abc' } },
+      env
+    );
+    expect(wrong.status).toBe(401);
+
+    const body = (await wrong.json()) as ErrorResponse;
+    expect(body.error.code).toBe('INVALID_OPERATOR_TOKEN');
+  });
+
+  test('Metrics are disabled without an operator token', async () => {
+    const res = await app.request(
+      '/metrics',
+      { headers: { Authorization: 'Bearer operator-secret' } },
+      { ...env, OPERATOR_TOKEN: '' }
+    );
+
+    expect(res.status).toBe(404);
+  });
+
+  test('Metrics are rendered in Prometheus format', async () => {
+    await app.request('/', {}, env);
+
+    const res = await app.request(
+      '/metrics',
+      { headers: { Authorization: 'Bearer operator-secret' } },
+      env
+    );
+
+    expect(res.status).toBe(200);
+    expect(res.headers.get('Content-Type')).toContain('text/plain; version=0.0.4');
+
+    const text = await res.text();
+    expect(text).toContain('# TYPE http_request_duration_seconds histogram');
+    expect(text).toContain('route="/",method="GET",status_class="2xx"');
+  });
+});
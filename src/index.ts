@@ -1,13 +1,37 @@
 import { Hono } from 'hono';
-import { Env } from './types';
+import { AppEnv, Env } from './types';
 import { errorHandler } from './middleware/error-handler';
 import { requestIdMiddleware } from './middleware/request-id';
-import { createDb } from './db';
+import { accessLogMiddleware } from './middleware/access-log';
+import { metricsMiddleware } from './middleware/metrics';
+import { createUnscopedDb } from './db';
+import { authRoutes } from './routes/auth';
+import { organizationRoutes } from './routes/organizations';
+import { userRoutes } from './routes/users';
+import { invitationRoutes } from './routes/invitations';
+import { roleRoutes } from './routes/roles';
+import { tierRoutes } from './routes/tiers';
+import { subscriptionRoutes } from './routes/subscriptions';
+import { usageRoutes } from './routes/usage';
+import { settingsRoutes } from './routes/settings';
+import { apiKeyRoutes } from './routes/api-keys';
+import { sandboxRoutes } from './routes/sandbox';
+import { auditEventRoutes } from './routes/audit-events';
+import { webhookRoutes } from './routes/webhooks';
+import { metricsRoutes } from './routes/metrics';
+import { tenantRoutes } from './routes/tenants';
+import { dispatchOutbox } from './services/outbox';
+import { deliverDueWebhooks } from './services/webhook';
+import { purgeDeletedTenants } from './services/tenant';
+import { pruneRateLimitCounters } from './services/rate-limit-store';
+import { logger } from './middleware/logger';
 
-const app = new Hono<{ Bindings: Env }>();
+export const app = new Hono<AppEnv>();
 
 // Global middleware
 app.use('*', requestIdMiddleware);
+app.use('*', accessLogMiddleware);
+app.use('*', metricsMiddleware);
 
 // Error handling
 app.onError(errorHandler);
@@ -18,7 +42,7 @@ app.get('/health', async (c) => {
   
   try {
     // Check database connectivity
-    const db = createDb(c.env.DATABASE_URL);
+    const db = createUnscopedDb(c.env.DATABASE_URL);
     
     // Simple query to verify database is accessible
     await db.execute('SELECT 1');
@@ -59,9 +83,48 @@ app.get('/', (c) => {
   });
 });
 
-// API routes will be added here
-// app.route('/auth', authRoutes);
-// app.route('/organizations', organizationRoutes);
-// etc.
+// API routes (each module applies API key auth and rate limiting)
+app.route('/auth', authRoutes);
+app.route('/organizations', organizationRoutes);
+app.route('/users', userRoutes);
+app.route('/invitations', invitationRoutes);
+app.route('/roles', roleRoutes);
+app.route('/tiers', tierRoutes);
+app.route('/subscriptions', subscriptionRoutes);
+app.route('/usage', usageRoutes);
+app.route('/settings', settingsRoutes);
+app.route('/api-keys', apiKeyRoutes);
+app.route('/sandbox', sandboxRoutes);
+app.route('/audit-events', auditEventRoutes);
+app.route('/webhooks', webhookRoutes);
 
-export default app;
+// Operator endpoints (authenticated with OPERATOR_TOKEN, not API keys)
+app.route('/metrics', metricsRoutes);
+app.route('/tenants', tenantRoutes);
+
+export default {
+  fetch: app.fetch,
+
+  // Cron trigger (see wrangler.toml): dispatch outbox events, then send the
+  // webhook deliveries that are due (including ones just queued). Deleted
+  // tenants past their grace period are purged; the purge reports go to the
+  // logs, since the tenant's audit trail is purged with it. Expired Postgres
+  // rate limit counters are deleted.
+  async scheduled(_event: ScheduledController, env: Env, ctx: ExecutionContext): Promise<void> {
+    const db = createUnscopedDb(env.DATABASE_URL);
+    ctx.waitUntil(
+      dispatchOutbox(db, { resendApiKey: env.RESEND_API_KEY }).then(() => deliverDueWebhooks(db))
+    );
+    ctx.waitUntil(
+      purgeDeletedTenants(db).then((reports) => {
+        for (const report of reports) {
+          logger.info('Tenant purged', { event: 'tenant_purged', ...report });
+        }
+      })
+    );
+    ctx.waitUntil(pruneRateLimitCounters(db));
+  },
+};
+
+// Durable Object classes must be exported from the Worker entry point
+export { RateLimiterDurableObject } from './services/rate-limit-store';
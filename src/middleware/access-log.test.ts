@@ -0,0 +1,156 @@
+import { describe, test, expect, vi, beforeEach, afterEach } from 'vitest';
+import { Hono } from 'hono';
+import { accessLogMiddleware, addLogContext, getRequestLogger } from './access-log';
+import { requestIdMiddleware } from './request-id';
+import { AppError, errorHandler } from './error-handler';
+import { AppEnv } from '../types';
+
+const env = {
+  ENVIRONMENT: 'test',
+  LOG_LEVEL: 'info',
+} as AppEnv['Bindings'];
+
+// Test app that takes the tenant from a header in place of apiKeyAuth
+function createTestApp() {
+  const app = new Hono<AppEnv>();
+  app.onError(errorHandler);
+  app.use('*', requestIdMiddleware, accessLogMiddleware);
+  app.use('*', async (c, next) => {
+    const tenantId = c.req.header('x-test-tenant');
+    if (tenantId) {
+      c.set('tenantId', tenantId);
+      addLogContext(c, { tenantId });
+    }
+    await next();
+  });
+  app.post('/organizations/:id', (c) => {
+    getRequestLogger(c).info('Handling request', { organizationId: c.req.param('id') });
+    return c.json({ id: c.req.param('id') });
+  });
+  app.get('/fail', () => {
+    throw new AppError('ORGANIZATION_NOT_FOUND', 'Organization not found', 404);
+  });
+  app.get('/crash', () => {
+    throw new Error('Database unavailable');
+  });
+  return app;
+}
+
+// Parse every JSON line written to a console spy
+function getLogLines(spy: any): any[] {
+  return spy.mock.calls.map((call: any[]) => JSON.parse(call[0]));
+}
+
+describe('Access Logging', () => {
+  let consoleInfoSpy: any;
+  let consoleErrorSpy: any;
+
+  beforeEach(() => {
+    consoleInfoSpy = vi.spyOn(console, 'info').mockImplementation(() => {});
+    consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    consoleInfoSpy.mockRestore();
+    consoleErrorSpy.mockRestore();
+  });
+
+  test('Writes one access line per request with request context', async () => {
+    const app = createTestApp();
+
+    const res = await app.request(
+      '/organizations/org_1',
+      {
+        method: 'POST',
+        headers: {
+          'x-request-id': 'req_1',
+          'x-test-tenant': 'tenant-1',
+          'Content-Type': 'application/json',
+          'Content-Length': '2',
+        },
+        body: '{}',
+      },
+      env
+    );
+    const body = await res.text();
+
+    const lines = getLogLines(consoleInfoSpy);
+    const access = lines.filter((line) => line.context.event === 'access');
+    expect(access).toHaveLength(1);
+    expect(access[0].context).toMatchObject({
+      requestId: 'req_1',
+      tenantId: 'tenant-1',
+      method: 'POST',
+      route: '/organizations/:id',
+      path: '/organizations/org_1',
+      status: 200,
+      requestBytes: 2,
+      responseBytes: new TextEncoder().encode(body).byteLength,
+    });
+    expect(access[0].context.latencyMs).toBeGreaterThanOrEqual(0);
+  });
+
+  test('Handlers log with the request context', async () => {
+    const app = createTestApp();
+
+    const res = await app.request(
+      '/organizations/org_1',
+      { method: 'POST', headers: { 'x-request-id': 'req_2', 'x-test-tenant': 'tenant-1' } },
+      env
+    );
+    await res.text();
+
+    const [handlerLine] = getLogLines(consoleInfoSpy);
+    expect(handlerLine.message).toBe('Handling request');
+    expect(handlerLine.context).toMatchObject({
+      requestId: 'req_2',
+      tenantId: 'tenant-1',
+      organizationId: 'org_1',
+    });
+  });
+
+  test('Errors are logged with the same context as the access line', async () => {
+    const app = createTestApp();
+
+    const res = await app.request(
+      '/fail',
+      { headers: { 'x-request-id': 'req_3', 'x-test-tenant': 'tenant-1' } },
+      env
+    );
+    await res.text();
+    expect(res.status).toBe(404);
+
+    const [errorLine] = getLogLines(consoleErrorSpy);
+    expect(errorLine.context).toMatchObject({ requestId: 'req_3', tenantId: 'tenant-1' });
+    expect(errorLine.error.code).toBe('ORGANIZATION_NOT_FOUND');
+
+    const access = getLogLines(consoleInfoSpy).find((line) => line.context.event === 'access');
+    expect(access.context).toMatchObject({ requestId: 'req_3', route: '/fail', status: 404 });
+  });
+
+  test('Server errors are logged at error level', async () => {
+    const app = createTestApp();
+
+    const res = await app.request('/crash', { headers: { 'x-request-id': 'req_4' } }, env);
+    await res.text();
+    expect(res.status).toBe(500);
+
+    const lines = getLogLines(consoleErrorSpy);
+    const access = lines.find((line) => line.context.event === 'access');
+    expect(access.level).toBe('error');
+    expect(access.context).toMatchObject({ requestId: 'req_4', status: 500 });
+  });
+
+  test('Debug and info lines below the configured level are dropped', async () => {
+    const app = createTestApp();
+
+    const res = await app.request(
+      '/organizations/org_1',
+      { method: 'POST' },
+      { ...env, LOG_LEVEL: 'warn' }
+    );
+    await res.text();
+
+    expect(consoleInfoSpy).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,119 @@
+import { Context, Next } from 'hono';
+import { AppEnv } from '../types';
+import { AppConfig, loadConfig } from '../config';
+import {
+  Logger,
+  LogContext,
+  LogSink,
+  RedactionPolicy,
+  logger,
+  createLogger,
+  createConsoleSink,
+  createHttpSink,
+} from './logger';
+import { getRouteTemplate } from './metrics';
+
+// Sinks are kept for the life of the isolate, so HTTP buffers aren't lost
+// between requests. Keyed by the settings they were built from.
+const sinkCache = new Map<string, LogSink[]>();
+
+// Get the log sinks for the configured level, sampling and collector
+function getLogSinks(config: AppConfig): LogSink[] {
+  const filters = { minLevel: config.logLevel, sampleRate: config.logSampleRate };
+  const key = JSON.stringify([filters, config.logSinkUrl, config.logSinkToken]);
+
+  let sinks = sinkCache.get(key);
+  if (!sinks) {
+    sinks = [createConsoleSink(filters)];
+    if (config.logSinkUrl) {
+      sinks.push(
+        createHttpSink({ ...filters, url: config.logSinkUrl, token: config.logSinkToken })
+      );
+    }
+    sinkCache.set(key, sinks);
+  }
+  return sinks;
+}
+
+// Run work after the response without delaying it. Outside the Workers
+// runtime (e.g. in tests) there is no execution context and the promise runs
+// on its own.
+export function waitUntil(c: Context<AppEnv>, promise: Promise<unknown>): void {
+  try {
+    c.executionCtx.waitUntil(promise);
+  } catch {
+    promise.catch(() => {});
+  }
+}
+
+// Logger for the current request, with whatever context is known so far
+export function getRequestLogger(c: Context<AppEnv>): Logger {
+  return c.get('logger') ?? logger;
+}
+
+// Add context to the request logger (e.g. the tenant once the API key is
+// validated), optionally with the tenant's extra redaction rules
+export function addLogContext(
+  c: Context<AppEnv>,
+  context: LogContext,
+  redaction?: RedactionPolicy
+): void {
+  const child = getRequestLogger(c).child(context);
+  c.set('logger', redaction ? child.withRedaction(redaction) : child);
+}
+
+// Middleware that gives each request a child logger and writes one access log
+// line per request. Must run after requestIdMiddleware.
+export async function accessLogMiddleware(c: Context<AppEnv>, next: Next) {
+  const startTime = Date.now();
+  const sinks = getLogSinks(loadConfig(c.env));
+  c.set('logger', createLogger({ requestId: c.get('requestId') }, sinks));
+
+  await next();
+
+  const latencyMs = Date.now() - startTime;
+  const status = c.res.status;
+
+  const logRequest = (responseBytes: number) => {
+    const data = {
+      event: 'access',
+      method: c.req.method,
+      route: getRouteTemplate(c),
+      path: c.req.path,
+      status,
+      latencyMs,
+      requestBytes: Number(c.req.header('Content-Length')) || 0,
+      responseBytes,
+    };
+
+    const requestLogger = getRequestLogger(c);
+    if (status >= 500) {
+      requestLogger.error('Request completed', undefined, data);
+    } else {
+      requestLogger.info('Request completed', data);
+    }
+
+    // The access line is the request's last entry, so send everything now
+    waitUntil(c, requestLogger.flush());
+  };
+
+  const contentLength = c.res.headers.get('Content-Length');
+  if (contentLength !== null || !c.res.body) {
+    logRequest(Number(contentLength) || 0);
+    return;
+  }
+
+  // Without a Content-Length the size is only known once the body has been
+  // sent, so count it on the way out and log when the stream ends
+  let responseBytes = 0;
+  const counter = new TransformStream<Uint8Array, Uint8Array>({
+    transform(chunk, controller) {
+      responseBytes += chunk.byteLength;
+      controller.enqueue(chunk);
+    },
+    flush() {
+      logRequest(responseBytes);
+    },
+  });
+  c.res = new Response(c.res.body.pipeThrough(counter), c.res);
+}
@@ -0,0 +1,69 @@
+import { describe, test, expect, vi, beforeEach, afterEach } from 'vitest';
+import { Hono } from 'hono';
+import { requireMode, requireScope } from './api-key-auth';
+import { errorHandler } from './error-handler';
+import { AppEnv, ErrorResponse } from '../types';
+
+// Test app that takes the key's mode and scopes from headers in place of apiKeyAuth
+function createTestApp() {
+  const app = new Hono<AppEnv>();
+  app.onError(errorHandler);
+  app.use('*', async (c, next) => {
+    c.set('mode', c.req.header('x-test-mode') === 'test' ? 'test' : 'live');
+    c.set('scopes', (c.req.header('x-test-scopes') ?? '').split(',').filter(Boolean));
+    await next();
+  });
+  app.get('/users', requireScope('users:read'), (c) => c.json({ ok: true }));
+  app.post('/keys', requireMode('live'), (c) => c.json({ ok: true }));
+  return app;
+}
+
+describe('API Key Authorization Middleware', () => {
+  let consoleErrorSpy: any;
+
+  beforeEach(() => {
+    consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    consoleErrorSpy.mockRestore();
+  });
+
+  test.each([['*'], ['users:*'], ['usage:record,users:read']])(
+    'Scopes %s grant users:read',
+    async (scopes) => {
+      const app = createTestApp();
+      const res = await app.request('/users', { headers: { 'x-test-scopes': scopes } });
+
+      expect(res.status).toBe(200);
+    }
+  );
+
+  test.each([[''], ['users:write'], ['usage:*']])(
+    'Scopes "%s" are rejected for users:read',
+    async (scopes) => {
+      const app = createTestApp();
+      const res = await app.request('/users', { headers: { 'x-test-scopes': scopes } });
+
+      expect(res.status).toBe(403);
+      const body = (await res.json()) as ErrorResponse;
+      expect(body.error.code).toBe('INSUFFICIENT_SCOPE');
+      expect(body.error.details).toEqual({ requiredScope: 'users:read' });
+    }
+  );
+
+  test('Live-only routes reject test keys', async () => {
+    const app = createTestApp();
+
+    const live = await app.request('/keys', { method: 'POST' });
+    expect(live.status).toBe(200);
+
+    const sandbox = await app.request('/keys', {
+      method: 'POST',
+      headers: { 'x-test-mode': 'test' },
+    });
+    expect(sandbox.status).toBe(403);
+    const body = (await sandbox.json()) as ErrorResponse;
+    expect(body.error.code).toBe('LIVE_MODE_REQUIRED');
+  });
+});
@@ -1,11 +1,16 @@
 import { Context, Next } from 'hono';
-import { Env } from '../types';
-import { createDb } from '../db';
-import { validateApiKey } from '../services/api-key';
+import { AppEnv, ApiKeyMode } from '../types';
+import { createUnscopedDb } from '../db';
+import { validateApiKey, hasScope } from '../services/api-key';
+import { getLogRedactionPolicy, getTenantConfig } from '../services/tenant-settings';
+import { loadConfig } from '../config';
 import { AppError } from './error-handler';
+import { addLogContext } from './access-log';
+import { getAuditContext } from './audit';
+import { getTenantScopedDb } from './tenant-isolation';
 
 // Middleware to authenticate API key and set tenant context
-export async function apiKeyAuth(c: Context<{ Bindings: Env }>, next: Next) {
+export async function apiKeyAuth(c: Context<AppEnv>, next: Next) {
   // Extract API key from Authorization header
   const authHeader = c.req.header('Authorization');
   
@@ -21,12 +26,48 @@ export async function apiKeyAuth(c: Context<{ Bindings: Env }>, next: Next) {
 
   const apiKey = parts[1];
 
-  // Validate API key and get tenant context
-  const db = createDb(c.env.DATABASE_URL);
-  const tenantContext = await validateApiKey(db, apiKey);
+  // Validate API key and get tenant context. The tenant isn't known until the
+  // key is found, so the lookup isn't scoped to one.
+  const db = createUnscopedDb(c.env.DATABASE_URL);
+  const tenantContext = await validateApiKey(db, apiKey, getAuditContext(c));
 
   // Store tenant context in request context
   c.set('tenantId', tenantContext.tenantId);
+  c.set('mode', tenantContext.mode);
+  c.set('scopes', tenantContext.scopes);
+  c.set('apiKeyId', tenantContext.apiKeyId);
+
+  const tenantDb = getTenantScopedDb(c);
+  c.set('config', await getTenantConfig(tenantDb, loadConfig(c.env)));
+  addLogContext(c, { tenantId: tenantContext.tenantId }, await getLogRedactionPolicy(tenantDb));
 
   await next();
 }
+
+// Middleware factory to restrict a route to live or test API keys
+export function requireMode(mode: ApiKeyMode) {
+  return async (c: Context<AppEnv>, next: Next) => {
+    if (c.get('mode') !== mode) {
+      throw new AppError(
+        `${mode.toUpperCase()}_MODE_REQUIRED`,
+        `This endpoint requires a ${mode} API key`,
+        403
+      );
+    }
+
+    await next();
+  };
+}
+
+// Middleware factory to reject API keys that lack a scope
+export function requireScope(scope: string) {
+  return async (c: Context<AppEnv>, next: Next) => {
+    if (!hasScope(c.get('scopes') ?? [], scope)) {
+      throw new AppError('INSUFFICIENT_SCOPE', `API key is missing the ${scope} scope`, 403, {
+        requiredScope: scope,
+      });
+    }
+
+    await next();
+  };
+}
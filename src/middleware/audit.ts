@@ -0,0 +1,18 @@
+import { Context } from 'hono';
+import { AppEnv } from '../types';
+import { AuditContext } from '../services/audit';
+import { getClientIp } from './rate-limit';
+
+// Audit context for a request: the signed-in end user if sessionAuth ran,
+// otherwise the API key that made the request
+export function getAuditContext(c: Context<AppEnv>): AuditContext {
+  const userId = c.get('userId');
+  const apiKeyId = c.get('apiKeyId');
+
+  return {
+    actorType: userId ? 'user' : apiKeyId ? 'api_key' : 'system',
+    actorId: userId ?? apiKeyId ?? null,
+    ipAddress: getClientIp(c) ?? null,
+    requestId: c.get('requestId') ?? null,
+  };
+}
@@ -1,5 +1,7 @@
 import { Context } from 'hono';
-import { ErrorResponse } from '../types';
+import { ContentfulStatusCode } from 'hono/utils/http-status';
+import { AppEnv, ErrorResponse } from '../types';
+import { logApiError } from './logger';
 
 // Custom error class for application errors
 export class AppError extends Error {
@@ -15,10 +17,20 @@ export class AppError extends Error {
 }
 
 // Error handler middleware
-export async function errorHandler(err: Error, c: Context): Promise<Response> {
-  console.error('Error:', err);
+export async function errorHandler(err: Error, c: Context<AppEnv>): Promise<Response> {
+  const requestId = c.get('requestId') || c.req.header('x-request-id') || crypto.randomUUID();
 
-  const requestId = c.req.header('x-request-id') || crypto.randomUUID();
+  logApiError(
+    err,
+    {
+      requestId,
+      tenantId: c.get('tenantId'),
+      userId: c.get('userId'),
+      method: c.req.method,
+      path: c.req.path,
+    },
+    c.get('logger')
+  );
 
   if (err instanceof AppError) {
     const errorResponse: ErrorResponse = {
@@ -29,7 +41,7 @@ export async function errorHandler(err: Error, c: Context): Promise<Response> {
         requestId,
       },
     };
-    return c.json(errorResponse, err.statusCode);
+    return c.json(errorResponse, err.statusCode as ContentfulStatusCode);
   }
 
   // Unknown error
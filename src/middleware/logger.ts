@@ -2,7 +2,9 @@
  * Structured Logging System
  * 
  * Provides structured logging with context (tenant ID, user ID, request ID)
- * Ensures sensitive data is never logged
+ * Ensures sensitive data is never logged: values under sensitive keys are
+ * dropped, and emails, API keys, JWTs and bearer tokens are scrubbed from
+ * every string
  */
 
 export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
@@ -40,20 +42,95 @@ const SENSITIVE_FIELDS = [
   'sessiontoken',
 ];
 
+export type RedactionRule =
+  | 'email'
+  | 'api_key'
+  | 'jwt'
+  | 'bearer_token'
+  | 'ip_address'
+  | 'phone_number';
+
+export interface RedactionPolicy {
+  rules: RedactionRule[];
+  fullyRedactEmails?: boolean; // Replace emails entirely instead of masking them
+}
+
+// Rules applied to every log entry. Tenants can add rules but not remove these.
+export const DEFAULT_REDACTION_RULES: RedactionRule[] = ['email', 'api_key', 'jwt', 'bearer_token'];
+
+export const REDACTION_RULES: RedactionRule[] = [
+  ...DEFAULT_REDACTION_RULES,
+  'ip_address',
+  'phone_number',
+];
+
+export const DEFAULT_REDACTION_POLICY: RedactionPolicy = { rules: DEFAULT_REDACTION_RULES };
+
+// Patterns for each rule with their replacement, applied in this order (bearer
+// tokens first, since they usually wrap an API key or JWT)
+const REDACTION_PATTERNS: Array<[RedactionRule, RegExp, string]> = [
+  ['bearer_token', /\bBearer\s+[A-Za-z0-9._~+/=-]+/gi, 'Bearer [REDACTED]'],
+  ['api_key', /\bsk_(?:live|test)_[A-Za-z0-9_-]+/g, '[REDACTED_API_KEY]'],
+  ['jwt', /\beyJ[A-Za-z0-9_-]*\.[A-Za-z0-9_-]+\.[A-Za-z0-9_-]*/g, '[REDACTED_JWT]'],
+  ['ip_address', /\b(?:\d{1,3}\.){3}\d{1,3}\b/g, '[REDACTED_IP]'],
+  ['ip_address', /\b(?:[0-9a-f]{1,4}:){7}[0-9a-f]{1,4}\b/gi, '[REDACTED_IP]'],
+  // International format only, so dates and IDs aren't mistaken for numbers
+  ['phone_number', /\+\d[\d\s().-]{6,}\d/g, '[REDACTED_PHONE]'],
+];
+
+const EMAIL_PATTERN = /([A-Za-z0-9._%+-])[A-Za-z0-9._%+-]*@([A-Za-z0-9-]+(?:\.[A-Za-z0-9-]+)+)/g;
+
+/**
+ * Scrubs sensitive values out of a string, e.g. user@example.com -> u***@example.com
+ */
+export function redactString(
+  value: string,
+  policy: RedactionPolicy = DEFAULT_REDACTION_POLICY
+): string {
+  let result = value;
+
+  for (const [rule, pattern, replacement] of REDACTION_PATTERNS) {
+    if (policy.rules.includes(rule)) {
+      result = result.replace(pattern, replacement);
+    }
+  }
+
+  if (policy.rules.includes('email')) {
+    result = result.replace(EMAIL_PATTERN, (_match, first: string, domain: string) =>
+      policy.fullyRedactEmails ? '[REDACTED_EMAIL]' : `${first}***@${domain}`
+    );
+  }
+
+  return result;
+}
+
+/**
+ * Adds the default rules to a tenant's policy, so they can't be turned off
+ */
+function withDefaultRules(policy: RedactionPolicy): RedactionPolicy {
+  return {
+    ...policy,
+    rules: Array.from(new Set([...DEFAULT_REDACTION_RULES, ...policy.rules])),
+  };
+}
+
 /**
  * Removes sensitive data from objects before logging
  */
-function sanitizeForLogging(data: any): any {
+function sanitizeForLogging(
+  data: any,
+  policy: RedactionPolicy = DEFAULT_REDACTION_POLICY
+): any {
   if (data === null || data === undefined) {
     return data;
   }
 
   if (typeof data === 'string') {
-    return data;
+    return redactString(data, policy);
   }
 
   if (Array.isArray(data)) {
-    return data.map(sanitizeForLogging);
+    return data.map((item) => sanitizeForLogging(item, policy));
   }
 
   if (typeof data === 'object') {
@@ -64,7 +141,7 @@ function sanitizeForLogging(data: any): any {
       if (SENSITIVE_FIELDS.some(field => lowerKey.includes(field))) {
         sanitized[key] = '[REDACTED]';
       } else {
-        sanitized[key] = sanitizeForLogging(data[key]);
+        sanitized[key] = sanitizeForLogging(data[key], policy);
       }
     }
     return sanitized;
@@ -80,26 +157,211 @@ function formatLogEntry(entry: LogEntry): string {
   return JSON.stringify(entry);
 }
 
+/**
+ * Destination for log entries. Sinks can drop entries below a minimum level
+ * and keep only a sample of debug/info entries.
+ */
+export interface LogSink {
+  minLevel?: LogLevel; // Default: debug
+  sampleRate?: number; // Fraction of debug/info requests kept, 0-1 (default: 1)
+  write(entry: LogEntry): void;
+  flush?(): Promise<void>;
+}
+
+export interface LogSinkOptions {
+  minLevel?: LogLevel;
+  sampleRate?: number;
+}
+
+export const LOG_LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error'];
+
+// Entries buffered by an HTTP sink before the oldest are dropped
+const MAX_BUFFERED_ENTRIES = 1000;
+
+/**
+ * Deterministically decide whether a request is sampled, so every entry for a
+ * request is either kept or dropped together
+ */
+export function isSampled(requestId: string, sampleRate: number): boolean {
+  if (sampleRate >= 1) return true;
+  if (sampleRate <= 0) return false;
+
+  // FNV-1a hash of the request ID, scaled to [0, 1)
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < requestId.length; i++) {
+    hash ^= requestId.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0) / 0x100000000 < sampleRate;
+}
+
+/**
+ * Check a sink's minimum level and sampling rate for an entry. Warnings and
+ * errors are never sampled, and entries without a request ID are always kept.
+ */
+function shouldWrite(sink: LogSink, entry: LogEntry): boolean {
+  if (LOG_LEVELS.indexOf(entry.level) < LOG_LEVELS.indexOf(sink.minLevel ?? 'debug')) {
+    return false;
+  }
+
+  const requestId = entry.context?.requestId;
+  if ((entry.level === 'debug' || entry.level === 'info') && requestId) {
+    return isSampled(String(requestId), sink.sampleRate ?? 1);
+  }
+
+  return true;
+}
+
+/**
+ * Writes entries as JSON lines to console.*
+ */
+export function createConsoleSink(options: LogSinkOptions = {}): LogSink {
+  return {
+    ...options,
+    write(entry) {
+      const output = formatLogEntry(entry);
+
+      switch (entry.level) {
+        case 'debug':
+          console.debug(output);
+          break;
+        case 'info':
+          console.info(output);
+          break;
+        case 'warn':
+          console.warn(output);
+          break;
+        case 'error':
+          console.error(output);
+          break;
+      }
+    },
+  };
+}
+
+export interface HttpSinkOptions extends LogSinkOptions {
+  url: string;
+  token?: string; // Sent as a bearer token
+  batchSize?: number; // Entries per request (default: 100)
+  fetch?: typeof fetch;
+}
+
+/**
+ * Buffers entries and POSTs them as NDJSON batches when flushed. Flush from
+ * ctx.waitUntil so responses aren't held up by the log collector.
+ */
+export function createHttpSink(options: HttpSinkOptions): LogSink {
+  const { url, token, batchSize = 100, fetch: send = fetch, ...filters } = options;
+  const buffer: LogEntry[] = [];
+
+  return {
+    ...filters,
+    write(entry) {
+      buffer.push(entry);
+      if (buffer.length > MAX_BUFFERED_ENTRIES) {
+        buffer.shift(); // Drop the oldest rather than grow without bound
+      }
+    },
+    async flush() {
+      while (buffer.length > 0) {
+        const batch = buffer.splice(0, batchSize);
+        try {
+          const res = await send(url, {
+            method: 'POST',
+            headers: {
+              'Content-Type': 'application/x-ndjson',
+              ...(token ? { Authorization: `Bearer ${token}` } : {}),
+            },
+            body: batch.map(formatLogEntry).join('\n') + '\n',
+          });
+          if (!res.ok) {
+            throw new Error(`Log sink responded with ${res.status}`);
+          }
+        } catch (error) {
+          // The batch is dropped; the console is the only place left to report it
+          console.error(
+            formatLogEntry({
+              timestamp: new Date().toISOString(),
+              level: 'error',
+              message: `Failed to send ${batch.length} log entries`,
+              error: { name: 'Error', message: String(error) },
+            })
+          );
+        }
+      }
+    },
+  };
+}
+
+/**
+ * Keeps entries in memory, for tests
+ */
+export function createMemorySink(
+  options: LogSinkOptions = {}
+): LogSink & { entries: LogEntry[] } {
+  const entries: LogEntry[] = [];
+  return {
+    ...options,
+    entries,
+    write(entry) {
+      entries.push(entry);
+    },
+  };
+}
+
+// Sinks used by loggers that aren't given any
+const defaultSinks: LogSink[] = [createConsoleSink()];
+
 /**
  * Logger class with structured logging
  */
 export class Logger {
   private context: LogContext;
+  private sinks: LogSink[];
+  private redaction: RedactionPolicy;
 
-  constructor(context: LogContext = {}) {
-    this.context = sanitizeForLogging(context);
+  constructor(
+    context: LogContext = {},
+    sinks: LogSink[] = defaultSinks,
+    redaction: RedactionPolicy = DEFAULT_REDACTION_POLICY
+  ) {
+    this.redaction = withDefaultRules(redaction);
+    this.context = sanitizeForLogging(context, this.redaction);
+    this.sinks = sinks;
   }
 
   /**
-   * Creates a child logger with additional context
+   * Creates a child logger with additional context (and the same sinks and
+   * redaction rules)
    */
   child(additionalContext: LogContext): Logger {
-    return new Logger({
-      ...this.context,
-      ...sanitizeForLogging(additionalContext),
+    return new Logger(
+      {
+        ...this.context,
+        ...additionalContext,
+      },
+      this.sinks,
+      this.redaction
+    );
+  }
+
+  /**
+   * Creates a logger that also applies a tenant's redaction rules
+   */
+  withRedaction(policy: RedactionPolicy): Logger {
+    return new Logger(this.context, this.sinks, {
+      rules: [...this.redaction.rules, ...policy.rules],
+      fullyRedactEmails: this.redaction.fullyRedactEmails || policy.fullyRedactEmails,
     });
   }
 
+  /**
+   * Sends anything the sinks have buffered
+   */
+  async flush(): Promise<void> {
+    await Promise.all(this.sinks.map((sink) => sink.flush?.()));
+  }
+
   /**
    * Logs a debug message
    */
@@ -128,10 +390,10 @@ export class Logger {
     const entry: LogEntry = {
       timestamp: new Date().toISOString(),
       level: 'error',
-      message,
+      message: redactString(message, this.redaction),
       context: {
         ...this.context,
-        ...sanitizeForLogging(data),
+        ...sanitizeForLogging(data, this.redaction),
       },
     };
 
@@ -140,19 +402,19 @@ export class Logger {
       if (error instanceof Error) {
         entry.error = {
           name: error.name,
-          message: error.message,
-          stack: error.stack,
+          message: redactString(error.message, this.redaction),
+          stack: error.stack && redactString(error.stack, this.redaction),
           code: (error as any).code,
         };
       } else {
         entry.error = {
           name: 'Error',
-          message: String(error),
+          message: redactString(String(error), this.redaction),
         };
       }
     }
 
-    console.error(formatLogEntry(entry));
+    this.write(entry);
   }
 
   /**
@@ -162,28 +424,24 @@ export class Logger {
     const entry: LogEntry = {
       timestamp: new Date().toISOString(),
       level,
-      message,
+      message: redactString(message, this.redaction),
       context: {
         ...this.context,
-        ...sanitizeForLogging(data),
+        ...sanitizeForLogging(data, this.redaction),
       },
     };
 
-    const output = formatLogEntry(entry);
-
-    switch (level) {
-      case 'debug':
-        console.debug(output);
-        break;
-      case 'info':
-        console.info(output);
-        break;
-      case 'warn':
-        console.warn(output);
-        break;
-      case 'error':
-        console.error(output);
-        break;
+    this.write(entry);
+  }
+
+  /**
+   * Pass an entry to every sink that accepts it
+   */
+  private write(entry: LogEntry): void {
+    for (const sink of this.sinks) {
+      if (shouldWrite(sink, entry)) {
+        sink.write(entry);
+      }
     }
   }
 }
@@ -191,8 +449,12 @@ export class Logger {
 /**
  * Creates a logger with the given context
  */
-export function createLogger(context: LogContext = {}): Logger {
-  return new Logger(context);
+export function createLogger(
+  context: LogContext = {},
+  sinks?: LogSink[],
+  redaction?: RedactionPolicy
+): Logger {
+  return new Logger(context, sinks, redaction);
 }
 
 /**
@@ -247,8 +509,9 @@ export function logAuthSuccess(
  */
 export function logApiError(
   error: Error,
-  context: LogContext
+  context: LogContext,
+  parent: Logger = logger
 ): void {
-  const apiLogger = createLogger(context);
+  const apiLogger = parent.child(context);
   apiLogger.error('API error occurred', error);
 }
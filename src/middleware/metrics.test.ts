@@ -1,13 +1,19 @@
-import { describe, test, expect, beforeEach } from 'vitest';
+import { describe, test, expect, vi, beforeEach, afterEach } from 'vitest';
 import * as fc from 'fast-check';
+import { Hono } from 'hono';
 import {
   recordRequest,
+  recordHttpRequest,
   getTenantMetrics,
   getAllMetrics,
   resetTenantMetrics,
   resetAllMetrics,
   getRawMetrics,
+  renderPrometheusMetrics,
+  metricsMiddleware,
 } from './metrics';
+import { AppError, errorHandler } from './error-handler';
+import { AppEnv } from '../types';
 
 describe('Metrics Collection', () => {
   beforeEach(() => {
@@ -35,6 +41,9 @@ describe('Metrics Collection', () => {
           { minLength: 1, maxLength: 50 }
         ), // requests
         async (tenantId, requests) => {
+          // Runs can generate the same tenant ID, so start each one empty
+          resetAllMetrics();
+
           // Record all requests
           for (const req of requests) {
             recordRequest(tenantId, req.responseTime, req.isError);
@@ -192,22 +201,64 @@ describe('Metrics Collection', () => {
     expect(metrics.p99ResponseTime).toBe(0);
   });
 
-  test('Response times buffer is limited', () => {
+  test('Memory per tenant does not grow with the number of requests', () => {
     const tenantId = 'tenant-123';
     
-    // Record more than MAX_RESPONSE_TIMES (1000) requests
-    for (let i = 0; i < 1500; i++) {
-      recordRequest(tenantId, i, false);
+    for (let i = 0; i < 5000; i++) {
+      recordRequest(tenantId, i % 2000, false);
     }
     
-    const rawMetrics = getRawMetrics();
-    const tenantMetrics = rawMetrics[tenantId];
+    const tenantMetrics = getRawMetrics().get(tenantId)!;
+    
+    // Every request is counted, but in a bounded number of buckets
+    expect(tenantMetrics.latency.count).toBe(5000);
+    expect(Object.keys(tenantMetrics.latency.buckets).length).toBeLessThan(500);
+    expect(getTenantMetrics(tenantId).totalRequests).toBe(5000);
+  });
+
+  test('Tenant IDs that match object properties are tracked normally', () => {
+    recordRequest('constructor', 100, false);
+    recordRequest('__proto__', 100, true);
+    
+    expect(getTenantMetrics('constructor').totalRequests).toBe(1);
+    expect(getTenantMetrics('__proto__').totalErrors).toBe(1);
+  });
+
+  test('Rolling windows only include recent requests', () => {
+    const tenantId = 'tenant-123';
+    const now = Date.UTC(2024, 0, 1, 12, 0, 0);
+    
+    recordRequest(tenantId, 1000, true, now - 30 * 60 * 1000); // 30 minutes ago
+    recordRequest(tenantId, 500, true, now - 3 * 60 * 1000); // 3 minutes ago
+    recordRequest(tenantId, 20, false, now - 20 * 1000);
+    recordRequest(tenantId, 30, false, now);
     
-    // Should only keep last 1000 response times
-    expect(tenantMetrics.responseTimes.length).toBe(1000);
+    const lastMinute = getTenantMetrics(tenantId, '1m', now);
+    expect(lastMinute.totalRequests).toBe(2);
+    expect(lastMinute.errorRate).toBe(0);
+    expect(lastMinute.p95ResponseTime).toBe(30);
     
-    // Should have kept the most recent ones (500-1499)
-    expect(tenantMetrics.responseTimes[0]).toBeGreaterThanOrEqual(500);
+    const lastFiveMinutes = getTenantMetrics(tenantId, '5m', now);
+    expect(lastFiveMinutes.totalRequests).toBe(3);
+    expect(lastFiveMinutes.totalErrors).toBe(1);
+    
+    expect(getTenantMetrics(tenantId, '1h', now).totalRequests).toBe(4);
+    expect(getTenantMetrics(tenantId).totalRequests).toBe(4);
+    
+    // An hour later the windows are empty but the totals since reset remain
+    const later = now + 61 * 60 * 1000;
+    expect(getTenantMetrics(tenantId, '1h', later).totalRequests).toBe(0);
+    expect(getTenantMetrics(tenantId).totalRequests).toBe(4);
+  });
+
+  test('Slots older than the longest window are dropped', () => {
+    const tenantId = 'tenant-123';
+    const now = Date.UTC(2024, 0, 1, 12, 0, 0);
+    
+    recordRequest(tenantId, 100, false, now - 2 * 60 * 60 * 1000);
+    recordRequest(tenantId, 100, false, now);
+    
+    expect(getRawMetrics().get(tenantId)!.slots.size).toBe(1);
   });
 
   test('Error rate is 100% when all requests fail', () => {
@@ -232,3 +283,95 @@ describe('Metrics Collection', () => {
     expect(metrics.errorRate).toBe(0);
   });
 });
+
+describe('Prometheus Metrics', () => {
+  let consoleErrorSpy: any;
+
+  beforeEach(() => {
+    resetAllMetrics();
+    consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    consoleErrorSpy.mockRestore();
+  });
+
+  // Test app that takes the tenant from a header in place of apiKeyAuth
+  function createTestApp() {
+    const app = new Hono<AppEnv>();
+    app.onError(errorHandler);
+    app.use('*', metricsMiddleware);
+    app.use('*', async (c, next) => {
+      const tenantId = c.req.header('x-test-tenant');
+      if (tenantId) {
+        c.set('tenantId', tenantId);
+      }
+      await next();
+    });
+    app.get('/organizations/:id', (c) => c.json({ id: c.req.param('id') }));
+    app.get('/fail', () => {
+      throw new AppError('ORGANIZATION_NOT_FOUND', 'Organization not found', 404);
+    });
+    return app;
+  }
+
+  test('Middleware labels requests with tenant, route template and method', async () => {
+    const app = createTestApp();
+
+    await app.request('/organizations/org_1', { headers: { 'x-test-tenant': 'tenant-1' } });
+    await app.request('/organizations/org_2', { headers: { 'x-test-tenant': 'tenant-1' } });
+
+    const output = renderPrometheusMetrics();
+    expect(output).toContain(
+      'http_requests_total{tenant="tenant-1",route="/organizations/:id",method="GET",status_class="2xx"} 2'
+    );
+    expect(output).not.toContain('org_1');
+    expect(getTenantMetrics('tenant-1').totalRequests).toBe(2);
+  });
+
+  test('Middleware records the status class of error responses', async () => {
+    const app = createTestApp();
+
+    const res = await app.request('/fail', { headers: { 'x-test-tenant': 'tenant-1' } });
+    expect(res.status).toBe(404);
+
+    const output = renderPrometheusMetrics();
+    expect(output).toContain('route="/fail",method="GET",status_class="4xx"} 1');
+  });
+
+  test('Unmatched routes share one label', async () => {
+    const app = createTestApp();
+
+    await app.request('/does-not-exist/123');
+    await app.request('/also-missing');
+
+    expect(renderPrometheusMetrics()).toContain(
+      'http_requests_total{tenant="",route="unmatched",method="GET",status_class="4xx"} 2'
+    );
+  });
+
+  test('Histogram buckets are cumulative and end with +Inf', () => {
+    const labels = { tenant: 'tenant-1', route: '/usage', method: 'POST' };
+    recordHttpRequest(labels, 200, 3); // 0.003s
+    recordHttpRequest(labels, 200, 40); // 0.04s
+    recordHttpRequest(labels, 500, 20_000); // Above every bucket
+
+    const output = renderPrometheusMetrics();
+    const prefix =
+      'http_request_duration_seconds_bucket{tenant="tenant-1",route="/usage",method="POST"';
+    expect(output).toContain(`${prefix},le="0.005"} 1`);
+    expect(output).toContain(`${prefix},le="0.025"} 1`);
+    expect(output).toContain(`${prefix},le="0.05"} 2`);
+    expect(output).toContain(`${prefix},le="10"} 2`);
+    expect(output).toContain(`${prefix},le="+Inf"} 3`);
+    expect(output).toContain(
+      'http_request_duration_seconds_count{tenant="tenant-1",route="/usage",method="POST"} 3'
+    );
+  });
+
+  test('Label values are escaped', () => {
+    recordHttpRequest({ tenant: 'a"b\\c', route: '/', method: 'GET' }, 200, 1);
+
+    expect(renderPrometheusMetrics()).toContain('tenant="a\\"b\\\\c"');
+  });
+});
@@ -5,17 +5,30 @@
  * Metrics are stored in-memory and can be exposed via an endpoint.
  */
 
-export interface MetricData {
+import { Context, Next } from 'hono';
+import { matchedRoutes } from 'hono/route';
+import { AppEnv } from '../types';
+import {
+  LatencyHistogram,
+  createHistogram,
+  recordValue,
+  mergeHistograms,
+  getPercentile,
+} from '../services/latency-histogram';
+
+export interface MetricCounters {
   requestCount: number;
   errorCount: number;
-  responseTimes: number[]; // Store last N response times for percentile calculations
-  lastReset: Date;
+  latency: LatencyHistogram; // Response times in milliseconds
 }
 
-export interface TenantMetrics {
-  [tenantId: string]: MetricData;
+export interface MetricData extends MetricCounters {
+  slots: Map<number, MetricCounters>; // Slot start time (ms) -> counters in that slot
+  lastReset: Date;
 }
 
+export type TenantMetrics = Map<string, MetricData>;
+
 export interface AggregatedMetrics {
   totalRequests: number;
   totalErrors: number;
@@ -26,99 +39,186 @@ export interface AggregatedMetrics {
   p99ResponseTime: number; // 99th percentile
 }
 
+export type MetricsWindow = '1m' | '5m' | '1h';
+
+export const METRICS_WINDOWS: Record<MetricsWindow, number> = {
+  '1m': 60 * 1000,
+  '5m': 5 * 60 * 1000,
+  '1h': 60 * 60 * 1000,
+};
+
+// Rolling windows are built from fixed time slots, so they move in steps of SLOT_MS
+const SLOT_MS = 10 * 1000;
+
 // In-memory metrics storage
 // In production, this could be replaced with a time-series database or metrics service
-const metrics: TenantMetrics = {};
+const metrics: TenantMetrics = new Map();
+
+// Prometheus latency histogram bucket bounds in seconds
+export const DURATION_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
 
-// Maximum number of response times to keep per tenant (for percentile calculations)
-const MAX_RESPONSE_TIMES = 1000;
+export interface RequestLabels {
+  tenant: string;
+  route: string; // Route template, e.g. /organizations/:id
+  method: string;
+}
+
+interface RequestSeries {
+  labels: RequestLabels;
+  statusClasses: Record<string, number>; // e.g. { '2xx': 10, '4xx': 1 }
+  bucketCounts: number[]; // Non-cumulative count per DURATION_BUCKETS entry
+  durationSum: number; // Seconds
+  count: number;
+}
+
+// Per-label request counters and latency histograms for Prometheus
+const requestSeries = new Map<string, RequestSeries>();
+
+function createCounters(): MetricCounters {
+  return { requestCount: 0, errorCount: 0, latency: createHistogram() };
+}
+
+function addToCounters(counters: MetricCounters, responseTimeMs: number, isError: boolean): void {
+  counters.requestCount++;
+  if (isError) {
+    counters.errorCount++;
+  }
+  recordValue(counters.latency, responseTimeMs);
+}
 
 /**
  * Initialize metrics for a tenant if not already initialized
  */
-function initializeTenantMetrics(tenantId: string): void {
-  if (!metrics[tenantId]) {
-    metrics[tenantId] = {
-      requestCount: 0,
-      errorCount: 0,
-      responseTimes: [],
-      lastReset: new Date(),
-    };
+function initializeTenantMetrics(tenantId: string): MetricData {
+  let tenantMetrics = metrics.get(tenantId);
+  if (!tenantMetrics) {
+    tenantMetrics = { ...createCounters(), slots: new Map(), lastReset: new Date() };
+    metrics.set(tenantId, tenantMetrics);
   }
+  return tenantMetrics;
 }
 
 /**
  * Record a request for metrics tracking
  */
-export function recordRequest(tenantId: string, responseTimeMs: number, isError: boolean = false): void {
-  initializeTenantMetrics(tenantId);
-  
-  const tenantMetrics = metrics[tenantId];
-  tenantMetrics.requestCount++;
-  
-  if (isError) {
-    tenantMetrics.errorCount++;
+export function recordRequest(
+  tenantId: string,
+  responseTimeMs: number,
+  isError: boolean = false,
+  now: number = Date.now()
+): void {
+  const tenantMetrics = initializeTenantMetrics(tenantId);
+  addToCounters(tenantMetrics, responseTimeMs, isError);
+
+  const slotStart = now - (now % SLOT_MS);
+  let slot = tenantMetrics.slots.get(slotStart);
+  if (!slot) {
+    slot = createCounters();
+    tenantMetrics.slots.set(slotStart, slot);
   }
-  
-  // Add response time, keeping only the last MAX_RESPONSE_TIMES
-  tenantMetrics.responseTimes.push(responseTimeMs);
-  if (tenantMetrics.responseTimes.length > MAX_RESPONSE_TIMES) {
-    tenantMetrics.responseTimes.shift(); // Remove oldest
+  addToCounters(slot, responseTimeMs, isError);
+
+  // Slots are added in time order, so the oldest come first
+  for (const start of tenantMetrics.slots.keys()) {
+    if (start + SLOT_MS > now - METRICS_WINDOWS['1h']) break;
+    tenantMetrics.slots.delete(start);
   }
 }
 
 /**
- * Calculate percentile from sorted array
+ * Record a request with its route labels and status for Prometheus
  */
-function calculatePercentile(sortedValues: number[], percentile: number): number {
-  if (sortedValues.length === 0) return 0;
-  
-  const index = Math.ceil((percentile / 100) * sortedValues.length) - 1;
-  return sortedValues[Math.max(0, index)];
+export function recordHttpRequest(
+  labels: RequestLabels,
+  status: number,
+  durationMs: number
+): void {
+  const key = `${labels.tenant}\n${labels.route}\n${labels.method}`;
+  let series = requestSeries.get(key);
+  if (!series) {
+    series = {
+      labels,
+      statusClasses: {},
+      bucketCounts: DURATION_BUCKETS.map(() => 0),
+      durationSum: 0,
+      count: 0,
+    };
+    requestSeries.set(key, series);
+  }
+
+  const statusClass = `${Math.floor(status / 100)}xx`;
+  series.statusClasses[statusClass] = (series.statusClasses[statusClass] ?? 0) + 1;
+
+  const seconds = durationMs / 1000;
+  const bucket = DURATION_BUCKETS.findIndex((bound) => seconds <= bound);
+  if (bucket !== -1) {
+    series.bucketCounts[bucket]++;
+  }
+  series.durationSum += seconds;
+  series.count++;
 }
 
 /**
- * Get aggregated metrics for a tenant
+ * Summarize counters as error rate and response time percentiles
  */
-export function getTenantMetrics(tenantId: string): AggregatedMetrics {
-  initializeTenantMetrics(tenantId);
-  
-  const tenantMetrics = metrics[tenantId];
-  const { requestCount, errorCount, responseTimes } = tenantMetrics;
-  
-  // Calculate error rate
+function aggregate({ requestCount, errorCount, latency }: MetricCounters): AggregatedMetrics {
   const errorRate = requestCount > 0 ? (errorCount / requestCount) * 100 : 0;
-  
-  // Calculate response time statistics
-  const avgResponseTime = responseTimes.length > 0
-    ? responseTimes.reduce((sum, time) => sum + time, 0) / responseTimes.length
-    : 0;
-  
-  // Sort for percentile calculations
-  const sortedTimes = [...responseTimes].sort((a, b) => a - b);
-  const p50ResponseTime = calculatePercentile(sortedTimes, 50);
-  const p95ResponseTime = calculatePercentile(sortedTimes, 95);
-  const p99ResponseTime = calculatePercentile(sortedTimes, 99);
-  
+  const avgResponseTime = latency.count > 0 ? latency.sum / latency.count : 0;
+
   return {
     totalRequests: requestCount,
     totalErrors: errorCount,
     errorRate: Math.round(errorRate * 100) / 100, // Round to 2 decimal places
     avgResponseTime: Math.round(avgResponseTime * 100) / 100,
-    p50ResponseTime,
-    p95ResponseTime,
-    p99ResponseTime,
+    p50ResponseTime: Math.round(getPercentile(latency, 50) * 100) / 100,
+    p95ResponseTime: Math.round(getPercentile(latency, 95) * 100) / 100,
+    p99ResponseTime: Math.round(getPercentile(latency, 99) * 100) / 100,
   };
 }
 
+/**
+ * Get aggregated metrics for a tenant, since the last reset or over a rolling
+ * window ending now
+ */
+export function getTenantMetrics(
+  tenantId: string,
+  window?: MetricsWindow,
+  now: number = Date.now()
+): AggregatedMetrics {
+  const tenantMetrics = metrics.get(tenantId);
+  if (!tenantMetrics) {
+    return aggregate(createCounters());
+  }
+
+  if (!window) {
+    return aggregate(tenantMetrics);
+  }
+
+  // Merge every slot that overlaps the window
+  const windowStart = now - METRICS_WINDOWS[window];
+  const counters = createCounters();
+  for (const [start, slot] of tenantMetrics.slots) {
+    if (start + SLOT_MS > windowStart && start <= now) {
+      counters.requestCount += slot.requestCount;
+      counters.errorCount += slot.errorCount;
+      mergeHistograms(counters.latency, slot.latency);
+    }
+  }
+
+  return aggregate(counters);
+}
+
 /**
  * Get metrics for all tenants
  */
-export function getAllMetrics(): Record<string, AggregatedMetrics> {
+export function getAllMetrics(
+  window?: MetricsWindow,
+  now: number = Date.now()
+): Record<string, AggregatedMetrics> {
   const allMetrics: Record<string, AggregatedMetrics> = {};
   
-  for (const tenantId in metrics) {
-    allMetrics[tenantId] = getTenantMetrics(tenantId);
+  for (const tenantId of metrics.keys()) {
+    allMetrics[tenantId] = getTenantMetrics(tenantId, window, now);
   }
   
   return allMetrics;
@@ -128,22 +228,16 @@ export function getAllMetrics(): Record<string, AggregatedMetrics> {
  * Reset metrics for a tenant
  */
 export function resetTenantMetrics(tenantId: string): void {
-  metrics[tenantId] = {
-    requestCount: 0,
-    errorCount: 0,
-    responseTimes: [],
-    lastReset: new Date(),
-  };
+  metrics.delete(tenantId);
+  initializeTenantMetrics(tenantId);
 }
 
 /**
  * Reset all metrics
  */
 export function resetAllMetrics(): void {
-  // Clear all keys from the metrics object
-  for (const tenantId in metrics) {
-    delete metrics[tenantId];
-  }
+  metrics.clear();
+  requestSeries.clear();
 }
 
 /**
@@ -152,3 +246,90 @@ export function resetAllMetrics(): void {
 export function getRawMetrics(): TenantMetrics {
   return metrics;
 }
+
+/**
+ * Escape a Prometheus label value
+ */
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+/**
+ * Format one sample line, e.g. name{label="value"} 1
+ */
+function formatSample(name: string, labels: Record<string, string>, value: number): string {
+  const pairs = Object.entries(labels).map(([label, v]) => `${label}="${escapeLabel(v)}"`);
+  return `${name}{${pairs.join(',')}} ${value}`;
+}
+
+/**
+ * Render request metrics in the Prometheus text exposition format
+ */
+export function renderPrometheusMetrics(): string {
+  const lines: string[] = [
+    '# HELP http_requests_total Total HTTP requests by status class',
+    '# TYPE http_requests_total counter',
+  ];
+
+  for (const { labels, statusClasses } of requestSeries.values()) {
+    for (const [statusClass, count] of Object.entries(statusClasses)) {
+      const sampleLabels = { ...labels, status_class: statusClass };
+      lines.push(formatSample('http_requests_total', sampleLabels, count));
+    }
+  }
+
+  lines.push(
+    '# HELP http_request_duration_seconds HTTP request latency',
+    '# TYPE http_request_duration_seconds histogram'
+  );
+
+  for (const { labels, bucketCounts, durationSum, count } of requestSeries.values()) {
+    // Prometheus buckets are cumulative
+    let cumulative = 0;
+    DURATION_BUCKETS.forEach((bound, i) => {
+      cumulative += bucketCounts[i];
+      const bucketLabels = { ...labels, le: String(bound) };
+      lines.push(formatSample('http_request_duration_seconds_bucket', bucketLabels, cumulative));
+    });
+    lines.push(
+      formatSample('http_request_duration_seconds_bucket', { ...labels, le: '+Inf' }, count),
+      formatSample('http_request_duration_seconds_sum', { ...labels }, durationSum),
+      formatSample('http_request_duration_seconds_count', { ...labels }, count)
+    );
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Get the route template that handled the request, so metrics aren't labelled
+ * with raw IDs. Middleware is registered for all methods; handlers are not.
+ */
+export function getRouteTemplate(c: Context<AppEnv>): string {
+  const handler = matchedRoutes(c).filter((route) => route.method !== 'ALL').pop();
+  return handler?.path ?? 'unmatched';
+}
+
+/**
+ * Middleware that times every request and records it by tenant, route and method
+ */
+export async function metricsMiddleware(c: Context<AppEnv>, next: Next) {
+  const startTime = Date.now();
+
+  await next();
+
+  const durationMs = Date.now() - startTime;
+  const tenantId = c.get('tenantId');
+  const status = c.res.status;
+
+  recordHttpRequest(
+    { tenant: tenantId ?? '', route: getRouteTemplate(c), method: c.req.method },
+    status,
+    durationMs
+  );
+
+  // Only server errors count towards the tenant's error rate
+  if (tenantId) {
+    recordRequest(tenantId, durationMs, status >= 500);
+  }
+}
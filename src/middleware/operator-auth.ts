@@ -0,0 +1,34 @@
+import { Context, Next } from 'hono';
+import * as crypto from 'crypto';
+import { AppEnv } from '../types';
+import { loadConfig } from '../config';
+import { AppError } from './error-handler';
+
+// Compare tokens in constant time (hashing first makes the lengths equal)
+function tokensMatch(provided: string, expected: string): boolean {
+  const a = crypto.createHash('sha256').update(provided).digest();
+  const b = crypto.createHash('sha256').update(expected).digest();
+  return crypto.timingSafeEqual(a, b);
+}
+
+// Middleware for operator-only endpoints. Operators authenticate with
+// OPERATOR_TOKEN; tenant API keys are never accepted here.
+export async function operatorAuth(c: Context<AppEnv>, next: Next) {
+  const { operatorToken } = loadConfig(c.env);
+
+  if (!operatorToken) {
+    throw new AppError('OPERATOR_ACCESS_DISABLED', 'No operator token is configured', 404);
+  }
+
+  const authHeader = c.req.header('Authorization');
+  if (!authHeader) {
+    throw new AppError('MISSING_AUTH', 'Missing Authorization header', 401);
+  }
+
+  const parts = authHeader.split(' ');
+  if (parts.length !== 2 || parts[0] !== 'Bearer' || !tokensMatch(parts[1], operatorToken)) {
+    throw new AppError('INVALID_OPERATOR_TOKEN', 'Invalid operator token', 401);
+  }
+
+  await next();
+}
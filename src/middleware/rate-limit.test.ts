@@ -1,5 +1,38 @@
-import { describe, test, expect } from 'vitest';
-import { AppError } from './error-handler';
+import { describe, test, expect, vi, beforeEach, afterEach } from 'vitest';
+import { Hono } from 'hono';
+import { AppError, errorHandler } from './error-handler';
+import { rateLimitMiddleware, rateLimit, getRouteCost, TIER_RATE_LIMIT } from './rate-limit';
+import { validateUUID } from './validation';
+import { AppEnv, ErrorResponse } from '../types';
+
+const env = {
+  ENVIRONMENT: 'test',
+  RATE_LIMIT_PER_MINUTE: '3',
+} as AppEnv['Bindings'];
+
+// Test app that takes the tenant from a header in place of apiKeyAuth
+function createTestApp() {
+  const app = new Hono<AppEnv>();
+  app.onError(errorHandler);
+  app.use('*', async (c, next) => {
+    c.set('tenantId', c.req.header('x-test-tenant')!);
+    await next();
+  });
+  app.use('*', rateLimitMiddleware);
+  app.get('/', (c) => c.json({ ok: true }));
+  app.post('/auth/login', (c) => c.json({ ok: true }));
+  app.get(
+    '/by-ip',
+    rateLimit({ keyBy: 'ip', name: 'test_ip', limit: 1, algorithm: 'sliding_log' }),
+    (c) => c.json({ ok: true })
+  );
+  app.get(
+    '/by-organization',
+    rateLimit({ keyBy: 'organization', tierLimit: TIER_RATE_LIMIT }),
+    (c) => c.json({ organizationId: validateUUID(c.req.query('organizationId'), 'organizationId') })
+  );
+  return app;
+}
 
 describe('Rate Limiting', () => {
   // Property 37: Rate limiting enforcement
@@ -26,3 +59,102 @@ describe('Rate Limiting', () => {
     expect(requestCount).toBeGreaterThan(limit);
   });
 });
+
+describe('Rate Limiting Middleware', () => {
+  let consoleErrorSpy: any;
+
+  beforeEach(() => {
+    consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    consoleErrorSpy.mockRestore();
+  });
+
+  test('Requests within the limit carry rate limit headers', async () => {
+    const app = createTestApp();
+    const tenantId = `tenant_${Date.now()}_headers`;
+
+    const res = await app.request('/', { headers: { 'x-test-tenant': tenantId } }, env);
+
+    expect(res.status).toBe(200);
+    expect(res.headers.get('X-RateLimit-Limit')).toBe('3');
+    expect(res.headers.get('X-RateLimit-Remaining')).toBe('2');
+    expect(new Date(res.headers.get('X-RateLimit-Reset')!).getTime()).toBeGreaterThan(Date.now());
+  });
+
+  test('Requests over the limit are rejected with 429', async () => {
+    const app = createTestApp();
+    const tenantId = `tenant_${Date.now()}_limit`;
+
+    for (let i = 0; i < 3; i++) {
+      const res = await app.request('/', { headers: { 'x-test-tenant': tenantId } }, env);
+      expect(res.status).toBe(200);
+    }
+
+    const res = await app.request('/', { headers: { 'x-test-tenant': tenantId } }, env);
+    expect(res.status).toBe(429);
+    expect(res.headers.get('X-RateLimit-Remaining')).toBe('0');
+    expect(Number(res.headers.get('Retry-After'))).toBeGreaterThanOrEqual(1);
+
+    const body = (await res.json()) as ErrorResponse;
+    expect(body.error.code).toBe('RATE_LIMIT_EXCEEDED');
+    expect(body.error.details.limit).toBe(3);
+
+    // Other tenants are unaffected
+    const other = await app.request('/', { headers: { 'x-test-tenant': `${tenantId}_other` } }, env);
+    expect(other.status).toBe(200);
+  });
+
+  test('Expensive routes cost more than one request', async () => {
+    expect(getRouteCost('POST', '/auth/login')).toBe(5);
+    expect(getRouteCost('GET', '/auth/login')).toBe(1);
+    expect(getRouteCost('POST', '/sandbox/reset')).toBe(20);
+
+    // A login costs 5, which is more than the whole limit of 3
+    const app = createTestApp();
+    const tenantId = `tenant_${Date.now()}_cost`;
+
+    const res = await app.request(
+      '/auth/login',
+      { method: 'POST', headers: { 'x-test-tenant': tenantId } },
+      env
+    );
+    expect(res.status).toBe(429);
+  });
+
+  test('IP limits are tracked per client address', async () => {
+    const app = createTestApp();
+    const tenantId = `tenant_${Date.now()}_ip`;
+    const request = (ip: string) =>
+      app.request(
+        '/by-ip',
+        { headers: { 'x-test-tenant': tenantId, 'CF-Connecting-IP': ip } },
+        env
+      );
+
+    expect((await request('203.0.113.1')).status).toBe(200);
+
+    const limited = await request('203.0.113.1');
+    expect(limited.status).toBe(429);
+    const body = (await limited.json()) as ErrorResponse;
+    expect(body.error.details.scope).toBe('test_ip');
+
+    expect((await request('203.0.113.2')).status).toBe(200);
+  });
+
+  test('Malformed organization IDs reach the route instead of the tier lookup', async () => {
+    const app = createTestApp();
+    const tenantId = `tenant_${Date.now()}_organization`;
+
+    const res = await app.request(
+      '/by-organization?organizationId=abc',
+      { headers: { 'x-test-tenant': tenantId } },
+      env
+    );
+
+    expect(res.status).toBe(400);
+    const body = (await res.json()) as ErrorResponse;
+    expect(body.error.code).toBe('INVALID_INPUT');
+  });
+});
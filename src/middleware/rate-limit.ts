@@ -1,65 +1,206 @@
 import { Context, Next } from 'hono';
-import { Env } from '../types';
-import { createDb } from '../db';
+import { AppEnv } from '../types';
+import { createUnscopedDb } from '../db';
+import { loadConfig, getConfig } from '../config';
 import { AppError } from './error-handler';
-import { sql } from 'drizzle-orm';
+import { getTenantScopedDb } from './tenant-isolation';
+import { isValidUUID } from './validation';
+import {
+  RATE_LIMIT_CONTENTION_RETRY_SECONDS,
+  RateLimitStore,
+  createMemoryRateLimitStore,
+  createPostgresRateLimitStore,
+  createDurableObjectRateLimitStore,
+} from '../services/rate-limit-store';
+import { RateLimitAlgorithm } from '../services/rate-limit-algorithms';
+import { getSubscriptionStatus } from '../services/subscription';
 
-// Simple in-memory rate limiter (for development)
-// In production, use Redis or similar distributed cache
-const rateLimitStore = new Map<string, { count: number; resetAt: number }>();
+const DEFAULT_WINDOW_MS = 60 * 1000; // 1 minute
 
-export async function rateLimitMiddleware(c: Context<{ Bindings: Env }>, next: Next) {
-  const tenantId = c.get('tenantId') as string;
-  
-  if (!tenantId) {
-    // No tenant context yet (before API key auth), skip rate limiting
-    await next();
-    return;
+// Name of the subscription tier limit that sets an organization's request rate
+export const TIER_RATE_LIMIT = 'api_requests_per_minute';
+
+export type RateLimitKey = 'tenant' | 'user' | 'ip' | 'organization';
+
+export interface RateLimitOptions {
+  keyBy?: RateLimitKey; // What the counter is shared by (default: tenant)
+  name?: string; // Separates counters for different limiters on the same key
+  algorithm?: RateLimitAlgorithm; // Default: RATE_LIMIT_ALGORITHM
+  limit?: number; // Default: RATE_LIMIT_PER_MINUTE for tenant limits
+  windowMs?: number;
+  cost?: number; // Default: the route's cost from ROUTE_COSTS
+  tierLimit?: string; // Take the limit from the organization's tier limits
+}
+
+// Relative cost of routes that are expensive to serve (bcrypt hashing, bulk
+// deletes). Anything not listed costs 1.
+const ROUTE_COSTS: Array<{ method: string; path: RegExp; cost: number }> = [
+  { method: 'POST', path: /^\/auth\/(register|login|token)$/, cost: 5 },
+  { method: 'POST', path: /^\/auth\/password-reset\/complete$/, cost: 5 },
+  { method: 'POST', path: /^\/sandbox\/reset$/, cost: 20 },
+];
+
+// The memory store lives for the lifetime of the isolate
+const memoryStore = createMemoryRateLimitStore();
+
+// Pick the configured store (RATE_LIMIT_STORE)
+function getRateLimitStore(c: Context<AppEnv>): RateLimitStore {
+  const config = loadConfig(c.env);
+
+  switch (config.rateLimitStore) {
+    case 'postgres':
+      return createPostgresRateLimitStore(createUnscopedDb(c.env.DATABASE_URL));
+    case 'durable_object':
+      if (!c.env.RATE_LIMITER) {
+        throw new Error('RATE_LIMIT_STORE is durable_object but no RATE_LIMITER binding exists');
+      }
+      return createDurableObjectRateLimitStore(c.env.RATE_LIMITER);
+    default:
+      return memoryStore;
+  }
+}
+
+// Get the cost of a request from the route cost table
+export function getRouteCost(method: string, path: string): number {
+  const route = ROUTE_COSTS.find((r) => r.method === method && r.path.test(path));
+  return route?.cost ?? 1;
+}
+
+// Get the client IP as reported by Cloudflare (or a proxy in development)
+export function getClientIp(c: Context<AppEnv>): string | undefined {
+  return (
+    c.req.header('CF-Connecting-IP') ||
+    c.req.header('X-Forwarded-For')?.split(',')[0].trim() ||
+    undefined
+  );
+}
+
+// Organization from the :id route param, ?organizationId or the JSON body
+async function getOrganizationId(c: Context<AppEnv>): Promise<string | undefined> {
+  const fromRequest = c.req.param('id') || c.req.query('organizationId');
+  if (fromRequest) {
+    return fromRequest;
+  }
+
+  const body = await c.req.json().catch(() => null);
+  return typeof body?.organizationId === 'string' ? body.organizationId : undefined;
+}
+
+// Resolve the value a limiter is keyed by, or undefined if the request has none
+async function getSubject(
+  c: Context<AppEnv>,
+  keyBy: RateLimitKey
+): Promise<string | undefined> {
+  switch (keyBy) {
+    case 'user':
+      return c.get('userId');
+    case 'ip':
+      return getClientIp(c);
+    case 'organization':
+      return getOrganizationId(c);
+    default:
+      return c.get('tenantId');
+  }
+}
+
+// Look up the per-minute request limit from an organization's active tier.
+// Malformed IDs have no tier; the route rejects them itself.
+async function getTierLimit(
+  c: Context<AppEnv>,
+  organizationId: string,
+  limitName: string
+): Promise<number | undefined> {
+  if (!isValidUUID(organizationId)) {
+    return undefined;
   }
 
-  const limit = parseInt(c.env.RATE_LIMIT_PER_MINUTE || '1000');
-  const now = Date.now();
-  const windowMs = 60 * 1000; // 1 minute
-  
-  const key = `ratelimit:${tenantId}`;
-  const record = rateLimitStore.get(key);
-
-  if (!record || now > record.resetAt) {
-    // New window
-    rateLimitStore.set(key, {
-      count: 1,
-      resetAt: now + windowMs,
-    });
-  } else {
-    // Within window
-    record.count++;
-    
-    if (record.count > limit) {
-      const resetIn = Math.ceil((record.resetAt - now) / 1000);
+  const subscription = await getSubscriptionStatus(getTenantScopedDb(c), organizationId);
+
+  if (!subscription || subscription.status !== 'active') {
+    return undefined;
+  }
+
+  return subscription.limits[limitName];
+}
+
+// Middleware factory for a rate limiter. Requests without the key the limiter
+// needs (e.g. no user yet, or no organization in the request) are not limited.
+export function rateLimit(options: RateLimitOptions = {}) {
+  const keyBy = options.keyBy ?? 'tenant';
+  const name = options.name ?? keyBy;
+
+  return async (c: Context<AppEnv>, next: Next) => {
+    const tenantId = c.get('tenantId');
+
+    if (!tenantId) {
+      // No tenant context yet (before API key auth), skip rate limiting
+      await next();
+      return;
+    }
+
+    const subject = await getSubject(c, keyBy);
+    if (!subject) {
+      await next();
+      return;
+    }
+
+    const config = getConfig(c);
+    let limit = options.limit ?? (keyBy === 'tenant' ? config.rateLimitPerMinute : undefined);
+
+    if (options.tierLimit && keyBy === 'organization') {
+      limit = (await getTierLimit(c, subject, options.tierLimit)) ?? limit;
+    }
+
+    if (limit === undefined) {
+      await next();
+      return;
+    }
+
+    // Keys other than the tenant are still separated per tenant
+    const key =
+      keyBy === 'tenant'
+        ? `ratelimit:tenant:${tenantId}`
+        : `ratelimit:${name}:${tenantId}:${subject}`;
+
+    const store = getRateLimitStore(c);
+    const decision = await store
+      .consume(
+        key,
+        {
+          algorithm: options.algorithm ?? config.rateLimitAlgorithm,
+          limit,
+          windowMs: options.windowMs ?? DEFAULT_WINDOW_MS,
+        },
+        options.cost ?? getRouteCost(c.req.method, c.req.path)
+      )
+      .catch((error) => {
+        // The counter is too busy to update; the request can be retried
+        if (error instanceof AppError && error.code === 'RATE_LIMIT_CONTENTION') {
+          c.header('Retry-After', RATE_LIMIT_CONTENTION_RETRY_SECONDS.toString());
+        }
+        throw error;
+      });
+
+    // Set rate limit headers (also sent with the 429)
+    c.header('X-RateLimit-Limit', decision.limit.toString());
+    c.header('X-RateLimit-Remaining', decision.remaining.toString());
+    c.header('X-RateLimit-Reset', new Date(decision.resetAt).toISOString());
+
+    if (!decision.allowed) {
+      const retryAfter = Math.max(1, Math.ceil(decision.retryAfterMs / 1000));
+      c.header('Retry-After', retryAfter.toString());
+
       throw new AppError(
         'RATE_LIMIT_EXCEEDED',
-        `Rate limit exceeded. Try again in ${resetIn} seconds`,
+        `Rate limit exceeded. Try again in ${retryAfter} seconds`,
         429,
-        { limit, resetIn }
+        { limit, resetIn: retryAfter, scope: name }
       );
     }
-  }
-
-  // Set rate limit headers
-  const current = rateLimitStore.get(key)!;
-  c.header('X-RateLimit-Limit', limit.toString());
-  c.header('X-RateLimit-Remaining', Math.max(0, limit - current.count).toString());
-  c.header('X-RateLimit-Reset', new Date(current.resetAt).toISOString());
 
-  await next();
+    await next();
+  };
 }
 
-// Cleanup old entries periodically (prevent memory leak)
-setInterval(() => {
-  const now = Date.now();
-  for (const [key, record] of rateLimitStore.entries()) {
-    if (now > record.resetAt + 60000) {
-      rateLimitStore.delete(key);
-    }
-  }
-}, 60000); // Clean up every minute
+// Per-tenant limit applied to every API route
+export const rateLimitMiddleware = rateLimit();
@@ -0,0 +1,167 @@
+import { describe, test, expect, vi, beforeEach, afterEach } from 'vitest';
+import { Hono } from 'hono';
+import { sessionAuth } from './session-auth';
+import { errorHandler } from './error-handler';
+import { AppEnv, ErrorResponse } from '../types';
+import { getSandboxTenantId } from '../services/sandbox';
+import { createUnscopedDb, schema } from '../db';
+import { register } from '../services/auth';
+import { issueAccessToken } from '../services/token';
+import { createTenantScopedDb } from './tenant-isolation';
+
+const db = createUnscopedDb(process.env.DATABASE_URL!);
+
+// Tenant-owned rows need their tenant, and test-mode rows its sandbox partition
+async function createTestTenant(tenantId: string) {
+  await db
+    .insert(schema.tenants)
+    .values([
+      { id: tenantId, name: tenantId },
+      { id: getSandboxTenantId(tenantId), name: tenantId },
+    ])
+    .onConflictDoNothing();
+}
+
+const env = {
+  DATABASE_URL: process.env.DATABASE_URL!,
+  JWT_SECRET: 'test-secret',
+} as AppEnv['Bindings'];
+
+// Test app that takes the tenant from a header in place of apiKeyAuth
+function createTestApp() {
+  const app = new Hono<AppEnv>();
+  app.onError(errorHandler);
+  app.use('*', async (c, next) => {
+    c.set('tenantId', c.req.header('x-test-tenant')!);
+    await next();
+  });
+  app.get('/me', sessionAuth, (c) =>
+    c.json({ userId: c.get('userId'), email: c.get('email') })
+  );
+  return app;
+}
+
+describe('Session Authentication Middleware', () => {
+  let consoleErrorSpy: any;
+
+  beforeEach(() => {
+    consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    consoleErrorSpy.mockRestore();
+  });
+
+  test('Missing session token is rejected', async () => {
+    const app = createTestApp();
+    const res = await app.request('/me', { headers: { 'x-test-tenant': 'tenant_123' } }, env);
+
+    expect(res.status).toBe(401);
+    const body = (await res.json()) as ErrorResponse;
+    expect(body.error.code).toBe('MISSING_SESSION');
+  });
+
+  test('Malformed session header is rejected', async () => {
+    const app = createTestApp();
+    const res = await app.request(
+      '/me',
+      { headers: { 'x-test-tenant': 'tenant_123', 'X-Session-Token': 'Token a b' } },
+      env
+    );
+
+    expect(res.status).toBe(401);
+    const body = (await res.json()) as ErrorResponse;
+    expect(body.error.code).toBe('INVALID_SESSION');
+  });
+
+  test('Valid session sets user context from header and cookie', async () => {
+    const tenantId = `tenant_${Date.now()}`;
+    await createTestTenant(tenantId);
+    const email = `session_${Date.now()}@example.com`;
+    const { user, token } = await register(
+      createTenantScopedDb(db, tenantId),
+      email,
+      'Password123',
+      4,
+      3600
+    );
+    const app = createTestApp();
+
+    const fromHeader = await app.request(
+      '/me',
+      { headers: { 'x-test-tenant': tenantId, 'X-Session-Token': `Bearer ${token}` } },
+      env
+    );
+    expect(fromHeader.status).toBe(200);
+    expect(await fromHeader.json()).toEqual({ userId: user.id, email });
+
+    const fromCookie = await app.request(
+      '/me',
+      { headers: { 'x-test-tenant': tenantId, Cookie: `session_token=${token}` } },
+      env
+    );
+    expect(fromCookie.status).toBe(200);
+    expect(await fromCookie.json()).toEqual({ userId: user.id, email });
+  });
+
+  test('Session from a different tenant is rejected', async () => {
+    const tenantId = `tenant_${Date.now()}`;
+    await createTestTenant(tenantId);
+    const email = `session_other_${Date.now()}@example.com`;
+    const { token } = await register(
+      createTenantScopedDb(db, tenantId),
+      email,
+      'Password123',
+      4,
+      3600
+    );
+    const app = createTestApp();
+
+    const res = await app.request(
+      '/me',
+      { headers: { 'x-test-tenant': `${tenantId}_other`, 'X-Session-Token': token } },
+      env
+    );
+
+    expect(res.status).toBe(401);
+    const body = (await res.json()) as ErrorResponse;
+    expect(body.error.code).toBe('INVALID_SESSION');
+  });
+
+  test('Valid access token sets user context without a session', async () => {
+    const app = createTestApp();
+    const { accessToken } = issueAccessToken(
+      { id: 'user_123', tenantId: 'tenant_123', email: 'jwt@example.com' },
+      'test-secret',
+      300
+    );
+
+    const res = await app.request(
+      '/me',
+      { headers: { 'x-test-tenant': 'tenant_123', 'X-Session-Token': `Bearer ${accessToken}` } },
+      env
+    );
+
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({ userId: 'user_123', email: 'jwt@example.com' });
+  });
+
+  test('Access tokens from another tenant or secret are rejected', async () => {
+    const app = createTestApp();
+    const user = { id: 'user_123', tenantId: 'tenant_123', email: 'jwt@example.com' };
+    const otherTenant = issueAccessToken(user, 'test-secret', 300).accessToken;
+    const otherSecret = issueAccessToken(user, 'other-secret', 300).accessToken;
+
+    for (const [tenantId, token] of [['tenant_456', otherTenant], ['tenant_123', otherSecret]]) {
+      const res = await app.request(
+        '/me',
+        { headers: { 'x-test-tenant': tenantId, 'X-Session-Token': token } },
+        env
+      );
+
+      expect(res.status).toBe(401);
+      const body = (await res.json()) as ErrorResponse;
+      expect(body.error.code).toBe('INVALID_SESSION');
+    }
+  });
+});
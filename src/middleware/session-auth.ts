@@ -0,0 +1,75 @@
+import { Context, Next } from 'hono';
+import { getCookie } from 'hono/cookie';
+import { AppEnv } from '../types';
+import { loadConfig } from '../config';
+import { validateSession } from '../services/auth';
+import { isJwt, verifyAccessToken } from '../services/token';
+import { AppError } from './error-handler';
+import { addLogContext } from './access-log';
+import { getTenantScopedDb } from './tenant-isolation';
+
+// Header and cookie that may carry the end user's session token or JWT
+// access token.
+// The Authorization header is reserved for the tenant API key.
+export const SESSION_HEADER = 'X-Session-Token';
+export const SESSION_COOKIE = 'session_token';
+
+// Extract the session token from the X-Session-Token header (optionally
+// "Bearer <token>") or from the session cookie
+export function getSessionToken(c: Context): string | null {
+  const header = c.req.header(SESSION_HEADER);
+  if (header) {
+    const parts = header.split(' ');
+    if (parts.length === 2 && parts[0] === 'Bearer') {
+      return parts[1];
+    }
+    if (parts.length === 1) {
+      return parts[0];
+    }
+    throw new AppError('INVALID_SESSION', `Invalid ${SESSION_HEADER} header format`, 401);
+  }
+
+  return getCookie(c, SESSION_COOKIE) || null;
+}
+
+// Middleware to resolve the end user from their session or access token.
+// Must run after apiKeyAuth so the tenant context is available.
+export async function sessionAuth(c: Context<AppEnv>, next: Next) {
+  const tenantId = c.get('tenantId');
+  if (!tenantId) {
+    throw new AppError('MISSING_AUTH', 'Tenant context is required', 401);
+  }
+
+  const token = getSessionToken(c);
+  if (!token) {
+    throw new AppError('MISSING_SESSION', 'Missing session token', 401);
+  }
+
+  // Access tokens are self-contained, so they're checked without a database call
+  if (isJwt(token)) {
+    const claims = verifyAccessToken(token, loadConfig(c.env).jwtSecret);
+    if (!claims || claims.tenantId !== tenantId) {
+      throw new AppError('INVALID_SESSION', 'Invalid or expired access token', 401);
+    }
+
+    c.set('userId', claims.sub);
+    c.set('email', claims.email);
+    addLogContext(c, { userId: claims.sub });
+
+    await next();
+    return;
+  }
+
+  const session = await validateSession(getTenantScopedDb(c), token);
+
+  // Sessions are only valid for the tenant that issued them
+  if (!session || session.tenantId !== tenantId) {
+    throw new AppError('INVALID_SESSION', 'Invalid or expired session', 401);
+  }
+
+  c.set('userId', session.userId);
+  c.set('email', session.email);
+  addLogContext(c, { userId: session.userId });
+
+  await next();
+}
@@ -1,4 +1,9 @@
-import { Database } from '../db';
+import { Context } from 'hono';
+import { eq, and, inArray, SQL } from 'drizzle-orm';
+import type { AnyPgColumn, PgTable } from 'drizzle-orm/pg-core';
+import { AppEnv } from '../types';
+import { Database, createDb } from '../db';
+import { schema } from '../db';
 import { AppError } from './error-handler';
 
 /**
@@ -42,21 +47,191 @@ export function validateTenantOwnership(
   }
 }
 
+// Tables with their own tenant_id column
+type TenantTable =
+  | typeof schema.users
+  | typeof schema.sessions
+  | typeof schema.passwordResetTokens
+  | typeof schema.emailVerificationTokens
+  | typeof schema.mfaFactors
+  | typeof schema.mfaRecoveryCodes
+  | typeof schema.mfaChallenges
+  | typeof schema.organizations
+  | typeof schema.roles
+  | typeof schema.subscriptionTiers
+  | typeof schema.usageRecords
+  | typeof schema.apiKeys
+  | typeof schema.tenantSettings
+  | typeof schema.auditEvents
+  | typeof schema.webhookEndpoints
+  | typeof schema.webhookDeliveries
+  | typeof schema.outbox;
+
+// Tables that belong to a tenant through their organization
+type OrganizationTable =
+  | typeof schema.organizationMembers
+  | typeof schema.invitations
+  | typeof schema.subscriptions;
+
+export type TenantScopedTable = TenantTable | OrganizationTable;
+
+function isOrganizationTable(table: TenantScopedTable): table is OrganizationTable {
+  return !('tenantId' in table);
+}
+
+// Values for a new row; tenant_id is filled in by the scoped handle
+export type TenantScopedInsert<T extends TenantScopedTable> = T extends TenantTable
+  ? Omit<T['$inferInsert'], 'tenantId'>
+  : T['$inferInsert'];
+
+export interface TenantScopedSelectOptions {
+  orderBy?: SQL | AnyPgColumn;
+  limit?: number;
+}
+
+export interface TenantScopedDb {
+  db: Database;
+  tenantId: string;
+  // Predicate limiting a table to the tenant's rows, combined with `where`.
+  // Use it for queries the helpers can't build, like joins and aggregates.
+  scope(table: TenantScopedTable, where?: SQL): SQL;
+  select<T extends TenantScopedTable>(
+    table: T,
+    where?: SQL,
+    options?: TenantScopedSelectOptions
+  ): Promise<T['$inferSelect'][]>;
+  insert<T extends TenantScopedTable>(
+    table: T,
+    values: TenantScopedInsert<T> | TenantScopedInsert<T>[]
+  ): Promise<T['$inferSelect'][]>;
+  update<T extends TenantScopedTable>(
+    table: T,
+    set: Partial<TenantScopedInsert<T>>,
+    where?: SQL
+  ): Promise<T['$inferSelect'][]>;
+  delete<T extends TenantScopedTable>(table: T, where?: SQL): Promise<T['$inferSelect'][]>;
+  // Run `transaction` with a handle scoped to the same tenant
+  transaction<R>(transaction: (scoped: TenantScopedDb) => Promise<R>): Promise<R>;
+  validateTenant(expectedTenantId: string): void;
+}
+
 /**
- * Creates a tenant-scoped database query helper
- * This ensures all queries automatically include tenant filtering
+ * Creates a tenant-scoped database handle. Its helpers add the tenant to every
+ * query they build: a tenant_id predicate and value for tenant-owned tables,
+ * and a check on the parent organization for tables without a tenant_id.
  */
-export function createTenantScopedDb(db: Database, tenantId: string) {
+export function createTenantScopedDb(db: Database, tenantId: string): TenantScopedDb {
   const validatedTenantId = validateTenantId(tenantId);
 
+  // The tenant's organizations, for scoping the tables that hang off them
+  const organizationIds = () =>
+    db
+      .select({ id: schema.organizations.id })
+      .from(schema.organizations)
+      .where(eq(schema.organizations.tenantId, validatedTenantId));
+
+  // Rows for another tenant's organization are rejected rather than written
+  async function assertOwnOrganizations(ids: string[]): Promise<void> {
+    const unique = [...new Set(ids)];
+    const owned = await db
+      .select({ id: schema.organizations.id })
+      .from(schema.organizations)
+      .where(
+        and(
+          inArray(schema.organizations.id, unique),
+          eq(schema.organizations.tenantId, validatedTenantId)
+        )
+      );
+    if (owned.length !== unique.length) {
+      throw new AppError('ORGANIZATION_NOT_FOUND', 'Organization not found', 404);
+    }
+  }
+
+  // Predicate limiting a table to the tenant's rows, combined with `where`
+  function scope(table: TenantScopedTable, where?: SQL): SQL {
+    const tenantFilter = isOrganizationTable(table)
+      ? inArray(table.organizationId, organizationIds())
+      : eq(table.tenantId, validatedTenantId);
+    return where ? and(tenantFilter, where)! : tenantFilter;
+  }
+
+  // Drizzle can't type a query over a union of tables, so the helpers build
+  // them on the base table type and restore the row type for the caller
+
+  async function select<T extends TenantScopedTable>(
+    table: T,
+    where?: SQL,
+    options: TenantScopedSelectOptions = {}
+  ): Promise<T['$inferSelect'][]> {
+    let query = db
+      .select()
+      .from(table as PgTable)
+      .where(scope(table, where))
+      .$dynamic();
+    if (options.orderBy) query = query.orderBy(options.orderBy);
+    if (options.limit !== undefined) query = query.limit(options.limit);
+    return (await query) as T['$inferSelect'][];
+  }
+
+  async function insert<T extends TenantScopedTable>(
+    table: T,
+    values: TenantScopedInsert<T> | TenantScopedInsert<T>[]
+  ): Promise<T['$inferSelect'][]> {
+    let rows = (Array.isArray(values) ? values : [values]) as Record<string, unknown>[];
+    if (rows.length === 0) return [];
+
+    if (isOrganizationTable(table)) {
+      await assertOwnOrganizations(rows.map((row) => row.organizationId as string));
+    } else {
+      rows = rows.map((row) => ({ ...row, tenantId: validatedTenantId }));
+    }
+    return (await db
+      .insert(table as PgTable)
+      .values(rows)
+      .returning()) as T['$inferSelect'][];
+  }
+
+  async function update<T extends TenantScopedTable>(
+    table: T,
+    set: Partial<TenantScopedInsert<T>>,
+    where?: SQL
+  ): Promise<T['$inferSelect'][]> {
+    // Rows can't be moved to another tenant
+    const { tenantId: _tenantId, ...values } = set as Record<string, unknown>;
+    if (values.organizationId !== undefined) {
+      await assertOwnOrganizations([values.organizationId as string]);
+    }
+    return (await db
+      .update(table as PgTable)
+      .set(values)
+      .where(scope(table, where))
+      .returning()) as T['$inferSelect'][];
+  }
+
+  async function remove<T extends TenantScopedTable>(
+    table: T,
+    where?: SQL
+  ): Promise<T['$inferSelect'][]> {
+    return (await db
+      .delete(table as PgTable)
+      .where(scope(table, where))
+      .returning()) as T['$inferSelect'][];
+  }
+
   return {
     db,
     tenantId: validatedTenantId,
-    
-    /**
-     * Validates that the current tenant matches the expected tenant
-     */
-    validateTenant(expectedTenantId: string): void {
+    scope,
+    select,
+    insert,
+    update,
+    delete: remove,
+
+    transaction(transaction) {
+      return db.transaction((tx) => transaction(createTenantScopedDb(tx, validatedTenantId)));
+    },
+
+    validateTenant(expectedTenantId) {
       if (this.tenantId !== expectedTenantId) {
         throw new AppError(
           'TENANT_MISMATCH',
@@ -67,3 +242,10 @@ export function createTenantScopedDb(db: Database, tenantId: string) {
     },
   };
 }
+
+// Tenant-scoped handle for the request's tenant, on a connection that
+// row-level security also limits to that tenant
+export function getTenantScopedDb(c: Context<AppEnv>): TenantScopedDb {
+  const tenantId = c.get('tenantId');
+  return createTenantScopedDb(createDb(c.env.DATABASE_URL, tenantId), tenantId);
+}
@@ -1,5 +1,6 @@
 import { describe, test, expect } from 'vitest';
 import * as fc from 'fast-check';
+import { Hono } from 'hono';
 import {
   isValidEmail,
   isValidPassword,
@@ -10,8 +11,11 @@ import {
   validateNoSQLInjection,
   validateAlphanumeric,
   isValidURL,
+  isValidUUID,
+  validateUUID,
   isValidJSON,
   sanitizeInput,
+  parseOptionalJsonBody,
 } from './validation';
 import { AppError } from './error-handler';
 
@@ -168,6 +172,28 @@ describe('Input Validation - URL', () => {
   });
 });
 
+describe('Input Validation - UUID', () => {
+  test('accepts valid UUIDs', () => {
+    expect(isValidUUID('3f2504e0-4f89-11d3-9a0c-0305e82c3301')).toBe(true);
+    expect(isValidUUID('3F2504E0-4F89-41D3-9A0C-0305E82C3301')).toBe(true);
+  });
+
+  test('rejects invalid UUIDs', () => {
+    expect(isValidUUID('not-a-uuid')).toBe(false);
+    expect(isValidUUID('3f2504e04f8911d39a0c0305e82c3301')).toBe(false);
+    expect(isValidUUID('3f2504e0-4f89-11d3-9a0c-0305e82c3301 ')).toBe(false);
+  });
+
+  test('validateUUID returns valid IDs and rejects the rest', () => {
+    expect(validateUUID('3f2504e0-4f89-11d3-9a0c-0305e82c3301', 'id')).toBe(
+      '3f2504e0-4f89-11d3-9a0c-0305e82c3301'
+    );
+    expect(() => validateUUID('abc', 'id')).toThrow('id must be a UUID');
+    expect(() => validateUUID(undefined, 'organizationId')).toThrow(AppError);
+    expect(() => validateUUID(42, 'organizationId')).toThrow(AppError);
+  });
+});
+
 describe('Input Validation - JSON', () => {
   test('accepts valid JSON', () => {
     expect(isValidJSON('{}')).toBe(true);
@@ -183,6 +209,35 @@ describe('Input Validation - JSON', () => {
   });
 });
 
+describe('Input Validation - Optional Request Body', () => {
+  const app = new Hono();
+  app.post('/', async (c) => {
+    try {
+      return c.json(await parseOptionalJsonBody(c));
+    } catch (error) {
+      return c.json({ code: (error as AppError).code }, 400);
+    }
+  });
+
+  test('reads an empty body as an empty object', async () => {
+    const res = await app.request('/', { method: 'POST' });
+    expect(await res.json()).toEqual({});
+  });
+
+  test('parses JSON objects', async () => {
+    const res = await app.request('/', { method: 'POST', body: '{"gracePeriodSeconds": 60}' });
+    expect(await res.json()).toEqual({ gracePeriodSeconds: 60 });
+  });
+
+  test('rejects malformed and non-object bodies', async () => {
+    for (const body of ['{invalid', '[1, 2]', '42']) {
+      const res = await app.request('/', { method: 'POST', body });
+      expect(res.status).toBe(400);
+      expect(await res.json()).toEqual({ code: 'INVALID_JSON' });
+    }
+  });
+});
+
 describe('Input Validation - Comprehensive Sanitization', () => {
   test('sanitizes nested objects', () => {
     const input = {
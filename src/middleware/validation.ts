@@ -29,6 +29,32 @@ export function validateRequired(data: any, fields: string[]): void {
   }
 }
 
+// Parse a JSON request body, rejecting malformed or non-object payloads
+export async function parseJsonBody<T = Record<string, any>>(c: Context): Promise<T> {
+  let body: unknown;
+  try {
+    body = await c.req.json();
+  } catch {
+    throw new AppError('INVALID_JSON', 'Request body must be valid JSON', 400);
+  }
+
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    throw new AppError('INVALID_JSON', 'Request body must be a JSON object', 400);
+  }
+
+  return body as T;
+}
+
+// Parse a JSON request body whose fields are all optional. An empty body is
+// read as {}; anything else must be a JSON object.
+export async function parseOptionalJsonBody<T = Record<string, any>>(c: Context): Promise<T> {
+  if ((await c.req.text()).trim() === '') {
+    return {} as T;
+  }
+
+  return parseJsonBody<T>(c);
+}
+
 // Sanitize string input (basic XSS prevention)
 export function sanitizeString(input: string): string {
   return input
@@ -116,6 +142,20 @@ export function isValidURL(url: string): boolean {
   }
 }
 
+// Validate UUID format (any version)
+export function isValidUUID(value: string): boolean {
+  return /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(value);
+}
+
+// Check an ID before it's compared with a uuid column, where a malformed
+// value fails in Postgres rather than matching nothing
+export function validateUUID(value: unknown, fieldName: string): string {
+  if (typeof value !== 'string' || !isValidUUID(value)) {
+    throw new AppError('INVALID_INPUT', `${fieldName} must be a UUID`, 400, { field: fieldName });
+  }
+  return value;
+}
+
 // Validate JSON structure
 export function isValidJSON(input: string): boolean {
   try {
@@ -0,0 +1,102 @@
+import { Hono } from 'hono';
+import { AppEnv } from '../types';
+import { getConfig } from '../config';
+import { apiKeyAuth, requireMode, requireScope } from '../middleware/api-key-auth';
+import { rateLimitMiddleware } from '../middleware/rate-limit';
+import { AppError } from '../middleware/error-handler';
+import {
+  parseJsonBody,
+  parseOptionalJsonBody,
+  validateRequired,
+  validateStringLength,
+  validateUUID,
+} from '../middleware/validation';
+import { getAuditContext } from '../middleware/audit';
+import { getTenantScopedDb } from '../middleware/tenant-isolation';
+import {
+  createApiKey,
+  listApiKeys,
+  revokeApiKey,
+  rotateApiKey,
+  validateScopes,
+  assertCanGrantScopes,
+} from '../services/api-key';
+
+export const apiKeyRoutes = new Hono<AppEnv>();
+
+// Keys are managed from live mode only, so a leaked test key can't mint live keys
+apiKeyRoutes.use('*', apiKeyAuth, rateLimitMiddleware, requireMode('live'));
+
+// POST /api-keys
+// The plaintext key is only ever returned in this response
+apiKeyRoutes.post('/', requireScope('api_keys:write'), async (c) => {
+  const body = await parseJsonBody(c);
+  validateRequired(body, ['name']);
+  validateStringLength(body.name, 'name', 1, 100);
+
+  let expiresAt: Date | null = null;
+  if (body.expiresAt !== undefined && body.expiresAt !== null) {
+    expiresAt = new Date(body.expiresAt);
+    if (isNaN(expiresAt.getTime())) {
+      throw new AppError('INVALID_INPUT', 'expiresAt must be a valid date', 400, {
+        field: 'expiresAt',
+      });
+    }
+  }
+
+  const mode = body.mode ?? 'live';
+  if (mode !== 'live' && mode !== 'test') {
+    throw new AppError('INVALID_INPUT', "mode must be 'live' or 'test'", 400, {
+      field: 'mode',
+    });
+  }
+
+  const scopes = body.scopes === undefined ? ['*'] : validateScopes(body.scopes);
+  assertCanGrantScopes(c.get('scopes'), scopes);
+
+  const { apiKey, record } = await createApiKey(
+    getTenantScopedDb(c),
+    body.name,
+    { expiresAt, mode, scopes },
+    getAuditContext(c)
+  );
+
+  return c.json({ apiKey, key: record }, 201);
+});
+
+// GET /api-keys
+apiKeyRoutes.get('/', requireScope('api_keys:read'), async (c) => {
+  const keys = await listApiKeys(getTenantScopedDb(c));
+
+  return c.json({ keys });
+});
+
+// POST /api-keys/:id/rotate
+// The old key keeps working for gracePeriodSeconds (defaults to, and at most, the
+// configured window)
+apiKeyRoutes.post('/:id/rotate', requireScope('api_keys:write'), async (c) => {
+  const body = await parseOptionalJsonBody(c);
+  const config = getConfig(c);
+
+  const { apiKey, record, previous } = await rotateApiKey(
+    getTenantScopedDb(c),
+    validateUUID(c.req.param('id'), 'id'),
+    body.gracePeriodSeconds ?? config.apiKeyRotationGraceSeconds,
+    config.apiKeyRotationGraceSeconds,
+    c.get('scopes'),
+    getAuditContext(c)
+  );
+
+  return c.json({ apiKey, key: record, previous }, 201);
+});
+
+// POST /api-keys/:id/revoke
+apiKeyRoutes.post('/:id/revoke', requireScope('api_keys:write'), async (c) => {
+  const key = await revokeApiKey(
+    getTenantScopedDb(c),
+    validateUUID(c.req.param('id'), 'id'),
+    getAuditContext(c)
+  );
+
+  return c.json({ key });
+});
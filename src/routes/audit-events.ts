@@ -0,0 +1,46 @@
+import { Hono } from 'hono';
+import { AppEnv } from '../types';
+import { apiKeyAuth, requireScope } from '../middleware/api-key-auth';
+import { rateLimitMiddleware } from '../middleware/rate-limit';
+import { AppError } from '../middleware/error-handler';
+import { getTenantScopedDb } from '../middleware/tenant-isolation';
+import { listAuditEvents } from '../services/audit';
+
+export const auditEventRoutes = new Hono<AppEnv>();
+
+auditEventRoutes.use('*', apiKeyAuth, rateLimitMiddleware);
+
+// Parse an optional ISO date query parameter
+function parseDateParam(value: string | undefined, field: string): Date | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new AppError('INVALID_INPUT', `${field} must be a valid date`, 400, { field });
+  }
+  return date;
+}
+
+// GET /audit-events
+// Filters: organizationId, actorId, action (or a prefix like "organization.*"),
+// targetType, targetId, since and until. Events come newest first; pass
+// nextCursor back as cursor to get the next page.
+auditEventRoutes.get('/', requireScope('audit:read'), async (c) => {
+  const limitParam = c.req.query('limit');
+
+  const page = await listAuditEvents(getTenantScopedDb(c), {
+    organizationId: c.req.query('organizationId'),
+    actorId: c.req.query('actorId'),
+    action: c.req.query('action'),
+    targetType: c.req.query('targetType'),
+    targetId: c.req.query('targetId'),
+    since: parseDateParam(c.req.query('since'), 'since'),
+    until: parseDateParam(c.req.query('until'), 'until'),
+    cursor: c.req.query('cursor'),
+    limit: limitParam === undefined ? undefined : Number(limitParam),
+  });
+
+  return c.json(page);
+});
@@ -0,0 +1,464 @@
+import { Context, Hono } from 'hono';
+import { AppEnv, User } from '../types';
+import { getConfig } from '../config';
+import { apiKeyAuth, requireScope } from '../middleware/api-key-auth';
+import { rateLimitMiddleware, rateLimit } from '../middleware/rate-limit';
+import { sessionAuth, getSessionToken } from '../middleware/session-auth';
+import { parseJsonBody, parseOptionalJsonBody, validateRequired } from '../middleware/validation';
+import { getAuditContext } from '../middleware/audit';
+import { getRequestLogger, waitUntil } from '../middleware/access-log';
+import {
+  createUser,
+  register,
+  login,
+  logout,
+  requestPasswordReset,
+  completePasswordReset,
+  requestEmailVerification,
+  verifyEmail,
+  isMfaChallenge,
+  completeMfaLogin,
+  authenticate,
+  completeMfaAuthentication,
+} from '../services/auth';
+import { issueTokens, refreshTokens, revokeRefreshToken } from '../services/token';
+import { enrollMfa, confirmMfa, disableMfa, regenerateRecoveryCodes, verifyMfaCode } from '../services/mfa';
+import { AppError } from '../middleware/error-handler';
+import { getTenantScopedDb } from '../middleware/tenant-isolation';
+import { getTenantSettings } from '../services/tenant-settings';
+
+export const authRoutes = new Hono<AppEnv>();
+
+authRoutes.use('*', apiKeyAuth, rateLimitMiddleware);
+
+// Slow down credential guessing from a single client
+const credentialRateLimit = rateLimit({
+  keyBy: 'ip',
+  name: 'credentials',
+  limit: 20,
+  algorithm: 'sliding_log',
+});
+
+// Slow down MFA code guessing against a signed-in user
+const mfaRateLimit = rateLimit({
+  keyBy: 'user',
+  name: 'mfa',
+  limit: 10,
+  algorithm: 'sliding_log',
+});
+
+// Run work that sends an email after the response, so how long the request
+// takes doesn't depend on whether the address belongs to a user. Failures
+// are logged, as the client has already had its answer.
+function runInBackground(c: Context<AppEnv>, message: string, work: Promise<unknown>) {
+  waitUntil(
+    c,
+    work.catch((error) => {
+      const requestLogger = getRequestLogger(c);
+      requestLogger.error(message, error);
+      return requestLogger.flush();
+    })
+  );
+}
+
+// Strip the password hash before a user leaves the API
+function toPublicUser(user: User) {
+  return {
+    id: user.id,
+    tenantId: user.tenantId,
+    email: user.email,
+    emailVerifiedAt: user.emailVerifiedAt,
+    createdAt: user.createdAt,
+    updatedAt: user.updatedAt,
+  };
+}
+
+// POST /auth/register
+// Tenants that require email verification get the user back without a
+// session; the user signs in after following the verification link
+authRoutes.post('/register', requireScope('users:write'), async (c) => {
+  const body = await parseJsonBody(c);
+  validateRequired(body, ['email', 'password']);
+
+  const config = getConfig(c);
+  const tenantDb = getTenantScopedDb(c);
+  const settings = await getTenantSettings(tenantDb);
+  const audit = getAuditContext(c);
+
+  let user: User;
+  let token: string | null = null;
+
+  if (settings.requireEmailVerification) {
+    user = await createUser(
+      tenantDb,
+      body.email,
+      body.password,
+      config.bcryptWorkFactor,
+      audit
+    );
+  } else {
+    ({ user, token } = await register(
+      tenantDb,
+      body.email,
+      body.password,
+      config.bcryptWorkFactor,
+      config.sessionExpirationSeconds,
+      audit
+    ));
+  }
+
+  runInBackground(
+    c,
+    'Email verification request failed',
+    requestEmailVerification(
+      tenantDb,
+      user.email,
+      config.emailVerificationExpirationSeconds,
+      config.resendApiKey,
+      audit
+    )
+  );
+
+  return c.json(
+    {
+      user: toPublicUser(user),
+      token,
+      emailVerificationRequired: settings.requireEmailVerification,
+    },
+    201
+  );
+});
+
+// POST /auth/login
+authRoutes.post('/login', requireScope('users:write'), credentialRateLimit, async (c) => {
+  const body = await parseJsonBody(c);
+  validateRequired(body, ['email', 'password']);
+
+  const config = getConfig(c);
+  const tenantDb = getTenantScopedDb(c);
+  const settings = await getTenantSettings(tenantDb);
+
+  const result = await login(
+    tenantDb,
+    body.email,
+    body.password,
+    config.sessionExpirationSeconds,
+    settings.requireEmailVerification,
+    getAuditContext(c)
+  );
+
+  // Users with MFA must exchange the challenge at /auth/login/mfa
+  if (isMfaChallenge(result)) {
+    return c.json(result);
+  }
+
+  return c.json({ user: toPublicUser(result.user), token: result.token });
+});
+
+// POST /auth/login/mfa
+authRoutes.post('/login/mfa', requireScope('users:write'), credentialRateLimit, async (c) => {
+  const body = await parseJsonBody(c);
+  validateRequired(body, ['challengeToken', 'code']);
+
+  const config = getConfig(c);
+  const tenantDb = getTenantScopedDb(c);
+
+  const { user, token } = await completeMfaLogin(
+    tenantDb,
+    body.challengeToken,
+    String(body.code),
+    config.sessionExpirationSeconds,
+    getAuditContext(c)
+  );
+
+  return c.json({ user: toPublicUser(user), token });
+});
+
+// POST /auth/logout
+authRoutes.post('/logout', requireScope('users:write'), sessionAuth, async (c) => {
+  const tenantDb = getTenantScopedDb(c);
+  await logout(tenantDb, getSessionToken(c)!, getAuditContext(c));
+
+  return c.body(null, 204);
+});
+
+// GET /auth/session
+authRoutes.get('/session', requireScope('users:read'), sessionAuth, (c) => {
+  return c.json({
+    tenantId: c.get('tenantId'),
+    userId: c.get('userId'),
+    email: c.get('email'),
+  });
+});
+
+// POST /auth/token
+// Token mode: returns a short-lived JWT access token and a rotating refresh token
+authRoutes.post('/token', requireScope('users:write'), credentialRateLimit, async (c) => {
+  const body = await parseJsonBody(c);
+  validateRequired(body, ['email', 'password']);
+
+  const config = getConfig(c);
+  const tenantDb = getTenantScopedDb(c);
+  const settings = await getTenantSettings(tenantDb);
+
+  const result = await authenticate(
+    tenantDb,
+    body.email,
+    body.password,
+    settings.requireEmailVerification,
+    getAuditContext(c)
+  );
+
+  // Users with MFA must exchange the challenge at /auth/token/mfa
+  if (isMfaChallenge(result)) {
+    return c.json(result);
+  }
+
+  const tokens = await issueTokens(
+    tenantDb,
+    result.user,
+    config.jwtSecret,
+    config.accessTokenExpirationSeconds,
+    config.refreshTokenExpirationSeconds
+  );
+
+  return c.json({ user: toPublicUser(result.user), ...tokens });
+});
+
+// POST /auth/token/mfa
+authRoutes.post('/token/mfa', requireScope('users:write'), credentialRateLimit, async (c) => {
+  const body = await parseJsonBody(c);
+  validateRequired(body, ['challengeToken', 'code']);
+
+  const config = getConfig(c);
+  const tenantDb = getTenantScopedDb(c);
+
+  const user = await completeMfaAuthentication(
+    tenantDb,
+    body.challengeToken,
+    String(body.code),
+    getAuditContext(c)
+  );
+
+  const tokens = await issueTokens(
+    tenantDb,
+    user,
+    config.jwtSecret,
+    config.accessTokenExpirationSeconds,
+    config.refreshTokenExpirationSeconds
+  );
+
+  return c.json({ user: toPublicUser(user), ...tokens });
+});
+
+// POST /auth/token/refresh
+authRoutes.post('/token/refresh', requireScope('users:write'), async (c) => {
+  const body = await parseJsonBody(c);
+  validateRequired(body, ['refreshToken']);
+
+  const config = getConfig(c);
+  const tenantDb = getTenantScopedDb(c);
+
+  const tokens = await refreshTokens(
+    tenantDb,
+    body.refreshToken,
+    config.jwtSecret,
+    config.accessTokenExpirationSeconds,
+    config.refreshTokenExpirationSeconds,
+    getAuditContext(c)
+  );
+
+  return c.json(tokens);
+});
+
+// POST /auth/token/revoke
+// Revokes the refresh token family; outstanding access tokens expire on their own
+authRoutes.post('/token/revoke', requireScope('users:write'), async (c) => {
+  const body = await parseJsonBody(c);
+  validateRequired(body, ['refreshToken']);
+
+  const tenantDb = getTenantScopedDb(c);
+  await revokeRefreshToken(tenantDb, body.refreshToken, getAuditContext(c));
+
+  return c.body(null, 204);
+});
+
+// POST /auth/password-reset/request
+// Always responds the same way, and before looking the email up, so the
+// endpoint can't be used to discover which emails are registered
+authRoutes.post(
+  '/password-reset/request',
+  requireScope('users:write'),
+  credentialRateLimit,
+  async (c) => {
+    const body = await parseJsonBody(c);
+    validateRequired(body, ['email']);
+
+    const config = getConfig(c);
+    const tenantDb = getTenantScopedDb(c);
+
+    runInBackground(
+      c,
+      'Password reset request failed',
+      requestPasswordReset(
+        tenantDb,
+        body.email,
+        config.passwordResetExpirationSeconds,
+        config.resendApiKey,
+        getAuditContext(c)
+      )
+    );
+
+    return c.json(
+      { message: 'If an account exists for this email, a reset link has been sent' },
+      202
+    );
+  }
+);
+
+// POST /auth/password-reset/complete
+authRoutes.post(
+  '/password-reset/complete',
+  requireScope('users:write'),
+  credentialRateLimit,
+  async (c) => {
+    const body = await parseJsonBody(c);
+    validateRequired(body, ['token', 'password']);
+
+    const config = getConfig(c);
+    const tenantDb = getTenantScopedDb(c);
+
+    await completePasswordReset(
+      tenantDb,
+      body.token,
+      body.password,
+      config.bcryptWorkFactor,
+      getAuditContext(c)
+    );
+
+    return c.body(null, 204);
+  }
+);
+
+// POST /auth/verify-email
+authRoutes.post('/verify-email', requireScope('users:write'), async (c) => {
+  const body = await parseJsonBody(c);
+  validateRequired(body, ['token']);
+
+  const tenantDb = getTenantScopedDb(c);
+  await verifyEmail(tenantDb, body.token, getAuditContext(c));
+
+  return c.json({ verified: true });
+});
+
+// POST /auth/verify-email/resend
+// Responds the same way, and before looking the email up, whether or not it
+// belongs to an unverified user
+authRoutes.post('/verify-email/resend', requireScope('users:write'), async (c) => {
+  const body = await parseJsonBody(c);
+  validateRequired(body, ['email']);
+
+  const config = getConfig(c);
+  const tenantDb = getTenantScopedDb(c);
+
+  runInBackground(
+    c,
+    'Email verification request failed',
+    requestEmailVerification(
+      tenantDb,
+      body.email,
+      config.emailVerificationExpirationSeconds,
+      config.resendApiKey,
+      getAuditContext(c)
+    )
+  );
+
+  return c.json(
+    { message: 'If this email needs verification, a new link has been sent' },
+    202
+  );
+});
+
+// POST /auth/mfa/enroll
+authRoutes.post('/mfa/enroll', requireScope('users:write'), sessionAuth, async (c) => {
+  const body = await parseOptionalJsonBody(c);
+
+  const tenantDb = getTenantScopedDb(c);
+  const enrollment = await enrollMfa(
+    tenantDb,
+    c.get('userId'),
+    c.get('email'),
+    typeof body.issuer === 'string' && body.issuer ? body.issuer : 'SaaS Backend',
+    getAuditContext(c)
+  );
+
+  return c.json(enrollment, 201);
+});
+
+// POST /auth/mfa/confirm
+authRoutes.post(
+  '/mfa/confirm',
+  requireScope('users:write'),
+  sessionAuth,
+  mfaRateLimit,
+  async (c) => {
+    const body = await parseJsonBody(c);
+    validateRequired(body, ['code']);
+
+    const tenantDb = getTenantScopedDb(c);
+    const recoveryCodes = await confirmMfa(
+      tenantDb,
+      c.get('userId'),
+      String(body.code),
+      getAuditContext(c)
+    );
+
+    return c.json({ enabled: true, recoveryCodes });
+  }
+);
+
+// POST /auth/mfa/recovery-codes
+authRoutes.post(
+  '/mfa/recovery-codes',
+  requireScope('users:write'),
+  sessionAuth,
+  mfaRateLimit,
+  async (c) => {
+    const body = await parseJsonBody(c);
+    validateRequired(body, ['code']);
+
+    const userId = c.get('userId');
+    const audit = getAuditContext(c);
+    const tenantDb = getTenantScopedDb(c);
+
+    if (!(await verifyMfaCode(tenantDb, userId, String(body.code), audit))) {
+      throw new AppError('INVALID_MFA_CODE', 'Invalid authentication code', 401);
+    }
+
+    const recoveryCodes = await regenerateRecoveryCodes(tenantDb, userId, audit);
+
+    return c.json({ recoveryCodes });
+  }
+);
+
+// POST /auth/mfa/disable
+authRoutes.post(
+  '/mfa/disable',
+  requireScope('users:write'),
+  sessionAuth,
+  mfaRateLimit,
+  async (c) => {
+    const body = await parseJsonBody(c);
+    validateRequired(body, ['code']);
+
+    const tenantDb = getTenantScopedDb(c);
+    await disableMfa(
+      tenantDb,
+      c.get('userId'),
+      String(body.code),
+      getAuditContext(c)
+    );
+
+    return c.body(null, 204);
+  }
+);
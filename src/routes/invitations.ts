@@ -0,0 +1,36 @@
+import { Hono } from 'hono';
+import { AppEnv } from '../types';
+import { apiKeyAuth, requireScope } from '../middleware/api-key-auth';
+import { rateLimitMiddleware } from '../middleware/rate-limit';
+import { sessionAuth } from '../middleware/session-auth';
+import { validateUUID } from '../middleware/validation';
+import { getAuditContext } from '../middleware/audit';
+import { getTenantScopedDb } from '../middleware/tenant-isolation';
+import { acceptInvitation } from '../services/organization';
+import { getTenantSettings } from '../services/tenant-settings';
+
+export const invitationRoutes = new Hono<AppEnv>();
+
+invitationRoutes.use('*', apiKeyAuth, rateLimitMiddleware);
+
+// POST /invitations/:id/accept
+invitationRoutes.post(
+  '/:id/accept',
+  requireScope('organizations:write'),
+  sessionAuth,
+  async (c) => {
+    const tenantDb = getTenantScopedDb(c);
+    const settings = await getTenantSettings(tenantDb);
+
+    await acceptInvitation(
+      tenantDb,
+      validateUUID(c.req.param('id'), 'id'),
+      c.get('userId'),
+      c.get('email'),
+      settings.requireEmailVerification,
+      getAuditContext(c)
+    );
+
+    return c.json({ accepted: true });
+  }
+);
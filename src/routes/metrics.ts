@@ -0,0 +1,16 @@
+import { Hono } from 'hono';
+import { AppEnv } from '../types';
+import { operatorAuth } from '../middleware/operator-auth';
+import { renderPrometheusMetrics } from '../middleware/metrics';
+
+export const metricsRoutes = new Hono<AppEnv>();
+
+metricsRoutes.use('*', operatorAuth);
+
+// GET /metrics
+// Prometheus text exposition format, for this isolate's requests
+metricsRoutes.get('/', (c) => {
+  return c.text(renderPrometheusMetrics(), 200, {
+    'Content-Type': 'text/plain; version=0.0.4; charset=utf-8',
+  });
+});
@@ -0,0 +1,117 @@
+import { Hono } from 'hono';
+import { AppEnv } from '../types';
+import { getConfig } from '../config';
+import { apiKeyAuth, requireScope } from '../middleware/api-key-auth';
+import { rateLimitMiddleware } from '../middleware/rate-limit';
+import { sessionAuth } from '../middleware/session-auth';
+import { AppError } from '../middleware/error-handler';
+import {
+  parseJsonBody,
+  validateRequired,
+  validateStringLength,
+  validateUUID,
+} from '../middleware/validation';
+import { getAuditContext } from '../middleware/audit';
+import { getTenantScopedDb } from '../middleware/tenant-isolation';
+import {
+  createOrganization,
+  getOrganization,
+  inviteMember,
+  removeMember,
+} from '../services/organization';
+import { getSubscriptionStatus } from '../services/subscription';
+
+export const organizationRoutes = new Hono<AppEnv>();
+
+organizationRoutes.use('*', apiKeyAuth, rateLimitMiddleware);
+
+// POST /organizations
+organizationRoutes.post('/', requireScope('organizations:write'), sessionAuth, async (c) => {
+  const body = await parseJsonBody(c);
+  validateRequired(body, ['name']);
+  validateStringLength(body.name, 'name', 1, 100);
+
+  const organization = await createOrganization(
+    getTenantScopedDb(c),
+    body.name,
+    c.get('userId'),
+    undefined,
+    getAuditContext(c)
+  );
+
+  return c.json({ organization }, 201);
+});
+
+// GET /organizations/:id
+organizationRoutes.get('/:id', requireScope('organizations:read'), async (c) => {
+  const organization = await getOrganization(
+    getTenantScopedDb(c),
+    validateUUID(c.req.param('id'), 'id')
+  );
+
+  if (!organization) {
+    throw new AppError('ORGANIZATION_NOT_FOUND', 'Organization not found', 404);
+  }
+
+  return c.json({ organization });
+});
+
+// POST /organizations/:id/invitations
+organizationRoutes.post(
+  '/:id/invitations',
+  requireScope('organizations:write'),
+  sessionAuth,
+  async (c) => {
+    const body = await parseJsonBody(c);
+    validateRequired(body, ['email']);
+
+    const config = getConfig(c);
+
+    const invitation = await inviteMember(
+      getTenantScopedDb(c),
+      validateUUID(c.req.param('id'), 'id'),
+      body.email,
+      body.role || config.defaults.role,
+      c.get('userId'),
+      config.invitationExpirationSeconds,
+      getAuditContext(c)
+    );
+
+    return c.json({ invitation }, 201);
+  }
+);
+
+// DELETE /organizations/:id/members/:userId
+organizationRoutes.delete(
+  '/:id/members/:userId',
+  requireScope('organizations:write'),
+  sessionAuth,
+  async (c) => {
+    await removeMember(
+      getTenantScopedDb(c),
+      validateUUID(c.req.param('id'), 'id'),
+      validateUUID(c.req.param('userId'), 'userId'),
+      c.get('userId'),
+      getAuditContext(c)
+    );
+
+    return c.body(null, 204);
+  }
+);
+
+// GET /organizations/:id/subscription
+organizationRoutes.get('/:id/subscription', requireScope('subscriptions:read'), async (c) => {
+  const tenantDb = getTenantScopedDb(c);
+
+  const organization = await getOrganization(tenantDb, validateUUID(c.req.param('id'), 'id'));
+  if (!organization) {
+    throw new AppError('ORGANIZATION_NOT_FOUND', 'Organization not found', 404);
+  }
+
+  const subscription = await getSubscriptionStatus(tenantDb, organization.id);
+  if (!subscription) {
+    throw new AppError('SUBSCRIPTION_NOT_FOUND', 'Subscription not found', 404);
+  }
+
+  return c.json({ subscription });
+});
@@ -0,0 +1,98 @@
+import { Hono } from 'hono';
+import { AppEnv } from '../types';
+import { apiKeyAuth, requireScope } from '../middleware/api-key-auth';
+import { rateLimitMiddleware } from '../middleware/rate-limit';
+import { AppError } from '../middleware/error-handler';
+import { getAuditContext } from '../middleware/audit';
+import { getTenantScopedDb } from '../middleware/tenant-isolation';
+import {
+  parseJsonBody,
+  validateRequired,
+  validateAlphanumeric,
+  validateUUID,
+} from '../middleware/validation';
+import { defineRole, getRole, getRoles, deleteRole, checkPermission } from '../services/permission';
+import { getOrganization } from '../services/organization';
+
+export const roleRoutes = new Hono<AppEnv>();
+
+roleRoutes.use('*', apiKeyAuth, rateLimitMiddleware);
+
+// POST /roles
+roleRoutes.post('/', requireScope('roles:write'), async (c) => {
+  const body = await parseJsonBody(c);
+  validateRequired(body, ['name', 'permissions']);
+  validateAlphanumeric(body.name, 'name');
+
+  if (
+    !Array.isArray(body.permissions) ||
+    !body.permissions.every((p: unknown) => typeof p === 'string')
+  ) {
+    throw new AppError(
+      'INVALID_INPUT',
+      'permissions must be an array of strings',
+      400,
+      { field: 'permissions' }
+    );
+  }
+
+  const role = await defineRole(
+    getTenantScopedDb(c),
+    body.name,
+    body.permissions,
+    body.isDefault === true,
+    getAuditContext(c)
+  );
+
+  return c.json({ role }, 201);
+});
+
+// GET /roles
+roleRoutes.get('/', requireScope('roles:read'), async (c) => {
+  const roles = await getRoles(getTenantScopedDb(c));
+
+  return c.json({ roles });
+});
+
+// POST /roles/check
+roleRoutes.post('/check', requireScope('roles:read'), async (c) => {
+  const body = await parseJsonBody(c);
+  validateRequired(body, ['userId', 'organizationId', 'permission']);
+
+  const tenantDb = getTenantScopedDb(c);
+
+  const organization = await getOrganization(
+    tenantDb,
+    validateUUID(body.organizationId, 'organizationId')
+  );
+  if (!organization) {
+    throw new AppError('ORGANIZATION_NOT_FOUND', 'Organization not found', 404);
+  }
+
+  const allowed = await checkPermission(
+    tenantDb,
+    validateUUID(body.userId, 'userId'),
+    organization.id,
+    body.permission
+  );
+
+  return c.json({ allowed });
+});
+
+// GET /roles/:name
+roleRoutes.get('/:name', requireScope('roles:read'), async (c) => {
+  const role = await getRole(getTenantScopedDb(c), c.req.param('name'));
+
+  if (!role) {
+    throw new AppError('ROLE_NOT_FOUND', 'Role not found', 404);
+  }
+
+  return c.json({ role });
+});
+
+// DELETE /roles/:name
+roleRoutes.delete('/:name', requireScope('roles:write'), async (c) => {
+  await deleteRole(getTenantScopedDb(c), c.req.param('name'), getAuditContext(c));
+
+  return c.body(null, 204);
+});
@@ -0,0 +1,19 @@
+import { Hono } from 'hono';
+import { AppEnv } from '../types';
+import { apiKeyAuth, requireMode, requireScope } from '../middleware/api-key-auth';
+import { rateLimitMiddleware } from '../middleware/rate-limit';
+import { getAuditContext } from '../middleware/audit';
+import { getTenantScopedDb } from '../middleware/tenant-isolation';
+import { resetTestData } from '../services/sandbox';
+
+export const sandboxRoutes = new Hono<AppEnv>();
+
+sandboxRoutes.use('*', apiKeyAuth, rateLimitMiddleware, requireMode('test'));
+
+// POST /sandbox/reset
+// Wipes everything created with the tenant's test keys
+sandboxRoutes.post('/reset', requireScope('sandbox:write'), async (c) => {
+  await resetTestData(getTenantScopedDb(c), getAuditContext(c));
+
+  return c.body(null, 204);
+});
@@ -0,0 +1,149 @@
+import { Hono } from 'hono';
+import { AppEnv } from '../types';
+import { apiKeyAuth, requireScope } from '../middleware/api-key-auth';
+import { rateLimitMiddleware } from '../middleware/rate-limit';
+import { AppError } from '../middleware/error-handler';
+import { parseJsonBody } from '../middleware/validation';
+import { REDACTION_RULES, RedactionPolicy } from '../middleware/logger';
+import { getAuditContext } from '../middleware/audit';
+import { getTenantScopedDb } from '../middleware/tenant-isolation';
+import { loadConfig, TENANT_CONFIG_KEYS, TenantConfigOverrides } from '../config';
+import {
+  getTenantSettings,
+  updateTenantSettings,
+  resolveTenantConfig,
+  replaceConfigOverrides,
+} from '../services/tenant-settings';
+
+export const settingsRoutes = new Hono<AppEnv>();
+
+settingsRoutes.use('*', apiKeyAuth, rateLimitMiddleware);
+
+// Validate a logRedaction update: { rules: [...], fullyRedactEmails?: boolean }
+function parseRedactionPolicy(value: any): RedactionPolicy {
+  const rules = value?.rules;
+  if (!Array.isArray(rules) || !rules.every((rule) => REDACTION_RULES.includes(rule))) {
+    throw new AppError(
+      'INVALID_INPUT',
+      `logRedaction.rules must be a list of: ${REDACTION_RULES.join(', ')}`,
+      400,
+      { field: 'logRedaction.rules' }
+    );
+  }
+
+  if (value.fullyRedactEmails !== undefined && typeof value.fullyRedactEmails !== 'boolean') {
+    throw new AppError('INVALID_INPUT', 'logRedaction.fullyRedactEmails must be a boolean', 400, {
+      field: 'logRedaction.fullyRedactEmails',
+    });
+  }
+
+  return { rules: Array.from(new Set(rules)), fullyRedactEmails: value.fullyRedactEmails ?? false };
+}
+
+// Validate a config update: integer overrides for TENANT_CONFIG_KEYS and an
+// optional defaults object ({ role?, subscriptionTier? })
+function parseConfigOverrides(value: any): TenantConfigOverrides {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new AppError('INVALID_INPUT', 'config must be an object', 400, { field: 'config' });
+  }
+
+  const overrides: TenantConfigOverrides = {};
+  for (const [key, setting] of Object.entries(value)) {
+    if (key === 'defaults') {
+      overrides.defaults = parseDefaults(setting);
+    } else if ((TENANT_CONFIG_KEYS as readonly string[]).includes(key)) {
+      if (!Number.isInteger(setting)) {
+        throw new AppError('INVALID_INPUT', `config.${key} must be an integer`, 400, {
+          field: `config.${key}`,
+        });
+      }
+      overrides[key as keyof Omit<TenantConfigOverrides, 'defaults'>] = setting as number;
+    } else {
+      throw new AppError(
+        'INVALID_INPUT',
+        `config can only set: ${[...TENANT_CONFIG_KEYS, 'defaults'].join(', ')}`,
+        400,
+        { field: `config.${key}` }
+      );
+    }
+  }
+
+  return overrides;
+}
+
+function parseDefaults(value: any): TenantConfigOverrides['defaults'] {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new AppError('INVALID_INPUT', 'config.defaults must be an object', 400, {
+      field: 'config.defaults',
+    });
+  }
+
+  const defaults: TenantConfigOverrides['defaults'] = {};
+  for (const [key, setting] of Object.entries(value)) {
+    if (key !== 'role' && key !== 'subscriptionTier') {
+      throw new AppError(
+        'INVALID_INPUT',
+        'config.defaults can only set: role, subscriptionTier',
+        400,
+        { field: `config.defaults.${key}` }
+      );
+    }
+    if (typeof setting !== 'string' || setting.length === 0) {
+      throw new AppError('INVALID_INPUT', `config.defaults.${key} must be a string`, 400, {
+        field: `config.defaults.${key}`,
+      });
+    }
+    defaults[key] = setting;
+  }
+
+  return defaults;
+}
+
+// GET /settings
+settingsRoutes.get('/', requireScope('settings:read'), async (c) => {
+  const settings = await getTenantSettings(getTenantScopedDb(c));
+
+  return c.json({ settings });
+});
+
+// PATCH /settings
+settingsRoutes.patch('/', requireScope('settings:write'), async (c) => {
+  const body = await parseJsonBody(c);
+
+  if (
+    body.requireEmailVerification !== undefined &&
+    typeof body.requireEmailVerification !== 'boolean'
+  ) {
+    throw new AppError('INVALID_INPUT', 'requireEmailVerification must be a boolean', 400, {
+      field: 'requireEmailVerification',
+    });
+  }
+
+  const tenantDb = getTenantScopedDb(c);
+
+  // Overrides replace the tenant's previous ones (operator overrides are
+  // kept) and must be valid on top of the environment's configuration
+  let config: TenantConfigOverrides | undefined;
+  if (body.config !== undefined) {
+    const current = await getTenantSettings(tenantDb);
+    config = replaceConfigOverrides(
+      current.config,
+      [...TENANT_CONFIG_KEYS, 'defaults'],
+      parseConfigOverrides(body.config)
+    );
+    resolveTenantConfig(loadConfig(c.env), config);
+  }
+
+  const settings = await updateTenantSettings(
+    tenantDb,
+    {
+      requireEmailVerification: body.requireEmailVerification,
+      logRedaction:
+        body.logRedaction === undefined ? undefined : parseRedactionPolicy(body.logRedaction),
+      config,
+    },
+    getAuditContext(c)
+  );
+
+  return c.json({ settings });
+});
@@ -0,0 +1,105 @@
+import { Hono } from 'hono';
+import { AppEnv } from '../types';
+import { apiKeyAuth, requireScope } from '../middleware/api-key-auth';
+import { rateLimitMiddleware } from '../middleware/rate-limit';
+import { AppError } from '../middleware/error-handler';
+import { parseJsonBody, validateRequired, validateUUID } from '../middleware/validation';
+import { getAuditContext } from '../middleware/audit';
+import { getTenantScopedDb } from '../middleware/tenant-isolation';
+import { getOrganization } from '../services/organization';
+import {
+  subscribe,
+  getSubscription,
+  updateSubscription,
+  cancelSubscription,
+} from '../services/subscription';
+
+export const subscriptionRoutes = new Hono<AppEnv>();
+
+subscriptionRoutes.use('*', apiKeyAuth, rateLimitMiddleware);
+
+// POST /subscriptions
+subscriptionRoutes.post('/', requireScope('subscriptions:write'), async (c) => {
+  const body = await parseJsonBody(c);
+  validateRequired(body, ['organizationId', 'tierId']);
+
+  let expirationDate: Date | undefined;
+  if (body.expirationDate) {
+    expirationDate = new Date(body.expirationDate);
+    if (isNaN(expirationDate.getTime())) {
+      throw new AppError('INVALID_INPUT', 'expirationDate must be a valid date', 400, {
+        field: 'expirationDate',
+      });
+    }
+  }
+
+  const tenantDb = getTenantScopedDb(c);
+
+  const organization = await getOrganization(
+    tenantDb,
+    validateUUID(body.organizationId, 'organizationId')
+  );
+  if (!organization) {
+    throw new AppError('ORGANIZATION_NOT_FOUND', 'Organization not found', 404);
+  }
+
+  const subscription = await subscribe(
+    tenantDb,
+    organization.id,
+    validateUUID(body.tierId, 'tierId'),
+    expirationDate,
+    getAuditContext(c)
+  );
+
+  return c.json({ subscription }, 201);
+});
+
+// GET /subscriptions/:id
+subscriptionRoutes.get('/:id', requireScope('subscriptions:read'), async (c) => {
+  const subscription = await getSubscription(
+    getTenantScopedDb(c),
+    validateUUID(c.req.param('id'), 'id')
+  );
+
+  if (!subscription) {
+    throw new AppError('SUBSCRIPTION_NOT_FOUND', 'Subscription not found', 404);
+  }
+
+  return c.json({ subscription });
+});
+
+// PATCH /subscriptions/:id
+subscriptionRoutes.patch('/:id', requireScope('subscriptions:write'), async (c) => {
+  const body = await parseJsonBody(c);
+  validateRequired(body, ['tierId']);
+
+  const tenantDb = getTenantScopedDb(c);
+
+  const existing = await getSubscription(tenantDb, validateUUID(c.req.param('id'), 'id'));
+  if (!existing) {
+    throw new AppError('SUBSCRIPTION_NOT_FOUND', 'Subscription not found', 404);
+  }
+
+  const subscription = await updateSubscription(
+    tenantDb,
+    existing.id,
+    validateUUID(body.tierId, 'tierId'),
+    getAuditContext(c)
+  );
+
+  return c.json({ subscription });
+});
+
+// POST /subscriptions/:id/cancel
+subscriptionRoutes.post('/:id/cancel', requireScope('subscriptions:write'), async (c) => {
+  const tenantDb = getTenantScopedDb(c);
+
+  const existing = await getSubscription(tenantDb, validateUUID(c.req.param('id'), 'id'));
+  if (!existing) {
+    throw new AppError('SUBSCRIPTION_NOT_FOUND', 'Subscription not found', 404);
+  }
+
+  await cancelSubscription(tenantDb, existing.id, getAuditContext(c));
+
+  return c.json({ cancelled: true });
+});
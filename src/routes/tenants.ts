@@ -0,0 +1,233 @@
+import { Hono } from 'hono';
+import { AppEnv } from '../types';
+import { createUnscopedDb } from '../db';
+import { operatorAuth } from '../middleware/operator-auth';
+import { AppError } from '../middleware/error-handler';
+import {
+  parseJsonBody,
+  parseOptionalJsonBody,
+  validateRequired,
+  validateStringLength,
+  validateAlphanumeric,
+} from '../middleware/validation';
+import { getAuditContext } from '../middleware/audit';
+import { createTenantScopedDb } from '../middleware/tenant-isolation';
+import { loadConfig, OPERATOR_CONFIG_KEYS, TenantConfigOverrides } from '../config';
+import {
+  provisionTenant,
+  getTenant,
+  listTenants,
+  updateTenant,
+  deleteTenant,
+  restoreTenant,
+  purgeTenant,
+} from '../services/tenant';
+import { exportTenantData } from '../services/tenant-export';
+import {
+  getTenantSettings,
+  updateTenantSettings,
+  resolveTenantConfig,
+  replaceConfigOverrides,
+} from '../services/tenant-settings';
+import { AuditContext } from '../services/audit';
+
+export const tenantRoutes = new Hono<AppEnv>();
+
+// Tenants are managed by operators. These routes work across tenants, so they
+// use a database handle that isn't scoped to one.
+tenantRoutes.use('*', operatorAuth);
+
+// Optional plan name: a string or null
+function parsePlan(value: unknown): string | null | undefined {
+  if (value !== undefined && value !== null && typeof value !== 'string') {
+    throw new AppError('INVALID_INPUT', 'plan must be a string', 400, { field: 'plan' });
+  }
+  return value;
+}
+
+// Validate an operator config update: integer overrides for
+// OPERATOR_CONFIG_KEYS
+function parseOperatorConfig(value: any): TenantConfigOverrides {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new AppError('INVALID_INPUT', 'config must be an object', 400, { field: 'config' });
+  }
+
+  const overrides: TenantConfigOverrides = {};
+  for (const [key, setting] of Object.entries(value)) {
+    if (!(OPERATOR_CONFIG_KEYS as readonly string[]).includes(key)) {
+      throw new AppError(
+        'INVALID_INPUT',
+        `config can only set: ${OPERATOR_CONFIG_KEYS.join(', ')}`,
+        400,
+        { field: `config.${key}` }
+      );
+    }
+    if (!Number.isInteger(setting)) {
+      throw new AppError('INVALID_INPUT', `config.${key} must be an integer`, 400, {
+        field: `config.${key}`,
+      });
+    }
+    overrides[key as (typeof OPERATOR_CONFIG_KEYS)[number]] = setting as number;
+  }
+
+  return overrides;
+}
+
+// POST /tenants
+// Creates the tenant, its default roles and tiers and its first API key. The
+// plaintext key is only ever returned in this response.
+tenantRoutes.post('/', async (c) => {
+  const body = await parseJsonBody(c);
+  validateRequired(body, ['name']);
+  validateStringLength(body.name, 'name', 1, 100);
+
+  if (body.id !== undefined) {
+    validateStringLength(body.id, 'id', 3, 64);
+    validateAlphanumeric(body.id, 'id');
+  }
+
+  if (
+    body.metadata !== undefined &&
+    (typeof body.metadata !== 'object' || body.metadata === null || Array.isArray(body.metadata))
+  ) {
+    throw new AppError('INVALID_INPUT', 'metadata must be an object', 400, {
+      field: 'metadata',
+    });
+  }
+
+  const db = createUnscopedDb(c.env.DATABASE_URL);
+  const { tenant, apiKey, key } = await provisionTenant(
+    db,
+    { id: body.id, name: body.name, plan: parsePlan(body.plan), metadata: body.metadata },
+    { ...getAuditContext(c), actorType: 'operator' }
+  );
+
+  return c.json({ tenant, apiKey, key }, 201);
+});
+
+// GET /tenants
+tenantRoutes.get('/', async (c) => {
+  const db = createUnscopedDb(c.env.DATABASE_URL);
+  const tenants = await listTenants(db);
+
+  return c.json({ tenants });
+});
+
+// GET /tenants/:id
+tenantRoutes.get('/:id', async (c) => {
+  const db = createUnscopedDb(c.env.DATABASE_URL);
+  const tenant = await getTenant(db, c.req.param('id'));
+
+  if (!tenant) {
+    throw new AppError('TENANT_NOT_FOUND', 'Tenant not found', 404);
+  }
+
+  return c.json({ tenant });
+});
+
+// PATCH /tenants/:id
+// Suspending a tenant rejects its API keys until it is set back to active.
+// config sets the tenant's OPERATOR_CONFIG_KEYS overrides (replacing the
+// previous ones), which the tenant can't set through /settings.
+tenantRoutes.patch('/:id', async (c) => {
+  const body = await parseJsonBody(c);
+  const tenantId = c.req.param('id');
+  const audit: AuditContext = { ...getAuditContext(c), actorType: 'operator' };
+
+  if (body.name !== undefined) {
+    validateStringLength(body.name, 'name', 1, 100);
+  }
+
+  const db = createUnscopedDb(c.env.DATABASE_URL);
+
+  let config: TenantConfigOverrides | undefined;
+  if (body.config !== undefined) {
+    const current = await getTenantSettings(createTenantScopedDb(db, tenantId));
+    config = replaceConfigOverrides(
+      current.config,
+      OPERATOR_CONFIG_KEYS,
+      parseOperatorConfig(body.config)
+    );
+    resolveTenantConfig(loadConfig(c.env), config);
+  }
+
+  const tenant = await updateTenant(
+    db,
+    tenantId,
+    { name: body.name, plan: parsePlan(body.plan), status: body.status },
+    audit
+  );
+
+  if (config) {
+    await updateTenantSettings(createTenantScopedDb(db, tenantId), { config }, audit);
+  }
+
+  return c.json({ tenant });
+});
+
+// DELETE /tenants/:id
+// The tenant's API keys stop working right away. Its data is purged after
+// gracePeriodSeconds (defaults to TENANT_DELETION_GRACE_PERIOD) unless it is
+// restored first.
+tenantRoutes.delete('/:id', async (c) => {
+  const body = await parseOptionalJsonBody(c);
+
+  const db = createUnscopedDb(c.env.DATABASE_URL);
+  const tenant = await deleteTenant(
+    db,
+    c.req.param('id'),
+    body.gracePeriodSeconds ?? loadConfig(c.env).tenantDeletionGraceSeconds,
+    { ...getAuditContext(c), actorType: 'operator' }
+  );
+
+  return c.json({ tenant });
+});
+
+// POST /tenants/:id/restore
+tenantRoutes.post('/:id/restore', async (c) => {
+  const db = createUnscopedDb(c.env.DATABASE_URL);
+  const tenant = await restoreTenant(db, c.req.param('id'), {
+    ...getAuditContext(c),
+    actorType: 'operator',
+  });
+
+  return c.json({ tenant });
+});
+
+// POST /tenants/:id/purge
+// Purges a deleted tenant without waiting for the grace period to end
+tenantRoutes.post('/:id/purge', async (c) => {
+  const db = createUnscopedDb(c.env.DATABASE_URL);
+  const report = await purgeTenant(db, c.req.param('id'));
+
+  return c.json({ report });
+});
+
+// GET /tenants/:id/export
+// Streams the tenant's data as NDJSON (see services/tenant-export.ts)
+tenantRoutes.get('/:id/export', async (c) => {
+  const db = createUnscopedDb(c.env.DATABASE_URL);
+  const tenant = await getTenant(db, c.req.param('id'));
+
+  if (!tenant) {
+    throw new AppError('TENANT_NOT_FOUND', 'Tenant not found', 404);
+  }
+
+  const lines = exportTenantData(db, tenant);
+  const encoder = new TextEncoder();
+  const body = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const { value, done } = await lines.next();
+      if (done) {
+        controller.close();
+      } else {
+        controller.enqueue(encoder.encode(value));
+      }
+    },
+  });
+
+  return c.body(body, 200, {
+    'Content-Type': 'application/x-ndjson',
+    'Content-Disposition': `attachment; filename="${tenant.id}.ndjson"`,
+  });
+});
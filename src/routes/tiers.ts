@@ -0,0 +1,83 @@
+import { Hono } from 'hono';
+import { AppEnv } from '../types';
+import { apiKeyAuth, requireScope } from '../middleware/api-key-auth';
+import { rateLimitMiddleware } from '../middleware/rate-limit';
+import { AppError } from '../middleware/error-handler';
+import {
+  parseJsonBody,
+  validateRequired,
+  validateStringLength,
+  validateUUID,
+} from '../middleware/validation';
+import { getAuditContext } from '../middleware/audit';
+import { getTenantScopedDb } from '../middleware/tenant-isolation';
+import { defineTier, getTier, getTiers, deleteTier } from '../services/subscription';
+
+export const tierRoutes = new Hono<AppEnv>();
+
+tierRoutes.use('*', apiKeyAuth, rateLimitMiddleware);
+
+// POST /tiers
+tierRoutes.post('/', requireScope('tiers:write'), async (c) => {
+  const body = await parseJsonBody(c);
+  validateRequired(body, ['name']);
+  validateStringLength(body.name, 'name', 1, 100);
+
+  const features = body.features ?? [];
+  const limits = body.limits ?? {};
+
+  if (!Array.isArray(features) || !features.every((f: unknown) => typeof f === 'string')) {
+    throw new AppError('INVALID_INPUT', 'features must be an array of strings', 400, {
+      field: 'features',
+    });
+  }
+
+  if (
+    typeof limits !== 'object' ||
+    Array.isArray(limits) ||
+    !Object.values(limits).every((l) => typeof l === 'number')
+  ) {
+    throw new AppError('INVALID_INPUT', 'limits must be an object of numbers', 400, {
+      field: 'limits',
+    });
+  }
+
+  const tier = await defineTier(
+    getTenantScopedDb(c),
+    body.name,
+    features,
+    limits,
+    getAuditContext(c)
+  );
+
+  return c.json({ tier }, 201);
+});
+
+// GET /tiers
+tierRoutes.get('/', requireScope('tiers:read'), async (c) => {
+  const tiers = await getTiers(getTenantScopedDb(c));
+
+  return c.json({ tiers });
+});
+
+// GET /tiers/:id
+tierRoutes.get('/:id', requireScope('tiers:read'), async (c) => {
+  const tier = await getTier(getTenantScopedDb(c), validateUUID(c.req.param('id'), 'id'));
+
+  if (!tier) {
+    throw new AppError('TIER_NOT_FOUND', 'Subscription tier not found', 404);
+  }
+
+  return c.json({ tier });
+});
+
+// DELETE /tiers/:id
+tierRoutes.delete('/:id', requireScope('tiers:write'), async (c) => {
+  await deleteTier(
+    getTenantScopedDb(c),
+    validateUUID(c.req.param('id'), 'id'),
+    getAuditContext(c)
+  );
+
+  return c.body(null, 204);
+});
@@ -0,0 +1,71 @@
+import { Hono } from 'hono';
+import { AppEnv } from '../types';
+import { apiKeyAuth, requireScope } from '../middleware/api-key-auth';
+import { rateLimitMiddleware, rateLimit, TIER_RATE_LIMIT } from '../middleware/rate-limit';
+import { AppError } from '../middleware/error-handler';
+import { parseJsonBody, validateRequired, validateUUID } from '../middleware/validation';
+import { getTenantScopedDb } from '../middleware/tenant-isolation';
+import { getOrganization } from '../services/organization';
+import { recordUsage, checkUsageLimit } from '../services/usage';
+
+export const usageRoutes = new Hono<AppEnv>();
+
+usageRoutes.use('*', apiKeyAuth, rateLimitMiddleware);
+
+// Organizations on tiers with an api_requests_per_minute limit get their own budget
+const organizationRateLimit = rateLimit({ keyBy: 'organization', tierLimit: TIER_RATE_LIMIT });
+
+// POST /usage
+usageRoutes.post('/', requireScope('usage:record'), organizationRateLimit, async (c) => {
+  const body = await parseJsonBody(c);
+  validateRequired(body, ['organizationId', 'metricName', 'quantity']);
+
+  if (!Number.isInteger(body.quantity) || body.quantity < 1) {
+    throw new AppError('INVALID_INPUT', 'quantity must be a positive integer', 400, {
+      field: 'quantity',
+    });
+  }
+
+  const tenantDb = getTenantScopedDb(c);
+
+  const organization = await getOrganization(
+    tenantDb,
+    validateUUID(body.organizationId, 'organizationId')
+  );
+  if (!organization) {
+    throw new AppError('ORGANIZATION_NOT_FOUND', 'Organization not found', 404);
+  }
+
+  const record = await recordUsage(tenantDb, organization.id, body.metricName, body.quantity);
+
+  return c.json({ record }, 201);
+});
+
+// GET /usage/limit?organizationId=...&metricName=...&periodStart=...
+usageRoutes.get('/limit', requireScope('usage:read'), organizationRateLimit, async (c) => {
+  const organizationId = c.req.query('organizationId');
+  const metricName = c.req.query('metricName');
+  validateRequired({ organizationId, metricName }, ['organizationId', 'metricName']);
+
+  let periodStart: Date | undefined;
+  const periodStartParam = c.req.query('periodStart');
+  if (periodStartParam) {
+    periodStart = new Date(periodStartParam);
+    if (isNaN(periodStart.getTime())) {
+      throw new AppError('INVALID_INPUT', 'periodStart must be a valid date', 400, {
+        field: 'periodStart',
+      });
+    }
+  }
+
+  const tenantDb = getTenantScopedDb(c);
+
+  const organization = await getOrganization(tenantDb, validateUUID(organizationId, 'organizationId'));
+  if (!organization) {
+    throw new AppError('ORGANIZATION_NOT_FOUND', 'Organization not found', 404);
+  }
+
+  const result = await checkUsageLimit(tenantDb, organization.id, metricName!, periodStart);
+
+  return c.json(result);
+});
@@ -0,0 +1,21 @@
+import { Hono } from 'hono';
+import { AppEnv } from '../types';
+import { apiKeyAuth, requireScope } from '../middleware/api-key-auth';
+import { rateLimitMiddleware } from '../middleware/rate-limit';
+import { validateUUID } from '../middleware/validation';
+import { getTenantScopedDb } from '../middleware/tenant-isolation';
+import { getUserOrganizations } from '../services/organization';
+
+export const userRoutes = new Hono<AppEnv>();
+
+userRoutes.use('*', apiKeyAuth, rateLimitMiddleware);
+
+// GET /users/:userId/organizations
+userRoutes.get('/:userId/organizations', requireScope('organizations:read'), async (c) => {
+  const organizations = await getUserOrganizations(
+    getTenantScopedDb(c),
+    validateUUID(c.req.param('userId'), 'userId')
+  );
+
+  return c.json({ organizations });
+});
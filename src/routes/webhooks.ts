@@ -0,0 +1,93 @@
+import { Hono } from 'hono';
+import { AppEnv, WebhookDeliveryStatus } from '../types';
+import { apiKeyAuth, requireScope } from '../middleware/api-key-auth';
+import { rateLimitMiddleware } from '../middleware/rate-limit';
+import { AppError } from '../middleware/error-handler';
+import { parseJsonBody, validateRequired, validateUUID } from '../middleware/validation';
+import { getAuditContext } from '../middleware/audit';
+import { getTenantScopedDb } from '../middleware/tenant-isolation';
+import {
+  createWebhookEndpoint,
+  listWebhookEndpoints,
+  deleteWebhookEndpoint,
+  listWebhookDeliveries,
+  redeliverWebhook,
+} from '../services/webhook';
+
+export const webhookRoutes = new Hono<AppEnv>();
+
+webhookRoutes.use('*', apiKeyAuth, rateLimitMiddleware);
+
+const DELIVERY_STATUSES: WebhookDeliveryStatus[] = ['pending', 'succeeded', 'failed'];
+
+// POST /webhooks
+// The signing secret is only ever returned in this response
+webhookRoutes.post('/', requireScope('webhooks:write'), async (c) => {
+  const body = await parseJsonBody(c);
+  validateRequired(body, ['url', 'events']);
+
+  const { endpoint, secret } = await createWebhookEndpoint(
+    getTenantScopedDb(c),
+    body.url,
+    body.events,
+    getAuditContext(c)
+  );
+
+  return c.json({ endpoint, secret }, 201);
+});
+
+// GET /webhooks
+webhookRoutes.get('/', requireScope('webhooks:read'), async (c) => {
+  const endpoints = await listWebhookEndpoints(getTenantScopedDb(c));
+
+  return c.json({ endpoints });
+});
+
+// DELETE /webhooks/:id
+webhookRoutes.delete('/:id', requireScope('webhooks:write'), async (c) => {
+  await deleteWebhookEndpoint(
+    getTenantScopedDb(c),
+    validateUUID(c.req.param('id'), 'id'),
+    getAuditContext(c)
+  );
+
+  return c.json({ success: true });
+});
+
+// GET /webhooks/:id/deliveries
+// Filters: status (pending, succeeded or failed) and limit. Newest first.
+webhookRoutes.get('/:id/deliveries', requireScope('webhooks:read'), async (c) => {
+  const status = c.req.query('status');
+  if (status !== undefined && !DELIVERY_STATUSES.includes(status as WebhookDeliveryStatus)) {
+    throw new AppError(
+      'INVALID_INPUT',
+      `status must be one of ${DELIVERY_STATUSES.join(', ')}`,
+      400,
+      { field: 'status' }
+    );
+  }
+  const limitParam = c.req.query('limit');
+  const endpointId = validateUUID(c.req.param('id'), 'id');
+
+  const deliveries = await listWebhookDeliveries(getTenantScopedDb(c), endpointId, {
+    status: status as WebhookDeliveryStatus | undefined,
+    limit: limitParam === undefined ? undefined : Number(limitParam),
+  });
+
+  return c.json({ deliveries });
+});
+
+// POST /webhooks/deliveries/:deliveryId/redeliver
+// Sends the event again right away and returns the new delivery
+webhookRoutes.post(
+  '/deliveries/:deliveryId/redeliver',
+  requireScope('webhooks:write'),
+  async (c) => {
+    const delivery = await redeliverWebhook(
+      getTenantScopedDb(c),
+      validateUUID(c.req.param('deliveryId'), 'deliveryId')
+    );
+
+    return c.json({ delivery }, 201);
+  }
+);
@@ -1,11 +1,40 @@
 import { describe, test, expect, beforeEach } from 'vitest';
 import * as fc from 'fast-check';
-import { generateApiKey, hashApiKey, createApiKey, validateApiKey } from './api-key';
-import { createDb } from '../db';
+import {
+  generateApiKey,
+  hashApiKey,
+  getApiKeyPrefix,
+  getApiKeyMode,
+  createApiKey,
+  validateApiKey,
+  listApiKeys,
+  revokeApiKey,
+  rotateApiKey,
+  hasScope,
+  validateScopes,
+  assertCanGrantScopes,
+} from './api-key';
+import { createUnscopedDb, schema } from '../db';
 import { AppError } from '../middleware/error-handler';
+import { createTenantScopedDb } from '../middleware/tenant-isolation';
+import { getSandboxTenantId } from './sandbox';
 
 // Mock database for testing
-const db = createDb(process.env.DATABASE_URL!);
+const db = createUnscopedDb(process.env.DATABASE_URL!);
+
+// Longest grace period the tests allow a rotation
+const MAX_GRACE_SECONDS = 86400;
+
+// Tenant-owned rows need their tenant, and test-mode rows its sandbox partition
+async function createTestTenant(tenantId: string) {
+  await db
+    .insert(schema.tenants)
+    .values([
+      { id: tenantId, name: tenantId },
+      { id: getSandboxTenantId(tenantId), name: tenantId },
+    ])
+    .onConflictDoNothing();
+}
 
 describe('API Key Service', () => {
   // Property 31: API key generation
@@ -64,9 +93,10 @@ describe('API Key Service', () => {
   test('Property 32: Valid API key authenticates successfully', async () => {
     // Feature: saas-backend-layer, Property 32: Valid API key authentication
     const tenantId = `tenant_${Date.now()}`;
+    await createTestTenant(tenantId);
     const name = 'Test API Key';
     
-    const { apiKey } = await createApiKey(db, tenantId, name);
+    const { apiKey } = await createApiKey(createTenantScopedDb(db, tenantId), name);
     
     const context = await validateApiKey(db, apiKey);
     
@@ -109,3 +139,207 @@ describe('API Key Service', () => {
     }
   });
 });
+
+describe('API Key Management', () => {
+  test('Prefix identifies a key without revealing it', () => {
+    const apiKey = generateApiKey();
+    const prefix = getApiKeyPrefix(apiKey);
+
+    expect(apiKey.startsWith(prefix)).toBe(true);
+    expect(prefix).toMatch(/^sk_live_/);
+    expect(prefix.length).toBeLessThan(apiKey.length);
+  });
+
+  test('A tenant can hold several named keys', async () => {
+    const tenantId = `tenant_${Date.now()}`;
+    await createTestTenant(tenantId);
+    const tenantDb = createTenantScopedDb(db, tenantId);
+
+    const first = await createApiKey(tenantDb, 'Production');
+    const second = await createApiKey(tenantDb, 'CI');
+
+    expect((await validateApiKey(db, first.apiKey)).tenantId).toBe(tenantId);
+    expect((await validateApiKey(db, second.apiKey)).tenantId).toBe(tenantId);
+
+    const keys = await listApiKeys(tenantDb);
+    expect(keys.map((key) => key.name)).toEqual(['Production', 'CI']);
+    expect(keys[0].prefix).toBe(getApiKeyPrefix(first.apiKey));
+    expect(keys[0]).not.toHaveProperty('keyHash');
+  });
+
+  test('Revoked keys are rejected', async () => {
+    const tenantId = `tenant_${Date.now()}`;
+    await createTestTenant(tenantId);
+    const tenantDb = createTenantScopedDb(db, tenantId);
+    const { apiKey, record } = await createApiKey(tenantDb, 'Revoke me');
+
+    const revoked = await revokeApiKey(tenantDb, record.id);
+    expect(revoked.revokedAt).not.toBeNull();
+
+    await expect(validateApiKey(db, apiKey)).rejects.toThrow('API key has been revoked');
+  });
+
+  test('Keys cannot be revoked from another tenant', async () => {
+    const tenantId = `tenant_${Date.now()}`;
+    await createTestTenant(tenantId);
+    const { apiKey, record } = await createApiKey(createTenantScopedDb(db, tenantId), 'Mine');
+
+    const otherTenantDb = createTenantScopedDb(db, `${tenantId}_other`);
+    await expect(revokeApiKey(otherTenantDb, record.id)).rejects.toThrow('API key not found');
+    expect((await validateApiKey(db, apiKey)).tenantId).toBe(tenantId);
+  });
+
+  test('Expired keys are rejected', async () => {
+    const tenantId = `tenant_${Date.now()}`;
+    await createTestTenant(tenantId);
+    const { apiKey } = await createApiKey(createTenantScopedDb(db, tenantId), 'Short lived', {
+      expiresAt: new Date(Date.now() + 1000),
+    });
+
+    await new Promise((resolve) => setTimeout(resolve, 1100));
+
+    await expect(validateApiKey(db, apiKey)).rejects.toThrow('API key has expired');
+  });
+
+  test('Rotated keys stay valid for the grace period', async () => {
+    const tenantId = `tenant_${Date.now()}`;
+    await createTestTenant(tenantId);
+    const tenantDb = createTenantScopedDb(db, tenantId);
+    const { apiKey: oldKey, record } = await createApiKey(tenantDb, 'Rotating');
+
+    const rotated = await rotateApiKey(tenantDb, record.id, 3600, MAX_GRACE_SECONDS);
+
+    expect(rotated.record.name).toBe('Rotating');
+    expect(rotated.previous.expiresAt!.getTime()).toBeGreaterThan(Date.now());
+    expect((await validateApiKey(db, oldKey)).tenantId).toBe(tenantId);
+    expect((await validateApiKey(db, rotated.apiKey)).tenantId).toBe(tenantId);
+  });
+
+  test('Rotation without a grace period retires the old key immediately', async () => {
+    const tenantId = `tenant_${Date.now()}`;
+    await createTestTenant(tenantId);
+    const tenantDb = createTenantScopedDb(db, tenantId);
+    const { apiKey: oldKey, record } = await createApiKey(tenantDb, 'Rotating');
+
+    const rotated = await rotateApiKey(tenantDb, record.id, 0, MAX_GRACE_SECONDS);
+
+    await expect(validateApiKey(db, oldKey)).rejects.toThrow('API key has expired');
+    expect((await validateApiKey(db, rotated.apiKey)).tenantId).toBe(tenantId);
+    await expect(rotateApiKey(tenantDb, record.id, 0, MAX_GRACE_SECONDS)).rejects.toThrow(
+      'Revoked or expired API keys cannot be rotated'
+    );
+  });
+
+  test('Grace periods above the maximum are rejected', async () => {
+    const tenantId = `tenant_${Date.now()}`;
+    await createTestTenant(tenantId);
+    const tenantDb = createTenantScopedDb(db, tenantId);
+    const { apiKey, record } = await createApiKey(tenantDb, 'Rotating');
+
+    await expect(
+      rotateApiKey(tenantDb, record.id, MAX_GRACE_SECONDS + 1, MAX_GRACE_SECONDS)
+    ).rejects.toThrow(`gracePeriodSeconds must be an integer between 0 and ${MAX_GRACE_SECONDS}`);
+    await expect(rotateApiKey(tenantDb, record.id, 1e20, MAX_GRACE_SECONDS)).rejects.toThrow(
+      AppError
+    );
+    expect((await validateApiKey(db, apiKey)).tenantId).toBe(tenantId);
+  });
+
+  test('Test keys carry their own prefix', () => {
+    const apiKey = generateApiKey('test');
+
+    expect(apiKey).toMatch(/^sk_test_[A-Za-z0-9_-]+$/);
+    expect(getApiKeyMode(apiKey)).toBe('test');
+    expect(getApiKeyMode(generateApiKey())).toBe('live');
+    expect(getApiKeyMode('sk_other_abc')).toBeNull();
+  });
+
+  test('Test keys resolve to the sandbox partition', async () => {
+    const tenantId = `tenant_${Date.now()}`;
+    await createTestTenant(tenantId);
+    const tenantDb = createTenantScopedDb(db, tenantId);
+    const live = await createApiKey(tenantDb, 'Live');
+    const testKey = await createApiKey(tenantDb, 'Test', { mode: 'test' });
+
+    expect(testKey.record.mode).toBe('test');
+    expect(await validateApiKey(db, live.apiKey)).toMatchObject({ tenantId, mode: 'live' });
+    expect(await validateApiKey(db, testKey.apiKey)).toMatchObject({
+      tenantId: getSandboxTenantId(tenantId),
+      mode: 'test',
+    });
+  });
+
+  test('Rotating a test key issues another test key', async () => {
+    const tenantId = `tenant_${Date.now()}`;
+    await createTestTenant(tenantId);
+    const tenantDb = createTenantScopedDb(db, tenantId);
+    const { record } = await createApiKey(tenantDb, 'Test', { mode: 'test' });
+
+    const rotated = await rotateApiKey(tenantDb, record.id, 0, MAX_GRACE_SECONDS);
+
+    expect(rotated.apiKey).toMatch(/^sk_test_/);
+    expect(rotated.record.mode).toBe('test');
+  });
+});
+
+describe('API Key Scopes', () => {
+  test('Scopes use permission wildcard semantics', () => {
+    expect(hasScope(['*'], 'users:read')).toBe(true);
+    expect(hasScope(['users:*'], 'users:write')).toBe(true);
+    expect(hasScope(['users:read'], 'users:read')).toBe(true);
+    expect(hasScope(['users:read'], 'users:write')).toBe(false);
+    expect(hasScope(['users:*'], 'usage:record')).toBe(false);
+    // "." is not a scope separator
+    expect(hasScope(['users.*'], 'users:read')).toBe(false);
+  });
+
+  test('Unknown scopes are rejected', () => {
+    expect(validateScopes(['users:read', 'usage:*', '*'])).toEqual(['users:read', 'usage:*', '*']);
+
+    for (const scopes of [[], ['users:rea'], ['billing:*'], 'users:read', [42]]) {
+      expect(() => validateScopes(scopes)).toThrow(AppError);
+    }
+  });
+
+  test('Keys cannot grant scopes they do not hold', () => {
+    expect(() => assertCanGrantScopes(['*'], ['*'])).not.toThrow();
+    expect(() => assertCanGrantScopes(['users:*'], ['users:read'])).not.toThrow();
+    expect(() => assertCanGrantScopes(['users:read'], ['users:*'])).toThrow(
+      'API key cannot grant scopes it does not hold'
+    );
+    expect(() => assertCanGrantScopes(['users:*'], ['*'])).toThrow(AppError);
+  });
+
+  test('Scopes are returned with the tenant context', async () => {
+    const tenantId = `tenant_${Date.now()}`;
+    await createTestTenant(tenantId);
+    const { apiKey } = await createApiKey(createTenantScopedDb(db, tenantId), 'Read only', {
+      scopes: ['users:read', 'usage:*'],
+    });
+
+    const context = await validateApiKey(db, apiKey);
+    expect(context.scopes).toEqual(['users:read', 'usage:*']);
+  });
+
+  test('Keys get full access by default', async () => {
+    const tenantId = `tenant_${Date.now()}`;
+    await createTestTenant(tenantId);
+    const { record } = await createApiKey(createTenantScopedDb(db, tenantId), 'Full access');
+
+    expect(record.scopes).toEqual(['*']);
+  });
+
+  test('Rotation keeps scopes and respects the caller', async () => {
+    const tenantId = `tenant_${Date.now()}`;
+    await createTestTenant(tenantId);
+    const tenantDb = createTenantScopedDb(db, tenantId);
+    const { record } = await createApiKey(tenantDb, 'Admin');
+
+    await expect(
+      rotateApiKey(tenantDb, record.id, 0, MAX_GRACE_SECONDS, ['api_keys:write'])
+    ).rejects.toThrow('API key cannot grant scopes it does not hold');
+
+    const rotated = await rotateApiKey(tenantDb, record.id, 0, MAX_GRACE_SECONDS);
+    expect(rotated.record.scopes).toEqual(['*']);
+  });
+});
@@ -1,16 +1,92 @@
-import { eq } from 'drizzle-orm';
+import { eq, asc } from 'drizzle-orm';
 import { Database } from '../db';
 import { schema } from '../db';
-import { TenantContext } from '../types';
+import { ApiKey, ApiKeyMode, TenantContext } from '../types';
 import { AppError } from '../middleware/error-handler';
+import { createTenantScopedDb, TenantScopedDb } from '../middleware/tenant-isolation';
+import { getSandboxTenantId } from './sandbox';
+import { matchesPermission } from './permission';
+import { AuditContext, recordAuditEvent, diffChanges } from './audit';
 import * as crypto from 'crypto';
 
 // Generate a new API key
-export function generateApiKey(): string {
-  // Format: sk_live_<random_32_chars>
+export function generateApiKey(mode: ApiKeyMode = 'live'): string {
+  // Format: sk_live_<random_32_chars> or sk_test_<random_32_chars>
   const randomBytes = crypto.randomBytes(24);
   const randomString = randomBytes.toString('base64url');
-  return `sk_live_${randomString}`;
+  return `sk_${mode}_${randomString}`;
+}
+
+// Get the mode encoded in an API key's prefix, or null if it has neither prefix
+export function getApiKeyMode(apiKey: string): ApiKeyMode | null {
+  if (apiKey.startsWith('sk_live_')) {
+    return 'live';
+  }
+  if (apiKey.startsWith('sk_test_')) {
+    return 'test';
+  }
+  return null;
+}
+
+// Scopes that routes check for. Keys may hold these, "resource:*" or "*".
+export const API_KEY_SCOPES = [
+  'users:read',
+  'users:write',
+  'organizations:read',
+  'organizations:write',
+  'roles:read',
+  'roles:write',
+  'tiers:read',
+  'tiers:write',
+  'subscriptions:read',
+  'subscriptions:write',
+  'usage:read',
+  'usage:record',
+  'settings:read',
+  'settings:write',
+  'api_keys:read',
+  'api_keys:write',
+  'sandbox:write',
+  'audit:read',
+  'webhooks:read',
+  'webhooks:write',
+] as const;
+
+// Check whether a set of API key scopes grants the required scope
+export function hasScope(scopes: string[], requiredScope: string): boolean {
+  return matchesPermission(scopes, requiredScope, ':');
+}
+
+// Check that every scope grants at least one known scope, so typos are caught
+// when the key is created instead of when it's first used
+export function validateScopes(scopes: unknown): string[] {
+  if (
+    !Array.isArray(scopes) ||
+    scopes.length === 0 ||
+    !scopes.every(
+      (scope) =>
+        typeof scope === 'string' &&
+        API_KEY_SCOPES.some((known) => matchesPermission([scope], known, ':'))
+    )
+  ) {
+    throw new AppError('INVALID_INPUT', 'scopes must be a non-empty array of known scopes', 400, {
+      field: 'scopes',
+      allowed: ['*', ...API_KEY_SCOPES],
+    });
+  }
+
+  return scopes;
+}
+
+// Keys can only hand out scopes they hold themselves, so a narrowly scoped
+// key can't be used to mint a broader one
+export function assertCanGrantScopes(grantorScopes: string[], scopes: string[]): void {
+  const missing = scopes.filter((scope) => !hasScope(grantorScopes, scope));
+  if (missing.length > 0) {
+    throw new AppError('INSUFFICIENT_SCOPE', 'API key cannot grant scopes it does not hold', 403, {
+      scopes: missing,
+    });
+  }
 }
 
 // Hash API key for storage (using SHA-256)
@@ -18,53 +94,265 @@ export function hashApiKey(apiKey: string): string {
   return crypto.createHash('sha256').update(apiKey).digest('hex');
 }
 
-// Create a new API key for a tenant
+// Visible prefix used to identify a key without exposing it (e.g. "sk_live_AbCd")
+export function getApiKeyPrefix(apiKey: string): string {
+  return apiKey.slice(0, 12);
+}
+
+// Map a database row to API key metadata (never includes the key hash)
+function toApiKey(record: typeof schema.apiKeys.$inferSelect): ApiKey {
+  return {
+    id: record.id,
+    tenantId: record.tenantId,
+    name: record.name,
+    prefix: record.prefix,
+    mode: record.mode as ApiKeyMode,
+    scopes: record.scopes,
+    createdAt: record.createdAt,
+    lastUsedAt: record.lastUsedAt,
+    expiresAt: record.expiresAt,
+    revokedAt: record.revokedAt,
+  };
+}
+
+// A key's use is audited at most this often (it's used on every request)
+const API_KEY_USE_AUDIT_INTERVAL_MS = 60 * 60 * 1000; // 1 hour
+
+type ApiKeyOptions = { expiresAt?: Date | null; mode?: ApiKeyMode; scopes?: string[] };
+
+// Create a new API key for a tenant. Keys get full access unless scopes are given.
 export async function createApiKey(
-  db: Database,
-  tenantId: string,
-  name: string
-): Promise<{ apiKey: string; keyHash: string }> {
-  const apiKey = generateApiKey();
+  tenantDb: TenantScopedDb,
+  name: string,
+  options: ApiKeyOptions = {},
+  audit: AuditContext = {}
+): Promise<{ apiKey: string; keyHash: string; record: ApiKey }> {
+  const created = await insertApiKey(tenantDb, name, options);
+
+  await recordAuditEvent(tenantDb, audit, {
+    action: 'api_key.created',
+    targetType: 'api_key',
+    targetId: created.record.id,
+    changes: diffChanges(null, {
+      name,
+      mode: created.record.mode,
+      scopes: created.record.scopes,
+      expiresAt: created.record.expiresAt,
+    }),
+  });
+
+  return created;
+}
+
+// Generate and store a key
+async function insertApiKey(
+  tenantDb: TenantScopedDb,
+  name: string,
+  options: ApiKeyOptions
+): Promise<{ apiKey: string; keyHash: string; record: ApiKey }> {
+  const { expiresAt = null, mode = 'live', scopes = ['*'] } = options;
+  validateScopes(scopes);
+
+  if (expiresAt && expiresAt <= new Date()) {
+    throw new AppError('INVALID_INPUT', 'expiresAt must be in the future', 400, {
+      field: 'expiresAt',
+    });
+  }
+
+  const apiKey = generateApiKey(mode);
   const keyHash = hashApiKey(apiKey);
 
-  await db.insert(schema.apiKeys).values({
+  const [record] = await tenantDb.insert(schema.apiKeys, {
     keyHash,
-    tenantId,
     name,
+    prefix: getApiKeyPrefix(apiKey),
+    mode,
+    scopes,
     createdAt: new Date(),
+    expiresAt,
   });
 
-  return { apiKey, keyHash };
+  return { apiKey, keyHash, record: toApiKey(record) };
 }
 
-// Validate API key and return tenant context
+// List all API keys for a tenant, oldest first
+export async function listApiKeys(tenantDb: TenantScopedDb): Promise<ApiKey[]> {
+  const records = await tenantDb.select(schema.apiKeys, undefined, {
+    orderBy: asc(schema.apiKeys.createdAt),
+  });
+
+  return records.map(toApiKey);
+}
+
+// Get a single API key for a tenant
+async function getApiKeyRecord(tenantDb: TenantScopedDb, keyId: string) {
+  const [record] = await tenantDb.select(schema.apiKeys, eq(schema.apiKeys.id, keyId), {
+    limit: 1,
+  });
+
+  if (!record) {
+    throw new AppError('API_KEY_NOT_FOUND', 'API key not found', 404);
+  }
+
+  return record;
+}
+
+// Revoke an API key immediately. Revoking an already revoked key is a no-op.
+export async function revokeApiKey(
+  tenantDb: TenantScopedDb,
+  keyId: string,
+  audit: AuditContext = {}
+): Promise<ApiKey> {
+  const record = await getApiKeyRecord(tenantDb, keyId);
+  if (record.revokedAt) {
+    return toApiKey(record);
+  }
+
+  const [revoked] = await tenantDb.update(
+    schema.apiKeys,
+    { revokedAt: new Date() },
+    eq(schema.apiKeys.id, record.id)
+  );
+
+  await recordAuditEvent(tenantDb, audit, {
+    action: 'api_key.revoked',
+    targetType: 'api_key',
+    targetId: revoked.id,
+    changes: diffChanges({ revokedAt: null }, { revokedAt: revoked.revokedAt }),
+  });
+
+  return toApiKey(revoked);
+}
+
+// Replace an API key with a new one under the same name, mode and scopes. The old key stays
+// valid for the grace period so clients can switch over without downtime. The grace
+// period can't be longer than maxGracePeriodSeconds (see config.apiKeyRotationGraceSeconds).
+export async function rotateApiKey(
+  tenantDb: TenantScopedDb,
+  keyId: string,
+  gracePeriodSeconds: number,
+  maxGracePeriodSeconds: number,
+  grantorScopes: string[] = ['*'],
+  audit: AuditContext = {}
+): Promise<{ apiKey: string; record: ApiKey; previous: ApiKey }> {
+  if (
+    !Number.isInteger(gracePeriodSeconds) ||
+    gracePeriodSeconds < 0 ||
+    gracePeriodSeconds > maxGracePeriodSeconds
+  ) {
+    throw new AppError(
+      'INVALID_INPUT',
+      `gracePeriodSeconds must be an integer between 0 and ${maxGracePeriodSeconds}`,
+      400,
+      { field: 'gracePeriodSeconds', max: maxGracePeriodSeconds }
+    );
+  }
+
+  const record = await getApiKeyRecord(tenantDb, keyId);
+  const now = new Date();
+
+  if (record.revokedAt || (record.expiresAt && record.expiresAt <= now)) {
+    throw new AppError('API_KEY_INACTIVE', 'Revoked or expired API keys cannot be rotated', 400);
+  }
+
+  assertCanGrantScopes(grantorScopes, record.scopes);
+
+  // Never extend a key that was already due to expire sooner
+  const graceEndsAt = new Date(now.getTime() + gracePeriodSeconds * 1000);
+  const expiresAt =
+    record.expiresAt && record.expiresAt < graceEndsAt ? record.expiresAt : graceEndsAt;
+
+  return tenantDb.transaction(async (tx) => {
+    const { apiKey, record: created } = await insertApiKey(tx, record.name, {
+      mode: record.mode as ApiKeyMode,
+      scopes: record.scopes,
+    });
+
+    const [previous] = await tx.update(
+      schema.apiKeys,
+      { expiresAt },
+      eq(schema.apiKeys.id, record.id)
+    );
+
+    await recordAuditEvent(tx, audit, {
+      action: 'api_key.rotated',
+      targetType: 'api_key',
+      targetId: record.id,
+      changes: diffChanges(
+        { expiresAt: record.expiresAt, replacedBy: null },
+        { expiresAt: previous.expiresAt, replacedBy: created.id }
+      ),
+    });
+
+    return { apiKey, record: created, previous: toApiKey(previous) };
+  });
+}
+
+// Validate API key and return tenant context. Test keys resolve to the
+// tenant's sandbox partition.
 export async function validateApiKey(
   db: Database,
-  apiKey: string
+  apiKey: string,
+  audit: AuditContext = {}
 ): Promise<TenantContext> {
-  if (!apiKey || !apiKey.startsWith('sk_')) {
+  if (!apiKey || !getApiKeyMode(apiKey)) {
     throw new AppError('INVALID_API_KEY', 'Invalid API key format', 401);
   }
 
   const keyHash = hashApiKey(apiKey);
 
-  const [apiKeyRecord] = await db
-    .select()
+  const [row] = await db
+    .select({ apiKey: schema.apiKeys, tenantStatus: schema.tenants.status })
     .from(schema.apiKeys)
+    .innerJoin(schema.tenants, eq(schema.tenants.id, schema.apiKeys.tenantId))
     .where(eq(schema.apiKeys.keyHash, keyHash))
     .limit(1);
 
-  if (!apiKeyRecord) {
+  if (!row) {
     throw new AppError('INVALID_API_KEY', 'API key not found', 401);
   }
 
+  const apiKeyRecord = row.apiKey;
+
+  if (apiKeyRecord.revokedAt) {
+    throw new AppError('INVALID_API_KEY', 'API key has been revoked', 401);
+  }
+
+  if (apiKeyRecord.expiresAt && apiKeyRecord.expiresAt <= new Date()) {
+    throw new AppError('INVALID_API_KEY', 'API key has expired', 401);
+  }
+
+  // Keys of suspended tenants stay valid, so reactivating the tenant restores them
+  if (row.tenantStatus !== 'active') {
+    throw new AppError('TENANT_INACTIVE', `Tenant is ${row.tenantStatus}`, 403);
+  }
+
   // Update last used timestamp
+  const now = new Date();
   await db
     .update(schema.apiKeys)
-    .set({ lastUsedAt: new Date() })
+    .set({ lastUsedAt: now })
     .where(eq(schema.apiKeys.keyHash, keyHash));
 
+  const lastUsedAt = apiKeyRecord.lastUsedAt;
+  if (!lastUsedAt || now.getTime() - lastUsedAt.getTime() >= API_KEY_USE_AUDIT_INTERVAL_MS) {
+    await recordAuditEvent(
+      createTenantScopedDb(db, apiKeyRecord.tenantId),
+      { ...audit, actorType: 'api_key', actorId: apiKeyRecord.id },
+      {
+        action: 'api_key.used',
+        targetType: 'api_key',
+        targetId: apiKeyRecord.id,
+      }
+    );
+  }
+
+  const mode = apiKeyRecord.mode as ApiKeyMode;
+
   return {
-    tenantId: apiKeyRecord.tenantId,
+    tenantId: mode === 'test' ? getSandboxTenantId(apiKeyRecord.tenantId) : apiKeyRecord.tenantId,
+    mode,
+    scopes: apiKeyRecord.scopes,
+    apiKeyId: apiKeyRecord.id,
   };
 }
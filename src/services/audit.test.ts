@@ -0,0 +1,270 @@
+import { describe, test, expect, beforeEach } from 'vitest';
+import { recordAuditEvent, listAuditEvents, diffChanges, AuditContext } from './audit';
+import { createOrganization, removeMember } from './organization';
+import { updateTenantSettings } from './tenant-settings';
+import { createApiKey, revokeApiKey } from './api-key';
+import { AppError } from '../middleware/error-handler';
+import { createTenantScopedDb } from '../middleware/tenant-isolation';
+import { getSandboxTenantId } from './sandbox';
+import { createUnscopedDb } from '../db';
+import { schema } from '../db';
+
+const db = createUnscopedDb(process.env.DATABASE_URL!);
+
+// Tenant-owned rows need their tenant, and test-mode rows its sandbox partition
+async function createTestTenant(tenantId: string) {
+  await db
+    .insert(schema.tenants)
+    .values([
+      { id: tenantId, name: tenantId },
+      { id: getSandboxTenantId(tenantId), name: tenantId },
+    ])
+    .onConflictDoNothing();
+}
+
+// Clean up database before each test
+beforeEach(async () => {
+  await db.delete(schema.auditEvents);
+  await db.delete(schema.organizationMembers);
+  await db.delete(schema.organizations);
+  await db.delete(schema.users);
+  await db.delete(schema.apiKeys);
+  await db.delete(schema.tenantSettings);
+});
+
+const audit: AuditContext = {
+  actorType: 'user',
+  actorId: 'user_actor',
+  ipAddress: '203.0.113.7',
+  requestId: 'req_123',
+};
+
+async function createTestUser(tenantId: string, email: string) {
+  const [user] = await db
+    .insert(schema.users)
+    .values({
+      tenantId,
+      email,
+      passwordHash: 'test_hash',
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    })
+    .returning();
+  return user;
+}
+
+describe('Audit Log - Diffs', () => {
+  test('Only changed fields are included', () => {
+    expect(
+      diffChanges({ name: 'Old', plan: 'pro' }, { name: 'New', plan: 'pro' })
+    ).toEqual({ name: { before: 'Old', after: 'New' } });
+  });
+
+  test('Created records diff against nothing', () => {
+    expect(diffChanges(null, { role: 'admin' })).toEqual({
+      role: { before: null, after: 'admin' },
+    });
+  });
+
+  test('Unchanged records produce no diff', () => {
+    expect(diffChanges({ scopes: ['*'] }, { scopes: ['*'] })).toBeNull();
+  });
+});
+
+describe('Audit Log - Recording and Querying', () => {
+  test('Events record the actor, target, IP and request ID', async () => {
+    const tenantId = `tenant_${Date.now()}`;
+    await createTestTenant(tenantId);
+    const tenantDb = createTenantScopedDb(db, tenantId);
+
+    await recordAuditEvent(tenantDb, audit, {
+      action: 'role.created',
+      targetType: 'role',
+      targetId: 'admin',
+      changes: { permissions: { before: null, after: ['*'] } },
+    });
+
+    const { events, nextCursor } = await listAuditEvents(tenantDb);
+
+    expect(nextCursor).toBeNull();
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({
+      tenantId,
+      actorType: 'user',
+      actorId: 'user_actor',
+      action: 'role.created',
+      targetType: 'role',
+      targetId: 'admin',
+      ipAddress: '203.0.113.7',
+      requestId: 'req_123',
+    });
+  });
+
+  test('Events without an actor are attributed to the system', async () => {
+    const tenantId = `tenant_${Date.now()}`;
+    await createTestTenant(tenantId);
+    const tenantDb = createTenantScopedDb(db, tenantId);
+
+    await recordAuditEvent(tenantDb, {}, { action: 'sandbox.reset', targetType: 'tenant' });
+
+    const { events } = await listAuditEvents(tenantDb);
+    expect(events[0].actorType).toBe('system');
+    expect(events[0].actorId).toBeNull();
+  });
+
+  test('Tenants only see their own events', async () => {
+    const tenantId = `tenant_${Date.now()}`;
+    await createTestTenant(tenantId);
+    const tenantDb = createTenantScopedDb(db, tenantId);
+    const otherTenantId = `${tenantId}_other`;
+    await createTestTenant(otherTenantId);
+
+    await recordAuditEvent(tenantDb, audit, { action: 'role.created', targetType: 'role' });
+    await recordAuditEvent(createTenantScopedDb(db, otherTenantId), audit, {
+      action: 'role.created',
+      targetType: 'role',
+    });
+
+    const { events } = await listAuditEvents(tenantDb);
+    expect(events).toHaveLength(1);
+    expect(events[0].tenantId).toBe(tenantId);
+  });
+
+  test('Pages cover every event exactly once', async () => {
+    const tenantId = `tenant_${Date.now()}`;
+    await createTestTenant(tenantId);
+    const tenantDb = createTenantScopedDb(db, tenantId);
+    for (let i = 0; i < 5; i++) {
+      await recordAuditEvent(tenantDb, audit, {
+        action: 'role.updated',
+        targetType: 'role',
+        targetId: `role_${i}`,
+      });
+    }
+
+    const seen: string[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await listAuditEvents(tenantDb, { limit: 2, cursor });
+      expect(page.events.length).toBeLessThanOrEqual(2);
+      seen.push(...page.events.map((event) => event.targetId!));
+      cursor = page.nextCursor ?? undefined;
+    } while (cursor);
+
+    // Events recorded in the same millisecond are ordered by ID, so compare as sets
+    expect(seen).toHaveLength(5);
+    expect([...seen].sort()).toEqual(['role_0', 'role_1', 'role_2', 'role_3', 'role_4']);
+  });
+
+  test('Events can be filtered by organization, actor and action prefix', async () => {
+    const tenantId = `tenant_${Date.now()}`;
+    await createTestTenant(tenantId);
+    const tenantDb = createTenantScopedDb(db, tenantId);
+    const organizationId = crypto.randomUUID();
+
+    await recordAuditEvent(tenantDb, audit, {
+      organizationId,
+      action: 'organization.member_invited',
+      targetType: 'invitation',
+    });
+    await recordAuditEvent(tenantDb, { actorId: 'someone_else' }, {
+      organizationId,
+      action: 'organization.member_removed',
+      targetType: 'user',
+    });
+    await recordAuditEvent(tenantDb, audit, { action: 'role.created', targetType: 'role' });
+
+    const byOrganization = await listAuditEvents(tenantDb, { organizationId });
+    expect(byOrganization.events).toHaveLength(2);
+
+    const byActor = await listAuditEvents(tenantDb, { actorId: 'user_actor' });
+    expect(byActor.events.map((event) => event.action).sort()).toEqual([
+      'organization.member_invited',
+      'role.created',
+    ]);
+
+    const byPrefix = await listAuditEvents(tenantDb, { action: 'organization.*' });
+    expect(byPrefix.events).toHaveLength(2);
+
+    const exact = await listAuditEvents(tenantDb, { action: 'role.created' });
+    expect(exact.events).toHaveLength(1);
+  });
+
+  test('Invalid limits, cursors and organization IDs are rejected', async () => {
+    const tenantId = `tenant_${Date.now()}`;
+    await createTestTenant(tenantId);
+    const tenantDb = createTenantScopedDb(db, tenantId);
+
+    await expect(listAuditEvents(tenantDb, { limit: 0 })).rejects.toThrow(AppError);
+    await expect(listAuditEvents(tenantDb, { limit: 101 })).rejects.toThrow(AppError);
+    await expect(listAuditEvents(tenantDb, { cursor: 'not-a-cursor' })).rejects.toThrow(
+      AppError
+    );
+    const cursor = Buffer.from(JSON.stringify([new Date(), 'not-a-uuid'])).toString('base64url');
+    await expect(listAuditEvents(tenantDb, { cursor })).rejects.toThrow(AppError);
+    await expect(listAuditEvents(tenantDb, { organizationId: 'not-a-uuid' })).rejects.toThrow(
+      'organizationId must be a UUID'
+    );
+  });
+});
+
+describe('Audit Log - Service Events', () => {
+  test('Removing a member records the role it had', async () => {
+    const tenantId = `tenant_${Date.now()}`;
+    await createTestTenant(tenantId);
+    const owner = await createTestUser(tenantId, 'owner@example.com');
+    const member = await createTestUser(tenantId, 'member@example.com');
+    const tenantDb = createTenantScopedDb(db, tenantId);
+    const org = await createOrganization(tenantDb, 'Acme', owner.id, 'owner', audit);
+
+    await db.insert(schema.organizationMembers).values({
+      organizationId: org.id,
+      userId: member.id,
+      role: 'admin',
+    });
+    await removeMember(tenantDb, org.id, member.id, owner.id, audit);
+
+    const { events } = await listAuditEvents(tenantDb, { organizationId: org.id });
+    expect(events.map((event) => event.action).sort()).toEqual([
+      'organization.created',
+      'organization.member_removed',
+    ]);
+    const removed = events.find((event) => event.action === 'organization.member_removed');
+    expect(removed).toMatchObject({
+      targetType: 'user',
+      targetId: member.id,
+      changes: { role: { before: 'admin', after: null } },
+    });
+  });
+
+  test('Settings updates record a diff, and no-op updates record nothing', async () => {
+    const tenantId = `tenant_${Date.now()}`;
+    await createTestTenant(tenantId);
+    const tenantDb = createTenantScopedDb(db, tenantId);
+
+    await updateTenantSettings(tenantDb, { requireEmailVerification: true }, audit);
+    await updateTenantSettings(tenantDb, { requireEmailVerification: true }, audit);
+
+    const { events } = await listAuditEvents(tenantDb, { action: 'settings.updated' });
+    expect(events).toHaveLength(1);
+    expect(events[0].changes).toEqual({
+      requireEmailVerification: { before: false, after: true },
+    });
+  });
+
+  test('API key changes are recorded without the key itself', async () => {
+    const tenantId = `tenant_${Date.now()}`;
+    await createTestTenant(tenantId);
+    const tenantDb = createTenantScopedDb(db, tenantId);
+
+    const { apiKey, record } = await createApiKey(tenantDb, 'Server', {}, audit);
+    await revokeApiKey(tenantDb, record.id, audit);
+
+    const { events } = await listAuditEvents(tenantDb, { targetId: record.id });
+    expect(events.map((event) => event.action).sort()).toEqual([
+      'api_key.created',
+      'api_key.revoked',
+    ]);
+    expect(JSON.stringify(events)).not.toContain(apiKey);
+  });
+});
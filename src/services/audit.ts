@@ -0,0 +1,187 @@
+import { eq, and, or, lt, gte, lte, desc, like, SQL } from 'drizzle-orm';
+import { schema } from '../db';
+import { AuditActorType, AuditChanges, AuditEvent } from '../types';
+import { AppError } from '../middleware/error-handler';
+import { TenantScopedDb } from '../middleware/tenant-isolation';
+import { isValidUUID } from '../middleware/validation';
+
+/**
+ * Audit Log
+ *
+ * Append-only trail of security and administrative events. Service functions
+ * that change state take an AuditContext describing who made the request and
+ * record an event after the change; tenants page through their events with
+ * listAuditEvents (e.g. to show an audit trail to their own customers).
+ */
+
+// Who is making a change and from where, passed down from the route
+export interface AuditContext {
+  actorType?: AuditActorType;
+  actorId?: string | null;
+  ipAddress?: string | null;
+  requestId?: string | null;
+}
+
+export interface AuditEventInput {
+  organizationId?: string | null;
+  action: string;
+  targetType: string;
+  targetId?: string | null;
+  changes?: AuditChanges | null;
+}
+
+export interface AuditEventFilters {
+  organizationId?: string;
+  actorId?: string;
+  action?: string; // Exact action, or a prefix such as "organization.*"
+  targetType?: string;
+  targetId?: string;
+  since?: Date;
+  until?: Date;
+  cursor?: string; // nextCursor from the previous page
+  limit?: number;
+}
+
+export const DEFAULT_AUDIT_PAGE_SIZE = 50;
+export const MAX_AUDIT_PAGE_SIZE = 100;
+
+// Record an audit event for the handle's tenant. Events without an actor are
+// attributed to the system.
+export async function recordAuditEvent(
+  tenantDb: TenantScopedDb,
+  audit: AuditContext,
+  event: AuditEventInput
+): Promise<void> {
+  await tenantDb.insert(schema.auditEvents, {
+    organizationId: event.organizationId ?? null,
+    actorType: audit.actorType ?? (audit.actorId ? 'user' : 'system'),
+    actorId: audit.actorId ?? null,
+    action: event.action,
+    targetType: event.targetType,
+    targetId: event.targetId ?? null,
+    changes: event.changes ?? null,
+    ipAddress: audit.ipAddress ?? null,
+    requestId: audit.requestId ?? null,
+    createdAt: new Date(),
+  });
+}
+
+// Before/after values of the fields that differ between two versions of a
+// record. Only fields present in `after` are compared; returns null if none
+// changed.
+export function diffChanges(
+  before: Record<string, unknown> | null,
+  after: Record<string, unknown>
+): AuditChanges | null {
+  const changes: AuditChanges = {};
+
+  for (const [field, value] of Object.entries(after)) {
+    const previous = before?.[field] ?? null;
+    if (JSON.stringify(previous) !== JSON.stringify(value ?? null)) {
+      changes[field] = { before: previous, after: value ?? null };
+    }
+  }
+
+  return Object.keys(changes).length > 0 ? changes : null;
+}
+
+// Cursors point at the last event of a page (newest first)
+function encodeCursor(event: AuditEvent): string {
+  return Buffer.from(JSON.stringify([event.createdAt.toISOString(), event.id])).toString(
+    'base64url'
+  );
+}
+
+function decodeCursor(cursor: string): { createdAt: Date; id: string } {
+  try {
+    const [createdAt, id] = JSON.parse(Buffer.from(cursor, 'base64url').toString());
+    const date = new Date(createdAt);
+    if (typeof id === 'string' && isValidUUID(id) && !isNaN(date.getTime())) {
+      return { createdAt: date, id };
+    }
+  } catch {
+    // Fall through to the error below
+  }
+
+  throw new AppError('INVALID_INPUT', 'cursor is invalid', 400, { field: 'cursor' });
+}
+
+function toAuditEvent(record: typeof schema.auditEvents.$inferSelect): AuditEvent {
+  return {
+    id: record.id,
+    tenantId: record.tenantId,
+    organizationId: record.organizationId,
+    actorType: record.actorType as AuditActorType,
+    actorId: record.actorId,
+    action: record.action,
+    targetType: record.targetType,
+    targetId: record.targetId,
+    changes: record.changes,
+    ipAddress: record.ipAddress,
+    requestId: record.requestId,
+    createdAt: record.createdAt,
+  };
+}
+
+// List a tenant's audit events, newest first, one page at a time
+export async function listAuditEvents(
+  tenantDb: TenantScopedDb,
+  filters: AuditEventFilters = {}
+): Promise<{ events: AuditEvent[]; nextCursor: string | null }> {
+  const limit = filters.limit ?? DEFAULT_AUDIT_PAGE_SIZE;
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_AUDIT_PAGE_SIZE) {
+    throw new AppError(
+      'INVALID_INPUT',
+      `limit must be an integer between 1 and ${MAX_AUDIT_PAGE_SIZE}`,
+      400,
+      { field: 'limit' }
+    );
+  }
+  if (filters.organizationId !== undefined && !isValidUUID(filters.organizationId)) {
+    throw new AppError('INVALID_INPUT', 'organizationId must be a UUID', 400, {
+      field: 'organizationId',
+    });
+  }
+
+  const table = schema.auditEvents;
+  const conditions: SQL[] = [];
+
+  if (filters.organizationId) conditions.push(eq(table.organizationId, filters.organizationId));
+  if (filters.actorId) conditions.push(eq(table.actorId, filters.actorId));
+  if (filters.targetType) conditions.push(eq(table.targetType, filters.targetType));
+  if (filters.targetId) conditions.push(eq(table.targetId, filters.targetId));
+  if (filters.since) conditions.push(gte(table.createdAt, filters.since));
+  if (filters.until) conditions.push(lte(table.createdAt, filters.until));
+
+  if (filters.action?.endsWith('.*')) {
+    const prefix = filters.action.slice(0, -1).replace(/[\\%_]/g, '\\$&');
+    conditions.push(like(table.action, `${prefix}%`));
+  } else if (filters.action) {
+    conditions.push(eq(table.action, filters.action));
+  }
+
+  if (filters.cursor) {
+    const cursor = decodeCursor(filters.cursor);
+    conditions.push(
+      or(
+        lt(table.createdAt, cursor.createdAt),
+        and(eq(table.createdAt, cursor.createdAt), lt(table.id, cursor.id))
+      )!
+    );
+  }
+
+  // Fetch one extra row to find out whether there is another page
+  const records = await tenantDb.db
+    .select()
+    .from(table)
+    .where(tenantDb.scope(table, and(...conditions)))
+    .orderBy(desc(table.createdAt), desc(table.id))
+    .limit(limit + 1);
+
+  const events = records.slice(0, limit).map(toAuditEvent);
+
+  return {
+    events,
+    nextCursor: records.length > limit ? encodeCursor(events[events.length - 1]) : null,
+  };
+}
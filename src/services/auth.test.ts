@@ -1,11 +1,37 @@
 import { describe, test, expect, beforeEach } from 'vitest';
 import * as fc from 'fast-check';
-import { register, login, validateSession, logout } from './auth';
-import { createDb } from '../db';
+import {
+  register,
+  login,
+  validateSession,
+  logout,
+  requestPasswordReset,
+  completePasswordReset,
+  createUser,
+  requestEmailVerification,
+  verifyEmail,
+  isMfaChallenge,
+} from './auth';
+import { AppError } from '../middleware/error-handler';
+import { createTenantScopedDb } from '../middleware/tenant-isolation';
+import { getSandboxTenantId } from './sandbox';
+import { createUnscopedDb } from '../db';
 import { schema } from '../db';
 import * as bcrypt from 'bcryptjs';
+import { eq } from 'drizzle-orm';
 
-const db = createDb(process.env.DATABASE_URL!);
+const db = createUnscopedDb(process.env.DATABASE_URL!);
+
+// Tenant-owned rows need their tenant, and test-mode rows its sandbox partition
+async function createTestTenant(tenantId: string) {
+  await db
+    .insert(schema.tenants)
+    .values([
+      { id: tenantId, name: tenantId },
+      { id: getSandboxTenantId(tenantId), name: tenantId },
+    ])
+    .onConflictDoNothing();
+}
 
 // Clean up database before each test
 beforeEach(async () => {
@@ -13,6 +39,14 @@ beforeEach(async () => {
   await db.delete(schema.users);
 });
 
+// Narrow a login result to a session (users in these tests don't have MFA)
+function asSession(result: Awaited<ReturnType<typeof login>>) {
+  if (isMfaChallenge(result)) {
+    throw new Error('Unexpected MFA challenge');
+  }
+  return result;
+}
+
 // Generators for property-based testing
 const emailArb = fc.emailAddress();
 const passwordArb = fc.string({ minLength: 8, maxLength: 32 })
@@ -29,7 +63,9 @@ describe('Authentication Service - Registration', () => {
         passwordArb,
         tenantIdArb,
         async (email, password, tenantId) => {
-          const result = await register(db, email, password, tenantId, 10, 604800);
+          await createTestTenant(tenantId);
+          const tenantDb = createTenantScopedDb(db, tenantId);
+          const result = await register(tenantDb, email, password, 10, 604800);
           
           expect(result.user).toBeDefined();
           expect(result.user.email).toBe(email);
@@ -38,7 +74,7 @@ describe('Authentication Service - Registration', () => {
           expect(result.token.length).toBeGreaterThan(20);
           
           // Verify session token works
-          const session = await validateSession(db, result.token);
+          const session = await validateSession(tenantDb, result.token);
           expect(session?.userId).toBe(result.user.id);
           expect(session?.tenantId).toBe(tenantId);
           
@@ -58,7 +94,9 @@ describe('Authentication Service - Registration', () => {
         passwordArb,
         tenantIdArb,
         async (email, password, tenantId) => {
-          const result = await register(db, email, password, tenantId, 10, 604800);
+          await createTestTenant(tenantId);
+          const tenantDb = createTenantScopedDb(db, tenantId);
+          const result = await register(tenantDb, email, password, 10, 604800);
           
           // Password hash should not equal plaintext password
           expect(result.user.passwordHash).not.toBe(password);
@@ -82,25 +120,48 @@ describe('Authentication Service - Registration', () => {
     const email = `test_${Date.now()}@example.com`;
     const password = 'Password123';
     const tenantId = `tenant_${Date.now()}`;
+    await createTestTenant(tenantId);
+    const tenantDb = createTenantScopedDb(db, tenantId);
     
     // First registration should succeed
-    await register(db, email, password, tenantId, 10, 604800);
+    await register(tenantDb, email, password, 10, 604800);
     
     // Second registration with same email should fail
     await expect(
-      register(db, email, password, tenantId, 10, 604800)
+      register(tenantDb, email, password, 10, 604800)
     ).rejects.toThrow('DUPLICATE_EMAIL');
   });
 
+  test('Concurrent registrations with the same email conflict', async () => {
+    const email = `race_${Date.now()}@example.com`;
+    const tenantId = `tenant_${Date.now()}`;
+    await createTestTenant(tenantId);
+    const tenantDb = createTenantScopedDb(db, tenantId);
+
+    const results = await Promise.allSettled(
+      Array.from({ length: 3 }, () => createUser(tenantDb, email, 'Password123', 4))
+    );
+
+    expect(results.filter((result) => result.status === 'fulfilled')).toHaveLength(1);
+    for (const result of results) {
+      if (result.status === 'rejected') {
+        expect(result.reason).toBeInstanceOf(AppError);
+        expect(result.reason.statusCode).toBe(409);
+      }
+    }
+  });
+
   // Test invalid email rejection
   test('Invalid email format is rejected', async () => {
     const invalidEmails = ['notanemail', '@example.com', 'user@', 'user'];
     const password = 'Password123';
     const tenantId = `tenant_${Date.now()}`;
+    await createTestTenant(tenantId);
+    const tenantDb = createTenantScopedDb(db, tenantId);
     
     for (const email of invalidEmails) {
       await expect(
-        register(db, email, password, tenantId, 10, 604800)
+        register(tenantDb, email, password, 10, 604800)
       ).rejects.toThrow('INVALID_EMAIL');
     }
   });
@@ -110,10 +171,12 @@ describe('Authentication Service - Registration', () => {
     const weakPasswords = ['short', '12345678', 'noNumbers', 'NoLetters123'];
     const email = `test_${Date.now()}@example.com`;
     const tenantId = `tenant_${Date.now()}`;
+    await createTestTenant(tenantId);
+    const tenantDb = createTenantScopedDb(db, tenantId);
     
     for (const password of weakPasswords) {
       await expect(
-        register(db, email, password, tenantId, 10, 604800)
+        register(tenantDb, email, password, 10, 604800)
       ).rejects.toThrow('WEAK_PASSWORD');
     }
   });
@@ -129,18 +192,20 @@ describe('Authentication Service - Login', () => {
         passwordArb,
         tenantIdArb,
         async (email, password, tenantId) => {
+          await createTestTenant(tenantId);
+          const tenantDb = createTenantScopedDb(db, tenantId);
           // Register user first
-          await register(db, email, password, tenantId, 10, 604800);
+          await register(tenantDb, email, password, 10, 604800);
           
           // Login should succeed
-          const result = await login(db, email, password, tenantId, 604800);
+          const result = asSession(await login(tenantDb, email, password, 604800));
           
           expect(result.user).toBeDefined();
           expect(result.user.email).toBe(email);
           expect(result.token).toBeDefined();
           
           // Session should be valid
-          const session = await validateSession(db, result.token);
+          const session = await validateSession(tenantDb, result.token);
           expect(session?.userId).toBe(result.user.id);
           
           return true;
@@ -156,18 +221,20 @@ describe('Authentication Service - Login', () => {
     const email = `test_${Date.now()}@example.com`;
     const password = 'Password123';
     const tenantId = `tenant_${Date.now()}`;
+    await createTestTenant(tenantId);
+    const tenantDb = createTenantScopedDb(db, tenantId);
     
     // Register user
-    await register(db, email, password, tenantId, 10, 604800);
+    await register(tenantDb, email, password, 10, 604800);
     
     // Wrong password should fail
     await expect(
-      login(db, email, 'WrongPassword123', tenantId, 604800)
+      login(tenantDb, email, 'WrongPassword123', 604800)
     ).rejects.toThrow('INVALID_CREDENTIALS');
     
     // Non-existent email should fail
     await expect(
-      login(db, 'nonexistent@example.com', password, tenantId, 604800)
+      login(tenantDb, 'nonexistent@example.com', password, 604800)
     ).rejects.toThrow('INVALID_CREDENTIALS');
   });
 });
@@ -179,10 +246,12 @@ describe('Authentication Service - Session Management', () => {
     const email = `test_${Date.now()}@example.com`;
     const password = 'Password123';
     const tenantId = `tenant_${Date.now()}`;
+    await createTestTenant(tenantId);
+    const tenantDb = createTenantScopedDb(db, tenantId);
     
-    const { user, token } = await register(db, email, password, tenantId, 10, 604800);
+    const { user, token } = await register(tenantDb, email, password, 10, 604800);
     
-    const session = await validateSession(db, token);
+    const session = await validateSession(tenantDb, token);
     
     expect(session).not.toBeNull();
     expect(session?.userId).toBe(user.id);
@@ -199,9 +268,10 @@ describe('Authentication Service - Session Management', () => {
       'a'.repeat(100),
       'fake-session-token-123',
     ];
+    const tenantDb = createTenantScopedDb(db, `tenant_${Date.now()}`);
     
     for (const token of invalidTokens) {
-      const session = await validateSession(db, token);
+      const session = await validateSession(tenantDb, token);
       expect(session).toBeNull();
     }
   });
@@ -212,18 +282,20 @@ describe('Authentication Service - Session Management', () => {
     const email = `test_${Date.now()}@example.com`;
     const password = 'Password123';
     const tenantId = `tenant_${Date.now()}`;
+    await createTestTenant(tenantId);
+    const tenantDb = createTenantScopedDb(db, tenantId);
     
-    const { token } = await register(db, email, password, tenantId, 10, 604800);
+    const { token } = await register(tenantDb, email, password, 10, 604800);
     
     // Session should be valid before logout
-    let session = await validateSession(db, token);
+    let session = await validateSession(tenantDb, token);
     expect(session).not.toBeNull();
     
     // Logout
-    await logout(db, token);
+    await logout(tenantDb, token);
     
     // Session should be invalid after logout
-    session = await validateSession(db, token);
+    session = await validateSession(tenantDb, token);
     expect(session).toBeNull();
   });
 
@@ -232,13 +304,15 @@ describe('Authentication Service - Session Management', () => {
     // Feature: saas-backend-layer, Property 9: Session tokens are cryptographically random
     const tokens = new Set<string>();
     const tenantId = `tenant_${Date.now()}`;
+    await createTestTenant(tenantId);
+    const tenantDb = createTenantScopedDb(db, tenantId);
     
     // Generate multiple sessions
     for (let i = 0; i < 100; i++) {
       const email = `test_${Date.now()}_${i}@example.com`;
       const password = 'Password123';
       
-      const { token } = await register(db, email, password, tenantId, 10, 604800);
+      const { token } = await register(tenantDb, email, password, 10, 604800);
       
       // Token should be unique
       expect(tokens.has(token)).toBe(false);
@@ -249,3 +323,185 @@ describe('Authentication Service - Session Management', () => {
     }
   });
 });
+
+describe('Authentication Service - Password Reset', () => {
+  test('Password reset replaces the password and revokes sessions', async () => {
+    const email = `reset_${Date.now()}@example.com`;
+    const tenantId = `tenant_${Date.now()}`;
+    await createTestTenant(tenantId);
+    const tenantDb = createTenantScopedDb(db, tenantId);
+
+    const { token: sessionToken } = await register(tenantDb, email, 'Password123', 4, 604800);
+
+    const resetToken = await requestPasswordReset(tenantDb, email, 3600);
+    expect(resetToken).not.toBeNull();
+
+    await completePasswordReset(tenantDb, resetToken!, 'NewPassword456', 4);
+
+    // Existing sessions are revoked
+    expect(await validateSession(tenantDb, sessionToken)).toBeNull();
+
+    // Old password no longer works, new one does
+    await expect(
+      login(tenantDb, email, 'Password123', 604800)
+    ).rejects.toThrow('INVALID_CREDENTIALS');
+    const result = asSession(await login(tenantDb, email, 'NewPassword456', 604800));
+    expect(result.user.email).toBe(email);
+  });
+
+  test('Reset tokens are single-use', async () => {
+    const email = `reset_once_${Date.now()}@example.com`;
+    const tenantId = `tenant_${Date.now()}`;
+    await createTestTenant(tenantId);
+    const tenantDb = createTenantScopedDb(db, tenantId);
+    await register(tenantDb, email, 'Password123', 4, 604800);
+
+    const resetToken = await requestPasswordReset(tenantDb, email, 3600);
+    await completePasswordReset(tenantDb, resetToken!, 'NewPassword456', 4);
+
+    await expect(
+      completePasswordReset(tenantDb, resetToken!, 'OtherPassword789', 4)
+    ).rejects.toThrow('Invalid or expired reset token');
+  });
+
+  test('Expired reset tokens are rejected', async () => {
+    const email = `reset_expired_${Date.now()}@example.com`;
+    const tenantId = `tenant_${Date.now()}`;
+    await createTestTenant(tenantId);
+    const tenantDb = createTenantScopedDb(db, tenantId);
+    await register(tenantDb, email, 'Password123', 4, 604800);
+
+    const resetToken = await requestPasswordReset(tenantDb, email, -1);
+
+    await expect(
+      completePasswordReset(tenantDb, resetToken!, 'NewPassword456', 4)
+    ).rejects.toThrow('Invalid or expired reset token');
+  });
+
+  test('Reset tokens are scoped to their tenant', async () => {
+    const email = `reset_tenant_${Date.now()}@example.com`;
+    const tenantId = `tenant_${Date.now()}`;
+    await createTestTenant(tenantId);
+    const tenantDb = createTenantScopedDb(db, tenantId);
+    await register(tenantDb, email, 'Password123', 4, 604800);
+
+    const resetToken = await requestPasswordReset(tenantDb, email, 3600);
+
+    await expect(
+      completePasswordReset(
+        createTenantScopedDb(db, `${tenantId}_other`),
+        resetToken!,
+        'NewPassword456',
+        4
+      )
+    ).rejects.toThrow('Invalid or expired reset token');
+  });
+
+  test('Requesting a reset for an unknown email does not create a token', async () => {
+    const tenantId = `tenant_${Date.now()}`;
+    await createTestTenant(tenantId);
+
+    const resetToken = await requestPasswordReset(
+      createTenantScopedDb(db, tenantId),
+      'nobody@example.com',
+      3600
+    );
+    expect(resetToken).toBeNull();
+  });
+
+  test('A new reset request invalidates the previous token', async () => {
+    const email = `reset_latest_${Date.now()}@example.com`;
+    const tenantId = `tenant_${Date.now()}`;
+    await createTestTenant(tenantId);
+    const tenantDb = createTenantScopedDb(db, tenantId);
+    await register(tenantDb, email, 'Password123', 4, 604800);
+
+    const firstToken = await requestPasswordReset(tenantDb, email, 3600);
+    const secondToken = await requestPasswordReset(tenantDb, email, 3600);
+
+    await expect(
+      completePasswordReset(tenantDb, firstToken!, 'NewPassword456', 4)
+    ).rejects.toThrow('Invalid or expired reset token');
+    await completePasswordReset(tenantDb, secondToken!, 'NewPassword456', 4);
+  });
+});
+
+describe('Authentication Service - Email Verification', () => {
+  test('New users start unverified', async () => {
+    const email = `verify_new_${Date.now()}@example.com`;
+    const tenantId = `tenant_${Date.now()}`;
+    await createTestTenant(tenantId);
+
+    const { user } = await register(
+      createTenantScopedDb(db, tenantId),
+      email,
+      'Password123',
+      4,
+      604800
+    );
+    expect(user.emailVerifiedAt).toBeNull();
+  });
+
+  test('Verification token marks the email as verified', async () => {
+    const email = `verify_${Date.now()}@example.com`;
+    const tenantId = `tenant_${Date.now()}`;
+    await createTestTenant(tenantId);
+    const tenantDb = createTenantScopedDb(db, tenantId);
+    await createUser(tenantDb, email, 'Password123', 4);
+
+    const token = await requestEmailVerification(tenantDb, email, 3600);
+    expect(token).not.toBeNull();
+
+    await verifyEmail(tenantDb, token!);
+
+    const result = asSession(await login(tenantDb, email, 'Password123', 604800, true));
+    expect(result.user.emailVerifiedAt).toBeInstanceOf(Date);
+
+    // Verified users don't get new tokens, and used tokens can't be replayed
+    expect(await requestEmailVerification(tenantDb, email, 3600)).toBeNull();
+    await expect(verifyEmail(tenantDb, token!)).rejects.toThrow(
+      'Invalid or expired verification token'
+    );
+  });
+
+  test('Login is blocked for unverified users when verification is required', async () => {
+    const email = `verify_login_${Date.now()}@example.com`;
+    const tenantId = `tenant_${Date.now()}`;
+    await createTestTenant(tenantId);
+    const tenantDb = createTenantScopedDb(db, tenantId);
+    await createUser(tenantDb, email, 'Password123', 4);
+
+    await expect(
+      login(tenantDb, email, 'Password123', 604800, true)
+    ).rejects.toThrow('Email address has not been verified');
+
+    // Without the requirement, login still succeeds
+    const result = asSession(await login(tenantDb, email, 'Password123', 604800));
+    expect(result.token).toBeDefined();
+  });
+
+  test('Expired verification tokens are rejected', async () => {
+    const email = `verify_expired_${Date.now()}@example.com`;
+    const tenantId = `tenant_${Date.now()}`;
+    await createTestTenant(tenantId);
+    const tenantDb = createTenantScopedDb(db, tenantId);
+    await createUser(tenantDb, email, 'Password123', 4);
+
+    const token = await requestEmailVerification(tenantDb, email, -1);
+
+    await expect(verifyEmail(tenantDb, token!)).rejects.toThrow(
+      'Invalid or expired verification token'
+    );
+  });
+
+  test('createUser does not issue a session', async () => {
+    const email = `verify_nosession_${Date.now()}@example.com`;
+    const tenantId = `tenant_${Date.now()}`;
+    await createTestTenant(tenantId);
+
+    const user = await createUser(createTenantScopedDb(db, tenantId), email, 'Password123', 4);
+
+    const sessions = await db.select().from(schema.sessions).where(eq(schema.sessions.userId, user.id));
+    expect(sessions).toHaveLength(0);
+  });
+});
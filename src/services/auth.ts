@@ -1,10 +1,14 @@
-import { eq, and } from 'drizzle-orm';
+import { eq, and, isNull } from 'drizzle-orm';
 import * as bcrypt from 'bcryptjs';
-import { Database } from '../db';
-import { schema } from '../db';
-import { User, Session } from '../types';
+import { schema, isUniqueViolation } from '../db';
+import { User, Session, MfaChallenge } from '../types';
 import { AppError } from '../middleware/error-handler';
+import { TenantScopedDb } from '../middleware/tenant-isolation';
 import { isValidEmail, isValidPassword } from '../middleware/validation';
+import { sendPasswordResetEmail, sendVerificationEmail } from './email';
+import { isMfaEnabled, createMfaChallenge, verifyMfaChallenge } from './mfa';
+import { AuditContext, recordAuditEvent, diffChanges } from './audit';
+import { enqueueOutboxEvent } from './outbox';
 import * as crypto from 'crypto';
 
 // Generate a cryptographically random session token
@@ -12,20 +16,39 @@ function generateSessionToken(): string {
   return crypto.randomBytes(32).toString('base64url');
 }
 
+// Hash a one-time token for storage (using SHA-256)
+function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
 // Calculate session expiration date
 function getSessionExpiration(expirationSeconds: number): Date {
   return new Date(Date.now() + expirationSeconds * 1000);
 }
 
-// Register a new user
-export async function register(
-  db: Database,
+// Record a failed sign-in, then reject it
+async function rejectLogin(
+  tenantDb: TenantScopedDb,
+  audit: AuditContext,
+  userId: string | null,
+  error: AppError
+): Promise<never> {
+  await recordAuditEvent(tenantDb, audit, {
+    action: 'user.login_failed',
+    targetType: 'user',
+    targetId: userId,
+  });
+  throw error;
+}
+
+// Create a user account without issuing a session
+export async function createUser(
+  tenantDb: TenantScopedDb,
   email: string,
   password: string,
-  tenantId: string,
   bcryptWorkFactor: number,
-  sessionExpiration: number
-): Promise<{ user: User; token: string }> {
+  audit: AuditContext = {}
+): Promise<User> {
   // Validate input
   if (!isValidEmail(email)) {
     throw new AppError('INVALID_EMAIL', 'Invalid email format', 400);
@@ -40,102 +63,118 @@ export async function register(
   }
 
   // Check if user already exists
-  const [existingUser] = await db
-    .select()
-    .from(schema.users)
-    .where(
-      and(
-        eq(schema.users.email, email),
-        eq(schema.users.tenantId, tenantId)
-      )
-    )
-    .limit(1);
+  const [existingUser] = await tenantDb.select(schema.users, eq(schema.users.email, email), {
+    limit: 1,
+  });
 
   if (existingUser) {
-    throw new AppError('DUPLICATE_EMAIL', 'Email already exists', 400);
+    throw new AppError('DUPLICATE_EMAIL', 'Email already exists', 409);
   }
 
   // Hash password
   const passwordHash = await bcrypt.hash(password, bcryptWorkFactor);
 
-  // Create user
-  const [user] = await db
-    .insert(schema.users)
-    .values({
-      tenantId,
-      email,
-      passwordHash,
-      createdAt: new Date(),
-      updatedAt: new Date(),
-    })
-    .returning();
+  // Create user. A concurrent registration can still take the email first.
+  const user = await tenantDb.transaction(async (tx) => {
+    const [user] = await tx
+      .insert(schema.users, {
+        email,
+        passwordHash,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      })
+      .catch((error) => {
+        if (isUniqueViolation(error)) {
+          throw new AppError('DUPLICATE_EMAIL', 'Email already exists', 409);
+        }
+        throw error;
+      });
 
-  // Create session
-  const token = generateSessionToken();
-  const expiresAt = getSessionExpiration(sessionExpiration);
+    await enqueueOutboxEvent(tx, 'user.created', { userId: user.id, email });
+    await recordAuditEvent(tx, audit, {
+      action: 'user.created',
+      targetType: 'user',
+      targetId: user.id,
+      changes: diffChanges(null, { email }),
+    });
 
-  await db.insert(schema.sessions).values({
-    token,
-    userId: user.id,
-    tenantId,
-    createdAt: new Date(),
-    expiresAt,
+    return user;
   });
 
   return {
-    user: {
-      id: user.id,
-      tenantId: user.tenantId,
-      email: user.email,
-      passwordHash: user.passwordHash,
-      createdAt: user.createdAt,
-      updatedAt: user.updatedAt,
-    },
-    token,
+    id: user.id,
+    tenantId: user.tenantId,
+    email: user.email,
+    passwordHash: user.passwordHash,
+    emailVerifiedAt: user.emailVerifiedAt,
+    createdAt: user.createdAt,
+    updatedAt: user.updatedAt,
   };
 }
 
-// Login user
-export async function login(
-  db: Database,
+// Register a new user
+export async function register(
+  tenantDb: TenantScopedDb,
   email: string,
   password: string,
-  tenantId: string,
-  sessionExpiration: number
+  bcryptWorkFactor: number,
+  sessionExpiration: number,
+  audit: AuditContext = {}
 ): Promise<{ user: User; token: string }> {
+  const user = await createUser(tenantDb, email, password, bcryptWorkFactor, audit);
+
+  // Create session
+  const token = await createSession(tenantDb, user.id, sessionExpiration);
+
+  return { user, token };
+}
+
+// Verify credentials without issuing anything.
+// Returns the user, or an MFA challenge when the user has MFA enabled.
+export async function authenticate(
+  tenantDb: TenantScopedDb,
+  email: string,
+  password: string,
+  requireVerifiedEmail: boolean = false,
+  audit: AuditContext = {}
+): Promise<{ user: User } | MfaChallenge> {
   // Find user
-  const [user] = await db
-    .select()
-    .from(schema.users)
-    .where(
-      and(
-        eq(schema.users.email, email),
-        eq(schema.users.tenantId, tenantId)
-      )
-    )
-    .limit(1);
+  const [user] = await tenantDb.select(schema.users, eq(schema.users.email, email), {
+    limit: 1,
+  });
+
+  const invalidCredentials = new AppError('INVALID_CREDENTIALS', 'Invalid email or password', 401);
 
   if (!user) {
-    throw new AppError('INVALID_CREDENTIALS', 'Invalid email or password', 401);
+    return rejectLogin(tenantDb, audit, null, invalidCredentials);
   }
 
   // Verify password
   const isValid = await bcrypt.compare(password, user.passwordHash);
   if (!isValid) {
-    throw new AppError('INVALID_CREDENTIALS', 'Invalid email or password', 401);
+    return rejectLogin(tenantDb, audit, user.id, invalidCredentials);
   }
 
-  // Create session
-  const token = generateSessionToken();
-  const expiresAt = getSessionExpiration(sessionExpiration);
+  if (requireVerifiedEmail && !user.emailVerifiedAt) {
+    return rejectLogin(
+      tenantDb,
+      audit,
+      user.id,
+      new AppError('EMAIL_NOT_VERIFIED', 'Email address has not been verified', 403)
+    );
+  }
 
-  await db.insert(schema.sessions).values({
-    token,
-    userId: user.id,
-    tenantId,
-    createdAt: new Date(),
-    expiresAt,
-  });
+  // Users with MFA get a challenge instead of being signed in
+  if (await isMfaEnabled(tenantDb, user.id)) {
+    const { challengeToken, expiresAt } = await createMfaChallenge(tenantDb, user.id, audit);
+    return { mfaRequired: true, challengeToken, expiresAt };
+  }
+
+  await recordAuditEvent(
+    tenantDb,
+    { ...audit, actorType: 'user', actorId: user.id },
+    { action: 'user.login', targetType: 'user', targetId: user.id }
+  );
 
   return {
     user: {
@@ -143,23 +182,116 @@ export async function login(
       tenantId: user.tenantId,
       email: user.email,
       passwordHash: user.passwordHash,
+      emailVerifiedAt: user.emailVerifiedAt,
       createdAt: user.createdAt,
       updatedAt: user.updatedAt,
     },
-    token,
   };
 }
 
-// Validate session token
+// Complete MFA by exchanging a challenge token and code for the user
+export async function completeMfaAuthentication(
+  tenantDb: TenantScopedDb,
+  challengeToken: string,
+  code: string,
+  audit: AuditContext = {}
+): Promise<User> {
+  const userId = await verifyMfaChallenge(tenantDb, challengeToken, code, audit);
+
+  const [user] = await tenantDb.select(schema.users, eq(schema.users.id, userId), { limit: 1 });
+
+  if (!user) {
+    throw new AppError('INVALID_MFA_CHALLENGE', 'Invalid or expired MFA challenge', 401);
+  }
+
+  await recordAuditEvent(
+    tenantDb,
+    { ...audit, actorType: 'user', actorId: user.id },
+    { action: 'user.login', targetType: 'user', targetId: user.id }
+  );
+
+  return {
+    id: user.id,
+    tenantId: user.tenantId,
+    email: user.email,
+    passwordHash: user.passwordHash,
+    emailVerifiedAt: user.emailVerifiedAt,
+    createdAt: user.createdAt,
+    updatedAt: user.updatedAt,
+  };
+}
+
+// Create a session for an authenticated user
+async function createSession(
+  tenantDb: TenantScopedDb,
+  userId: string,
+  sessionExpiration: number
+): Promise<string> {
+  const token = generateSessionToken();
+  const expiresAt = getSessionExpiration(sessionExpiration);
+
+  await tenantDb.insert(schema.sessions, {
+    token,
+    userId,
+    kind: 'session',
+    createdAt: new Date(),
+    expiresAt,
+  });
+
+  return token;
+}
+
+// Login user
+export async function login(
+  tenantDb: TenantScopedDb,
+  email: string,
+  password: string,
+  sessionExpiration: number,
+  requireVerifiedEmail: boolean = false,
+  audit: AuditContext = {}
+): Promise<{ user: User; token: string } | MfaChallenge> {
+  const result = await authenticate(tenantDb, email, password, requireVerifiedEmail, audit);
+
+  if ('mfaRequired' in result) {
+    return result;
+  }
+
+  const token = await createSession(tenantDb, result.user.id, sessionExpiration);
+
+  return { user: result.user, token };
+}
+
+// Check whether a login result is an MFA challenge rather than a session
+export function isMfaChallenge<T extends object>(
+  result: T | MfaChallenge
+): result is MfaChallenge {
+  return 'mfaRequired' in result && result.mfaRequired === true;
+}
+
+// Complete an MFA login by exchanging a challenge token and code for a session
+export async function completeMfaLogin(
+  tenantDb: TenantScopedDb,
+  challengeToken: string,
+  code: string,
+  sessionExpiration: number,
+  audit: AuditContext = {}
+): Promise<{ user: User; token: string }> {
+  const user = await completeMfaAuthentication(tenantDb, challengeToken, code, audit);
+  const token = await createSession(tenantDb, user.id, sessionExpiration);
+
+  return { user, token };
+}
+
+// Validate a session token of the handle's tenant
 export async function validateSession(
-  db: Database,
+  tenantDb: TenantScopedDb,
   token: string
 ): Promise<{ userId: string; tenantId: string; email: string } | null> {
-  const [session] = await db
-    .select()
-    .from(schema.sessions)
-    .where(eq(schema.sessions.token, token))
-    .limit(1);
+  const [session] = await tenantDb.select(
+    schema.sessions,
+    and(eq(schema.sessions.token, token), eq(schema.sessions.kind, 'session')),
+    { limit: 1 }
+  );
 
   if (!session) {
     return null;
@@ -168,16 +300,14 @@ export async function validateSession(
   // Check if expired
   if (new Date() > session.expiresAt) {
     // Delete expired session
-    await db.delete(schema.sessions).where(eq(schema.sessions.token, token));
+    await tenantDb.delete(schema.sessions, eq(schema.sessions.token, token));
     return null;
   }
 
   // Get user info
-  const [user] = await db
-    .select()
-    .from(schema.users)
-    .where(eq(schema.users.id, session.userId))
-    .limit(1);
+  const [user] = await tenantDb.select(schema.users, eq(schema.users.id, session.userId), {
+    limit: 1,
+  });
 
   if (!user) {
     return null;
@@ -191,6 +321,273 @@ export async function validateSession(
 }
 
 // Logout (invalidate session)
-export async function logout(db: Database, token: string): Promise<void> {
-  await db.delete(schema.sessions).where(eq(schema.sessions.token, token));
+export async function logout(
+  tenantDb: TenantScopedDb,
+  token: string,
+  audit: AuditContext = {}
+): Promise<void> {
+  const [session] = await tenantDb.delete(
+    schema.sessions,
+    and(eq(schema.sessions.token, token), eq(schema.sessions.kind, 'session'))
+  );
+
+  if (session) {
+    await recordAuditEvent(
+      tenantDb,
+      { ...audit, actorType: 'user', actorId: session.userId },
+      {
+        action: 'user.logout',
+        targetType: 'user',
+        targetId: session.userId,
+      }
+    );
+  }
+}
+
+// Request a password reset for an email address.
+// Returns the reset token when the user exists and null otherwise; callers
+// exposing this over HTTP must not reveal which case occurred, including
+// through how long the request takes. The token is saved before the email is
+// sent, so a failed send throws but a new request can be made.
+export async function requestPasswordReset(
+  tenantDb: TenantScopedDb,
+  email: string,
+  expirationSeconds: number,
+  resendApiKey?: string, // Optional: if provided, sends email
+  audit: AuditContext = {}
+): Promise<string | null> {
+  const [user] = await tenantDb.select(schema.users, eq(schema.users.email, email), {
+    limit: 1,
+  });
+
+  if (!user) {
+    return null;
+  }
+
+  const token = generateSessionToken();
+  const expiresAt = getSessionExpiration(expirationSeconds);
+
+  await tenantDb.transaction(async (tx) => {
+    // Only the most recent reset link should work
+    await tx.delete(
+      schema.passwordResetTokens,
+      and(
+        eq(schema.passwordResetTokens.userId, user.id),
+        isNull(schema.passwordResetTokens.usedAt)
+      )
+    );
+
+    await tx.insert(schema.passwordResetTokens, {
+      tokenHash: hashToken(token),
+      userId: user.id,
+      expiresAt,
+      createdAt: new Date(),
+    });
+
+    await recordAuditEvent(tx, audit, {
+      action: 'user.password_reset_requested',
+      targetType: 'user',
+      targetId: user.id,
+    });
+  });
+
+  // Send reset email if Resend API key is provided
+  if (resendApiKey) {
+    await sendPasswordResetEmail(
+      resendApiKey,
+      user.email,
+      token,
+      Math.ceil(expirationSeconds / 60)
+    );
+  }
+
+  return token;
+}
+
+// Complete a password reset with a single-use token
+export async function completePasswordReset(
+  tenantDb: TenantScopedDb,
+  token: string,
+  newPassword: string,
+  bcryptWorkFactor: number,
+  audit: AuditContext = {}
+): Promise<void> {
+  if (!isValidPassword(newPassword)) {
+    throw new AppError(
+      'WEAK_PASSWORD',
+      'Password must be at least 8 characters with letters and numbers',
+      400
+    );
+  }
+
+  const tokenHash = hashToken(token);
+
+  const [resetToken] = await tenantDb.select(
+    schema.passwordResetTokens,
+    eq(schema.passwordResetTokens.tokenHash, tokenHash),
+    { limit: 1 }
+  );
+
+  if (!resetToken || resetToken.usedAt || new Date() > resetToken.expiresAt) {
+    throw new AppError('INVALID_RESET_TOKEN', 'Invalid or expired reset token', 400);
+  }
+
+  // Hash outside the transaction so it isn't held open during the work
+  const passwordHash = await bcrypt.hash(newPassword, bcryptWorkFactor);
+
+  await tenantDb.transaction(async (tx) => {
+    // Mark token as used; the usedAt guard makes concurrent completions fail
+    const [claimed] = await tx.update(
+      schema.passwordResetTokens,
+      { usedAt: new Date() },
+      and(
+        eq(schema.passwordResetTokens.id, resetToken.id),
+        isNull(schema.passwordResetTokens.usedAt)
+      )
+    );
+
+    if (!claimed) {
+      throw new AppError('INVALID_RESET_TOKEN', 'Invalid or expired reset token', 400);
+    }
+
+    await tx.update(
+      schema.users,
+      { passwordHash, updatedAt: new Date() },
+      eq(schema.users.id, resetToken.userId)
+    );
+
+    // Revoke every existing session for the user
+    await tx.delete(schema.sessions, eq(schema.sessions.userId, resetToken.userId));
+
+    await recordAuditEvent(
+      tx,
+      { ...audit, actorType: 'user', actorId: resetToken.userId },
+      { action: 'user.password_reset', targetType: 'user', targetId: resetToken.userId }
+    );
+  });
+}
+
+// Issue an email verification token for an unverified user.
+// Returns the token, or null when the user doesn't exist or is already
+// verified; callers exposing this over HTTP must not reveal which case
+// occurred, including through how long the request takes. The token is saved
+// before the email is sent, so a failed send throws but a new request can be
+// made.
+export async function requestEmailVerification(
+  tenantDb: TenantScopedDb,
+  email: string,
+  expirationSeconds: number,
+  resendApiKey?: string, // Optional: if provided, sends email
+  audit: AuditContext = {}
+): Promise<string | null> {
+  const [user] = await tenantDb.select(schema.users, eq(schema.users.email, email), {
+    limit: 1,
+  });
+
+  if (!user || user.emailVerifiedAt) {
+    return null;
+  }
+
+  const token = generateSessionToken();
+  const expiresAt = getSessionExpiration(expirationSeconds);
+
+  await tenantDb.transaction(async (tx) => {
+    // Only the most recent verification link should work
+    await tx.delete(
+      schema.emailVerificationTokens,
+      and(
+        eq(schema.emailVerificationTokens.userId, user.id),
+        isNull(schema.emailVerificationTokens.usedAt)
+      )
+    );
+
+    await tx.insert(schema.emailVerificationTokens, {
+      tokenHash: hashToken(token),
+      userId: user.id,
+      expiresAt,
+      createdAt: new Date(),
+    });
+
+    await recordAuditEvent(tx, audit, {
+      action: 'user.email_verification_requested',
+      targetType: 'user',
+      targetId: user.id,
+    });
+  });
+
+  // Send verification email if Resend API key is provided
+  if (resendApiKey) {
+    await sendVerificationEmail(
+      resendApiKey,
+      user.email,
+      token,
+      Math.ceil(expirationSeconds / 3600)
+    );
+  }
+
+  return token;
+}
+
+// Verify a user's email address with a single-use token
+export async function verifyEmail(
+  tenantDb: TenantScopedDb,
+  token: string,
+  audit: AuditContext = {}
+): Promise<void> {
+  const tokenHash = hashToken(token);
+
+  const [verificationToken] = await tenantDb.select(
+    schema.emailVerificationTokens,
+    eq(schema.emailVerificationTokens.tokenHash, tokenHash),
+    { limit: 1 }
+  );
+
+  if (
+    !verificationToken ||
+    verificationToken.usedAt ||
+    new Date() > verificationToken.expiresAt
+  ) {
+    throw new AppError(
+      'INVALID_VERIFICATION_TOKEN',
+      'Invalid or expired verification token',
+      400
+    );
+  }
+
+  await tenantDb.transaction(async (tx) => {
+    // Mark token as used; the usedAt guard makes concurrent verifications fail
+    const [claimed] = await tx.update(
+      schema.emailVerificationTokens,
+      { usedAt: new Date() },
+      and(
+        eq(schema.emailVerificationTokens.id, verificationToken.id),
+        isNull(schema.emailVerificationTokens.usedAt)
+      )
+    );
+
+    if (!claimed) {
+      throw new AppError(
+        'INVALID_VERIFICATION_TOKEN',
+        'Invalid or expired verification token',
+        400
+      );
+    }
+
+    const [user] = await tx.update(
+      schema.users,
+      { emailVerifiedAt: new Date(), updatedAt: new Date() },
+      eq(schema.users.id, verificationToken.userId)
+    );
+
+    await recordAuditEvent(
+      tx,
+      { ...audit, actorType: 'user', actorId: user.id },
+      {
+        action: 'user.email_verified',
+        targetType: 'user',
+        targetId: user.id,
+        changes: diffChanges({ emailVerifiedAt: null }, { emailVerifiedAt: user.emailVerifiedAt }),
+      }
+    );
+  });
 }
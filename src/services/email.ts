@@ -1,16 +1,18 @@
 import { Resend } from 'resend';
 
-// Send invitation email
+// Send invitation email. Sends with the same idempotency key within 24 hours
+// are only delivered once.
 export async function sendInvitationEmail(
   resendApiKey: string,
   toEmail: string,
   organizationName: string,
   invitationId: string,
-  appUrl: string = 'https://yourapp.com'
+  appUrl: string = 'https://yourapp.com',
+  idempotencyKey?: string
 ): Promise<void> {
   const resend = new Resend(resendApiKey);
 
-  await resend.emails.send({
+  const { error } = await resend.emails.send({
     from: 'noreply@yourdomain.com', // Change this to your verified domain
     to: toEmail,
     subject: `You've been invited to join ${organizationName}`,
@@ -31,5 +33,77 @@ export async function sendInvitationEmail(
         </p>
       </div>
     `,
+  }, { idempotencyKey });
+
+  // Resend reports failures in the response rather than throwing
+  if (error) {
+    throw new Error(`Failed to send invitation email: ${error.message}`);
+  }
+}
+
+// Send password reset email
+export async function sendPasswordResetEmail(
+  resendApiKey: string,
+  toEmail: string,
+  resetToken: string,
+  expiresInMinutes: number,
+  appUrl: string = 'https://yourapp.com'
+): Promise<void> {
+  const resend = new Resend(resendApiKey);
+
+  await resend.emails.send({
+    from: 'noreply@yourdomain.com', // Change this to your verified domain
+    to: toEmail,
+    subject: 'Reset your password',
+    html: `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <h2>Reset your password</h2>
+        <p>We received a request to reset the password for your account.</p>
+        <p>Click the button below to choose a new password:</p>
+        <a href="${appUrl}/reset-password?token=${encodeURIComponent(resetToken)}" 
+           style="display: inline-block; padding: 12px 24px; background-color: #007bff; color: white; text-decoration: none; border-radius: 4px; margin: 16px 0;">
+          Reset Password
+        </a>
+        <p style="color: #666; font-size: 14px;">
+          This link will expire in ${expiresInMinutes} minutes and can only be used once.
+        </p>
+        <p style="color: #666; font-size: 14px;">
+          If you didn't request a password reset, you can safely ignore this email.
+        </p>
+      </div>
+    `,
+  });
+}
+
+// Send email verification email
+export async function sendVerificationEmail(
+  resendApiKey: string,
+  toEmail: string,
+  verificationToken: string,
+  expiresInHours: number,
+  appUrl: string = 'https://yourapp.com'
+): Promise<void> {
+  const resend = new Resend(resendApiKey);
+
+  await resend.emails.send({
+    from: 'noreply@yourdomain.com', // Change this to your verified domain
+    to: toEmail,
+    subject: 'Verify your email address',
+    html: `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <h2>Verify your email address</h2>
+        <p>Please confirm that this is your email address.</p>
+        <a href="${appUrl}/verify-email?token=${encodeURIComponent(verificationToken)}" 
+           style="display: inline-block; padding: 12px 24px; background-color: #007bff; color: white; text-decoration: none; border-radius: 4px; margin: 16px 0;">
+          Verify Email
+        </a>
+        <p style="color: #666; font-size: 14px;">
+          This link will expire in ${expiresInHours} hours.
+        </p>
+        <p style="color: #666; font-size: 14px;">
+          If you didn't create an account, you can safely ignore this email.
+        </p>
+      </div>
+    `,
   });
 }
@@ -0,0 +1,73 @@
+import { describe, test, expect } from 'vitest';
+import * as fc from 'fast-check';
+import {
+  RELATIVE_ACCURACY,
+  createHistogram,
+  recordValue,
+  mergeHistograms,
+  getPercentile,
+} from './latency-histogram';
+
+// Exact nearest-rank percentile, for comparison
+function exactPercentile(values: number[], percentile: number): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.max(0, Math.ceil((percentile / 100) * sorted.length) - 1)];
+}
+
+describe('Latency Histograms', () => {
+  test('Empty histograms report zero', () => {
+    expect(getPercentile(createHistogram(), 50)).toBe(0);
+    expect(getPercentile(createHistogram(), 99)).toBe(0);
+  });
+
+  test('Percentiles are within the relative accuracy of the exact value', () => {
+    fc.assert(
+      fc.property(
+        fc.array(fc.integer({ min: 0, max: 60_000 }), { minLength: 1, maxLength: 500 }),
+        fc.constantFrom(50, 90, 95, 99, 100),
+        (values, percentile) => {
+          const histogram = createHistogram();
+          values.forEach((value) => recordValue(histogram, value));
+
+          const exact = exactPercentile(values, percentile);
+          const estimate = getPercentile(histogram, percentile);
+
+          // Values up to 1 share a bucket, so allow an absolute error of 1 there.
+          // Bucket bounds come from floating point logarithms, hence the epsilon.
+          expect(estimate).toBeGreaterThanOrEqual(exact * (1 - 1e-9));
+          expect(estimate).toBeLessThanOrEqual(Math.max(exact * (1 + RELATIVE_ACCURACY), 1));
+          return true;
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  test('Merged histograms match one histogram of all values', () => {
+    fc.assert(
+      fc.property(
+        fc.array(fc.integer({ min: 0, max: 60_000 }), { maxLength: 200 }),
+        fc.array(fc.integer({ min: 0, max: 60_000 }), { maxLength: 200 }),
+        (first, second) => {
+          const a = createHistogram();
+          const b = createHistogram();
+          const combined = createHistogram();
+          first.forEach((value) => recordValue(a, value));
+          second.forEach((value) => recordValue(b, value));
+          [...first, ...second].forEach((value) => recordValue(combined, value));
+
+          // Histograms survive a JSON round trip, e.g. between isolates
+          mergeHistograms(a, JSON.parse(JSON.stringify(b)));
+
+          expect(a.count).toBe(combined.count);
+          expect(a.sum).toBe(combined.sum);
+          for (const percentile of [50, 95, 99]) {
+            expect(getPercentile(a, percentile)).toBe(getPercentile(combined, percentile));
+          }
+          return true;
+        }
+      ),
+      { numRuns: 50 }
+    );
+  });
+});
@@ -0,0 +1,82 @@
+/**
+ * Latency Histograms
+ *
+ * Sparse log-scale histograms (in the style of DDSketch). Each bucket covers
+ * values within RELATIVE_ACCURACY of each other, so percentiles are estimated
+ * to within that accuracy from a few hundred counters at most, however many
+ * values were recorded. Histograms are plain JSON and merge by adding counts,
+ * so histograms from different isolates can be combined.
+ */
+
+export interface LatencyHistogram {
+  buckets: Record<number, number>; // Bucket index -> count
+  count: number;
+  sum: number;
+  min: number; // 0 while empty
+  max: number;
+}
+
+// Bucket width: reported percentiles are at most 2% above the true value
+export const RELATIVE_ACCURACY = 0.02;
+
+const LOG_GAMMA = Math.log(1 + RELATIVE_ACCURACY);
+
+// Values up to 1 share bucket 0 (timings are whole milliseconds anyway)
+function getBucketIndex(value: number): number {
+  return value <= 1 ? 0 : Math.ceil(Math.log(value) / LOG_GAMMA);
+}
+
+// Largest value a bucket can hold
+function getBucketUpperBound(index: number): number {
+  return Math.exp(index * LOG_GAMMA);
+}
+
+export function createHistogram(): LatencyHistogram {
+  return { buckets: {}, count: 0, sum: 0, min: 0, max: 0 };
+}
+
+// Record a value (e.g. a response time in milliseconds)
+export function recordValue(histogram: LatencyHistogram, value: number): void {
+  const index = getBucketIndex(value);
+  histogram.buckets[index] = (histogram.buckets[index] ?? 0) + 1;
+  histogram.min = histogram.count === 0 ? value : Math.min(histogram.min, value);
+  histogram.max = histogram.count === 0 ? value : Math.max(histogram.max, value);
+  histogram.count++;
+  histogram.sum += value;
+}
+
+// Add the counts of `source` into `target`
+export function mergeHistograms(target: LatencyHistogram, source: LatencyHistogram): void {
+  if (source.count === 0) return;
+
+  target.min = target.count === 0 ? source.min : Math.min(target.min, source.min);
+  target.max = target.count === 0 ? source.max : Math.max(target.max, source.max);
+
+  for (const [index, count] of Object.entries(source.buckets)) {
+    target.buckets[Number(index)] = (target.buckets[Number(index)] ?? 0) + count;
+  }
+  target.count += source.count;
+  target.sum += source.sum;
+}
+
+// Estimate a percentile (0-100) using the nearest-rank method. Returns 0 for
+// an empty histogram.
+export function getPercentile(histogram: LatencyHistogram, percentile: number): number {
+  if (histogram.count === 0) return 0;
+
+  const rank = Math.max(1, Math.ceil((percentile / 100) * histogram.count));
+  const indexes = Object.keys(histogram.buckets)
+    .map(Number)
+    .sort((a, b) => a - b);
+
+  let seen = 0;
+  for (const index of indexes) {
+    seen += histogram.buckets[index];
+    if (seen >= rank) {
+      // The bucket bound can fall outside the values actually seen
+      return Math.min(Math.max(getBucketUpperBound(index), histogram.min), histogram.max);
+    }
+  }
+
+  return histogram.max;
+}
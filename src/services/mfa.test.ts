@@ -0,0 +1,235 @@
+import { describe, test, expect, beforeEach } from 'vitest';
+import * as fc from 'fast-check';
+import {
+  base32Encode,
+  base32Decode,
+  generateTotp,
+  verifyTotp,
+  buildOtpauthUri,
+  generateRecoveryCodes,
+  enrollMfa,
+  confirmMfa,
+  disableMfa,
+  isMfaEnabled,
+  verifyMfaCode,
+} from './mfa';
+import { register, login, completeMfaLogin, isMfaChallenge } from './auth';
+import { createTenantScopedDb } from '../middleware/tenant-isolation';
+import { getSandboxTenantId } from './sandbox';
+import { createUnscopedDb } from '../db';
+import { schema } from '../db';
+
+const db = createUnscopedDb(process.env.DATABASE_URL!);
+
+// Tenant-owned rows need their tenant, and test-mode rows its sandbox partition
+async function createTestTenant(tenantId: string) {
+  await db
+    .insert(schema.tenants)
+    .values([
+      { id: tenantId, name: tenantId },
+      { id: getSandboxTenantId(tenantId), name: tenantId },
+    ])
+    .onConflictDoNothing();
+}
+
+// RFC 6238 Appendix B shared secret for SHA-1
+const RFC_SECRET = base32Encode(Buffer.from('12345678901234567890'));
+
+describe('MFA - TOTP Algorithm', () => {
+  test('Matches RFC 6238 SHA-1 test vectors', () => {
+    const vectors: Array<[number, string]> = [
+      [59, '94287082'],
+      [1111111109, '07081804'],
+      [1111111111, '14050471'],
+      [1234567890, '89005924'],
+      [2000000000, '69279037'],
+      [20000000000, '65353130'],
+    ];
+
+    for (const [seconds, expected] of vectors) {
+      expect(generateTotp(RFC_SECRET, seconds * 1000, 8)).toBe(expected);
+    }
+  });
+
+  test('Base32 encoding round-trips arbitrary bytes', () => {
+    fc.assert(
+      fc.property(fc.uint8Array({ minLength: 0, maxLength: 64 }), (bytes) => {
+        const buffer = Buffer.from(bytes);
+        const encoded = base32Encode(buffer);
+
+        expect(encoded).toMatch(/^[A-Z2-7]*$/);
+        expect(base32Decode(encoded).equals(buffer)).toBe(true);
+        return true;
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  test('Codes from adjacent time steps are accepted, older ones are not', () => {
+    const now = 1_700_000_000_000;
+
+    expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, now), now)).not.toBeNull();
+    expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, now - 30_000), now)).not.toBeNull();
+    expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, now + 30_000), now)).not.toBeNull();
+    expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, now - 90_000), now)).toBeNull();
+  });
+
+  test('Malformed codes are rejected', () => {
+    for (const code of ['', '12345', '1234567', 'abcdef', '12 34 5a']) {
+      expect(verifyTotp(RFC_SECRET, code)).toBeNull();
+    }
+  });
+
+  test('otpauth URI contains the secret and issuer', () => {
+    const uri = buildOtpauthUri('JBSWY3DPEHPK3PXP', 'user@example.com', 'Acme');
+
+    expect(uri.startsWith('otpauth://totp/Acme%3Auser%40example.com?')).toBe(true);
+    const params = new URL(uri).searchParams;
+    expect(params.get('secret')).toBe('JBSWY3DPEHPK3PXP');
+    expect(params.get('issuer')).toBe('Acme');
+    expect(params.get('digits')).toBe('6');
+    expect(params.get('period')).toBe('30');
+  });
+
+  test('Recovery codes are unique', () => {
+    const codes = generateRecoveryCodes(50);
+    expect(new Set(codes).size).toBe(50);
+    codes.forEach((code) => expect(code).toMatch(/^[0-9a-f]{5}-[0-9a-f]{5}$/));
+  });
+});
+
+describe('MFA - Enrollment and Login', () => {
+  // Clean up database before each test
+  beforeEach(async () => {
+    await db.delete(schema.mfaChallenges);
+    await db.delete(schema.mfaRecoveryCodes);
+    await db.delete(schema.mfaFactors);
+    await db.delete(schema.sessions);
+    await db.delete(schema.users);
+  });
+
+  async function createMfaUser() {
+    const email = `mfa_${Date.now()}@example.com`;
+    const tenantId = `tenant_${Date.now()}`;
+    await createTestTenant(tenantId);
+    const tenantDb = createTenantScopedDb(db, tenantId);
+    const { user } = await register(tenantDb, email, 'Password123', 4, 604800);
+
+    const { secret } = await enrollMfa(tenantDb, user.id, email, 'Test');
+    const recoveryCodes = await confirmMfa(tenantDb, user.id, generateTotp(secret));
+
+    return { user, email, tenantId, secret, recoveryCodes };
+  }
+
+  test('Enrollment requires a valid first code', async () => {
+    const email = `mfa_confirm_${Date.now()}@example.com`;
+    const tenantId = `tenant_${Date.now()}`;
+    await createTestTenant(tenantId);
+    const tenantDb = createTenantScopedDb(db, tenantId);
+    const { user } = await register(tenantDb, email, 'Password123', 4, 604800);
+
+    await enrollMfa(tenantDb, user.id, email, 'Test');
+    expect(await isMfaEnabled(tenantDb, user.id)).toBe(false);
+
+    await expect(confirmMfa(tenantDb, user.id, '000000')).rejects.toThrow(
+      'Invalid authentication code'
+    );
+    expect(await isMfaEnabled(tenantDb, user.id)).toBe(false);
+  });
+
+  test('Login with MFA requires a second step', async () => {
+    const { user, email, tenantId, secret } = await createMfaUser();
+    const tenantDb = createTenantScopedDb(db, tenantId);
+
+    const challenge = await login(tenantDb, email, 'Password123', 604800);
+    expect(isMfaChallenge(challenge)).toBe(true);
+    if (!isMfaChallenge(challenge)) return;
+
+    // Use the next step so the confirmation code isn't a replay
+    const code = generateTotp(secret, Date.now() + 30_000);
+
+    const result = await completeMfaLogin(tenantDb, challenge.challengeToken, code, 604800);
+    expect(result.user.id).toBe(user.id);
+    expect(result.token.length).toBeGreaterThan(20);
+
+    // Challenges are single-use
+    await expect(
+      completeMfaLogin(tenantDb, challenge.challengeToken, code, 604800)
+    ).rejects.toThrow('Invalid or expired MFA challenge');
+  });
+
+  test('TOTP codes cannot be replayed', async () => {
+    const { user, tenantId, secret } = await createMfaUser();
+    const tenantDb = createTenantScopedDb(db, tenantId);
+    const code = generateTotp(secret, Date.now() + 30_000);
+
+    expect(await verifyMfaCode(tenantDb, user.id, code)).toBe(true);
+    expect(await verifyMfaCode(tenantDb, user.id, code)).toBe(false);
+  });
+
+  test('Recovery codes work once', async () => {
+    const { email, tenantId, recoveryCodes } = await createMfaUser();
+    const tenantDb = createTenantScopedDb(db, tenantId);
+
+    const challenge = await login(tenantDb, email, 'Password123', 604800);
+    if (!isMfaChallenge(challenge)) throw new Error('Expected MFA challenge');
+
+    await completeMfaLogin(tenantDb, challenge.challengeToken, recoveryCodes[0], 604800);
+
+    const second = await login(tenantDb, email, 'Password123', 604800);
+    if (!isMfaChallenge(second)) throw new Error('Expected MFA challenge');
+
+    await expect(
+      completeMfaLogin(tenantDb, second.challengeToken, recoveryCodes[0], 604800)
+    ).rejects.toThrow('Invalid authentication code');
+  });
+
+  test('Challenges are discarded after too many failed attempts', async () => {
+    const { email, tenantId, recoveryCodes } = await createMfaUser();
+    const tenantDb = createTenantScopedDb(db, tenantId);
+
+    const challenge = await login(tenantDb, email, 'Password123', 604800);
+    if (!isMfaChallenge(challenge)) throw new Error('Expected MFA challenge');
+
+    for (let i = 0; i < 5; i++) {
+      await expect(
+        completeMfaLogin(tenantDb, challenge.challengeToken, '000000', 604800)
+      ).rejects.toThrow('Invalid authentication code');
+    }
+
+    await expect(
+      completeMfaLogin(tenantDb, challenge.challengeToken, recoveryCodes[0], 604800)
+    ).rejects.toThrow('Invalid or expired MFA challenge');
+  });
+
+  test('Concurrent wrong codes cannot exceed the attempt limit', async () => {
+    const { email, tenantId } = await createMfaUser();
+    const tenantDb = createTenantScopedDb(db, tenantId);
+
+    const challenge = await login(tenantDb, email, 'Password123', 604800);
+    if (!isMfaChallenge(challenge)) throw new Error('Expected MFA challenge');
+
+    const results = await Promise.allSettled(
+      Array.from({ length: 20 }, () =>
+        completeMfaLogin(tenantDb, challenge.challengeToken, '000000', 604800)
+      )
+    );
+
+    // Only five guesses are checked; the rest are turned away
+    const checked = results.filter(
+      (result) =>
+        result.status === 'rejected' && result.reason.message === 'Invalid authentication code'
+    );
+    expect(checked).toHaveLength(5);
+  });
+
+  test('Disabling MFA restores single-step login', async () => {
+    const { user, email, tenantId, recoveryCodes } = await createMfaUser();
+    const tenantDb = createTenantScopedDb(db, tenantId);
+
+    await disableMfa(tenantDb, user.id, recoveryCodes[0]);
+
+    const result = await login(tenantDb, email, 'Password123', 604800);
+    expect(isMfaChallenge(result)).toBe(false);
+  });
+});
@@ -0,0 +1,475 @@
+import { eq, and, gt, lt, isNull, sql } from 'drizzle-orm';
+import { schema } from '../db';
+import { AppError } from '../middleware/error-handler';
+import { TenantScopedDb } from '../middleware/tenant-isolation';
+import { AuditContext, recordAuditEvent } from './audit';
+import * as crypto from 'crypto';
+
+// TOTP parameters (RFC 6238 defaults understood by all authenticator apps)
+const TOTP_STEP_SECONDS = 30;
+const TOTP_DIGITS = 6;
+
+// Accept codes from one step before/after the current one to allow for clock drift
+const TOTP_WINDOW = 1;
+
+// How long a password-verified login may wait for its second factor
+const MFA_CHALLENGE_EXPIRATION_SECONDS = 300;
+
+// Failed code attempts allowed per challenge before it is discarded
+const MFA_CHALLENGE_MAX_ATTEMPTS = 5;
+
+const RECOVERY_CODE_COUNT = 10;
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+// Encode bytes as unpadded RFC 4648 base32 (the format used in otpauth URIs)
+export function base32Encode(data: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+
+  for (const byte of data) {
+    value = (value << 8) | byte;
+    bits += 8;
+
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+}
+
+// Decode RFC 4648 base32, ignoring case, spaces and padding
+export function base32Decode(input: string): Buffer {
+  const cleaned = input.toUpperCase().replace(/[\s=]/g, '');
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+
+  for (const char of cleaned) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new AppError('INVALID_MFA_SECRET', 'Invalid base32 character in secret', 400);
+    }
+
+    value = (value << 5) | index;
+    bits += 5;
+
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(bytes);
+}
+
+// Generate a new random TOTP secret (160 bits, as recommended by RFC 4226)
+export function generateTotpSecret(): string {
+  return base32Encode(crypto.randomBytes(20));
+}
+
+// Get the TOTP time step for a timestamp
+export function getTotpStep(timestampMs: number = Date.now()): number {
+  return Math.floor(timestampMs / 1000 / TOTP_STEP_SECONDS);
+}
+
+// Generate an HOTP code (RFC 4226) for a counter value
+export function generateHotp(
+  secret: string,
+  counter: number,
+  digits: number = TOTP_DIGITS
+): string {
+  const counterBuffer = Buffer.alloc(8);
+  counterBuffer.writeUInt32BE(Math.floor(counter / 0x100000000), 0);
+  counterBuffer.writeUInt32BE(counter % 0x100000000, 4);
+
+  const hmac = crypto
+    .createHmac('sha1', base32Decode(secret))
+    .update(counterBuffer)
+    .digest();
+
+  // Dynamic truncation
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary =
+    ((hmac[offset] & 0x7f) << 24) |
+    (hmac[offset + 1] << 16) |
+    (hmac[offset + 2] << 8) |
+    hmac[offset + 3];
+
+  return (binary % 10 ** digits).toString().padStart(digits, '0');
+}
+
+// Generate a TOTP code (RFC 6238) for a timestamp
+export function generateTotp(
+  secret: string,
+  timestampMs: number = Date.now(),
+  digits: number = TOTP_DIGITS
+): string {
+  return generateHotp(secret, getTotpStep(timestampMs), digits);
+}
+
+// Verify a TOTP code, returning the matching time step or null.
+// Callers use the step to reject replays of an already-used code.
+export function verifyTotp(
+  secret: string,
+  code: string,
+  timestampMs: number = Date.now(),
+  window: number = TOTP_WINDOW
+): number | null {
+  const normalized = code.replace(/\s/g, '');
+  if (!/^\d+$/.test(normalized) || normalized.length !== TOTP_DIGITS) {
+    return null;
+  }
+
+  const currentStep = getTotpStep(timestampMs);
+
+  for (let offset = -window; offset <= window; offset++) {
+    const step = currentStep + offset;
+    const expected = generateHotp(secret, step);
+    if (crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(normalized))) {
+      return step;
+    }
+  }
+
+  return null;
+}
+
+// Build the otpauth:// URI that authenticator apps scan as a QR code
+export function buildOtpauthUri(secret: string, accountName: string, issuer: string): string {
+  const label = encodeURIComponent(`${issuer}:${accountName}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: 'SHA1',
+    digits: TOTP_DIGITS.toString(),
+    period: TOTP_STEP_SECONDS.toString(),
+  });
+
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
+
+// Generate human-friendly one-time recovery codes (e.g. "a1b2c-d3e4f")
+export function generateRecoveryCodes(count: number = RECOVERY_CODE_COUNT): string[] {
+  return Array.from({ length: count }, () => {
+    const hex = crypto.randomBytes(5).toString('hex');
+    return `${hex.slice(0, 5)}-${hex.slice(5)}`;
+  });
+}
+
+// Hash a one-time token or recovery code for storage (using SHA-256)
+function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+// Normalize recovery codes so formatting differences don't matter
+function normalizeRecoveryCode(code: string): string {
+  return code.toLowerCase().replace(/[\s-]/g, '');
+}
+
+// Start TOTP enrollment for a user (replaces any unconfirmed enrollment)
+export async function enrollMfa(
+  tenantDb: TenantScopedDb,
+  userId: string,
+  accountName: string,
+  issuer: string,
+  audit: AuditContext = {}
+): Promise<{ secret: string; otpauthUri: string }> {
+  const [existing] = await tenantDb.select(schema.mfaFactors, eq(schema.mfaFactors.userId, userId), {
+    limit: 1,
+  });
+
+  if (existing?.confirmedAt) {
+    throw new AppError('MFA_ALREADY_ENABLED', 'MFA is already enabled', 400);
+  }
+
+  const secret = generateTotpSecret();
+
+  // The scoped insert helper can't upsert, so the tenant is set here
+  await tenantDb.db
+    .insert(schema.mfaFactors)
+    .values({
+      userId,
+      tenantId: tenantDb.tenantId,
+      secret,
+      createdAt: new Date(),
+    })
+    .onConflictDoUpdate({
+      target: schema.mfaFactors.userId,
+      set: { secret, confirmedAt: null, lastUsedStep: null, createdAt: new Date() },
+    });
+
+  await recordAuditEvent(tenantDb, audit, {
+    action: 'mfa.enrollment_started',
+    targetType: 'user',
+    targetId: userId,
+  });
+
+  return {
+    secret,
+    otpauthUri: buildOtpauthUri(secret, accountName, issuer),
+  };
+}
+
+// Confirm TOTP enrollment with a first code; returns fresh recovery codes
+export async function confirmMfa(
+  tenantDb: TenantScopedDb,
+  userId: string,
+  code: string,
+  audit: AuditContext = {}
+): Promise<string[]> {
+  const [factor] = await tenantDb.select(schema.mfaFactors, eq(schema.mfaFactors.userId, userId), {
+    limit: 1,
+  });
+
+  if (!factor) {
+    throw new AppError('MFA_NOT_ENROLLED', 'MFA enrollment has not been started', 400);
+  }
+
+  if (factor.confirmedAt) {
+    throw new AppError('MFA_ALREADY_ENABLED', 'MFA is already enabled', 400);
+  }
+
+  const step = verifyTotp(factor.secret, code);
+  if (step === null) {
+    throw new AppError('INVALID_MFA_CODE', 'Invalid authentication code', 401);
+  }
+
+  return tenantDb.transaction(async (tx) => {
+    await tx.update(
+      schema.mfaFactors,
+      { confirmedAt: new Date(), lastUsedStep: step },
+      eq(schema.mfaFactors.id, factor.id)
+    );
+
+    const codes = await replaceRecoveryCodes(tx, userId);
+
+    await recordAuditEvent(tx, audit, {
+      action: 'mfa.enabled',
+      targetType: 'user',
+      targetId: userId,
+    });
+
+    return codes;
+  });
+}
+
+// Replace a user's recovery codes, returning the new plaintext codes
+export async function regenerateRecoveryCodes(
+  tenantDb: TenantScopedDb,
+  userId: string,
+  audit: AuditContext = {}
+): Promise<string[]> {
+  return tenantDb.transaction(async (tx) => {
+    const codes = await replaceRecoveryCodes(tx, userId);
+
+    await recordAuditEvent(tx, audit, {
+      action: 'mfa.recovery_codes_regenerated',
+      targetType: 'user',
+      targetId: userId,
+    });
+
+    return codes;
+  });
+}
+
+// Store a fresh set of recovery codes in place of the old ones
+async function replaceRecoveryCodes(tenantDb: TenantScopedDb, userId: string): Promise<string[]> {
+  const codes = generateRecoveryCodes();
+
+  await tenantDb.delete(schema.mfaRecoveryCodes, eq(schema.mfaRecoveryCodes.userId, userId));
+
+  await tenantDb.insert(
+    schema.mfaRecoveryCodes,
+    codes.map((code) => ({
+      userId,
+      codeHash: hashToken(normalizeRecoveryCode(code)),
+      createdAt: new Date(),
+    }))
+  );
+
+  return codes;
+}
+
+// Check whether a user has confirmed MFA enrollment
+export async function isMfaEnabled(tenantDb: TenantScopedDb, userId: string): Promise<boolean> {
+  const [factor] = await tenantDb.select(schema.mfaFactors, eq(schema.mfaFactors.userId, userId), {
+    limit: 1,
+  });
+
+  return !!factor?.confirmedAt;
+}
+
+// Verify a TOTP or recovery code for a user with confirmed MFA.
+// Each TOTP step and each recovery code can only be used once.
+export async function verifyMfaCode(
+  tenantDb: TenantScopedDb,
+  userId: string,
+  code: string,
+  audit: AuditContext = {}
+): Promise<boolean> {
+  const [factor] = await tenantDb.select(schema.mfaFactors, eq(schema.mfaFactors.userId, userId), {
+    limit: 1,
+  });
+
+  if (!factor?.confirmedAt) {
+    return false;
+  }
+
+  const step = verifyTotp(factor.secret, code);
+  if (step !== null) {
+    // Only advance lastUsedStep forward; a concurrent use of the same code loses
+    const [updated] = await tenantDb.update(
+      schema.mfaFactors,
+      { lastUsedStep: step },
+      and(
+        eq(schema.mfaFactors.id, factor.id),
+        sql`coalesce(${schema.mfaFactors.lastUsedStep}, -1) < ${step}`
+      )
+    );
+
+    return !!updated;
+  }
+
+  // Fall back to a one-time recovery code
+  const [recoveryCode] = await tenantDb.update(
+    schema.mfaRecoveryCodes,
+    { usedAt: new Date() },
+    and(
+      eq(schema.mfaRecoveryCodes.userId, userId),
+      eq(schema.mfaRecoveryCodes.codeHash, hashToken(normalizeRecoveryCode(code))),
+      isNull(schema.mfaRecoveryCodes.usedAt)
+    )
+  );
+
+  if (!recoveryCode) {
+    return false;
+  }
+
+  await recordAuditEvent(tenantDb, audit, {
+    action: 'mfa.recovery_code_used',
+    targetType: 'user',
+    targetId: userId,
+  });
+
+  return true;
+}
+
+// Disable MFA for a user after verifying a current code
+export async function disableMfa(
+  tenantDb: TenantScopedDb,
+  userId: string,
+  code: string,
+  audit: AuditContext = {}
+): Promise<void> {
+  const valid = await verifyMfaCode(tenantDb, userId, code, audit);
+  if (!valid) {
+    throw new AppError('INVALID_MFA_CODE', 'Invalid authentication code', 401);
+  }
+
+  await tenantDb.transaction(async (tx) => {
+    await tx.delete(schema.mfaFactors, eq(schema.mfaFactors.userId, userId));
+
+    await tx.delete(schema.mfaRecoveryCodes, eq(schema.mfaRecoveryCodes.userId, userId));
+
+    await recordAuditEvent(tx, audit, {
+      action: 'mfa.disabled',
+      targetType: 'user',
+      targetId: userId,
+    });
+  });
+}
+
+// Create a short-lived challenge for a user who passed the password check
+export async function createMfaChallenge(
+  tenantDb: TenantScopedDb,
+  userId: string,
+  audit: AuditContext = {}
+): Promise<{ challengeToken: string; expiresAt: Date }> {
+  const challengeToken = crypto.randomBytes(32).toString('base64url');
+  const expiresAt = new Date(Date.now() + MFA_CHALLENGE_EXPIRATION_SECONDS * 1000);
+
+  await tenantDb.insert(schema.mfaChallenges, {
+    tokenHash: hashToken(challengeToken),
+    userId,
+    expiresAt,
+    createdAt: new Date(),
+  });
+
+  // The user passed the password check, so the challenge is theirs
+  await recordAuditEvent(
+    tenantDb,
+    { ...audit, actorType: 'user', actorId: userId },
+    { action: 'mfa.challenge_issued', targetType: 'user', targetId: userId }
+  );
+
+  return { challengeToken, expiresAt };
+}
+
+// Exchange a challenge token plus a TOTP or recovery code for the user ID.
+// The challenge is consumed on success and after too many failed attempts.
+export async function verifyMfaChallenge(
+  tenantDb: TenantScopedDb,
+  challengeToken: string,
+  code: string,
+  audit: AuditContext = {}
+): Promise<string> {
+  const tokenHash = hashToken(challengeToken);
+
+  // Claim an attempt before checking the code, so parallel guesses can't get
+  // past the attempt limit
+  const [challenge] = await tenantDb.db
+    .update(schema.mfaChallenges)
+    .set({ attempts: sql`${schema.mfaChallenges.attempts} + 1` })
+    .where(
+      tenantDb.scope(
+        schema.mfaChallenges,
+        and(
+          eq(schema.mfaChallenges.tokenHash, tokenHash),
+          lt(schema.mfaChallenges.attempts, MFA_CHALLENGE_MAX_ATTEMPTS),
+          gt(schema.mfaChallenges.expiresAt, new Date())
+        )
+      )
+    )
+    .returning();
+
+  if (!challenge) {
+    // Expired or out of attempts
+    await tenantDb.delete(schema.mfaChallenges, eq(schema.mfaChallenges.tokenHash, tokenHash));
+    throw new AppError('INVALID_MFA_CHALLENGE', 'Invalid or expired MFA challenge', 401);
+  }
+
+  const valid = await verifyMfaCode(tenantDb, challenge.userId, code, {
+    ...audit,
+    actorType: 'user',
+    actorId: challenge.userId,
+  });
+
+  if (!valid) {
+    await recordAuditEvent(tenantDb, audit, {
+      action: 'mfa.challenge_failed',
+      targetType: 'user',
+      targetId: challenge.userId,
+    });
+
+    throw new AppError('INVALID_MFA_CODE', 'Invalid authentication code', 401);
+  }
+
+  // Consume the challenge; only one caller can delete it
+  const [consumed] = await tenantDb.delete(
+    schema.mfaChallenges,
+    eq(schema.mfaChallenges.id, challenge.id)
+  );
+
+  if (!consumed) {
+    throw new AppError('INVALID_MFA_CHALLENGE', 'Invalid or expired MFA challenge', 401);
+  }
+
+  return challenge.userId;
+}
@@ -8,11 +8,25 @@ import {
   acceptInvitation,
   removeMember,
 } from './organization';
-import { createDb } from '../db';
+import { createTenantScopedDb } from '../middleware/tenant-isolation';
+import { getSandboxTenantId } from './sandbox';
+import { createUnscopedDb } from '../db';
 import { schema } from '../db';
+import { AppError } from '../middleware/error-handler';
 import { eq, and } from 'drizzle-orm';
 
-const db = createDb(process.env.DATABASE_URL!);
+const db = createUnscopedDb(process.env.DATABASE_URL!);
+
+// Tenant-owned rows need their tenant, and test-mode rows its sandbox partition
+async function createTestTenant(tenantId: string) {
+  await db
+    .insert(schema.tenants)
+    .values([
+      { id: tenantId, name: tenantId },
+      { id: getSandboxTenantId(tenantId), name: tenantId },
+    ])
+    .onConflictDoNothing();
+}
 
 // Clean up database before each test
 beforeEach(async () => {
@@ -58,11 +72,13 @@ describe('Organization Service - Creation', () => {
         emailArb,
         orgNameArb,
         async (tenantId, email, orgName) => {
+          await createTestTenant(tenantId);
           // Create owner user
           const owner = await createTestUser(tenantId, email);
 
+          const tenantDb = createTenantScopedDb(db, tenantId);
           // Create organization
-          const org = await createOrganization(db, orgName, owner.id, tenantId);
+          const org = await createOrganization(tenantDb, orgName, owner.id);
 
           // Verify organization was created
           expect(org.id).toBeDefined();
@@ -107,6 +123,7 @@ describe('Organization Service - Invitations', () => {
         orgNameArb,
         roleArb,
         async (tenantId, ownerEmail, inviteeEmail, orgName, role) => {
+          await createTestTenant(tenantId);
           // Skip if emails are the same
           fc.pre(ownerEmail !== inviteeEmail);
           // Skip if role is owner (only one owner per org)
@@ -118,17 +135,18 @@ describe('Organization Service - Invitations', () => {
           // Create invitee user
           const invitee = await createTestUser(tenantId, inviteeEmail);
 
+          const tenantDb = createTenantScopedDb(db, tenantId);
           // Create organization
-          const org = await createOrganization(db, orgName, owner.id, tenantId);
+          const org = await createOrganization(tenantDb, orgName, owner.id);
 
           // Invite member (without sending email)
           const invitation = await inviteMember(
-            db,
+            tenantDb,
             org.id,
             inviteeEmail,
             role,
             owner.id,
-            tenantId
+            604800
           );
 
           // Verify invitation was created
@@ -138,7 +156,7 @@ describe('Organization Service - Invitations', () => {
           expect(invitation.status).toBe('pending');
 
           // Accept invitation
-          await acceptInvitation(db, invitation.id, invitee.id, inviteeEmail);
+          await acceptInvitation(tenantDb, invitation.id, invitee.id, inviteeEmail);
 
           // Verify membership was created
           const [membership] = await db
@@ -185,6 +203,7 @@ describe('Organization Service - Member Management', () => {
         orgNameArb,
         roleArb,
         async (tenantId, ownerEmail, memberEmail, orgName, role) => {
+          await createTestTenant(tenantId);
           // Skip if emails are the same
           fc.pre(ownerEmail !== memberEmail);
           // Skip if role is owner (can't remove owner)
@@ -196,8 +215,9 @@ describe('Organization Service - Member Management', () => {
           // Create member user
           const member = await createTestUser(tenantId, memberEmail);
 
+          const tenantDb = createTenantScopedDb(db, tenantId);
           // Create organization
-          const org = await createOrganization(db, orgName, owner.id, tenantId);
+          const org = await createOrganization(tenantDb, orgName, owner.id);
 
           // Add member directly
           await db.insert(schema.organizationMembers).values({
@@ -216,7 +236,7 @@ describe('Organization Service - Member Management', () => {
           expect(membersBefore).toHaveLength(2); // owner + member
 
           // Remove member
-          await removeMember(db, org.id, member.id, owner.id, tenantId);
+          await removeMember(tenantDb, org.id, member.id, owner.id);
 
           // Verify member was removed
           const membersAfter = await db
@@ -247,6 +267,7 @@ describe('Organization Service - Queries', () => {
         emailArb,
         fc.array(fc.tuple(orgNameArb, roleArb), { minLength: 1, maxLength: 5 }),
         async (tenantId, email, orgData) => {
+          await createTestTenant(tenantId);
           // Create user
           const user = await createTestUser(tenantId, email);
 
@@ -273,8 +294,9 @@ describe('Organization Service - Queries', () => {
             createdOrgs.push({ id: org.id, role });
           }
 
+          const tenantDb = createTenantScopedDb(db, tenantId);
           // Query user's organizations
-          const userOrgs = await getUserOrganizations(db, user.id, tenantId);
+          const userOrgs = await getUserOrganizations(tenantDb, user.id);
 
           // Verify all organizations are returned
           expect(userOrgs).toHaveLength(createdOrgs.length);
@@ -305,23 +327,28 @@ describe('Organization Service - Queries', () => {
         emailArb,
         orgNameArb,
         async (tenantId1, tenantId2, email, orgName) => {
+          await createTestTenant(tenantId1);
+          await createTestTenant(tenantId2);
           // Skip if tenants are the same
           fc.pre(tenantId1 !== tenantId2);
 
           // Create user in tenant 1
           const user = await createTestUser(tenantId1, email);
 
+          const tenant1Db = createTenantScopedDb(db, tenantId1);
+          const tenant2Db = createTenantScopedDb(db, tenantId2);
+
           // Create organization in tenant 1
-          const org1 = await createOrganization(db, orgName, user.id, tenantId1);
+          const org1 = await createOrganization(tenant1Db, orgName, user.id);
 
           // Verify we can get the organization with correct tenant
-          const retrieved1 = await getOrganization(db, org1.id, tenantId1);
+          const retrieved1 = await getOrganization(tenant1Db, org1.id);
           expect(retrieved1).toBeDefined();
           expect(retrieved1?.id).toBe(org1.id);
           expect(retrieved1?.tenantId).toBe(tenantId1);
 
           // Verify we CANNOT get the organization with wrong tenant
-          const retrieved2 = await getOrganization(db, org1.id, tenantId2);
+          const retrieved2 = await getOrganization(tenant2Db, org1.id);
           expect(retrieved2).toBeNull();
 
           return true;
@@ -336,52 +363,148 @@ describe('Organization Service - Queries', () => {
 describe('Organization Service - Edge Cases', () => {
   test('Cannot invite member if not owner', async () => {
     const tenantId = `tenant_${Date.now()}`;
+    await createTestTenant(tenantId);
     const owner = await createTestUser(tenantId, `owner_${Date.now()}@test.com`);
     const nonOwner = await createTestUser(tenantId, `nonowner_${Date.now()}@test.com`);
     const inviteeEmail = `invitee_${Date.now()}@test.com`;
 
-    const org = await createOrganization(db, 'Test Org', owner.id, tenantId);
+    const tenantDb = createTenantScopedDb(db, tenantId);
+    const org = await createOrganization(tenantDb, 'Test Org', owner.id);
 
     // Non-owner tries to invite
     await expect(
-      inviteMember(db, org.id, inviteeEmail, 'member', nonOwner.id, tenantId)
+      inviteMember(tenantDb, org.id, inviteeEmail, 'member', nonOwner.id, 604800)
     ).rejects.toThrow('Only organization owner can invite members');
   });
 
   test('Cannot remove organization owner', async () => {
     const tenantId = `tenant_${Date.now()}`;
+    await createTestTenant(tenantId);
     const owner = await createTestUser(tenantId, `owner_${Date.now()}@test.com`);
 
-    const org = await createOrganization(db, 'Test Org', owner.id, tenantId);
+    const tenantDb = createTenantScopedDb(db, tenantId);
+    const org = await createOrganization(tenantDb, 'Test Org', owner.id);
 
     // Try to remove owner
     await expect(
-      removeMember(db, org.id, owner.id, owner.id, tenantId)
+      removeMember(tenantDb, org.id, owner.id, owner.id)
     ).rejects.toThrow('Cannot remove organization owner');
   });
 
+  test('Invitations expire after the given number of seconds', async () => {
+    const tenantId = `tenant_${Date.now()}`;
+    await createTestTenant(tenantId);
+    const owner = await createTestUser(tenantId, `owner_${Date.now()}@test.com`);
+
+    const tenantDb = createTenantScopedDb(db, tenantId);
+    const org = await createOrganization(tenantDb, 'Test Org', owner.id);
+    const before = Date.now();
+    const invitation = await inviteMember(
+      tenantDb,
+      org.id,
+      `invitee_${Date.now()}@test.com`,
+      'member',
+      owner.id,
+      3600
+    );
+
+    const expiresIn = invitation.expiresAt.getTime() - before;
+    expect(expiresIn).toBeGreaterThanOrEqual(3600 * 1000);
+    expect(expiresIn).toBeLessThan(3600 * 1000 + 60 * 1000);
+  });
+
   test('Cannot accept invitation with wrong email', async () => {
     const tenantId = `tenant_${Date.now()}`;
+    await createTestTenant(tenantId);
     const owner = await createTestUser(tenantId, `owner_${Date.now()}@test.com`);
     const inviteeEmail = `invitee_${Date.now()}@test.com`;
     const wrongUser = await createTestUser(tenantId, `wrong_${Date.now()}@test.com`);
 
-    const org = await createOrganization(db, 'Test Org', owner.id, tenantId);
-    const invitation = await inviteMember(db, org.id, inviteeEmail, 'member', owner.id, tenantId);
+    const tenantDb = createTenantScopedDb(db, tenantId);
+    const org = await createOrganization(tenantDb, 'Test Org', owner.id);
+    const invitation = await inviteMember(
+      tenantDb,
+      org.id,
+      inviteeEmail,
+      'member',
+      owner.id,
+      604800
+    );
 
     // Try to accept with wrong email
     await expect(
-      acceptInvitation(db, invitation.id, wrongUser.id, wrongUser.email)
+      acceptInvitation(tenantDb, invitation.id, wrongUser.id, wrongUser.email)
     ).rejects.toThrow('Invitation is for a different email');
   });
 
+  test('An invitation can only be accepted once', async () => {
+    const tenantId = `tenant_${Date.now()}`;
+    await createTestTenant(tenantId);
+    const owner = await createTestUser(tenantId, `owner_${Date.now()}@test.com`);
+    const invitee = await createTestUser(tenantId, `invitee_${Date.now()}@test.com`);
+
+    const tenantDb = createTenantScopedDb(db, tenantId);
+    const org = await createOrganization(tenantDb, 'Test Org', owner.id);
+    const invitation = await inviteMember(
+      tenantDb,
+      org.id,
+      invitee.email,
+      'member',
+      owner.id,
+      604800
+    );
+
+    const results = await Promise.allSettled([
+      acceptInvitation(tenantDb, invitation.id, invitee.id, invitee.email),
+      acceptInvitation(tenantDb, invitation.id, invitee.id, invitee.email),
+    ]);
+    expect(results.filter((result) => result.status === 'fulfilled')).toHaveLength(1);
+
+    const members = await db
+      .select()
+      .from(schema.organizationMembers)
+      .where(eq(schema.organizationMembers.userId, invitee.id));
+    expect(members).toHaveLength(1);
+  });
+
+  test('Existing members get a conflict when accepting another invitation', async () => {
+    const tenantId = `tenant_${Date.now()}`;
+    await createTestTenant(tenantId);
+    const owner = await createTestUser(tenantId, `owner_${Date.now()}@test.com`);
+    const invitee = await createTestUser(tenantId, `invitee_${Date.now()}@test.com`);
+
+    const tenantDb = createTenantScopedDb(db, tenantId);
+    const org = await createOrganization(tenantDb, 'Test Org', owner.id);
+    const invite = () =>
+      inviteMember(tenantDb, org.id, invitee.email, 'member', owner.id, 604800);
+
+    const first = await invite();
+    await acceptInvitation(tenantDb, first.id, invitee.id, invitee.email);
+
+    const second = await invite();
+    const error = await acceptInvitation(tenantDb, second.id, invitee.id, invitee.email).catch(
+      (e) => e
+    );
+    expect(error).toBeInstanceOf(AppError);
+    expect(error.code).toBe('ALREADY_MEMBER');
+    expect(error.statusCode).toBe(409);
+
+    const [invitation] = await db
+      .select()
+      .from(schema.invitations)
+      .where(eq(schema.invitations.id, second.id));
+    expect(invitation.status).toBe('pending');
+  });
+
   test('Cannot accept expired invitation', async () => {
     const tenantId = `tenant_${Date.now()}`;
+    await createTestTenant(tenantId);
     const owner = await createTestUser(tenantId, `owner_${Date.now()}@test.com`);
     const inviteeEmail = `invitee_${Date.now()}@test.com`;
     const invitee = await createTestUser(tenantId, inviteeEmail);
 
-    const org = await createOrganization(db, 'Test Org', owner.id, tenantId);
+    const tenantDb = createTenantScopedDb(db, tenantId);
+    const org = await createOrganization(tenantDb, 'Test Org', owner.id);
 
     // Create expired invitation manually
     const [invitation] = await db
@@ -399,7 +522,41 @@ describe('Organization Service - Edge Cases', () => {
 
     // Try to accept expired invitation
     await expect(
-      acceptInvitation(db, invitation.id, invitee.id, inviteeEmail)
+      acceptInvitation(tenantDb, invitation.id, invitee.id, inviteeEmail)
     ).rejects.toThrow('Invitation has expired');
   });
+
+  test('Unverified users cannot accept invitations when verification is required', async () => {
+    const tenantId = `tenant_${Date.now()}`;
+    await createTestTenant(tenantId);
+    const owner = await createTestUser(tenantId, `owner_${Date.now()}@test.com`);
+    const inviteeEmail = `invitee_${Date.now()}@test.com`;
+    const invitee = await createTestUser(tenantId, inviteeEmail);
+
+    const tenantDb = createTenantScopedDb(db, tenantId);
+    const org = await createOrganization(tenantDb, 'Test Org', owner.id);
+    const invitation = await inviteMember(
+      tenantDb,
+      org.id,
+      inviteeEmail,
+      'member',
+      owner.id,
+      604800
+    );
+
+    await expect(
+      acceptInvitation(tenantDb, invitation.id, invitee.id, inviteeEmail, true)
+    ).rejects.toThrow('Email address must be verified before accepting invitations');
+
+    // Once verified, the same invitation can be accepted
+    await db
+      .update(schema.users)
+      .set({ emailVerifiedAt: new Date() })
+      .where(eq(schema.users.id, invitee.id));
+
+    await acceptInvitation(tenantDb, invitation.id, invitee.id, inviteeEmail, true);
+
+    const orgs = await getUserOrganizations(tenantDb, invitee.id);
+    expect(orgs.some(o => o.id === org.id)).toBe(true);
+  });
 });
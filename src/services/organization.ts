@@ -1,35 +1,49 @@
 import { eq, and } from 'drizzle-orm';
-import { Database } from '../db';
-import { schema } from '../db';
+import { schema, isUniqueViolation } from '../db';
 import { Organization, Invitation } from '../types';
 import { AppError } from '../middleware/error-handler';
-import { sendInvitationEmail } from './email';
+import { TenantScopedDb } from '../middleware/tenant-isolation';
+import { AuditContext, recordAuditEvent, diffChanges } from './audit';
+import { enqueueOutboxEvent } from './outbox';
 
 // Create a new organization
 export async function createOrganization(
-  db: Database,
+  tenantDb: TenantScopedDb,
   name: string,
   ownerId: string,
-  tenantId: string,
-  defaultRole: string = 'owner'
+  defaultRole: string = 'owner',
+  audit: AuditContext = {}
 ): Promise<Organization> {
-  // Create organization
-  const [org] = await db
-    .insert(schema.organizations)
-    .values({
-      tenantId,
+  const org = await tenantDb.transaction(async (tx) => {
+    // Create organization
+    const [org] = await tx.insert(schema.organizations, {
       name,
       ownerId,
       createdAt: new Date(),
-    })
-    .returning();
-
-  // Add owner as first member
-  await db.insert(schema.organizationMembers).values({
-    organizationId: org.id,
-    userId: ownerId,
-    role: defaultRole,
-    joinedAt: new Date(),
+    });
+
+    // Add owner as first member
+    await tx.insert(schema.organizationMembers, {
+      organizationId: org.id,
+      userId: ownerId,
+      role: defaultRole,
+      joinedAt: new Date(),
+    });
+
+    await enqueueOutboxEvent(tx, 'organization.member_added', {
+      organizationId: org.id,
+      userId: ownerId,
+      role: defaultRole,
+    });
+    await recordAuditEvent(tx, audit, {
+      organizationId: org.id,
+      action: 'organization.created',
+      targetType: 'organization',
+      targetId: org.id,
+      changes: diffChanges(null, { name, ownerId }),
+    });
+
+    return org;
   });
 
   return {
@@ -44,20 +58,14 @@ export async function createOrganization(
 
 // Get organization by ID
 export async function getOrganization(
-  db: Database,
-  orgId: string,
-  tenantId: string
+  tenantDb: TenantScopedDb,
+  orgId: string
 ): Promise<Organization | null> {
-  const [org] = await db
-    .select()
-    .from(schema.organizations)
-    .where(
-      and(
-        eq(schema.organizations.id, orgId),
-        eq(schema.organizations.tenantId, tenantId)
-      )
-    )
-    .limit(1);
+  const [org] = await tenantDb.select(
+    schema.organizations,
+    eq(schema.organizations.id, orgId),
+    { limit: 1 }
+  );
 
   if (!org) return null;
 
@@ -73,11 +81,10 @@ export async function getOrganization(
 
 // Get all organizations for a user
 export async function getUserOrganizations(
-  db: Database,
-  userId: string,
-  tenantId: string
+  tenantDb: TenantScopedDb,
+  userId: string
 ): Promise<Array<Organization & { role: string }>> {
-  const memberships = await db
+  const memberships = await tenantDb.db
     .select({
       org: schema.organizations,
       role: schema.organizationMembers.role,
@@ -87,12 +94,7 @@ export async function getUserOrganizations(
       schema.organizations,
       eq(schema.organizationMembers.organizationId, schema.organizations.id)
     )
-    .where(
-      and(
-        eq(schema.organizationMembers.userId, userId),
-        eq(schema.organizations.tenantId, tenantId)
-      )
-    );
+    .where(tenantDb.scope(schema.organizations, eq(schema.organizationMembers.userId, userId)));
 
   return memberships.map((m) => ({
     id: m.org.id,
@@ -107,25 +109,16 @@ export async function getUserOrganizations(
 
 // Invite a member to an organization
 export async function inviteMember(
-  db: Database,
+  tenantDb: TenantScopedDb,
   orgId: string,
   email: string,
   role: string,
   invitedBy: string,
-  tenantId: string,
-  resendApiKey?: string // Optional: if provided, sends email
+  expirationSeconds: number,
+  audit: AuditContext = {}
 ): Promise<Invitation> {
   // Verify inviter is owner
-  const [org] = await db
-    .select()
-    .from(schema.organizations)
-    .where(
-      and(
-        eq(schema.organizations.id, orgId),
-        eq(schema.organizations.tenantId, tenantId)
-      )
-    )
-    .limit(1);
+  const org = await getOrganization(tenantDb, orgId);
 
   if (!org) {
     throw new AppError('ORGANIZATION_NOT_FOUND', 'Organization not found', 404);
@@ -140,11 +133,10 @@ export async function inviteMember(
   }
 
   // Create invitation
-  const expiresAt = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000); // 7 days
+  const expiresAt = new Date(Date.now() + expirationSeconds * 1000);
 
-  const [invitation] = await db
-    .insert(schema.invitations)
-    .values({
+  const invitation = await tenantDb.transaction(async (tx) => {
+    const [invitation] = await tx.insert(schema.invitations, {
       organizationId: orgId,
       email,
       role,
@@ -152,23 +144,26 @@ export async function inviteMember(
       status: 'pending',
       createdAt: new Date(),
       expiresAt,
-    })
-    .returning();
-
-  // Send invitation email if Resend API key is provided
-  if (resendApiKey) {
-    try {
-      await sendInvitationEmail(
-        resendApiKey,
-        email,
-        org.name,
-        invitation.id
-      );
-    } catch (error) {
-      console.error('Failed to send invitation email:', error);
-      // Don't fail the invitation if email fails - invitation is still created
-    }
-  }
+    });
+
+    // The invitation email is sent from the outbox (when email is configured)
+    await enqueueOutboxEvent(tx, 'organization.member_invited', {
+      organizationId: orgId,
+      organizationName: org.name,
+      invitationId: invitation.id,
+      email,
+      role,
+    });
+    await recordAuditEvent(tx, audit, {
+      organizationId: orgId,
+      action: 'organization.member_invited',
+      targetType: 'invitation',
+      targetId: invitation.id,
+      changes: diffChanges(null, { email, role }),
+    });
+
+    return invitation;
+  });
 
   return {
     id: invitation.id,
@@ -184,17 +179,19 @@ export async function inviteMember(
 
 // Accept an invitation
 export async function acceptInvitation(
-  db: Database,
+  tenantDb: TenantScopedDb,
   invitationId: string,
   userId: string,
-  userEmail: string
+  userEmail: string,
+  requireVerifiedEmail: boolean = false,
+  audit: AuditContext = {}
 ): Promise<void> {
   // Get invitation
-  const [invitation] = await db
-    .select()
-    .from(schema.invitations)
-    .where(eq(schema.invitations.id, invitationId))
-    .limit(1);
+  const [invitation] = await tenantDb.select(
+    schema.invitations,
+    eq(schema.invitations.id, invitationId),
+    { limit: 1 }
+  );
 
   if (!invitation) {
     throw new AppError('INVITATION_NOT_FOUND', 'Invitation not found', 404);
@@ -220,40 +217,86 @@ export async function acceptInvitation(
     throw new AppError('INVALID_INVITATION', 'Invitation has expired', 400);
   }
 
-  // Add user to organization
-  await db.insert(schema.organizationMembers).values({
-    organizationId: invitation.organizationId,
-    userId,
-    role: invitation.role,
-    joinedAt: new Date(),
-  });
+  // The invitation is matched by email, so the tenant may require proof
+  // that the accepting user actually owns that address
+  if (requireVerifiedEmail) {
+    const [user] = await tenantDb.select(schema.users, eq(schema.users.id, userId), {
+      limit: 1,
+    });
+
+    if (!user?.emailVerifiedAt) {
+      throw new AppError(
+        'EMAIL_NOT_VERIFIED',
+        'Email address must be verified before accepting invitations',
+        403
+      );
+    }
+  }
+
+  await tenantDb.transaction(async (tx) => {
+    // Update invitation status; the status guard makes concurrent accepts fail
+    const [accepted] = await tx.update(
+      schema.invitations,
+      { status: 'accepted' },
+      and(eq(schema.invitations.id, invitationId), eq(schema.invitations.status, 'pending'))
+    );
+
+    if (!accepted) {
+      throw new AppError(
+        'INVALID_INVITATION',
+        'Invitation has already been processed',
+        400
+      );
+    }
+
+    // Add user to organization; the invitation stays pending if they're
+    // already a member
+    await tx
+      .insert(schema.organizationMembers, {
+        organizationId: invitation.organizationId,
+        userId,
+        role: invitation.role,
+        joinedAt: new Date(),
+      })
+      .catch((error) => {
+        if (isUniqueViolation(error)) {
+          throw new AppError(
+            'ALREADY_MEMBER',
+            'User is already a member of this organization',
+            409
+          );
+        }
+        throw error;
+      });
 
-  // Update invitation status
-  await db
-    .update(schema.invitations)
-    .set({ status: 'accepted' })
-    .where(eq(schema.invitations.id, invitationId));
+    await enqueueOutboxEvent(tx, 'organization.member_added', {
+      organizationId: invitation.organizationId,
+      userId,
+      role: invitation.role,
+    });
+    await recordAuditEvent(tx, audit, {
+      organizationId: invitation.organizationId,
+      action: 'organization.invitation_accepted',
+      targetType: 'invitation',
+      targetId: invitationId,
+      changes: diffChanges(
+        { status: invitation.status, memberId: null },
+        { status: 'accepted', memberId: userId }
+      ),
+    });
+  });
 }
 
 // Remove a member from an organization
 export async function removeMember(
-  db: Database,
+  tenantDb: TenantScopedDb,
   orgId: string,
   userId: string,
   removerId: string,
-  tenantId: string
+  audit: AuditContext = {}
 ): Promise<void> {
   // Verify remover is owner
-  const [org] = await db
-    .select()
-    .from(schema.organizations)
-    .where(
-      and(
-        eq(schema.organizations.id, orgId),
-        eq(schema.organizations.tenantId, tenantId)
-      )
-    )
-    .limit(1);
+  const org = await getOrganization(tenantDb, orgId);
 
   if (!org) {
     throw new AppError('ORGANIZATION_NOT_FOUND', 'Organization not found', 404);
@@ -276,13 +319,31 @@ export async function removeMember(
     );
   }
 
-  // Remove member
-  await db
-    .delete(schema.organizationMembers)
-    .where(
+  await tenantDb.transaction(async (tx) => {
+    // Remove member
+    const [member] = await tx.delete(
+      schema.organizationMembers,
       and(
         eq(schema.organizationMembers.organizationId, orgId),
         eq(schema.organizationMembers.userId, userId)
       )
     );
+
+    if (!member) {
+      return;
+    }
+
+    await enqueueOutboxEvent(tx, 'organization.member_removed', {
+      organizationId: orgId,
+      userId,
+      role: member.role,
+    });
+    await recordAuditEvent(tx, audit, {
+      organizationId: orgId,
+      action: 'organization.member_removed',
+      targetType: 'user',
+      targetId: userId,
+      changes: diffChanges({ role: member.role }, { role: null }),
+    });
+  });
 }
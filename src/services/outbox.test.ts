@@ -0,0 +1,201 @@
+import { describe, test, expect, beforeEach } from 'vitest';
+import { eq } from 'drizzle-orm';
+import {
+  OUTBOX_MAX_ATTEMPTS,
+  OutboxConsumer,
+  getOutboxRetryDelayMs,
+  dispatchOutbox,
+} from './outbox';
+import { createUser } from './auth';
+import { createOrganization, inviteMember, removeMember } from './organization';
+import { OutboxEvent } from '../types';
+import { createTenantScopedDb } from '../middleware/tenant-isolation';
+import { getSandboxTenantId } from './sandbox';
+import { createUnscopedDb } from '../db';
+import { schema } from '../db';
+
+const db = createUnscopedDb(process.env.DATABASE_URL!);
+
+// Tenant-owned rows need their tenant, and test-mode rows its sandbox partition
+async function createTestTenant(tenantId: string) {
+  await db
+    .insert(schema.tenants)
+    .values([
+      { id: tenantId, name: tenantId },
+      { id: getSandboxTenantId(tenantId), name: tenantId },
+    ])
+    .onConflictDoNothing();
+}
+
+// Clean up database before each test
+beforeEach(async () => {
+  await db.delete(schema.outbox);
+  await db.delete(schema.organizationMembers);
+  await db.delete(schema.invitations);
+  await db.delete(schema.organizations);
+  await db.delete(schema.users);
+});
+
+async function getOutboxEvents(tenantId: string) {
+  return db
+    .select()
+    .from(schema.outbox)
+    .where(eq(schema.outbox.tenantId, tenantId))
+    .orderBy(schema.outbox.createdAt);
+}
+
+// Consumer that records the events it sees, failing the first `failures` times
+function recordingConsumer(seen: OutboxEvent[], failures = 0): OutboxConsumer {
+  return async (_db, event) => {
+    seen.push(event);
+    if (failures-- > 0) {
+      throw new Error('Consumer unavailable');
+    }
+  };
+}
+
+describe('Outbox - Retries', () => {
+  test('Retry delays double per attempt up to a cap', () => {
+    expect(getOutboxRetryDelayMs(1)).toBe(30 * 1000);
+    expect(getOutboxRetryDelayMs(2)).toBe(60 * 1000);
+
+    for (let attempts = 1; attempts < 20; attempts++) {
+      expect(getOutboxRetryDelayMs(attempts + 1)).toBeGreaterThanOrEqual(
+        getOutboxRetryDelayMs(attempts)
+      );
+      expect(getOutboxRetryDelayMs(attempts)).toBeLessThanOrEqual(60 * 60 * 1000);
+    }
+  });
+});
+
+describe('Outbox - Writing Events', () => {
+  test('Service changes write their event to the outbox', async () => {
+    const tenantId = `tenant_${Date.now()}`;
+    await createTestTenant(tenantId);
+    const tenantDb = createTenantScopedDb(db, tenantId);
+
+    const user = await createUser(tenantDb, 'outbox@example.com', 'password123', 4);
+    const org = await createOrganization(tenantDb, 'Acme', user.id);
+    await inviteMember(tenantDb, org.id, 'invitee@example.com', 'member', user.id, 604800);
+
+    const events = await getOutboxEvents(tenantId);
+    const byType = new Map(events.map((event) => [event.eventType, event]));
+    expect([...byType.keys()].sort()).toEqual([
+      'organization.member_added',
+      'organization.member_invited',
+      'user.created',
+    ]);
+    expect(byType.get('user.created')!.payload).toEqual({
+      userId: user.id,
+      email: 'outbox@example.com',
+    });
+    expect(byType.get('organization.member_invited')!.payload).toMatchObject({
+      organizationId: org.id,
+      organizationName: 'Acme',
+      email: 'invitee@example.com',
+    });
+    expect(events.every((event) => event.status === 'pending')).toBe(true);
+  });
+
+  test('Changes that fail write no event', async () => {
+    const tenantId = `tenant_${Date.now()}`;
+    await createTestTenant(tenantId);
+    const tenantDb = createTenantScopedDb(db, tenantId);
+    await createUser(tenantDb, 'outbox@example.com', 'password123', 4);
+
+    await expect(
+      createUser(tenantDb, 'outbox@example.com', 'password123', 4)
+    ).rejects.toThrow();
+
+    expect(await getOutboxEvents(tenantId)).toHaveLength(1);
+  });
+
+  test('Removing someone who is not a member writes no event', async () => {
+    const tenantId = `tenant_${Date.now()}`;
+    await createTestTenant(tenantId);
+    const tenantDb = createTenantScopedDb(db, tenantId);
+    const owner = await createUser(tenantDb, 'owner@example.com', 'password123', 4);
+    const org = await createOrganization(tenantDb, 'Acme', owner.id);
+
+    await removeMember(tenantDb, org.id, crypto.randomUUID(), owner.id);
+
+    const events = await getOutboxEvents(tenantId);
+    expect(events.map((event) => event.eventType)).not.toContain('organization.member_removed');
+  });
+});
+
+describe('Outbox - Dispatch', () => {
+  test('Events are dispatched to every consumer once they all succeed', async () => {
+    const tenantId = `tenant_${Date.now()}`;
+    await createTestTenant(tenantId);
+    await createUser(createTenantScopedDb(db, tenantId), 'outbox@example.com', 'password123', 4);
+
+    const first: OutboxEvent[] = [];
+    const second: OutboxEvent[] = [];
+    const consumers = { first: recordingConsumer(first), second: recordingConsumer(second) };
+
+    expect(await dispatchOutbox(db, {}, { consumers })).toBe(1);
+    expect(await dispatchOutbox(db, {}, { consumers })).toBe(0);
+
+    expect(first).toHaveLength(1);
+    expect(second).toHaveLength(1);
+    expect(first[0]).toMatchObject({ tenantId, eventType: 'user.created' });
+
+    const [event] = await getOutboxEvents(tenantId);
+    expect(event.status).toBe('dispatched');
+    expect(event.dispatchedAt).not.toBeNull();
+    expect(event.availableAt).toBeNull();
+  });
+
+  test('Failed events are retried with the same ID for every consumer', async () => {
+    const tenantId = `tenant_${Date.now()}`;
+    await createTestTenant(tenantId);
+    await createUser(createTenantScopedDb(db, tenantId), 'outbox@example.com', 'password123', 4);
+
+    const healthy: OutboxEvent[] = [];
+    const flaky: OutboxEvent[] = [];
+    const consumers = { healthy: recordingConsumer(healthy), flaky: recordingConsumer(flaky, 1) };
+
+    expect(await dispatchOutbox(db, {}, { consumers })).toBe(0);
+
+    let [event] = await getOutboxEvents(tenantId);
+    expect(event).toMatchObject({ status: 'pending', attempts: 1 });
+    expect(event.lastError).toContain('flaky: Consumer unavailable');
+
+    // Not due until the backoff has passed
+    expect(await dispatchOutbox(db, {}, { consumers })).toBe(0);
+    expect(flaky).toHaveLength(1);
+
+    const later = new Date(event.availableAt!.getTime() + 1000);
+    expect(await dispatchOutbox(db, {}, { consumers, now: later })).toBe(1);
+
+    // At least once: the healthy consumer sees the event again, with the same
+    // ID to deduplicate on
+    expect(healthy).toHaveLength(2);
+    expect(healthy[1].id).toBe(healthy[0].id);
+    expect(flaky.map((seen) => seen.id)).toEqual([healthy[0].id, healthy[0].id]);
+
+    [event] = await getOutboxEvents(tenantId);
+    expect(event).toMatchObject({ status: 'dispatched', attempts: 2, lastError: null });
+  });
+
+  test('Events are marked failed after the maximum number of attempts', async () => {
+    const tenantId = `tenant_${Date.now()}`;
+    await createTestTenant(tenantId);
+    await createUser(createTenantScopedDb(db, tenantId), 'outbox@example.com', 'password123', 4);
+
+    const seen: OutboxEvent[] = [];
+    const consumers = { broken: recordingConsumer(seen, Infinity) };
+
+    let now = Date.now();
+    for (let i = 0; i < OUTBOX_MAX_ATTEMPTS; i++) {
+      await dispatchOutbox(db, {}, { consumers, now: new Date(now) });
+      now += getOutboxRetryDelayMs(i + 1) + 1000;
+    }
+    await dispatchOutbox(db, {}, { consumers, now: new Date(now) });
+
+    expect(seen).toHaveLength(OUTBOX_MAX_ATTEMPTS);
+    const [event] = await getOutboxEvents(tenantId);
+    expect(event).toMatchObject({ status: 'failed', attempts: OUTBOX_MAX_ATTEMPTS });
+  });
+});
@@ -0,0 +1,184 @@
+import { eq, and, lte, inArray } from 'drizzle-orm';
+import { Database } from '../db';
+import { schema } from '../db';
+import { OutboxEvent, OutboxEventStatus } from '../types';
+import { createTenantScopedDb, TenantScopedDb } from '../middleware/tenant-isolation';
+import { emitWebhookEvent, WebhookEventType } from './webhook';
+import { sendInvitationEmail } from './email';
+
+/**
+ * Transactional Outbox
+ *
+ * Service functions don't send webhooks or email themselves. They write an
+ * outbox event in the same transaction as the change it describes, so the
+ * event is recorded if and only if the change is.
+ * dispatchOutbox, run from the Worker's scheduled handler, hands each pending
+ * event to every consumer and retries until all of them have succeeded.
+ *
+ * Dispatch is at least once: after a failure or a crash a consumer can see the
+ * same event again, so consumers use the event ID as an idempotency key.
+ */
+
+// Every domain event can also be subscribed to with a webhook
+export type OutboxEventType = WebhookEventType;
+
+// Worker environment the consumers need
+export interface OutboxContext {
+  resendApiKey?: string;
+}
+
+export type OutboxConsumer = (
+  db: Database,
+  event: OutboxEvent,
+  context: OutboxContext
+) => Promise<void>;
+
+// Attempts before an event is marked failed (about 5 hours of retries)
+export const OUTBOX_MAX_ATTEMPTS = 10;
+
+const BASE_RETRY_DELAY_MS = 30 * 1000; // 30 seconds, doubling per attempt
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000; // 1 hour
+
+// Events are claimed for this long, so a run that dies mid-dispatch is retried
+const CLAIM_DURATION_MS = 5 * 60 * 1000;
+const DISPATCH_BATCH_SIZE = 100;
+
+export const OUTBOX_CONSUMERS: Record<string, OutboxConsumer> = {
+  // Queue webhook deliveries. Endpoints get at most one delivery per event ID.
+  webhooks: (db, event) =>
+    emitWebhookEvent(
+      createTenantScopedDb(db, event.tenantId),
+      event.eventType as OutboxEventType,
+      event.payload,
+      { id: event.id, createdAt: event.createdAt }
+    ),
+
+  // Send invitation emails when email is configured. Resend drops repeated
+  // sends with the same idempotency key.
+  email: async (_db, event, context) => {
+    if (event.eventType !== 'organization.member_invited' || !context.resendApiKey) {
+      return;
+    }
+
+    const { email, organizationName, invitationId } = event.payload as {
+      email: string;
+      organizationName: string;
+      invitationId: string;
+    };
+    await sendInvitationEmail(
+      context.resendApiKey,
+      email,
+      organizationName,
+      invitationId,
+      undefined,
+      event.id
+    );
+  },
+};
+
+// Delay before the next attempt after `attempts` failed attempts
+export function getOutboxRetryDelayMs(attempts: number): number {
+  return Math.min(BASE_RETRY_DELAY_MS * 2 ** Math.max(0, attempts - 1), MAX_RETRY_DELAY_MS);
+}
+
+// Write an outbox event for the handle's tenant. Pass the transaction that
+// makes the change the event describes.
+export async function enqueueOutboxEvent(
+  tenantDb: TenantScopedDb,
+  type: OutboxEventType,
+  data: Record<string, unknown>
+): Promise<void> {
+  const now = new Date();
+  await tenantDb.insert(schema.outbox, {
+    eventType: type,
+    payload: data,
+    status: 'pending',
+    availableAt: now,
+    createdAt: now,
+  });
+}
+
+function toOutboxEvent(record: typeof schema.outbox.$inferSelect): OutboxEvent {
+  return {
+    id: record.id,
+    tenantId: record.tenantId,
+    eventType: record.eventType,
+    payload: record.payload,
+    status: record.status as OutboxEventStatus,
+    attempts: record.attempts,
+    availableAt: record.availableAt,
+    lastError: record.lastError,
+    createdAt: record.createdAt,
+    dispatchedAt: record.dispatchedAt,
+  };
+}
+
+// Hand every due event to the consumers. Events are claimed first, so
+// overlapping runs don't dispatch the same attempt twice. Returns the number
+// of events dispatched to all consumers.
+export async function dispatchOutbox(
+  db: Database,
+  context: OutboxContext = {},
+  options: { consumers?: Record<string, OutboxConsumer>; now?: Date } = {}
+): Promise<number> {
+  const consumers = Object.entries(options.consumers ?? OUTBOX_CONSUMERS);
+  const now = options.now ?? new Date();
+  const due = and(eq(schema.outbox.status, 'pending'), lte(schema.outbox.availableAt, now));
+
+  const claimed = await db
+    .update(schema.outbox)
+    .set({ availableAt: new Date(now.getTime() + CLAIM_DURATION_MS) })
+    .where(
+      and(
+        due,
+        inArray(
+          schema.outbox.id,
+          db
+            .select({ id: schema.outbox.id })
+            .from(schema.outbox)
+            .where(due)
+            .orderBy(schema.outbox.createdAt)
+            .limit(DISPATCH_BATCH_SIZE)
+        )
+      )
+    )
+    .returning();
+
+  let dispatched = 0;
+  for (const record of claimed.sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())) {
+    const event = toOutboxEvent(record);
+
+    // Every consumer runs even if an earlier one fails; on retry the ones
+    // that succeeded see the event again and skip it by its ID
+    const errors: string[] = [];
+    for (const [name, consume] of consumers) {
+      try {
+        await consume(db, event, context);
+      } catch (err) {
+        errors.push(`${name}: ${err instanceof Error ? err.message : String(err)}`);
+      }
+    }
+
+    const attempts = event.attempts + 1;
+    const succeeded = errors.length === 0;
+    const exhausted = !succeeded && attempts >= OUTBOX_MAX_ATTEMPTS;
+
+    await db
+      .update(schema.outbox)
+      .set({
+        status: succeeded ? 'dispatched' : exhausted ? 'failed' : 'pending',
+        attempts,
+        availableAt:
+          succeeded || exhausted
+            ? null
+            : new Date(now.getTime() + getOutboxRetryDelayMs(attempts)),
+        lastError: succeeded ? null : errors.join('; '),
+        dispatchedAt: succeeded ? new Date() : null,
+      })
+      .where(eq(schema.outbox.id, event.id));
+
+    if (succeeded) dispatched++;
+  }
+
+  return dispatched;
+}
@@ -10,10 +10,23 @@ import {
   checkPermission,
   updateRolePermissions,
 } from './permission';
-import { createDb } from '../db';
+import { createTenantScopedDb } from '../middleware/tenant-isolation';
+import { getSandboxTenantId } from './sandbox';
+import { createUnscopedDb } from '../db';
 import { schema } from '../db';
 
-const db = createDb(process.env.DATABASE_URL!);
+const db = createUnscopedDb(process.env.DATABASE_URL!);
+
+// Tenant-owned rows need their tenant, and test-mode rows its sandbox partition
+async function createTestTenant(tenantId: string) {
+  await db
+    .insert(schema.tenants)
+    .values([
+      { id: tenantId, name: tenantId },
+      { id: getSandboxTenantId(tenantId), name: tenantId },
+    ])
+    .onConflictDoNothing();
+}
 
 // Clean up database before each test
 beforeEach(async () => {
@@ -83,8 +96,10 @@ describe('Permission Service - Role Definitions', () => {
         roleNameArb,
         permissionsArrayArb,
         async (tenantId, roleName, permissions) => {
+          await createTestTenant(tenantId);
+          const tenantDb = createTenantScopedDb(db, tenantId);
           // Define a role
-          const role = await defineRole(db, tenantId, roleName, permissions, false);
+          const role = await defineRole(tenantDb, roleName, permissions, false);
 
           // Verify role was created
           expect(role.tenantId).toBe(tenantId);
@@ -93,7 +108,7 @@ describe('Permission Service - Role Definitions', () => {
           expect(role.isDefault).toBe(false);
 
           // Retrieve the role
-          const retrieved = await getRole(db, tenantId, roleName);
+          const retrieved = await getRole(tenantDb, roleName);
 
           // Verify retrieved role matches
           expect(retrieved).not.toBeNull();
@@ -119,14 +134,16 @@ describe('Permission Service - Role Definitions', () => {
         roleNameArb,
         permissionsArrayArb,
         async (tenantId, roleName, permissions) => {
+          await createTestTenant(tenantId);
+          const tenantDb = createTenantScopedDb(db, tenantId);
           // Define a role
-          await defineRole(db, tenantId, roleName, permissions, false);
+          await defineRole(tenantDb, roleName, permissions, false);
 
           // Set it as default
-          await setDefaultRole(db, tenantId, roleName);
+          await setDefaultRole(tenantDb, roleName);
 
           // Get default role
-          const defaultRole = await getDefaultRole(db, tenantId);
+          const defaultRole = await getDefaultRole(tenantDb);
 
           // Verify it's the correct role
           expect(defaultRole).not.toBeNull();
@@ -148,6 +165,7 @@ describe('Permission Service - Permission Evaluation', () => {
    */
   test('Property 16: Role assignment associates user with organization', async () => {
     const tenantId = `tenant_${Date.now()}`;
+    await createTestTenant(tenantId);
     const user = await createTestUser(tenantId, `user_${Date.now()}@test.com`);
     const org = await createTestOrg(tenantId, user.id, 'Test Org');
 
@@ -159,8 +177,9 @@ describe('Permission Service - Permission Evaluation', () => {
       joinedAt: new Date(),
     });
 
+    const tenantDb = createTenantScopedDb(db, tenantId);
     // Get user's role
-    const role = await getUserRole(db, user.id, org.id);
+    const role = await getUserRole(tenantDb, user.id, org.id);
 
     expect(role).toBe('admin');
   });
@@ -171,11 +190,13 @@ describe('Permission Service - Permission Evaluation', () => {
    */
   test('Property 17: Permission evaluation correctness', async () => {
     const tenantId = `tenant_${Date.now()}`;
+    await createTestTenant(tenantId);
     const user = await createTestUser(tenantId, `user_${Date.now()}@test.com`);
     const org = await createTestOrg(tenantId, user.id, 'Test Org');
 
+    const tenantDb = createTenantScopedDb(db, tenantId);
     // Define a role with specific permissions
-    await defineRole(db, tenantId, 'editor', [
+    await defineRole(tenantDb, 'editor', [
       'organizations.view',
       'organizations.edit',
       'usage.view',
@@ -190,10 +211,10 @@ describe('Permission Service - Permission Evaluation', () => {
     });
 
     // Check permissions
-    const canView = await checkPermission(db, user.id, org.id, 'organizations.view', tenantId);
-    const canEdit = await checkPermission(db, user.id, org.id, 'organizations.edit', tenantId);
-    const canViewUsage = await checkPermission(db, user.id, org.id, 'usage.view', tenantId);
-    const canDelete = await checkPermission(db, user.id, org.id, 'organizations.delete', tenantId);
+    const canView = await checkPermission(tenantDb, user.id, org.id, 'organizations.view');
+    const canEdit = await checkPermission(tenantDb, user.id, org.id, 'organizations.edit');
+    const canViewUsage = await checkPermission(tenantDb, user.id, org.id, 'usage.view');
+    const canDelete = await checkPermission(tenantDb, user.id, org.id, 'organizations.delete');
 
     expect(canView).toBe(true);
     expect(canEdit).toBe(true);
@@ -207,11 +228,13 @@ describe('Permission Service - Permission Evaluation', () => {
    */
   test('Property 19: Role permission updates propagate immediately', async () => {
     const tenantId = `tenant_${Date.now()}`;
+    await createTestTenant(tenantId);
     const user = await createTestUser(tenantId, `user_${Date.now()}@test.com`);
     const org = await createTestOrg(tenantId, user.id, 'Test Org');
 
+    const tenantDb = createTenantScopedDb(db, tenantId);
     // Define a role with limited permissions
-    await defineRole(db, tenantId, 'limited', ['organizations.view']);
+    await defineRole(tenantDb, 'limited', ['organizations.view']);
 
     // Assign role to user
     await db.insert(schema.organizationMembers).values({
@@ -222,17 +245,17 @@ describe('Permission Service - Permission Evaluation', () => {
     });
 
     // Check permission before update
-    const canEditBefore = await checkPermission(db, user.id, org.id, 'organizations.edit', tenantId);
+    const canEditBefore = await checkPermission(tenantDb, user.id, org.id, 'organizations.edit');
     expect(canEditBefore).toBe(false);
 
     // Update role permissions
-    await updateRolePermissions(db, tenantId, 'limited', [
+    await updateRolePermissions(tenantDb, 'limited', [
       'organizations.view',
       'organizations.edit',
     ]);
 
     // Check permission after update
-    const canEditAfter = await checkPermission(db, user.id, org.id, 'organizations.edit', tenantId);
+    const canEditAfter = await checkPermission(tenantDb, user.id, org.id, 'organizations.edit');
     expect(canEditAfter).toBe(true);
   });
 
@@ -242,11 +265,13 @@ describe('Permission Service - Permission Evaluation', () => {
    */
   test('Property 20: Wildcard permission matching', async () => {
     const tenantId = `tenant_${Date.now()}`;
+    await createTestTenant(tenantId);
     const user = await createTestUser(tenantId, `user_${Date.now()}@test.com`);
     const org = await createTestOrg(tenantId, user.id, 'Test Org');
 
+    const tenantDb = createTenantScopedDb(db, tenantId);
     // Test 1: Full wildcard
-    await defineRole(db, tenantId, 'superadmin', ['*']);
+    await defineRole(tenantDb, 'superadmin', ['*']);
     await db.insert(schema.organizationMembers).values({
       organizationId: org.id,
       userId: user.id,
@@ -254,14 +279,14 @@ describe('Permission Service - Permission Evaluation', () => {
       joinedAt: new Date(),
     });
 
-    const canDoAnything1 = await checkPermission(db, user.id, org.id, 'any.random.permission', tenantId);
-    const canDoAnything2 = await checkPermission(db, user.id, org.id, 'organizations.delete', tenantId);
+    const canDoAnything1 = await checkPermission(tenantDb, user.id, org.id, 'any.random.permission');
+    const canDoAnything2 = await checkPermission(tenantDb, user.id, org.id, 'organizations.delete');
     expect(canDoAnything1).toBe(true);
     expect(canDoAnything2).toBe(true);
 
     // Test 2: Prefix wildcard
     const user2 = await createTestUser(tenantId, `user2_${Date.now()}@test.com`);
-    await defineRole(db, tenantId, 'org_admin', ['organizations.*']);
+    await defineRole(tenantDb, 'org_admin', ['organizations.*']);
     await db.insert(schema.organizationMembers).values({
       organizationId: org.id,
       userId: user2.id,
@@ -269,9 +294,9 @@ describe('Permission Service - Permission Evaluation', () => {
       joinedAt: new Date(),
     });
 
-    const canManageOrgs = await checkPermission(db, user2.id, org.id, 'organizations.members.add', tenantId);
-    const canManageOrgs2 = await checkPermission(db, user2.id, org.id, 'organizations.delete', tenantId);
-    const canManageUsage = await checkPermission(db, user2.id, org.id, 'usage.view', tenantId);
+    const canManageOrgs = await checkPermission(tenantDb, user2.id, org.id, 'organizations.members.add');
+    const canManageOrgs2 = await checkPermission(tenantDb, user2.id, org.id, 'organizations.delete');
+    const canManageUsage = await checkPermission(tenantDb, user2.id, org.id, 'usage.view');
 
     expect(canManageOrgs).toBe(true);
     expect(canManageOrgs2).toBe(true);
@@ -282,17 +307,20 @@ describe('Permission Service - Permission Evaluation', () => {
 describe('Permission Service - Edge Cases', () => {
   test('User without role has no permissions', async () => {
     const tenantId = `tenant_${Date.now()}`;
+    await createTestTenant(tenantId);
     const user = await createTestUser(tenantId, `user_${Date.now()}@test.com`);
     const org = await createTestOrg(tenantId, user.id, 'Test Org');
 
     // Don't assign any role to user
 
-    const hasPermission = await checkPermission(db, user.id, org.id, 'organizations.view', tenantId);
+    const tenantDb = createTenantScopedDb(db, tenantId);
+    const hasPermission = await checkPermission(tenantDb, user.id, org.id, 'organizations.view');
     expect(hasPermission).toBe(false);
   });
 
   test('Non-existent role returns no permissions', async () => {
     const tenantId = `tenant_${Date.now()}`;
+    await createTestTenant(tenantId);
     const user = await createTestUser(tenantId, `user_${Date.now()}@test.com`);
     const org = await createTestOrg(tenantId, user.id, 'Test Org');
 
@@ -304,18 +332,21 @@ describe('Permission Service - Edge Cases', () => {
       joinedAt: new Date(),
     });
 
-    const hasPermission = await checkPermission(db, user.id, org.id, 'organizations.view', tenantId);
+    const tenantDb = createTenantScopedDb(db, tenantId);
+    const hasPermission = await checkPermission(tenantDb, user.id, org.id, 'organizations.view');
     expect(hasPermission).toBe(false);
   });
 
   test('Can update role definition', async () => {
     const tenantId = `tenant_${Date.now()}`;
+    await createTestTenant(tenantId);
 
+    const tenantDb = createTenantScopedDb(db, tenantId);
     // Define initial role
-    await defineRole(db, tenantId, 'updatable', ['organizations.view']);
+    await defineRole(tenantDb, 'updatable', ['organizations.view']);
 
     // Update the same role
-    const updated = await defineRole(db, tenantId, 'updatable', ['organizations.view', 'organizations.edit']);
+    const updated = await defineRole(tenantDb, 'updatable', ['organizations.view', 'organizations.edit']);
 
     expect(updated.permissions).toHaveLength(2);
     expect(updated.permissions).toContain('organizations.view');
@@ -324,35 +355,53 @@ describe('Permission Service - Edge Cases', () => {
 
   test('Setting default role unsets previous default', async () => {
     const tenantId = `tenant_${Date.now()}`;
+    await createTestTenant(tenantId);
 
+    const tenantDb = createTenantScopedDb(db, tenantId);
     // Define two roles
-    await defineRole(db, tenantId, 'role1', ['perm1']);
-    await defineRole(db, tenantId, 'role2', ['perm2']);
+    await defineRole(tenantDb, 'role1', ['perm1']);
+    await defineRole(tenantDb, 'role2', ['perm2']);
 
     // Set role1 as default
-    await setDefaultRole(db, tenantId, 'role1');
-    let defaultRole = await getDefaultRole(db, tenantId);
+    await setDefaultRole(tenantDb, 'role1');
+    let defaultRole = await getDefaultRole(tenantDb);
     expect(defaultRole?.name).toBe('role1');
 
     // Set role2 as default
-    await setDefaultRole(db, tenantId, 'role2');
-    defaultRole = await getDefaultRole(db, tenantId);
+    await setDefaultRole(tenantDb, 'role2');
+    defaultRole = await getDefaultRole(tenantDb);
     expect(defaultRole?.name).toBe('role2');
 
     // Verify role1 is no longer default
-    const role1 = await getRole(db, tenantId, 'role1');
+    const role1 = await getRole(tenantDb, 'role1');
     expect(role1?.isDefault).toBe(false);
   });
 
+  test('Setting an unknown default role keeps the previous default', async () => {
+    const tenantId = `tenant_${Date.now()}`;
+    await createTestTenant(tenantId);
+
+    const tenantDb = createTenantScopedDb(db, tenantId);
+    await defineRole(tenantDb, 'role1', ['perm1']);
+    await setDefaultRole(tenantDb, 'role1');
+
+    await expect(setDefaultRole(tenantDb, 'missing')).rejects.toThrow('Role not found');
+
+    const defaultRole = await getDefaultRole(tenantDb);
+    expect(defaultRole?.name).toBe('role1');
+  });
+
   test('Get all roles for tenant', async () => {
     const tenantId = `tenant_${Date.now()}`;
+    await createTestTenant(tenantId);
 
+    const tenantDb = createTenantScopedDb(db, tenantId);
     // Define multiple roles
-    await defineRole(db, tenantId, 'role_a', ['perm1']);
-    await defineRole(db, tenantId, 'role_b', ['perm2']);
-    await defineRole(db, tenantId, 'role_c', ['perm3']);
+    await defineRole(tenantDb, 'role_a', ['perm1']);
+    await defineRole(tenantDb, 'role_b', ['perm2']);
+    await defineRole(tenantDb, 'role_c', ['perm3']);
 
-    const roles = await getRoles(db, tenantId);
+    const roles = await getRoles(tenantDb);
 
     expect(roles).toHaveLength(3);
     expect(roles.map(r => r.name)).toContain('role_a');
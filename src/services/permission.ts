@@ -1,44 +1,43 @@
 import { eq, and } from 'drizzle-orm';
-import { Database } from '../db';
 import { schema } from '../db';
 import { Role } from '../types';
 import { AppError } from '../middleware/error-handler';
+import { TenantScopedDb } from '../middleware/tenant-isolation';
+import { AuditContext, recordAuditEvent, diffChanges } from './audit';
 
 // Create or update a role definition
 export async function defineRole(
-  db: Database,
-  tenantId: string,
+  tenantDb: TenantScopedDb,
   roleName: string,
   permissions: string[],
-  isDefault: boolean = false
+  isDefault: boolean = false,
+  audit: AuditContext = {}
 ): Promise<Role> {
   // Check if role already exists
-  const [existing] = await db
-    .select()
-    .from(schema.roles)
-    .where(
-      and(
-        eq(schema.roles.tenantId, tenantId),
-        eq(schema.roles.name, roleName)
-      )
-    )
-    .limit(1);
+  const [existing] = await tenantDb.select(schema.roles, eq(schema.roles.name, roleName), {
+    limit: 1,
+  });
 
   if (existing) {
     // Update existing role
-    const [updated] = await db
-      .update(schema.roles)
-      .set({
+    const [updated] = await tenantDb.update(
+      schema.roles,
+      {
         permissions,
         isDefault,
-      })
-      .where(
-        and(
-          eq(schema.roles.tenantId, tenantId),
-          eq(schema.roles.name, roleName)
-        )
-      )
-      .returning();
+      },
+      eq(schema.roles.name, roleName)
+    );
+
+    await recordAuditEvent(tenantDb, audit, {
+      action: 'role.updated',
+      targetType: 'role',
+      targetId: roleName,
+      changes: diffChanges(
+        { permissions: existing.permissions, isDefault: existing.isDefault },
+        { permissions, isDefault }
+      ),
+    });
 
     return {
       tenantId: updated.tenantId,
@@ -49,16 +48,19 @@ export async function defineRole(
   }
 
   // Create new role
-  const [role] = await db
-    .insert(schema.roles)
-    .values({
-      tenantId,
-      name: roleName,
-      permissions,
-      isDefault,
-      createdAt: new Date(),
-    })
-    .returning();
+  const [role] = await tenantDb.insert(schema.roles, {
+    name: roleName,
+    permissions,
+    isDefault,
+    createdAt: new Date(),
+  });
+
+  await recordAuditEvent(tenantDb, audit, {
+    action: 'role.created',
+    targetType: 'role',
+    targetId: roleName,
+    changes: diffChanges(null, { permissions, isDefault }),
+  });
 
   return {
     tenantId: role.tenantId,
@@ -70,20 +72,12 @@ export async function defineRole(
 
 // Get a role definition
 export async function getRole(
-  db: Database,
-  tenantId: string,
+  tenantDb: TenantScopedDb,
   roleName: string
 ): Promise<Role | null> {
-  const [role] = await db
-    .select()
-    .from(schema.roles)
-    .where(
-      and(
-        eq(schema.roles.tenantId, tenantId),
-        eq(schema.roles.name, roleName)
-      )
-    )
-    .limit(1);
+  const [role] = await tenantDb.select(schema.roles, eq(schema.roles.name, roleName), {
+    limit: 1,
+  });
 
   if (!role) return null;
 
@@ -96,14 +90,8 @@ export async function getRole(
 }
 
 // Get all roles for a tenant
-export async function getRoles(
-  db: Database,
-  tenantId: string
-): Promise<Role[]> {
-  const roles = await db
-    .select()
-    .from(schema.roles)
-    .where(eq(schema.roles.tenantId, tenantId));
+export async function getRoles(tenantDb: TenantScopedDb): Promise<Role[]> {
+  const roles = await tenantDb.select(schema.roles);
 
   return roles.map((role) => ({
     tenantId: role.tenantId,
@@ -115,64 +103,60 @@ export async function getRoles(
 
 // Delete a role definition
 export async function deleteRole(
-  db: Database,
-  tenantId: string,
-  roleName: string
+  tenantDb: TenantScopedDb,
+  roleName: string,
+  audit: AuditContext = {}
 ): Promise<void> {
-  await db
-    .delete(schema.roles)
-    .where(
-      and(
-        eq(schema.roles.tenantId, tenantId),
-        eq(schema.roles.name, roleName)
-      )
-    );
+  const [role] = await tenantDb.delete(schema.roles, eq(schema.roles.name, roleName));
+
+  if (role) {
+    await recordAuditEvent(tenantDb, audit, {
+      action: 'role.deleted',
+      targetType: 'role',
+      targetId: roleName,
+      changes: diffChanges({ permissions: role.permissions }, { permissions: null }),
+    });
+  }
 }
 
 // Set a role as the default role for new members
 export async function setDefaultRole(
-  db: Database,
-  tenantId: string,
-  roleName: string
+  tenantDb: TenantScopedDb,
+  roleName: string,
+  audit: AuditContext = {}
 ): Promise<void> {
-  // First, unset all default roles for this tenant
-  await db
-    .update(schema.roles)
-    .set({ isDefault: false })
-    .where(eq(schema.roles.tenantId, tenantId));
-
-  // Then set the specified role as default
-  const [role] = await db
-    .update(schema.roles)
-    .set({ isDefault: true })
-    .where(
-      and(
-        eq(schema.roles.tenantId, tenantId),
-        eq(schema.roles.name, roleName)
-      )
-    )
-    .returning();
+  const previous = await getDefaultRole(tenantDb);
 
-  if (!role) {
-    throw new AppError('ROLE_NOT_FOUND', 'Role not found', 404);
-  }
+  // The throw below rolls back unsetting the previous default
+  await tenantDb.transaction(async (tx) => {
+    // First, unset all default roles for this tenant
+    await tx.update(schema.roles, { isDefault: false });
+
+    // Then set the specified role as default
+    const [role] = await tx.update(
+      schema.roles,
+      { isDefault: true },
+      eq(schema.roles.name, roleName)
+    );
+
+    if (!role) {
+      throw new AppError('ROLE_NOT_FOUND', 'Role not found', 404);
+    }
+
+    await recordAuditEvent(tx, audit, {
+      action: 'role.default_changed',
+      targetType: 'role',
+      targetId: roleName,
+      changes: diffChanges({ defaultRole: previous?.name ?? null }, { defaultRole: roleName }),
+    });
+  });
 }
 
 // Get the default role for a tenant
-export async function getDefaultRole(
-  db: Database,
-  tenantId: string
-): Promise<Role | null> {
-  const [role] = await db
-    .select()
-    .from(schema.roles)
-    .where(
-      and(
-        eq(schema.roles.tenantId, tenantId),
-        eq(schema.roles.isDefault, true)
-      )
-    )
-    .limit(1);
+export async function getDefaultRole(tenantDb: TenantScopedDb): Promise<Role | null> {
+  const [role] = await tenantDb.select(schema.roles, eq(schema.roles.isDefault, true), {
+    limit: 1,
+  });
 
   if (!role) return null;
 
@@ -186,29 +170,29 @@ export async function getDefaultRole(
 
 // Get user's role in an organization
 export async function getUserRole(
-  db: Database,
+  tenantDb: TenantScopedDb,
   userId: string,
   orgId: string
 ): Promise<string | null> {
-  const [membership] = await db
-    .select()
-    .from(schema.organizationMembers)
-    .where(
-      and(
-        eq(schema.organizationMembers.userId, userId),
-        eq(schema.organizationMembers.organizationId, orgId)
-      )
-    )
-    .limit(1);
+  const [membership] = await tenantDb.select(
+    schema.organizationMembers,
+    and(
+      eq(schema.organizationMembers.userId, userId),
+      eq(schema.organizationMembers.organizationId, orgId)
+    ),
+    { limit: 1 }
+  );
 
   return membership?.role || null;
 }
 
 // Check if a permission string matches a required permission
-// Supports wildcards: "*" matches all, "resource.*" matches all actions on resource
-function matchesPermission(
+// Supports wildcards: "*" matches all, "resource.*" matches all actions on resource.
+// API key scopes use the same rules with ":" as the separator ("users:*").
+export function matchesPermission(
   userPermissions: string[],
-  requiredPermission: string
+  requiredPermission: string,
+  separator: string = '.'
 ): boolean {
   for (const perm of userPermissions) {
     // Wildcard matches everything
@@ -218,9 +202,9 @@ function matchesPermission(
     if (perm === requiredPermission) return true;
 
     // Prefix wildcard match (e.g., "organizations.*" matches "organizations.members.add")
-    if (perm.endsWith('.*')) {
+    if (perm.endsWith(separator + '*')) {
       const prefix = perm.slice(0, -2); // Remove ".*"
-      if (requiredPermission.startsWith(prefix + '.')) return true;
+      if (requiredPermission.startsWith(prefix + separator)) return true;
     }
   }
 
@@ -229,18 +213,17 @@ function matchesPermission(
 
 // Check if a user has a specific permission in an organization
 export async function checkPermission(
-  db: Database,
+  tenantDb: TenantScopedDb,
   userId: string,
   orgId: string,
-  permission: string,
-  tenantId: string
+  permission: string
 ): Promise<boolean> {
   // Get user's role in the organization
-  const roleName = await getUserRole(db, userId, orgId);
+  const roleName = await getUserRole(tenantDb, userId, orgId);
   if (!roleName) return false;
 
   // Get role definition
-  const role = await getRole(db, tenantId, roleName);
+  const role = await getRole(tenantDb, roleName);
   if (!role) return false;
 
   // Check if role has the required permission
@@ -249,26 +232,30 @@ export async function checkPermission(
 
 // Update role permissions
 export async function updateRolePermissions(
-  db: Database,
-  tenantId: string,
+  tenantDb: TenantScopedDb,
   roleName: string,
-  permissions: string[]
+  permissions: string[],
+  audit: AuditContext = {}
 ): Promise<Role> {
-  const [role] = await db
-    .update(schema.roles)
-    .set({ permissions })
-    .where(
-      and(
-        eq(schema.roles.tenantId, tenantId),
-        eq(schema.roles.name, roleName)
-      )
-    )
-    .returning();
+  const previous = await getRole(tenantDb, roleName);
+
+  const [role] = await tenantDb.update(
+    schema.roles,
+    { permissions },
+    eq(schema.roles.name, roleName)
+  );
 
   if (!role) {
     throw new AppError('ROLE_NOT_FOUND', 'Role not found', 404);
   }
 
+  await recordAuditEvent(tenantDb, audit, {
+    action: 'role.updated',
+    targetType: 'role',
+    targetId: roleName,
+    changes: diffChanges({ permissions: previous?.permissions ?? null }, { permissions }),
+  });
+
   return {
     tenantId: role.tenantId,
     name: role.name,
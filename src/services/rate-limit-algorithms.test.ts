@@ -0,0 +1,149 @@
+import { describe, test, expect } from 'vitest';
+import * as fc from 'fast-check';
+import {
+  RateLimitAlgorithm,
+  RateLimitPolicy,
+  RateLimitState,
+  RateLimitDecision,
+  RATE_LIMIT_ALGORITHMS,
+  applyRateLimit,
+} from './rate-limit-algorithms';
+
+// Apply a sequence of [time, cost] requests and collect the decisions
+function run(
+  policy: RateLimitPolicy,
+  requests: Array<[number, number]>
+): RateLimitDecision[] {
+  let state: RateLimitState | undefined;
+  return requests.map(([now, cost]) => {
+    const result = applyRateLimit(policy, state, cost, now);
+    state = result.state;
+    return result.decision;
+  });
+}
+
+describe('Rate Limit Algorithms', () => {
+  const windowMs = 60_000;
+
+  test('Fixed window resets at the end of the window', () => {
+    const policy: RateLimitPolicy = { algorithm: 'fixed_window', limit: 2, windowMs };
+    const decisions = run(policy, [
+      [0, 1],
+      [1000, 1],
+      [2000, 1],
+      [windowMs, 1],
+    ]);
+
+    expect(decisions.map((d) => d.allowed)).toEqual([true, true, false, true]);
+    expect(decisions[2].retryAfterMs).toBe(windowMs - 2000);
+  });
+
+  test('Token bucket prevents bursts of twice the limit across a window boundary', () => {
+    const policy: RateLimitPolicy = { algorithm: 'token_bucket', limit: 10, windowMs };
+
+    // Use the whole bucket just before a fixed window would have reset, then
+    // try again just after it
+    const before = Array.from({ length: 10 }, (): [number, number] => [windowMs - 1, 1]);
+    const after = Array.from({ length: 10 }, (): [number, number] => [windowMs + 1, 1]);
+    const decisions = run(policy, [...before, ...after]);
+
+    expect(decisions.slice(0, 10).every((d) => d.allowed)).toBe(true);
+    expect(decisions.slice(10).filter((d) => d.allowed).length).toBe(0);
+  });
+
+  test('Token bucket refills gradually', () => {
+    const policy: RateLimitPolicy = { algorithm: 'token_bucket', limit: 60, windowMs };
+    const decisions = run(policy, [
+      [0, 60],
+      [500, 1],
+      [1000, 1],
+    ]);
+
+    expect(decisions.map((d) => d.allowed)).toEqual([true, false, true]);
+    expect(decisions[1].retryAfterMs).toBe(500);
+  });
+
+  test('Token bucket makes requests costing more than the limit wait a full window', () => {
+    const policy: RateLimitPolicy = { algorithm: 'token_bucket', limit: 5, windowMs };
+    const [decision] = run(policy, [[0, 6]]);
+
+    expect(decision.allowed).toBe(false);
+    expect(decision.retryAfterMs).toBe(windowMs);
+  });
+
+  test('Sliding log counts requests in the trailing window', () => {
+    const policy: RateLimitPolicy = { algorithm: 'sliding_log', limit: 2, windowMs };
+    const decisions = run(policy, [
+      [0, 1],
+      [30_000, 1],
+      [windowMs + 1, 1],
+      [windowMs + 2, 1],
+    ]);
+
+    // The first request has aged out by windowMs + 1, the second hasn't
+    expect(decisions.map((d) => d.allowed)).toEqual([true, true, true, false]);
+    expect(decisions[3].retryAfterMs).toBe(30_000 + windowMs - (windowMs + 2));
+  });
+
+  test('Rejected requests do not use up the limit', () => {
+    for (const algorithm of RATE_LIMIT_ALGORITHMS) {
+      const policy: RateLimitPolicy = { algorithm, limit: 5, windowMs };
+      const decisions = run(policy, [
+        [0, 4],
+        [1, 5],
+        [2, 1],
+      ]);
+
+      expect(decisions.map((d) => d.allowed)).toEqual([true, false, true]);
+    }
+  });
+
+  test('Costs are weighted against the limit', () => {
+    for (const algorithm of RATE_LIMIT_ALGORITHMS) {
+      const policy: RateLimitPolicy = { algorithm, limit: 10, windowMs };
+      const [decision] = run(policy, [[0, 5]]);
+
+      expect(decision.allowed).toBe(true);
+      expect(decision.remaining).toBe(5);
+    }
+  });
+
+  test('Allowed cost never exceeds the limit plus refill within any interval', () => {
+    fc.assert(
+      fc.property(
+        fc.constantFrom<RateLimitAlgorithm>('token_bucket', 'sliding_log'),
+        fc.integer({ min: 1, max: 20 }),
+        fc.array(fc.tuple(fc.integer({ min: 0, max: 5000 }), fc.integer({ min: 1, max: 5 })), {
+          maxLength: 100,
+        }),
+        (algorithm, limit, gaps) => {
+          const policy: RateLimitPolicy = { algorithm, limit, windowMs: 10_000 };
+
+          let now = 0;
+          const requests = gaps.map(([gap, cost]): [number, number] => [(now += gap), cost]);
+          const decisions = run(policy, requests);
+          const allowed = requests.filter((_, i) => decisions[i].allowed);
+
+          // The sliding log allows at most `limit` in any window; the token
+          // bucket allows `limit` plus whatever refilled during the interval
+          for (const [start] of allowed) {
+            for (const [end] of allowed) {
+              if (end < start || (algorithm === 'sliding_log' && end >= start + policy.windowMs)) {
+                continue;
+              }
+
+              const used = allowed
+                .filter(([at]) => at >= start && at <= end)
+                .reduce((sum, [, cost]) => sum + cost, 0);
+              const refill =
+                algorithm === 'token_bucket' ? ((end - start) * limit) / policy.windowMs : 0;
+              expect(used).toBeLessThanOrEqual(limit + refill + 1e-9);
+            }
+          }
+          return true;
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+});
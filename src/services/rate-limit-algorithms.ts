@@ -0,0 +1,167 @@
+/**
+ * Rate Limit Algorithms
+ *
+ * Pure functions that take the stored state for a key and decide whether a
+ * request of a given cost is allowed. Stores persist the returned state; they
+ * never need to know which algorithm produced it.
+ */
+
+export type RateLimitAlgorithm = 'fixed_window' | 'token_bucket' | 'sliding_log';
+
+export interface RateLimitPolicy {
+  algorithm: RateLimitAlgorithm;
+  limit: number; // Units allowed per window (bucket capacity for token_bucket)
+  windowMs: number;
+}
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  resetAt: number; // Epoch ms when the full limit is available again
+  retryAfterMs: number; // 0 when allowed
+}
+
+interface FixedWindowState {
+  count: number;
+  resetAt: number;
+}
+
+interface TokenBucketState {
+  tokens: number;
+  updatedAt: number;
+}
+
+interface SlidingLogState {
+  entries: Array<[number, number]>; // [timestamp, cost]
+}
+
+export type RateLimitState = FixedWindowState | TokenBucketState | SlidingLogState;
+
+export const RATE_LIMIT_ALGORITHMS: RateLimitAlgorithm[] = [
+  'fixed_window',
+  'token_bucket',
+  'sliding_log',
+];
+
+// Fixed window: counts reset at the end of each window
+function applyFixedWindow(
+  policy: RateLimitPolicy,
+  state: FixedWindowState | undefined,
+  cost: number,
+  now: number
+): { state: FixedWindowState; decision: RateLimitDecision } {
+  const current =
+    state && typeof state.count === 'number' && now < state.resetAt
+      ? state
+      : { count: 0, resetAt: now + policy.windowMs };
+
+  const allowed = current.count + cost <= policy.limit;
+  const next = allowed ? { count: current.count + cost, resetAt: current.resetAt } : current;
+
+  return {
+    state: next,
+    decision: {
+      allowed,
+      limit: policy.limit,
+      remaining: Math.max(0, policy.limit - next.count),
+      resetAt: next.resetAt,
+      retryAfterMs: allowed ? 0 : next.resetAt - now,
+    },
+  };
+}
+
+// Token bucket: holds up to `limit` tokens and refills `limit` tokens per window
+function applyTokenBucket(
+  policy: RateLimitPolicy,
+  state: TokenBucketState | undefined,
+  cost: number,
+  now: number
+): { state: TokenBucketState; decision: RateLimitDecision } {
+  const refillPerMs = policy.limit / policy.windowMs;
+  const tokens =
+    state && typeof state.tokens === 'number'
+      ? Math.min(policy.limit, state.tokens + (now - state.updatedAt) * refillPerMs)
+      : policy.limit;
+
+  const allowed = tokens >= cost;
+  const remainingTokens = allowed ? tokens - cost : tokens;
+
+  return {
+    state: { tokens: remainingTokens, updatedAt: now },
+    decision: {
+      allowed,
+      limit: policy.limit,
+      remaining: Math.floor(remainingTokens),
+      resetAt: now + Math.ceil((policy.limit - remainingTokens) / refillPerMs),
+      // A request costing more than the bucket holds waits a full window
+      retryAfterMs: allowed
+        ? 0
+        : cost > policy.limit
+          ? policy.windowMs
+          : Math.ceil((cost - tokens) / refillPerMs),
+    },
+  };
+}
+
+// Sliding log: sums the cost of every request in the trailing window
+function applySlidingLog(
+  policy: RateLimitPolicy,
+  state: SlidingLogState | undefined,
+  cost: number,
+  now: number
+): { state: SlidingLogState; decision: RateLimitDecision } {
+  const windowStart = now - policy.windowMs;
+  const entries = (state && Array.isArray(state.entries) ? state.entries : []).filter(
+    ([at]) => at > windowStart
+  );
+  const used = entries.reduce((sum, [, entryCost]) => sum + entryCost, 0);
+
+  const allowed = used + cost <= policy.limit;
+  if (allowed) {
+    entries.push([now, cost]);
+  }
+  const usedAfter = allowed ? used + cost : used;
+
+  // Find when enough earlier requests will have aged out of the window
+  let retryAfterMs = 0;
+  if (!allowed) {
+    retryAfterMs = policy.windowMs;
+    let freed = 0;
+    for (const [at, entryCost] of entries) {
+      freed += entryCost;
+      if (used - freed + cost <= policy.limit) {
+        retryAfterMs = at + policy.windowMs - now;
+        break;
+      }
+    }
+  }
+
+  return {
+    state: { entries },
+    decision: {
+      allowed,
+      limit: policy.limit,
+      remaining: Math.max(0, policy.limit - usedAfter),
+      resetAt: entries.length > 0 ? entries[entries.length - 1][0] + policy.windowMs : now,
+      retryAfterMs,
+    },
+  };
+}
+
+// Apply a policy to the stored state for a key
+export function applyRateLimit(
+  policy: RateLimitPolicy,
+  state: RateLimitState | undefined,
+  cost: number,
+  now: number = Date.now()
+): { state: RateLimitState; decision: RateLimitDecision } {
+  switch (policy.algorithm) {
+    case 'token_bucket':
+      return applyTokenBucket(policy, state as TokenBucketState | undefined, cost, now);
+    case 'sliding_log':
+      return applySlidingLog(policy, state as SlidingLogState | undefined, cost, now);
+    default:
+      return applyFixedWindow(policy, state as FixedWindowState | undefined, cost, now);
+  }
+}
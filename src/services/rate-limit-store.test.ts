@@ -0,0 +1,226 @@
+import { describe, test, expect } from 'vitest';
+import * as fc from 'fast-check';
+import {
+  RateLimitStore,
+  RateLimiterDurableObject,
+  createMemoryRateLimitStore,
+  createPostgresRateLimitStore,
+  createDurableObjectRateLimitStore,
+  pruneRateLimitCounters,
+} from './rate-limit-store';
+import { RateLimitPolicy } from './rate-limit-algorithms';
+import { Database, createUnscopedDb, schema } from '../db';
+import { AppError } from '../middleware/error-handler';
+import { eq } from 'drizzle-orm';
+
+const db = createUnscopedDb(process.env.DATABASE_URL!);
+
+// In-process Durable Object state, with its storage and alarm exposed
+function createFakeState() {
+  const storage = new Map<string, unknown>();
+  let alarmAt: number | null = null;
+  let ready = Promise.resolve();
+
+  const state = {
+    // Like the runtime, hold requests until initialization finishes
+    blockConcurrencyWhile: (fn: () => Promise<void>) => (ready = fn()),
+    storage: {
+      get: async (key: string) => storage.get(key),
+      put: async (key: string, value: unknown) => {
+        storage.set(key, value);
+      },
+      setAlarm: async (time: number) => {
+        alarmAt = time;
+      },
+      deleteAll: async () => {
+        storage.clear();
+      },
+    },
+  };
+
+  return {
+    state: state as unknown as DurableObjectState,
+    storage,
+    getAlarm: () => alarmAt,
+    ready: () => ready,
+  };
+}
+
+// Namespace that routes each key to an in-process Durable Object instance
+function createFakeNamespace(): DurableObjectNamespace {
+  const objects = new Map<string, { object: RateLimiterDurableObject; ready: Promise<void> }>();
+
+  return {
+    idFromName: (name: string) => name,
+    get: (id: string) => ({
+      fetch: async (url: string, init: RequestInit) => {
+        if (!objects.has(id)) {
+          const fake = createFakeState();
+          const object = new RateLimiterDurableObject(fake.state);
+          objects.set(id, { object, ready: fake.ready() });
+        }
+
+        const { object, ready } = objects.get(id)!;
+        await ready;
+        return object.fetch(new Request(url, init));
+      },
+    }),
+  } as unknown as DurableObjectNamespace;
+}
+
+// Every store must apply policies the same way
+function describeStore(name: string, createStore: () => RateLimitStore) {
+  describe(`Rate Limit Store - ${name}`, () => {
+    const policy: RateLimitPolicy = { algorithm: 'fixed_window', limit: 3, windowMs: 60_000 };
+
+    test('Allows requests up to the limit, then rejects', async () => {
+      const store = createStore();
+      const key = `ratelimit:${name}_${Date.now()}`;
+
+      const decisions = [];
+      for (let i = 0; i < 4; i++) {
+        decisions.push(await store.consume(key, policy, 1));
+      }
+
+      expect(decisions.map((d) => d.allowed)).toEqual([true, true, true, false]);
+      expect(decisions.map((d) => d.remaining)).toEqual([2, 1, 0, 0]);
+      expect(decisions[1].resetAt).toBe(decisions[0].resetAt);
+      expect(decisions[3].retryAfterMs).toBeGreaterThan(0);
+    });
+
+    test('Keys are counted independently', async () => {
+      const store = createStore();
+      const suffix = `${name}_${Date.now()}`;
+
+      await store.consume(`ratelimit:a_${suffix}`, policy, 3);
+      const other = await store.consume(`ratelimit:b_${suffix}`, policy, 1);
+
+      expect(other.allowed).toBe(true);
+      expect(other.remaining).toBe(2);
+    });
+
+    test('Costs are charged against the limit', async () => {
+      const store = createStore();
+      const key = `ratelimit:${name}_cost_${Date.now()}`;
+
+      const first = await store.consume(key, policy, 2);
+      const second = await store.consume(key, policy, 2);
+
+      expect(first.allowed).toBe(true);
+      expect(first.remaining).toBe(1);
+      expect(second.allowed).toBe(false);
+    });
+
+    test('The limit is available again once the window ends', async () => {
+      const store = createStore();
+      const key = `ratelimit:${name}_expiry_${Date.now()}`;
+      const shortPolicy: RateLimitPolicy = { ...policy, windowMs: 1000 };
+
+      await store.consume(key, shortPolicy, 3);
+      expect((await store.consume(key, shortPolicy, 1)).allowed).toBe(false);
+      await new Promise((resolve) => setTimeout(resolve, 1100));
+
+      const next = await store.consume(key, shortPolicy, 1);
+      expect(next.allowed).toBe(true);
+      expect(next.remaining).toBe(2);
+    });
+  });
+}
+
+describeStore('memory', createMemoryRateLimitStore);
+describeStore('durable object', () => createDurableObjectRateLimitStore(createFakeNamespace()));
+describeStore('postgres', () => createPostgresRateLimitStore(db));
+
+// Database whose counter row always changes before the store can write it back
+function createContendedDb(): Database {
+  const row = { key: 'ratelimit:contended', state: undefined, version: 1, expiresAt: new Date() };
+  const query = (result: unknown[]) => {
+    const builder: any = {
+      from: () => builder,
+      where: () => builder,
+      set: () => builder,
+      limit: async () => result,
+      returning: async () => result,
+    };
+    return builder;
+  };
+  return { select: () => query([row]), update: () => query([]) } as unknown as Database;
+}
+
+describe('Rate Limit Store - Expiry', () => {
+  const policy: RateLimitPolicy = { algorithm: 'fixed_window', limit: 3, windowMs: 60_000 };
+
+  test('Durable Object storage is cleared once the key is idle for a window', async () => {
+    const fake = createFakeState();
+    const object = new RateLimiterDurableObject(fake.state);
+    await fake.ready();
+    const consume = () =>
+      object.fetch(
+        new Request('https://rate-limiter/consume', {
+          method: 'POST',
+          body: JSON.stringify({ policy, cost: 3 }),
+        })
+      );
+
+    const before = Date.now();
+    await consume();
+    expect(fake.storage.size).toBe(1);
+    expect(fake.getAlarm()).toBeGreaterThanOrEqual(before + policy.windowMs);
+
+    await object.alarm();
+    expect(fake.storage.size).toBe(0);
+
+    // The cleared key starts over
+    const next = (await (await consume()).json()) as { allowed: boolean };
+    expect(next.allowed).toBe(true);
+  });
+
+  test('Expired Postgres counters are pruned', async () => {
+    const store = createPostgresRateLimitStore(db);
+    const key = `ratelimit:prune_${Date.now()}`;
+    await store.consume(key, policy, 1);
+
+    const findCounter = () =>
+      db.select().from(schema.rateLimitCounters).where(eq(schema.rateLimitCounters.key, key));
+
+    await pruneRateLimitCounters(db);
+    expect(await findCounter()).toHaveLength(1);
+
+    await pruneRateLimitCounters(db, new Date(Date.now() + policy.windowMs + 1000));
+    expect(await findCounter()).toEqual([]);
+  });
+});
+
+describe('Rate Limit Store - Concurrency', () => {
+  test('Concurrent requests never exceed the limit', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        fc.integer({ min: 1, max: 50 }),
+        fc.integer({ min: 1, max: 20 }),
+        async (requests, limit) => {
+          const store = createDurableObjectRateLimitStore(createFakeNamespace());
+          const policy: RateLimitPolicy = { algorithm: 'fixed_window', limit, windowMs: 60_000 };
+          const decisions = await Promise.all(
+            Array.from({ length: requests }, () => store.consume('ratelimit:tenant', policy, 1))
+          );
+
+          const allowed = decisions.filter((d) => d.allowed).length;
+          expect(allowed).toBe(Math.min(requests, limit));
+          return true;
+        }
+      ),
+      { numRuns: 20 }
+    );
+  });
+
+  test('A contended Postgres counter fails with a retryable error', async () => {
+    const store = createPostgresRateLimitStore(createContendedDb());
+    const policy: RateLimitPolicy = { algorithm: 'fixed_window', limit: 3, windowMs: 60_000 };
+
+    const error = await store.consume('ratelimit:contended', policy, 1).catch((e) => e);
+
+    expect(error).toBeInstanceOf(AppError);
+    expect(error.code).toBe('RATE_LIMIT_CONTENTION');
+    expect(error.statusCode).toBe(503);
+  });
+});
@@ -0,0 +1,204 @@
+import { eq, and, lt } from 'drizzle-orm';
+import { Database } from '../db';
+import { schema } from '../db';
+import { AppError } from '../middleware/error-handler';
+import {
+  RateLimitPolicy,
+  RateLimitDecision,
+  RateLimitState,
+  applyRateLimit,
+} from './rate-limit-algorithms';
+
+/**
+ * Rate Limit Stores
+ *
+ * Keep rate limit state per key and apply a policy to it atomically. The
+ * in-memory store is per isolate and only suitable for tests and local
+ * development; the Postgres and Durable Object stores share state across every
+ * Worker isolate.
+ */
+
+export interface RateLimitStore {
+  // Charge a request of the given cost against a key
+  consume(key: string, policy: RateLimitPolicy, cost: number): Promise<RateLimitDecision>;
+}
+
+export type RateLimitStoreType = 'memory' | 'postgres' | 'durable_object';
+
+// Compare-and-set attempts before the Postgres store gives up
+const MAX_POSTGRES_ATTEMPTS = 5;
+
+// Seconds clients are asked to wait when a counter is under too much contention
+export const RATE_LIMIT_CONTENTION_RETRY_SECONDS = 1;
+
+/**
+ * In-memory store. Idle keys are pruned as new requests come in, so no
+ * background timer is needed.
+ */
+export function createMemoryRateLimitStore(): RateLimitStore {
+  const states = new Map<string, { state: RateLimitState; expiresAt: number }>();
+  let nextPruneAt = 0;
+
+  return {
+    async consume(key, policy, cost) {
+      const now = Date.now();
+
+      if (now >= nextPruneAt) {
+        for (const [existingKey, entry] of states) {
+          if (now >= entry.expiresAt) {
+            states.delete(existingKey);
+          }
+        }
+        nextPruneAt = now + policy.windowMs;
+      }
+
+      const { state, decision } = applyRateLimit(policy, states.get(key)?.state, cost, now);
+      states.set(key, { state, expiresAt: now + policy.windowMs });
+      return decision;
+    },
+  };
+}
+
+/**
+ * Postgres store. State is read, updated in memory and written back only if
+ * the row's version hasn't changed, so concurrent requests from different
+ * isolates retry instead of overwriting each other.
+ */
+export function createPostgresRateLimitStore(db: Database): RateLimitStore {
+  return {
+    async consume(key, policy, cost) {
+      for (let attempt = 0; attempt < MAX_POSTGRES_ATTEMPTS; attempt++) {
+        const now = Date.now();
+        const [row] = await db
+          .select()
+          .from(schema.rateLimitCounters)
+          .where(eq(schema.rateLimitCounters.key, key))
+          .limit(1);
+
+        const { state, decision } = applyRateLimit(
+          policy,
+          row?.state as RateLimitState | undefined,
+          cost,
+          now
+        );
+
+        // Rejections don't change anything worth persisting
+        if (!decision.allowed) {
+          return decision;
+        }
+
+        const expiresAt = new Date(now + policy.windowMs);
+
+        if (!row) {
+          const inserted = await db
+            .insert(schema.rateLimitCounters)
+            .values({ key, state, version: 1, expiresAt })
+            .onConflictDoNothing()
+            .returning();
+
+          if (inserted.length > 0) {
+            return decision;
+          }
+          continue;
+        }
+
+        const updated = await db
+          .update(schema.rateLimitCounters)
+          .set({ state, version: row.version + 1, expiresAt })
+          .where(
+            and(
+              eq(schema.rateLimitCounters.key, key),
+              eq(schema.rateLimitCounters.version, row.version)
+            )
+          )
+          .returning();
+
+        if (updated.length > 0) {
+          return decision;
+        }
+      }
+
+      throw new AppError(
+        'RATE_LIMIT_CONTENTION',
+        'Too many concurrent requests. Try again shortly',
+        503,
+        { retryAfter: RATE_LIMIT_CONTENTION_RETRY_SECONDS }
+      );
+    },
+  };
+}
+
+// Delete Postgres counters whose window has passed. Run from the Worker's
+// scheduled handler. Returns the number deleted.
+export async function pruneRateLimitCounters(
+  db: Database,
+  now: Date = new Date()
+): Promise<number> {
+  const deleted = await db
+    .delete(schema.rateLimitCounters)
+    .where(lt(schema.rateLimitCounters.expiresAt, now))
+    .returning({ key: schema.rateLimitCounters.key });
+
+  return deleted.length;
+}
+
+/**
+ * Durable Object store. Each key maps to its own RateLimiterDurableObject
+ * instance, which processes requests one at a time.
+ */
+export function createDurableObjectRateLimitStore(
+  namespace: DurableObjectNamespace
+): RateLimitStore {
+  return {
+    async consume(key, policy, cost) {
+      const stub = namespace.get(namespace.idFromName(key));
+      const res = await stub.fetch('https://rate-limiter/consume', {
+        method: 'POST',
+        body: JSON.stringify({ policy, cost }),
+      });
+
+      if (!res.ok) {
+        throw new Error(`Rate limiter responded with ${res.status}`);
+      }
+
+      return (await res.json()) as RateLimitDecision;
+    },
+  };
+}
+
+/**
+ * Durable Object holding the state for a single rate limit key.
+ * Bound as RATE_LIMITER in wrangler.toml. An alarm clears the storage once the
+ * key has been idle for a whole window.
+ */
+export class RateLimiterDurableObject {
+  private current: RateLimitState | undefined;
+
+  constructor(private state: DurableObjectState) {
+    // Load the persisted state before any request is delivered
+    state.blockConcurrencyWhile(async () => {
+      this.current = await state.storage.get<RateLimitState>('state');
+    });
+  }
+
+  async fetch(request: Request): Promise<Response> {
+    const { policy, cost } = (await request.json()) as {
+      policy: RateLimitPolicy;
+      cost: number;
+    };
+
+    // Read-modify-write happens synchronously, so concurrent requests can't
+    // interleave between reading and updating the state
+    const { state, decision } = applyRateLimit(policy, this.current, cost);
+    this.current = state;
+    await this.state.storage.put('state', state);
+    await this.state.storage.setAlarm(Date.now() + policy.windowMs);
+
+    return Response.json(decision);
+  }
+
+  async alarm(): Promise<void> {
+    this.current = undefined;
+    await this.state.storage.deleteAll();
+  }
+}
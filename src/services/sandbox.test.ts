@@ -0,0 +1,73 @@
+import { describe, test, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { getSandboxTenantId, isSandboxTenantId, resetTestData } from './sandbox';
+import { register } from './auth';
+import { createOrganization, getOrganization } from './organization';
+import { createTenantScopedDb } from '../middleware/tenant-isolation';
+import { createUnscopedDb } from '../db';
+import { schema } from '../db';
+import { eq } from 'drizzle-orm';
+
+const db = createUnscopedDb(process.env.DATABASE_URL!);
+
+// Tenant-owned rows need their tenant, and test-mode rows its sandbox partition
+async function createTestTenant(tenantId: string) {
+  await db
+    .insert(schema.tenants)
+    .values([
+      { id: tenantId, name: tenantId },
+      { id: getSandboxTenantId(tenantId), name: tenantId },
+    ])
+    .onConflictDoNothing();
+}
+
+describe('Sandbox - Test Mode Partitions', () => {
+  test('Sandbox partitions never collide with their live tenant', () => {
+    fc.assert(
+      fc.property(fc.string({ minLength: 1 }), (tenantId) => {
+        const sandboxId = getSandboxTenantId(tenantId);
+
+        expect(sandboxId).not.toBe(tenantId);
+        expect(isSandboxTenantId(sandboxId)).toBe(true);
+        return true;
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  test('Resetting live data is refused', async () => {
+    await expect(resetTestData(createTenantScopedDb(db, 'tenant_live'))).rejects.toThrow(
+      'Only sandbox data can be reset'
+    );
+  });
+
+  test('Sandbox data is isolated from live data and can be reset', async () => {
+    const tenantId = `tenant_${Date.now()}`;
+    await createTestTenant(tenantId);
+    const sandboxId = getSandboxTenantId(tenantId);
+    const liveDb = createTenantScopedDb(db, tenantId);
+    const testDb = createTenantScopedDb(db, sandboxId);
+    const email = `sandbox_${Date.now()}@example.com`;
+
+    // The same email can exist in both partitions
+    const { user: liveUser } = await register(liveDb, email, 'Password123', 4, 3600);
+    const { user: testUser } = await register(testDb, email, 'Password123', 4, 3600);
+
+    const liveOrg = await createOrganization(liveDb, 'Live Org', liveUser.id);
+    const testOrg = await createOrganization(testDb, 'Test Org', testUser.id);
+
+    expect(await getOrganization(liveDb, testOrg.id)).toBeNull();
+
+    await resetTestData(testDb);
+
+    const sandboxUsers = await db
+      .select()
+      .from(schema.users)
+      .where(eq(schema.users.tenantId, sandboxId));
+    expect(sandboxUsers).toHaveLength(0);
+    expect(await getOrganization(testDb, testOrg.id)).toBeNull();
+
+    // Live data is untouched
+    expect(await getOrganization(liveDb, liveOrg.id)).not.toBeNull();
+  });
+});
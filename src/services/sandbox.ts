@@ -0,0 +1,55 @@
+import { schema } from '../db';
+import { AppError } from '../middleware/error-handler';
+import { TenantScopedDb } from '../middleware/tenant-isolation';
+import { AuditContext, recordAuditEvent } from './audit';
+
+// Test-mode data lives in a separate partition of the same tenant, so every
+// tenant-scoped query isolates it from live data without extra filters
+const SANDBOX_SUFFIX = ':test';
+
+// Get the sandbox partition ID for a tenant
+export function getSandboxTenantId(tenantId: string): string {
+  return `${tenantId}${SANDBOX_SUFFIX}`;
+}
+
+// Check whether a tenant ID refers to a sandbox partition
+export function isSandboxTenantId(tenantId: string): boolean {
+  return tenantId.endsWith(SANDBOX_SUFFIX);
+}
+
+// Delete all data in the handle's sandbox partition. Live data is never
+// touched, and the sandbox's audit trail is kept.
+export async function resetTestData(
+  tenantDb: TenantScopedDb,
+  audit: AuditContext = {}
+): Promise<void> {
+  if (!isSandboxTenantId(tenantDb.tenantId)) {
+    throw new AppError('INVALID_INPUT', 'Only sandbox data can be reset', 400);
+  }
+
+  // Organizations go first: deleting them cascades to members, invitations,
+  // subscriptions and usage, which would otherwise block the users and tiers.
+  // Deleting users cascades to their sessions, tokens and MFA data, and
+  // deleting webhook endpoints cascades to their deliveries.
+  await tenantDb.transaction(async (tx) => {
+    const tables = [
+      schema.usageRecords,
+      schema.organizations,
+      schema.users,
+      schema.roles,
+      schema.subscriptionTiers,
+      schema.tenantSettings,
+      schema.webhookEndpoints,
+      schema.outbox,
+    ];
+    for (const table of tables) {
+      await tx.delete(table);
+    }
+
+    await recordAuditEvent(tx, audit, {
+      action: 'sandbox.reset',
+      targetType: 'tenant',
+      targetId: tx.tenantId,
+    });
+  });
+}
@@ -11,10 +11,23 @@ import {
   checkFeatureAccess,
   checkLimit,
 } from './subscription';
-import { createDb } from '../db';
+import { createTenantScopedDb } from '../middleware/tenant-isolation';
+import { getSandboxTenantId } from './sandbox';
+import { createUnscopedDb } from '../db';
 import { schema } from '../db';
 
-const db = createDb(process.env.DATABASE_URL!);
+const db = createUnscopedDb(process.env.DATABASE_URL!);
+
+// Tenant-owned rows need their tenant, and test-mode rows its sandbox partition
+async function createTestTenant(tenantId: string) {
+  await db
+    .insert(schema.tenants)
+    .values([
+      { id: tenantId, name: tenantId },
+      { id: getSandboxTenantId(tenantId), name: tenantId },
+    ])
+    .onConflictDoNothing();
+}
 
 // Generators for property-based testing
 const tenantIdArb = fc.string({ minLength: 5, maxLength: 20 }).map(s => `tenant_${s}`);
@@ -83,8 +96,10 @@ describe('Subscription Service - Tier Management', () => {
         featuresArrayArb,
         limitsArb,
         async (tenantId, tierName, features, limits) => {
+          await createTestTenant(tenantId);
+          const tenantDb = createTenantScopedDb(db, tenantId);
           // Define a tier
-          const tier = await defineTier(db, tenantId, tierName, features, limits);
+          const tier = await defineTier(tenantDb, tierName, features, limits);
 
           // Verify tier was created
           expect(tier.id).toBeDefined();
@@ -94,7 +109,7 @@ describe('Subscription Service - Tier Management', () => {
           expect(tier.limits).toEqual(limits);
 
           // Retrieve the tier
-          const retrieved = await getTier(db, tier.id, tenantId);
+          const retrieved = await getTier(tenantDb, tier.id);
 
           // Verify retrieved tier matches
           expect(retrieved).not.toBeNull();
@@ -125,20 +140,21 @@ describe('Subscription Service - Subscription Lifecycle', () => {
     await db.delete(schema.users);
 
     const tenantId = `tenant_${Date.now()}`;
+    await createTestTenant(tenantId);
     const user = await createTestUser(tenantId, `user_${Date.now()}@test.com`);
     const org = await createTestOrg(tenantId, user.id, 'Test Org');
 
+    const tenantDb = createTenantScopedDb(db, tenantId);
     // Define a tier with specific features
     const tier = await defineTier(
-      db,
-      tenantId,
+      tenantDb,
       'pro',
       ['api_access', 'advanced_analytics', 'priority_support'],
       { api_calls: 10000, users: 50 }
     );
 
     // Subscribe organization to tier
-    const subscription = await subscribe(db, org.id, tier.id, tenantId);
+    const subscription = await subscribe(tenantDb, org.id, tier.id);
 
     // Verify subscription is active
     expect(subscription.status).toBe('active');
@@ -146,9 +162,9 @@ describe('Subscription Service - Subscription Lifecycle', () => {
     expect(subscription.limits).toEqual(tier.limits);
 
     // Verify feature access
-    const hasApiAccess = await checkFeatureAccess(db, org.id, 'api_access', tenantId);
-    const hasAnalytics = await checkFeatureAccess(db, org.id, 'advanced_analytics', tenantId);
-    const hasSSO = await checkFeatureAccess(db, org.id, 'sso', tenantId);
+    const hasApiAccess = await checkFeatureAccess(tenantDb, org.id, 'api_access');
+    const hasAnalytics = await checkFeatureAccess(tenantDb, org.id, 'advanced_analytics');
+    const hasSSO = await checkFeatureAccess(tenantDb, org.id, 'sso');
 
     expect(hasApiAccess).toBe(true);
     expect(hasAnalytics).toBe(true);
@@ -168,41 +184,41 @@ describe('Subscription Service - Subscription Lifecycle', () => {
     await db.delete(schema.users);
 
     const tenantId = `tenant_${Date.now()}`;
+    await createTestTenant(tenantId);
     const user = await createTestUser(tenantId, `user_${Date.now()}@test.com`);
     const org = await createTestOrg(tenantId, user.id, 'Test Org');
 
+    const tenantDb = createTenantScopedDb(db, tenantId);
     // Define two tiers
     const basicTier = await defineTier(
-      db,
-      tenantId,
+      tenantDb,
       'basic',
       ['api_access'],
       { api_calls: 1000 }
     );
 
     const proTier = await defineTier(
-      db,
-      tenantId,
+      tenantDb,
       'pro',
       ['api_access', 'advanced_analytics', 'priority_support'],
       { api_calls: 10000 }
     );
 
     // Subscribe to basic tier
-    const subscription = await subscribe(db, org.id, basicTier.id, tenantId);
+    const subscription = await subscribe(tenantDb, org.id, basicTier.id);
     expect(subscription.features).toHaveLength(1);
 
     // Check feature access before upgrade
-    const hasAnalyticsBefore = await checkFeatureAccess(db, org.id, 'advanced_analytics', tenantId);
+    const hasAnalyticsBefore = await checkFeatureAccess(tenantDb, org.id, 'advanced_analytics');
     expect(hasAnalyticsBefore).toBe(false);
 
     // Upgrade to pro tier
-    const upgraded = await updateSubscription(db, subscription.id, proTier.id, tenantId);
+    const upgraded = await updateSubscription(tenantDb, subscription.id, proTier.id);
     expect(upgraded.features).toHaveLength(3);
     expect(upgraded.limits.api_calls).toBe(10000);
 
     // Check feature access after upgrade
-    const hasAnalyticsAfter = await checkFeatureAccess(db, org.id, 'advanced_analytics', tenantId);
+    const hasAnalyticsAfter = await checkFeatureAccess(tenantDb, org.id, 'advanced_analytics');
     expect(hasAnalyticsAfter).toBe(true);
   });
 
@@ -219,13 +235,14 @@ describe('Subscription Service - Subscription Lifecycle', () => {
     await db.delete(schema.users);
 
     const tenantId = `tenant_${Date.now()}`;
+    await createTestTenant(tenantId);
     const user = await createTestUser(tenantId, `user_${Date.now()}@test.com`);
     const org = await createTestOrg(tenantId, user.id, 'Test Org');
 
+    const tenantDb = createTenantScopedDb(db, tenantId);
     // Define a tier
     const tier = await defineTier(
-      db,
-      tenantId,
+      tenantDb,
       'pro',
       ['api_access', 'advanced_analytics'],
       { api_calls: 10000 }
@@ -233,14 +250,14 @@ describe('Subscription Service - Subscription Lifecycle', () => {
 
     // Subscribe with expiration date in the past
     const expiredDate = new Date(Date.now() - 1000); // 1 second ago
-    await subscribe(db, org.id, tier.id, tenantId, expiredDate);
+    await subscribe(tenantDb, org.id, tier.id, expiredDate);
 
     // Get subscription status (should auto-mark as expired)
-    const status = await getSubscriptionStatus(db, org.id, tenantId);
+    const status = await getSubscriptionStatus(tenantDb, org.id);
     expect(status?.status).toBe('expired');
 
     // Verify feature access is denied
-    const hasAccess = await checkFeatureAccess(db, org.id, 'api_access', tenantId);
+    const hasAccess = await checkFeatureAccess(tenantDb, org.id, 'api_access');
     expect(hasAccess).toBe(false);
   });
 
@@ -257,25 +274,26 @@ describe('Subscription Service - Subscription Lifecycle', () => {
     await db.delete(schema.users);
 
     const tenantId = `tenant_${Date.now()}`;
+    await createTestTenant(tenantId);
     const user = await createTestUser(tenantId, `user_${Date.now()}@test.com`);
     const org = await createTestOrg(tenantId, user.id, 'Test Org');
 
+    const tenantDb = createTenantScopedDb(db, tenantId);
     // No subscription initially
-    const noSub = await getSubscriptionStatus(db, org.id, tenantId);
+    const noSub = await getSubscriptionStatus(tenantDb, org.id);
     expect(noSub).toBeNull();
 
     // Define and subscribe
     const tier = await defineTier(
-      db,
-      tenantId,
+      tenantDb,
       'pro',
       ['api_access'],
       { api_calls: 10000 }
     );
-    const subscription = await subscribe(db, org.id, tier.id, tenantId);
+    const subscription = await subscribe(tenantDb, org.id, tier.id);
 
     // Get status
-    const status = await getSubscriptionStatus(db, org.id, tenantId);
+    const status = await getSubscriptionStatus(tenantDb, org.id);
     expect(status).not.toBeNull();
     expect(status?.id).toBe(subscription.id);
     expect(status?.status).toBe('active');
@@ -283,10 +301,10 @@ describe('Subscription Service - Subscription Lifecycle', () => {
     expect(status?.limits).toEqual(tier.limits);
 
     // Cancel subscription
-    await cancelSubscription(db, subscription.id);
+    await cancelSubscription(tenantDb, subscription.id);
 
     // Get status after cancellation
-    const cancelledStatus = await getSubscriptionStatus(db, org.id, tenantId);
+    const cancelledStatus = await getSubscriptionStatus(tenantDb, org.id);
     expect(cancelledStatus?.status).toBe('cancelled');
   });
 });
@@ -301,32 +319,33 @@ describe('Subscription Service - Usage Limits', () => {
     await db.delete(schema.users);
 
     const tenantId = `tenant_${Date.now()}`;
+    await createTestTenant(tenantId);
     const user = await createTestUser(tenantId, `user_${Date.now()}@test.com`);
     const org = await createTestOrg(tenantId, user.id, 'Test Org');
 
+    const tenantDb = createTenantScopedDb(db, tenantId);
     // Define tier with limits
     const tier = await defineTier(
-      db,
-      tenantId,
+      tenantDb,
       'pro',
       ['api_access'],
       { api_calls: 1000, users: 10 }
     );
 
-    await subscribe(db, org.id, tier.id, tenantId);
+    await subscribe(tenantDb, org.id, tier.id);
 
     // Check within limit
-    const withinLimit = await checkLimit(db, org.id, 'api_calls', 500, tenantId);
+    const withinLimit = await checkLimit(tenantDb, org.id, 'api_calls', 500);
     expect(withinLimit.withinLimit).toBe(true);
     expect(withinLimit.limit).toBe(1000);
     expect(withinLimit.usage).toBe(500);
 
     // Check at limit
-    const atLimit = await checkLimit(db, org.id, 'api_calls', 1000, tenantId);
+    const atLimit = await checkLimit(tenantDb, org.id, 'api_calls', 1000);
     expect(atLimit.withinLimit).toBe(true);
 
     // Check over limit
-    const overLimit = await checkLimit(db, org.id, 'api_calls', 1500, tenantId);
+    const overLimit = await checkLimit(tenantDb, org.id, 'api_calls', 1500);
     expect(overLimit.withinLimit).toBe(false);
     expect(overLimit.limit).toBe(1000);
     expect(overLimit.usage).toBe(1500);
@@ -341,22 +360,23 @@ describe('Subscription Service - Usage Limits', () => {
     await db.delete(schema.users);
 
     const tenantId = `tenant_${Date.now()}`;
+    await createTestTenant(tenantId);
     const user = await createTestUser(tenantId, `user_${Date.now()}@test.com`);
     const org = await createTestOrg(tenantId, user.id, 'Test Org');
 
+    const tenantDb = createTenantScopedDb(db, tenantId);
     // Define tier without storage limit
     const tier = await defineTier(
-      db,
-      tenantId,
+      tenantDb,
       'enterprise',
       ['api_access'],
       { api_calls: 100000 } // No storage_gb limit
     );
 
-    await subscribe(db, org.id, tier.id, tenantId);
+    await subscribe(tenantDb, org.id, tier.id);
 
     // Check undefined limit (should be unlimited)
-    const result = await checkLimit(db, org.id, 'storage_gb', 999999, tenantId);
+    const result = await checkLimit(tenantDb, org.id, 'storage_gb', 999999);
     expect(result.withinLimit).toBe(true);
     expect(result.limit).toBe(-1); // -1 indicates unlimited
   });
@@ -372,11 +392,12 @@ describe('Subscription Service - Edge Cases', () => {
     await db.delete(schema.users);
 
     const tenantId = `tenant_${Date.now()}`;
+    await createTestTenant(tenantId);
 
+    const tenantDb = createTenantScopedDb(db, tenantId);
     // Define initial tier
     const tier = await defineTier(
-      db,
-      tenantId,
+      tenantDb,
       'pro',
       ['api_access'],
       { api_calls: 1000 }
@@ -384,8 +405,7 @@ describe('Subscription Service - Edge Cases', () => {
 
     // Update the same tier
     const updated = await defineTier(
-      db,
-      tenantId,
+      tenantDb,
       'pro',
       ['api_access', 'advanced_analytics'],
       { api_calls: 5000 }
@@ -405,13 +425,15 @@ describe('Subscription Service - Edge Cases', () => {
     await db.delete(schema.users);
 
     const tenantId = `tenant_${Date.now()}`;
+    await createTestTenant(tenantId);
 
+    const tenantDb = createTenantScopedDb(db, tenantId);
     // Define multiple tiers
-    await defineTier(db, tenantId, 'free', ['api_access'], { api_calls: 100 });
-    await defineTier(db, tenantId, 'pro', ['api_access', 'analytics'], { api_calls: 10000 });
-    await defineTier(db, tenantId, 'enterprise', ['api_access', 'analytics', 'sso'], { api_calls: 100000 });
+    await defineTier(tenantDb, 'free', ['api_access'], { api_calls: 100 });
+    await defineTier(tenantDb, 'pro', ['api_access', 'analytics'], { api_calls: 10000 });
+    await defineTier(tenantDb, 'enterprise', ['api_access', 'analytics', 'sso'], { api_calls: 100000 });
 
-    const tiers = await getTiers(db, tenantId);
+    const tiers = await getTiers(tenantDb);
 
     expect(tiers).toHaveLength(3);
     expect(tiers.map(t => t.name)).toContain('free');
@@ -428,17 +450,19 @@ describe('Subscription Service - Edge Cases', () => {
     await db.delete(schema.users);
 
     const tenantId = `tenant_${Date.now()}`;
+    await createTestTenant(tenantId);
     const user = await createTestUser(tenantId, `user_${Date.now()}@test.com`);
     const org = await createTestOrg(tenantId, user.id, 'Test Org');
 
-    const tier1 = await defineTier(db, tenantId, 'basic', ['api_access'], { api_calls: 1000 });
-    const tier2 = await defineTier(db, tenantId, 'pro', ['api_access', 'analytics'], { api_calls: 10000 });
+    const tenantDb = createTenantScopedDb(db, tenantId);
+    const tier1 = await defineTier(tenantDb, 'basic', ['api_access'], { api_calls: 1000 });
+    const tier2 = await defineTier(tenantDb, 'pro', ['api_access', 'analytics'], { api_calls: 10000 });
 
     // First subscription
-    const sub1 = await subscribe(db, org.id, tier1.id, tenantId);
+    const sub1 = await subscribe(tenantDb, org.id, tier1.id);
 
     // Second subscription (should update, not create new)
-    const sub2 = await subscribe(db, org.id, tier2.id, tenantId);
+    const sub2 = await subscribe(tenantDb, org.id, tier2.id);
 
     expect(sub2.id).toBe(sub1.id); // Same subscription ID
     expect(sub2.tierId).toBe(tier2.id); // Updated tier
@@ -453,11 +477,13 @@ describe('Subscription Service - Edge Cases', () => {
     await db.delete(schema.users);
 
     const tenantId = `tenant_${Date.now()}`;
+    await createTestTenant(tenantId);
     const user = await createTestUser(tenantId, `user_${Date.now()}@test.com`);
     const org = await createTestOrg(tenantId, user.id, 'Test Org');
 
+    const tenantDb = createTenantScopedDb(db, tenantId);
     await expect(
-      subscribe(db, org.id, 'fake-tier-id', tenantId)
+      subscribe(tenantDb, org.id, 'fake-tier-id')
     ).rejects.toThrow();
   });
 });
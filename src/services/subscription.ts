@@ -1,39 +1,46 @@
-import { eq, and } from 'drizzle-orm';
-import { Database } from '../db';
+import { eq } from 'drizzle-orm';
 import { schema } from '../db';
 import { SubscriptionTier, Subscription } from '../types';
 import { AppError } from '../middleware/error-handler';
+import { TenantScopedDb } from '../middleware/tenant-isolation';
+import { AuditContext, recordAuditEvent, diffChanges } from './audit';
+import { enqueueOutboxEvent } from './outbox';
 
 // Create or update a subscription tier
 export async function defineTier(
-  db: Database,
-  tenantId: string,
+  tenantDb: TenantScopedDb,
   name: string,
   features: string[],
-  limits: Record<string, number>
+  limits: Record<string, number>,
+  audit: AuditContext = {}
 ): Promise<SubscriptionTier> {
   // Check if tier already exists
-  const existing = await db
-    .select()
-    .from(schema.subscriptionTiers)
-    .where(
-      and(
-        eq(schema.subscriptionTiers.tenantId, tenantId),
-        eq(schema.subscriptionTiers.name, name)
-      )
-    )
-    .limit(1);
+  const existing = await tenantDb.select(
+    schema.subscriptionTiers,
+    eq(schema.subscriptionTiers.name, name),
+    { limit: 1 }
+  );
 
   if (existing.length > 0) {
     // Update existing tier
-    const [updated] = await db
-      .update(schema.subscriptionTiers)
-      .set({
+    const [updated] = await tenantDb.update(
+      schema.subscriptionTiers,
+      {
         features,
         limits,
-      })
-      .where(eq(schema.subscriptionTiers.id, existing[0].id))
-      .returning();
+      },
+      eq(schema.subscriptionTiers.id, existing[0].id)
+    );
+
+    await recordAuditEvent(tenantDb, audit, {
+      action: 'tier.updated',
+      targetType: 'tier',
+      targetId: updated.id,
+      changes: diffChanges(
+        { features: existing[0].features, limits: existing[0].limits },
+        { features, limits }
+      ),
+    });
 
     return {
       id: updated.id,
@@ -45,16 +52,19 @@ export async function defineTier(
   }
 
   // Create new tier
-  const [tier] = await db
-    .insert(schema.subscriptionTiers)
-    .values({
-      tenantId,
-      name,
-      features,
-      limits,
-      createdAt: new Date(),
-    })
-    .returning();
+  const [tier] = await tenantDb.insert(schema.subscriptionTiers, {
+    name,
+    features,
+    limits,
+    createdAt: new Date(),
+  });
+
+  await recordAuditEvent(tenantDb, audit, {
+    action: 'tier.created',
+    targetType: 'tier',
+    targetId: tier.id,
+    changes: diffChanges(null, { name, features, limits }),
+  });
 
   return {
     id: tier.id,
@@ -67,20 +77,14 @@ export async function defineTier(
 
 // Get a subscription tier by ID
 export async function getTier(
-  db: Database,
-  tierId: string,
-  tenantId: string
+  tenantDb: TenantScopedDb,
+  tierId: string
 ): Promise<SubscriptionTier | null> {
-  const [tier] = await db
-    .select()
-    .from(schema.subscriptionTiers)
-    .where(
-      and(
-        eq(schema.subscriptionTiers.id, tierId),
-        eq(schema.subscriptionTiers.tenantId, tenantId)
-      )
-    )
-    .limit(1);
+  const [tier] = await tenantDb.select(
+    schema.subscriptionTiers,
+    eq(schema.subscriptionTiers.id, tierId),
+    { limit: 1 }
+  );
 
   if (!tier) return null;
 
@@ -94,14 +98,8 @@ export async function getTier(
 }
 
 // Get all subscription tiers for a tenant
-export async function getTiers(
-  db: Database,
-  tenantId: string
-): Promise<SubscriptionTier[]> {
-  const tiers = await db
-    .select()
-    .from(schema.subscriptionTiers)
-    .where(eq(schema.subscriptionTiers.tenantId, tenantId));
+export async function getTiers(tenantDb: TenantScopedDb): Promise<SubscriptionTier[]> {
+  const tiers = await tenantDb.select(schema.subscriptionTiers);
 
   return tiers.map((tier) => ({
     id: tier.id,
@@ -114,90 +112,144 @@ export async function getTiers(
 
 // Delete a subscription tier
 export async function deleteTier(
-  db: Database,
+  tenantDb: TenantScopedDb,
   tierId: string,
-  tenantId: string
+  audit: AuditContext = {}
 ): Promise<void> {
-  await db
-    .delete(schema.subscriptionTiers)
-    .where(
-      and(
-        eq(schema.subscriptionTiers.id, tierId),
-        eq(schema.subscriptionTiers.tenantId, tenantId)
-      )
-    );
+  const [tier] = await tenantDb.delete(
+    schema.subscriptionTiers,
+    eq(schema.subscriptionTiers.id, tierId)
+  );
+
+  if (tier) {
+    await recordAuditEvent(tenantDb, audit, {
+      action: 'tier.deleted',
+      targetType: 'tier',
+      targetId: tier.id,
+      changes: diffChanges({ name: tier.name }, { name: null }),
+    });
+  }
 }
 
 // Subscribe an organization to a tier
 export async function subscribe(
-  db: Database,
+  tenantDb: TenantScopedDb,
   orgId: string,
   tierId: string,
-  tenantId: string,
-  expirationDate?: Date
+  expirationDate?: Date,
+  audit: AuditContext = {}
 ): Promise<Subscription> {
   // Verify tier exists
-  const tier = await getTier(db, tierId, tenantId);
+  const tier = await getTier(tenantDb, tierId);
   if (!tier) {
     throw new AppError('TIER_NOT_FOUND', 'Subscription tier not found', 404);
   }
 
-  // Check if organization already has a subscription
-  const [existing] = await db
-    .select()
-    .from(schema.subscriptions)
-    .where(eq(schema.subscriptions.organizationId, orgId))
-    .limit(1);
-
-  if (existing) {
-    // Update existing subscription
-    const [updated] = await db
-      .update(schema.subscriptions)
-      .set({
+  return tenantDb.transaction(async (tx) => {
+    // Check if organization already has a subscription
+    const [existing] = await tx.select(
+      schema.subscriptions,
+      eq(schema.subscriptions.organizationId, orgId),
+      { limit: 1 }
+    );
+
+    let subscription: typeof schema.subscriptions.$inferSelect;
+
+    if (existing) {
+      // Update existing subscription
+      [subscription] = await tx.update(
+        schema.subscriptions,
+        {
+          tierId,
+          status: 'active',
+          startDate: new Date(),
+          expirationDate: expirationDate || null,
+        },
+        eq(schema.subscriptions.id, existing.id)
+      );
+
+      await enqueueOutboxEvent(tx, 'subscription.updated', {
+        subscriptionId: subscription.id,
+        organizationId: orgId,
+        tierId,
+        previousTierId: existing.tierId,
+        status: subscription.status,
+      });
+      await recordAuditEvent(tx, audit, {
+        organizationId: orgId,
+        action: 'subscription.updated',
+        targetType: 'subscription',
+        targetId: subscription.id,
+        changes: diffChanges(
+          {
+            tierId: existing.tierId,
+            status: existing.status,
+            expirationDate: existing.expirationDate,
+          },
+          { tierId, status: subscription.status, expirationDate: subscription.expirationDate }
+        ),
+      });
+    } else {
+      // Create new subscription (the organization must belong to the tenant)
+      [subscription] = await tx.insert(schema.subscriptions, {
+        organizationId: orgId,
         tierId,
         status: 'active',
         startDate: new Date(),
         expirationDate: expirationDate || null,
-      })
-      .where(eq(schema.subscriptions.id, existing.id))
-      .returning();
+        createdAt: new Date(),
+      });
+
+      await enqueueOutboxEvent(tx, 'subscription.created', {
+        subscriptionId: subscription.id,
+        organizationId: orgId,
+        tierId,
+        status: subscription.status,
+      });
+      await recordAuditEvent(tx, audit, {
+        organizationId: orgId,
+        action: 'subscription.created',
+        targetType: 'subscription',
+        targetId: subscription.id,
+        changes: diffChanges(null, { tierId, expirationDate: subscription.expirationDate }),
+      });
+    }
 
     // Update organization's subscription reference
-    await db
-      .update(schema.organizations)
-      .set({ subscriptionId: updated.id })
-      .where(eq(schema.organizations.id, orgId));
+    await tx.update(
+      schema.organizations,
+      { subscriptionId: subscription.id },
+      eq(schema.organizations.id, orgId)
+    );
 
     return {
-      id: updated.id,
-      organizationId: updated.organizationId,
-      tierId: updated.tierId,
-      status: updated.status as 'active' | 'expired' | 'cancelled',
-      startDate: updated.startDate,
-      expirationDate: updated.expirationDate,
+      id: subscription.id,
+      organizationId: subscription.organizationId,
+      tierId: subscription.tierId,
+      status: subscription.status as 'active' | 'expired' | 'cancelled',
+      startDate: subscription.startDate,
+      expirationDate: subscription.expirationDate,
       features: tier.features,
       limits: tier.limits,
     };
-  }
+  });
+}
+
+// Get a subscription by ID
+export async function getSubscription(
+  tenantDb: TenantScopedDb,
+  subscriptionId: string
+): Promise<Subscription | null> {
+  const [subscription] = await tenantDb.select(
+    schema.subscriptions,
+    eq(schema.subscriptions.id, subscriptionId),
+    { limit: 1 }
+  );
 
-  // Create new subscription
-  const [subscription] = await db
-    .insert(schema.subscriptions)
-    .values({
-      organizationId: orgId,
-      tierId,
-      status: 'active',
-      startDate: new Date(),
-      expirationDate: expirationDate || null,
-      createdAt: new Date(),
-    })
-    .returning();
-
-  // Update organization's subscription reference
-  await db
-    .update(schema.organizations)
-    .set({ subscriptionId: subscription.id })
-    .where(eq(schema.organizations.id, orgId));
+  if (!subscription) return null;
+
+  const tier = await getTier(tenantDb, subscription.tierId);
+  if (!tier) return null;
 
   return {
     id: subscription.id,
@@ -213,31 +265,56 @@ export async function subscribe(
 
 // Update a subscription (upgrade/downgrade)
 export async function updateSubscription(
-  db: Database,
+  tenantDb: TenantScopedDb,
   subscriptionId: string,
   newTierId: string,
-  tenantId: string
+  audit: AuditContext = {}
 ): Promise<Subscription> {
   // Verify new tier exists
-  const tier = await getTier(db, newTierId, tenantId);
+  const tier = await getTier(tenantDb, newTierId);
   if (!tier) {
     throw new AppError('TIER_NOT_FOUND', 'Subscription tier not found', 404);
   }
 
-  // Update subscription
-  const [updated] = await db
-    .update(schema.subscriptions)
-    .set({
-      tierId: newTierId,
-      startDate: new Date(), // Reset start date on tier change
-    })
-    .where(eq(schema.subscriptions.id, subscriptionId))
-    .returning();
+  const [existing] = await tenantDb.select(
+    schema.subscriptions,
+    eq(schema.subscriptions.id, subscriptionId),
+    { limit: 1 }
+  );
 
-  if (!updated) {
+  if (!existing) {
     throw new AppError('SUBSCRIPTION_NOT_FOUND', 'Subscription not found', 404);
   }
 
+  const updated = await tenantDb.transaction(async (tx) => {
+    // Update subscription
+    const [updated] = await tx.update(
+      schema.subscriptions,
+      {
+        tierId: newTierId,
+        startDate: new Date(), // Reset start date on tier change
+      },
+      eq(schema.subscriptions.id, subscriptionId)
+    );
+
+    await enqueueOutboxEvent(tx, 'subscription.updated', {
+      subscriptionId,
+      organizationId: updated.organizationId,
+      tierId: newTierId,
+      previousTierId: existing.tierId,
+      status: updated.status,
+    });
+    await recordAuditEvent(tx, audit, {
+      organizationId: updated.organizationId,
+      action: 'subscription.updated',
+      targetType: 'subscription',
+      targetId: updated.id,
+      changes: diffChanges({ tierId: existing.tierId }, { tierId: newTierId }),
+    });
+
+    return updated;
+  });
+
   return {
     id: updated.id,
     organizationId: updated.organizationId,
@@ -252,42 +329,68 @@ export async function updateSubscription(
 
 // Cancel a subscription
 export async function cancelSubscription(
-  db: Database,
-  subscriptionId: string
+  tenantDb: TenantScopedDb,
+  subscriptionId: string,
+  audit: AuditContext = {}
 ): Promise<void> {
-  const [subscription] = await db
-    .update(schema.subscriptions)
-    .set({ status: 'cancelled' })
-    .where(eq(schema.subscriptions.id, subscriptionId))
-    .returning();
+  const [existing] = await tenantDb.select(
+    schema.subscriptions,
+    eq(schema.subscriptions.id, subscriptionId),
+    { limit: 1 }
+  );
 
-  if (!subscription) {
+  if (!existing) {
     throw new AppError('SUBSCRIPTION_NOT_FOUND', 'Subscription not found', 404);
   }
 
-  // Remove subscription reference from organization
-  await db
-    .update(schema.organizations)
-    .set({ subscriptionId: null })
-    .where(eq(schema.organizations.id, subscription.organizationId));
+  await tenantDb.transaction(async (tx) => {
+    const [subscription] = await tx.update(
+      schema.subscriptions,
+      { status: 'cancelled' },
+      eq(schema.subscriptions.id, subscriptionId)
+    );
+
+    // Remove subscription reference from organization
+    await tx.update(
+      schema.organizations,
+      { subscriptionId: null },
+      eq(schema.organizations.id, subscription.organizationId)
+    );
+
+    await enqueueOutboxEvent(tx, 'subscription.cancelled', {
+      subscriptionId,
+      organizationId: subscription.organizationId,
+      tierId: subscription.tierId,
+      status: subscription.status,
+    });
+    await recordAuditEvent(tx, audit, {
+      organizationId: subscription.organizationId,
+      action: 'subscription.cancelled',
+      targetType: 'subscription',
+      targetId: subscription.id,
+      changes: diffChanges(
+        { status: existing.status },
+        { status: subscription.status }
+      ),
+    });
+  });
 }
 
 // Get subscription status for an organization
 export async function getSubscriptionStatus(
-  db: Database,
-  orgId: string,
-  tenantId: string
+  tenantDb: TenantScopedDb,
+  orgId: string
 ): Promise<Subscription | null> {
-  const [subscription] = await db
-    .select()
-    .from(schema.subscriptions)
-    .where(eq(schema.subscriptions.organizationId, orgId))
-    .limit(1);
+  const [subscription] = await tenantDb.select(
+    schema.subscriptions,
+    eq(schema.subscriptions.organizationId, orgId),
+    { limit: 1 }
+  );
 
   if (!subscription) return null;
 
   // Get tier details
-  const tier = await getTier(db, subscription.tierId, tenantId);
+  const tier = await getTier(tenantDb, subscription.tierId);
   if (!tier) return null;
 
   // Check if subscription is expired
@@ -297,10 +400,11 @@ export async function getSubscriptionStatus(
     subscription.status === 'active'
   ) {
     // Mark as expired
-    await db
-      .update(schema.subscriptions)
-      .set({ status: 'expired' })
-      .where(eq(schema.subscriptions.id, subscription.id));
+    await tenantDb.update(
+      schema.subscriptions,
+      { status: 'expired' },
+      eq(schema.subscriptions.id, subscription.id)
+    );
 
     return {
       id: subscription.id,
@@ -328,12 +432,11 @@ export async function getSubscriptionStatus(
 
 // Check if an organization has access to a feature
 export async function checkFeatureAccess(
-  db: Database,
+  tenantDb: TenantScopedDb,
   orgId: string,
-  featureName: string,
-  tenantId: string
+  featureName: string
 ): Promise<boolean> {
-  const subscription = await getSubscriptionStatus(db, orgId, tenantId);
+  const subscription = await getSubscriptionStatus(tenantDb, orgId);
 
   if (!subscription) return false;
   if (subscription.status !== 'active') return false;
@@ -343,13 +446,12 @@ export async function checkFeatureAccess(
 
 // Check if an organization is within a usage limit
 export async function checkLimit(
-  db: Database,
+  tenantDb: TenantScopedDb,
   orgId: string,
   limitName: string,
-  currentUsage: number,
-  tenantId: string
+  currentUsage: number
 ): Promise<{ withinLimit: boolean; limit: number; usage: number }> {
-  const subscription = await getSubscriptionStatus(db, orgId, tenantId);
+  const subscription = await getSubscriptionStatus(tenantDb, orgId);
 
   if (!subscription) {
     return { withinLimit: false, limit: 0, usage: currentUsage };
@@ -0,0 +1,75 @@
+import { describe, test, expect } from 'vitest';
+import { createUnscopedDb } from '../db';
+import { exportTenantData } from './tenant-export';
+import { provisionTenant } from './tenant';
+import { register } from './auth';
+import { createOrganization } from './organization';
+import { getSandboxTenantId } from './sandbox';
+import { createTenantScopedDb } from '../middleware/tenant-isolation';
+
+const db = createUnscopedDb(process.env.DATABASE_URL!);
+
+// Collect an export as parsed records
+async function readExport(lines: AsyncGenerator<string>) {
+  const records: Array<{ type: string; tenantId: string; data: any }> = [];
+  for await (const line of lines) {
+    expect(line.endsWith('\n')).toBe(true);
+    records.push(JSON.parse(line));
+  }
+  return records;
+}
+
+describe('Tenant Export', () => {
+  test('Exports both partitions as NDJSON without password hashes', async () => {
+    const { tenant } = await provisionTenant(db, { name: 'Acme' });
+    const { user } = await register(
+      createTenantScopedDb(db, tenant.id),
+      'owner@example.com',
+      'password123',
+      4,
+      3600
+    );
+    await createOrganization(createTenantScopedDb(db, tenant.id), 'Acme', user.id);
+    const sandboxId = getSandboxTenantId(tenant.id);
+    await register(
+      createTenantScopedDb(db, sandboxId),
+      'tester@example.com',
+      'password123',
+      4,
+      3600
+    );
+
+    const records = await readExport(exportTenantData(db, tenant));
+
+    expect(records[0]).toMatchObject({ type: 'tenant', tenantId: tenant.id });
+    expect(records[records.length - 1]).toMatchObject({ type: 'summary', tenantId: tenant.id });
+
+    const users = records.filter((record) => record.type === 'user');
+    expect(users.map((record) => record.tenantId).sort()).toEqual([tenant.id, sandboxId].sort());
+    for (const record of users) {
+      expect(record.data).not.toHaveProperty('passwordHash');
+      expect(record.data.email).toBeDefined();
+    }
+
+    const members = records.filter((record) => record.type === 'organization_member');
+    expect(members).toHaveLength(1);
+    expect(members[0].data.userId).toBe(user.id);
+
+    const { counts } = records[records.length - 1].data;
+    expect(counts.user).toBe(2);
+    expect(counts.organization).toBe(1);
+    expect(counts.role).toBe(records.filter((record) => record.type === 'role').length);
+  });
+
+  test('Other tenants are not exported', async () => {
+    const { tenant } = await provisionTenant(db, { name: 'Acme' });
+    const { tenant: other } = await provisionTenant(db, { name: 'Other' });
+    await register(createTenantScopedDb(db, other.id), 'owner@example.com', 'password123', 4, 3600);
+
+    const records = await readExport(exportTenantData(db, tenant));
+
+    expect(records.filter((record) => record.type === 'user')).toHaveLength(0);
+    const otherIds = [other.id, getSandboxTenantId(other.id)];
+    expect(records.some((record) => otherIds.includes(record.tenantId))).toBe(false);
+  });
+});
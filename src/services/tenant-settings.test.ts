@@ -0,0 +1,159 @@
+import { describe, test, expect, beforeEach } from 'vitest';
+import {
+  getTenantSettings,
+  updateTenantSettings,
+  getLogRedactionPolicy,
+  getTenantConfig,
+  resolveTenantConfig,
+  replaceConfigOverrides,
+} from './tenant-settings';
+import { createTenantScopedDb } from '../middleware/tenant-isolation';
+import { getSandboxTenantId } from './sandbox';
+import { createUnscopedDb } from '../db';
+import { schema } from '../db';
+import { loadConfig } from '../config';
+import { Env } from '../types';
+
+const db = createUnscopedDb(process.env.DATABASE_URL!);
+
+const baseConfig = loadConfig({
+  ENVIRONMENT: 'test',
+  DATABASE_URL: 'postgresql://localhost/test',
+  JWT_SECRET: 'test-secret',
+} as Env);
+
+// Tenant-owned rows need their tenant, and test-mode rows its sandbox partition
+async function createTestTenant(tenantId: string) {
+  await db
+    .insert(schema.tenants)
+    .values([
+      { id: tenantId, name: tenantId },
+      { id: getSandboxTenantId(tenantId), name: tenantId },
+    ])
+    .onConflictDoNothing();
+}
+
+// Clean up database before each test
+beforeEach(async () => {
+  await db.delete(schema.tenantSettings);
+});
+
+describe('Tenant Settings Service', () => {
+  test('Unconfigured tenants get default settings', async () => {
+    const tenantId = `tenant_${Date.now()}`;
+    await createTestTenant(tenantId);
+
+    const settings = await getTenantSettings(createTenantScopedDb(db, tenantId));
+
+    expect(settings).toEqual({
+      tenantId,
+      requireEmailVerification: false,
+      logRedaction: { rules: [], fullyRedactEmails: false },
+      config: {},
+    });
+  });
+
+  test('Settings updates are persisted per tenant', async () => {
+    const tenantId = `tenant_${Date.now()}`;
+    await createTestTenant(tenantId);
+    const tenantDb = createTenantScopedDb(db, tenantId);
+    const otherTenantId = `${tenantId}_other`;
+    await createTestTenant(otherTenantId);
+
+    await updateTenantSettings(tenantDb, { requireEmailVerification: true });
+
+    expect((await getTenantSettings(tenantDb)).requireEmailVerification).toBe(true);
+    const otherTenantDb = createTenantScopedDb(db, otherTenantId);
+    expect((await getTenantSettings(otherTenantDb)).requireEmailVerification).toBe(false);
+  });
+
+  test('Partial updates keep existing values', async () => {
+    const tenantId = `tenant_${Date.now()}`;
+    await createTestTenant(tenantId);
+    const tenantDb = createTenantScopedDb(db, tenantId);
+
+    await updateTenantSettings(tenantDb, { requireEmailVerification: true });
+    const settings = await updateTenantSettings(tenantDb, {});
+
+    expect(settings.requireEmailVerification).toBe(true);
+  });
+
+  test('Log redaction rules are persisted and picked up by the logger', async () => {
+    const tenantId = `tenant_${Date.now()}`;
+    await createTestTenant(tenantId);
+    const tenantDb = createTenantScopedDb(db, tenantId);
+
+    expect(await getLogRedactionPolicy(tenantDb)).toEqual({
+      rules: [],
+      fullyRedactEmails: false,
+    });
+
+    const logRedaction = { rules: ['ip_address' as const], fullyRedactEmails: true };
+    await updateTenantSettings(tenantDb, { logRedaction });
+
+    expect((await getTenantSettings(tenantDb)).logRedaction).toEqual(logRedaction);
+    expect(await getLogRedactionPolicy(tenantDb)).toEqual(logRedaction);
+  });
+
+  test('Configuration overrides are layered on the environment', async () => {
+    const tenantId = `tenant_${Date.now()}`;
+    await createTestTenant(tenantId);
+    const tenantDb = createTenantScopedDb(db, tenantId);
+
+    expect(await getTenantConfig(tenantDb, baseConfig)).toEqual(baseConfig);
+
+    await updateTenantSettings(tenantDb, {
+      config: { invitationExpirationSeconds: 3600, defaults: { subscriptionTier: 'free' } },
+    });
+
+    // The update invalidates this isolate's cached settings
+    const config = await getTenantConfig(tenantDb, baseConfig);
+    expect(config.invitationExpirationSeconds).toBe(3600);
+    expect(config.defaults).toEqual({ role: baseConfig.defaults.role, subscriptionTier: 'free' });
+    expect(config.sessionExpirationSeconds).toBe(baseConfig.sessionExpirationSeconds);
+  });
+
+  test('Invalid configuration overrides are rejected', () => {
+    expect(() => resolveTenantConfig(baseConfig, { bcryptWorkFactor: 40 })).toThrow(
+      'Configuration overrides are not valid'
+    );
+    expect(() =>
+      resolveTenantConfig(baseConfig, {
+        refreshTokenExpirationSeconds: baseConfig.accessTokenExpirationSeconds,
+      })
+    ).toThrow('Configuration overrides are not valid');
+  });
+
+  test('Replacing one set of overrides keeps the others', () => {
+    const current = {
+      bcryptWorkFactor: 12,
+      sessionExpirationSeconds: 3600,
+      defaults: { role: 'admin' },
+    };
+
+    expect(
+      replaceConfigOverrides(current, ['sessionExpirationSeconds', 'defaults'], {
+        invitationExpirationSeconds: 600,
+      })
+    ).toEqual({ bcryptWorkFactor: 12, invitationExpirationSeconds: 600 });
+    expect(replaceConfigOverrides(current, ['bcryptWorkFactor'], {})).toEqual({
+      sessionExpirationSeconds: 3600,
+      defaults: { role: 'admin' },
+    });
+  });
+
+  test('Stored overrides that no longer validate fall back to the environment', async () => {
+    const tenantId = `tenant_${Date.now()}`;
+    await createTestTenant(tenantId);
+    const tenantDb = createTenantScopedDb(db, tenantId);
+
+    await updateTenantSettings(tenantDb, { config: { accessTokenExpirationSeconds: 3600 } });
+
+    // Valid with the base refresh token lifetime, but not with a shorter one
+    const config = await getTenantConfig(tenantDb, {
+      ...baseConfig,
+      refreshTokenExpirationSeconds: 1800,
+    });
+    expect(config.accessTokenExpirationSeconds).toBe(baseConfig.accessTokenExpirationSeconds);
+  });
+});
@@ -0,0 +1,165 @@
+import { schema } from '../db';
+import { TenantSettings } from '../types';
+import { RedactionPolicy } from '../middleware/logger';
+import { AppError } from '../middleware/error-handler';
+import { TenantScopedDb } from '../middleware/tenant-isolation';
+import { AppConfig, TenantConfigOverrides, mergeConfig, validateConfig } from '../config';
+import { AuditContext, recordAuditEvent, diffChanges } from './audit';
+
+// Settings used for tenants that haven't configured anything yet
+const DEFAULT_TENANT_SETTINGS: Omit<TenantSettings, 'tenantId'> = {
+  requireEmailVerification: false,
+  logRedaction: { rules: [], fullyRedactEmails: false },
+  config: {},
+};
+
+// How long an isolate reuses a tenant's settings before re-reading them
+const SETTINGS_CACHE_MS = 60 * 1000;
+
+// The redaction policy and configuration are needed on every request, so
+// settings are cached per isolate
+const settingsCache = new Map<string, { settings: TenantSettings; expiresAt: number }>();
+
+function toTenantSettings(row: typeof schema.tenantSettings.$inferSelect): TenantSettings {
+  return {
+    tenantId: row.tenantId,
+    requireEmailVerification: row.requireEmailVerification,
+    logRedaction: row.logRedaction,
+    config: row.config,
+  };
+}
+
+// Get settings for a tenant, falling back to defaults
+export async function getTenantSettings(tenantDb: TenantScopedDb): Promise<TenantSettings> {
+  const [settings] = await tenantDb.select(schema.tenantSettings, undefined, { limit: 1 });
+
+  if (!settings) {
+    return { tenantId: tenantDb.tenantId, ...DEFAULT_TENANT_SETTINGS };
+  }
+
+  return toTenantSettings(settings);
+}
+
+// Get settings for a tenant, cached for SETTINGS_CACHE_MS
+async function getCachedTenantSettings(tenantDb: TenantScopedDb): Promise<TenantSettings> {
+  const cached = settingsCache.get(tenantDb.tenantId);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.settings;
+  }
+
+  const settings = await getTenantSettings(tenantDb);
+  settingsCache.set(tenantDb.tenantId, { settings, expiresAt: Date.now() + SETTINGS_CACHE_MS });
+  return settings;
+}
+
+// Get a tenant's log redaction policy
+export async function getLogRedactionPolicy(tenantDb: TenantScopedDb): Promise<RedactionPolicy> {
+  return (await getCachedTenantSettings(tenantDb)).logRedaction;
+}
+
+// Layer a tenant's overrides on the environment's configuration. Throws if the
+// result doesn't pass validateConfig.
+export function resolveTenantConfig(base: AppConfig, overrides: TenantConfigOverrides): AppConfig {
+  const config = mergeConfig(base, overrides) as AppConfig;
+  const { valid, errors } = validateConfig(config);
+  if (!valid) {
+    throw new AppError('INVALID_CONFIG', 'Configuration overrides are not valid', 400, {
+      field: 'config',
+      errors,
+    });
+  }
+
+  return config;
+}
+
+// Replace the overrides for some keys and keep the others. A tenant and the
+// operators each set their own keys (TENANT_CONFIG_KEYS and
+// OPERATOR_CONFIG_KEYS), and neither update drops the other's.
+export function replaceConfigOverrides(
+  current: TenantConfigOverrides,
+  keys: readonly string[],
+  overrides: TenantConfigOverrides
+): TenantConfigOverrides {
+  const kept = Object.entries(current).filter(([key]) => !keys.includes(key));
+  return { ...Object.fromEntries(kept), ...overrides };
+}
+
+// Get a tenant's configuration. Overrides that no longer validate against the
+// environment (e.g. after the environment's values changed) are ignored, so a
+// bad override can't take the tenant offline.
+export async function getTenantConfig(
+  tenantDb: TenantScopedDb,
+  base: AppConfig
+): Promise<AppConfig> {
+  const { config } = await getCachedTenantSettings(tenantDb);
+  try {
+    return resolveTenantConfig(base, config);
+  } catch {
+    return base;
+  }
+}
+
+// Create or update settings for a tenant
+export async function updateTenantSettings(
+  tenantDb: TenantScopedDb,
+  updates: Partial<Omit<TenantSettings, 'tenantId'>>,
+  audit: AuditContext = {}
+): Promise<TenantSettings> {
+  const { tenantId } = tenantDb;
+  const current = await getTenantSettings(tenantDb);
+  const next: TenantSettings = {
+    tenantId,
+    requireEmailVerification:
+      updates.requireEmailVerification ?? current.requireEmailVerification,
+    logRedaction: updates.logRedaction ?? current.logRedaction,
+    config: updates.config ?? current.config,
+  };
+
+  // The scoped insert helper can't upsert, so the tenant is set here
+  const [settings] = await tenantDb.db
+    .insert(schema.tenantSettings)
+    .values({
+      tenantId,
+      requireEmailVerification: next.requireEmailVerification,
+      logRedaction: next.logRedaction,
+      config: next.config,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    })
+    .onConflictDoUpdate({
+      target: schema.tenantSettings.tenantId,
+      set: {
+        requireEmailVerification: next.requireEmailVerification,
+        logRedaction: next.logRedaction,
+        config: next.config,
+        updatedAt: new Date(),
+      },
+    })
+    .returning();
+
+  // Other isolates pick up the change when their cache entry expires
+  settingsCache.delete(tenantId);
+
+  const changes = diffChanges(
+    {
+      requireEmailVerification: current.requireEmailVerification,
+      logRedaction: current.logRedaction,
+      config: current.config,
+    },
+    {
+      requireEmailVerification: next.requireEmailVerification,
+      logRedaction: next.logRedaction,
+      config: next.config,
+    }
+  );
+  if (changes) {
+    await recordAuditEvent(tenantDb, audit, {
+      action: 'settings.updated',
+      targetType: 'tenant',
+      targetId: tenantId,
+      changes,
+    });
+  }
+
+  return toTenantSettings(settings);
+}
@@ -0,0 +1,164 @@
+import { describe, test, expect } from 'vitest';
+import { eq } from 'drizzle-orm';
+import { createUnscopedDb, schema } from '../db';
+import {
+  provisionTenant,
+  getTenant,
+  listTenants,
+  updateTenant,
+  deleteTenant,
+  restoreTenant,
+  purgeTenant,
+  purgeDeletedTenants,
+  DEFAULT_TENANT_ROLES,
+} from './tenant';
+import { validateApiKey } from './api-key';
+import { register } from './auth';
+import { createOrganization } from './organization';
+import { getRoles } from './permission';
+import { getTiers } from './subscription';
+import { getSandboxTenantId } from './sandbox';
+import { createTenantScopedDb } from '../middleware/tenant-isolation';
+
+const db = createUnscopedDb(process.env.DATABASE_URL!);
+
+describe('Tenant Provisioning', () => {
+  test('Provisioning creates the tenant, its sandbox, defaults and a working key', async () => {
+    const { tenant, apiKey } = await provisionTenant(db, {
+      name: 'Acme',
+      plan: 'starter',
+      metadata: { region: 'eu' },
+    });
+
+    expect(tenant.id).toMatch(/^tenant_[0-9a-f]{24}$/);
+    expect(tenant.status).toBe('active');
+    expect(tenant.metadata).toEqual({ region: 'eu' });
+    expect(await getTenant(db, getSandboxTenantId(tenant.id))).not.toBeNull();
+
+    for (const partition of [tenant.id, getSandboxTenantId(tenant.id)]) {
+      const tenantDb = createTenantScopedDb(db, partition);
+      const roles = await getRoles(tenantDb);
+      expect(roles.map((role) => role.name).sort()).toEqual(['admin', 'member', 'owner']);
+      expect(roles.find((role) => role.isDefault)?.name).toBe('member');
+      expect((await getTiers(tenantDb)).map((tier) => tier.name)).toEqual(['free']);
+    }
+
+    const validated = await validateApiKey(db, apiKey);
+    expect(validated.tenantId).toBe(tenant.id);
+  });
+
+  test('Tenant IDs must be unique', async () => {
+    const id = `tenant_${Date.now()}`;
+    await provisionTenant(db, { id, name: 'Acme' });
+
+    await expect(provisionTenant(db, { id, name: 'Other' })).rejects.toThrow(
+      'A tenant with this ID already exists'
+    );
+  });
+
+  test('Sandbox partitions are not listed', async () => {
+    const { tenant } = await provisionTenant(db, { name: 'Acme' });
+    const ids = (await listTenants(db)).map((listed) => listed.id);
+
+    expect(ids).toContain(tenant.id);
+    expect(ids).not.toContain(getSandboxTenantId(tenant.id));
+  });
+});
+
+describe('Tenant Suspension', () => {
+  test('Suspended tenants cannot use their API keys until reactivated', async () => {
+    const { tenant, apiKey } = await provisionTenant(db, { name: 'Acme' });
+
+    const suspended = await updateTenant(db, tenant.id, { status: 'suspended' });
+    expect(suspended.status).toBe('suspended');
+    await expect(validateApiKey(db, apiKey)).rejects.toThrow('Tenant is suspended');
+
+    await updateTenant(db, tenant.id, { status: 'active' });
+    expect((await validateApiKey(db, apiKey)).tenantId).toBe(tenant.id);
+  });
+
+  test('Only active and suspended can be set directly', async () => {
+    const { tenant } = await provisionTenant(db, { name: 'Acme' });
+
+    await expect(updateTenant(db, tenant.id, { status: 'deleted' })).rejects.toThrow(
+      'status must be one of: active, suspended'
+    );
+  });
+
+  test('Updating an unknown tenant fails', async () => {
+    await expect(updateTenant(db, 'tenant_missing', { name: 'Acme' })).rejects.toThrow(
+      'Tenant not found'
+    );
+  });
+});
+
+describe('Tenant Deletion', () => {
+  test('Deleted tenants cannot use their API keys until restored', async () => {
+    const { tenant, apiKey } = await provisionTenant(db, { name: 'Acme' });
+
+    const deleted = await deleteTenant(db, tenant.id, 3600);
+    expect(deleted.status).toBe('deleted');
+    expect(deleted.purgeAfter!.getTime()).toBeGreaterThan(Date.now());
+    await expect(validateApiKey(db, apiKey)).rejects.toThrow('Tenant is deleted');
+
+    const restored = await restoreTenant(db, tenant.id);
+    expect(restored.status).toBe('active');
+    expect(restored.purgeAfter).toBeNull();
+    expect((await validateApiKey(db, apiKey)).tenantId).toBe(tenant.id);
+  });
+
+  test('Only deleted tenants can be purged', async () => {
+    const { tenant } = await provisionTenant(db, { name: 'Acme' });
+
+    await expect(purgeTenant(db, tenant.id)).rejects.toThrow('Only deleted tenants can be purged');
+  });
+
+  test('Purging removes every row of both partitions and verifies it', async () => {
+    const { tenant, apiKey } = await provisionTenant(db, { name: 'Acme' });
+    const { user } = await register(
+      createTenantScopedDb(db, tenant.id),
+      'owner@example.com',
+      'password123',
+      4,
+      3600
+    );
+    await createOrganization(createTenantScopedDb(db, tenant.id), 'Acme', user.id);
+    await register(
+      createTenantScopedDb(db, getSandboxTenantId(tenant.id)),
+      'tester@example.com',
+      'password123',
+      4,
+      3600
+    );
+
+    await deleteTenant(db, tenant.id, 3600);
+    const report = await purgeTenant(db, tenant.id);
+
+    expect(report.verified).toBe(true);
+    expect(report.tables.tenants).toEqual({ deleted: 2, remaining: 0 });
+    expect(report.tables.users).toEqual({ deleted: 2, remaining: 0 });
+    expect(report.tables.sessions.deleted).toBe(2);
+    expect(report.tables.organization_members).toEqual({ deleted: 1, remaining: 0 });
+    expect(report.tables.roles.deleted).toBe(DEFAULT_TENANT_ROLES.length * 2);
+    expect(report.tables.api_keys.deleted).toBe(1);
+
+    expect(await getTenant(db, tenant.id)).toBeNull();
+    expect(await db.select().from(schema.users).where(eq(schema.users.id, user.id))).toEqual([]);
+    await expect(validateApiKey(db, apiKey)).rejects.toThrow('API key not found');
+  });
+
+  test('Deleted tenants are purged once their grace period ends', async () => {
+    const { tenant: expired } = await provisionTenant(db, { name: 'Expired' });
+    const { tenant: pending } = await provisionTenant(db, { name: 'Pending' });
+    await deleteTenant(db, expired.id, 0);
+    await deleteTenant(db, pending.id, 3600);
+
+    const reports = await purgeDeletedTenants(db, new Date(Date.now() + 1000));
+
+    const purged = reports.map((report) => report.tenantId);
+    expect(purged).toContain(expired.id);
+    expect(purged).not.toContain(pending.id);
+    expect(await getTenant(db, expired.id)).toBeNull();
+    expect((await getTenant(db, pending.id))?.status).toBe('deleted');
+  });
+});
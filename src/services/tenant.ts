@@ -0,0 +1,419 @@
+import { eq, and, asc, lte, notLike, inArray, count, sql, SQL, getTableName } from 'drizzle-orm';
+import type { PgTable } from 'drizzle-orm/pg-core';
+import * as crypto from 'crypto';
+import { Database } from '../db';
+import { schema } from '../db';
+import {
+  ApiKey,
+  Role,
+  SubscriptionTier,
+  Tenant,
+  TenantStatus,
+  TenantPurgeReport,
+} from '../types';
+import { AppError } from '../middleware/error-handler';
+import { createTenantScopedDb, TenantScopedTable } from '../middleware/tenant-isolation';
+import { createApiKey } from './api-key';
+import { defineRole } from './permission';
+import { defineTier } from './subscription';
+import { getSandboxTenantId } from './sandbox';
+import { AuditContext, recordAuditEvent, diffChanges } from './audit';
+
+// Roles every new tenant starts with. Members are the default role for
+// invitations (see config.defaults.role).
+export const DEFAULT_TENANT_ROLES: Omit<Role, 'tenantId'>[] = [
+  { name: 'owner', permissions: ['*'], isDefault: false },
+  {
+    name: 'admin',
+    permissions: ['organizations.*', 'subscriptions.*', 'usage.*'],
+    isDefault: false,
+  },
+  { name: 'member', permissions: ['organizations.view', 'usage.view'], isDefault: true },
+];
+
+// Tiers every new tenant starts with
+export const DEFAULT_TENANT_TIERS: Pick<SubscriptionTier, 'name' | 'features' | 'limits'>[] = [
+  { name: 'free', features: [], limits: {} },
+];
+
+// Statuses operators can set directly. Deletion has its own flow.
+const SETTABLE_STATUSES: TenantStatus[] = ['active', 'suspended'];
+
+// Every table holding a tenant's rows besides tenants itself, for the purge
+// report. Deleting the tenant cascades to all of them.
+const TENANT_DATA_TABLES: TenantScopedTable[] = [
+  schema.users,
+  schema.sessions,
+  schema.passwordResetTokens,
+  schema.emailVerificationTokens,
+  schema.mfaFactors,
+  schema.mfaRecoveryCodes,
+  schema.mfaChallenges,
+  schema.organizations,
+  schema.organizationMembers,
+  schema.invitations,
+  schema.roles,
+  schema.subscriptionTiers,
+  schema.subscriptions,
+  schema.usageRecords,
+  schema.apiKeys,
+  schema.tenantSettings,
+  schema.auditEvents,
+  schema.webhookEndpoints,
+  schema.webhookDeliveries,
+  schema.outbox,
+];
+
+export interface TenantInput {
+  id?: string; // Generated when omitted
+  name: string;
+  plan?: string | null;
+  metadata?: Record<string, unknown>;
+}
+
+export interface TenantUpdate {
+  name?: string;
+  plan?: string | null;
+  status?: TenantStatus;
+}
+
+function toTenant(record: typeof schema.tenants.$inferSelect): Tenant {
+  return {
+    id: record.id,
+    name: record.name,
+    status: record.status as TenantStatus,
+    plan: record.plan,
+    metadata: record.metadata,
+    purgeAfter: record.purgeAfter,
+    createdAt: record.createdAt,
+    updatedAt: record.updatedAt,
+  };
+}
+
+// Generate an ID for a tenant provisioned without one
+export function generateTenantId(): string {
+  return `tenant_${crypto.randomBytes(12).toString('hex')}`;
+}
+
+// Create a tenant with its sandbox partition, default roles and tiers in both,
+// and a live API key with full access. Pass a database handle that isn't
+// scoped to a tenant. The plaintext key is only returned here.
+export async function provisionTenant(
+  db: Database,
+  input: TenantInput,
+  audit: AuditContext = {}
+): Promise<{ tenant: Tenant; apiKey: string; key: ApiKey }> {
+  const id = input.id ?? generateTenantId();
+  if (await getTenant(db, id)) {
+    throw new AppError('TENANT_EXISTS', 'A tenant with this ID already exists', 409, {
+      field: 'id',
+    });
+  }
+
+  return db.transaction(async (tx) => {
+    const now = new Date();
+    const [record] = await tx
+      .insert(schema.tenants)
+      .values([
+        {
+          id,
+          name: input.name,
+          plan: input.plan ?? null,
+          metadata: input.metadata ?? {},
+          createdAt: now,
+          updatedAt: now,
+        },
+        {
+          id: getSandboxTenantId(id),
+          name: input.name,
+          plan: input.plan ?? null,
+          createdAt: now,
+          updatedAt: now,
+        },
+      ])
+      .returning();
+    const tenant = toTenant(record);
+
+    await recordAuditEvent(createTenantScopedDb(tx, id), audit, {
+      action: 'tenant.provisioned',
+      targetType: 'tenant',
+      targetId: id,
+      changes: diffChanges(null, { name: tenant.name, plan: tenant.plan, status: tenant.status }),
+    });
+
+    for (const partition of [id, getSandboxTenantId(id)]) {
+      const tenantDb = createTenantScopedDb(tx, partition);
+      for (const role of DEFAULT_TENANT_ROLES) {
+        await defineRole(tenantDb, role.name, role.permissions, role.isDefault, audit);
+      }
+      for (const tier of DEFAULT_TENANT_TIERS) {
+        await defineTier(tenantDb, tier.name, tier.features, tier.limits, audit);
+      }
+    }
+
+    const { apiKey, record: key } = await createApiKey(
+      createTenantScopedDb(tx, id),
+      'Default',
+      {},
+      audit,
+    );
+
+    return { tenant, apiKey, key };
+  });
+}
+
+// Get a tenant by ID
+export async function getTenant(db: Database, tenantId: string): Promise<Tenant | null> {
+  const [record] = await db
+    .select()
+    .from(schema.tenants)
+    .where(eq(schema.tenants.id, tenantId))
+    .limit(1);
+
+  return record ? toTenant(record) : null;
+}
+
+// List tenants, oldest first. Sandbox partitions are left out.
+export async function listTenants(db: Database): Promise<Tenant[]> {
+  const records = await db
+    .select()
+    .from(schema.tenants)
+    .where(notLike(schema.tenants.id, getSandboxTenantId('%')))
+    .orderBy(asc(schema.tenants.createdAt));
+
+  return records.map(toTenant);
+}
+
+// Rename a tenant, change its plan, or suspend or reactivate it. A suspended
+// tenant's API keys are rejected until it is reactivated.
+export async function updateTenant(
+  db: Database,
+  tenantId: string,
+  update: TenantUpdate,
+  audit: AuditContext = {}
+): Promise<Tenant> {
+  if (update.status !== undefined && !SETTABLE_STATUSES.includes(update.status)) {
+    throw new AppError(
+      'INVALID_INPUT',
+      `status must be one of: ${SETTABLE_STATUSES.join(', ')}`,
+      400,
+      { field: 'status' }
+    );
+  }
+
+  const previous = await getTenant(db, tenantId);
+  if (!previous || previous.status === 'deleted') {
+    throw new AppError('TENANT_NOT_FOUND', 'Tenant not found', 404);
+  }
+
+  const [record] = await db
+    .update(schema.tenants)
+    .set({ ...update, updatedAt: new Date() })
+    .where(eq(schema.tenants.id, tenantId))
+    .returning();
+  const tenant = toTenant(record);
+
+  await recordAuditEvent(createTenantScopedDb(db, tenantId), audit, {
+    action: 'tenant.updated',
+    targetType: 'tenant',
+    targetId: tenantId,
+    changes: diffChanges(
+      { name: previous.name, plan: previous.plan, status: previous.status },
+      { ...update }
+    ),
+  });
+
+  return tenant;
+}
+
+// Delete a tenant: its API keys stop working right away, and its data is
+// purged once the grace period ends unless it is restored first
+export async function deleteTenant(
+  db: Database,
+  tenantId: string,
+  gracePeriodSeconds: number,
+  audit: AuditContext = {}
+): Promise<Tenant> {
+  if (!Number.isInteger(gracePeriodSeconds) || gracePeriodSeconds < 0) {
+    throw new AppError('INVALID_INPUT', 'gracePeriodSeconds must be a non-negative integer', 400, {
+      field: 'gracePeriodSeconds',
+    });
+  }
+
+  const previous = await getTenant(db, tenantId);
+  if (!previous || previous.status === 'deleted') {
+    throw new AppError('TENANT_NOT_FOUND', 'Tenant not found', 404);
+  }
+
+  const [record] = await db
+    .update(schema.tenants)
+    .set({
+      status: 'deleted',
+      purgeAfter: new Date(Date.now() + gracePeriodSeconds * 1000),
+      updatedAt: new Date(),
+    })
+    .where(eq(schema.tenants.id, tenantId))
+    .returning();
+  const tenant = toTenant(record);
+
+  await recordAuditEvent(createTenantScopedDb(db, tenantId), audit, {
+    action: 'tenant.deleted',
+    targetType: 'tenant',
+    targetId: tenantId,
+    changes: diffChanges(
+      { status: previous.status, purgeAfter: null },
+      { status: tenant.status, purgeAfter: tenant.purgeAfter }
+    ),
+  });
+
+  return tenant;
+}
+
+// Undo a deletion during the grace period
+export async function restoreTenant(
+  db: Database,
+  tenantId: string,
+  audit: AuditContext = {}
+): Promise<Tenant> {
+  const previous = await getTenant(db, tenantId);
+  if (!previous) {
+    throw new AppError('TENANT_NOT_FOUND', 'Tenant not found', 404);
+  }
+  if (previous.status !== 'deleted') {
+    throw new AppError('TENANT_NOT_DELETED', 'Tenant is not deleted', 409);
+  }
+
+  const [record] = await db
+    .update(schema.tenants)
+    .set({ status: 'active', purgeAfter: null, updatedAt: new Date() })
+    .where(eq(schema.tenants.id, tenantId))
+    .returning();
+  const tenant = toTenant(record);
+
+  await recordAuditEvent(createTenantScopedDb(db, tenantId), audit, {
+    action: 'tenant.restored',
+    targetType: 'tenant',
+    targetId: tenantId,
+    changes: diffChanges(
+      { status: previous.status, purgeAfter: previous.purgeAfter },
+      { status: tenant.status, purgeAfter: null }
+    ),
+  });
+
+  return tenant;
+}
+
+// Rate limit counters for the Postgres store are keyed by tenant rather than
+// tied to it (see rateLimit): `ratelimit:tenant:<id>` and
+// `ratelimit:<name>:<id>:<subject>`. The other stores expire on their own.
+function rateLimitCounterFilter(tenantId: string): SQL {
+  const escaped = tenantId.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const pattern = `^ratelimit:(tenant:${escaped}$|[^:]+:${escaped}:)`;
+  return sql`${schema.rateLimitCounters.key} ~ ${pattern}`;
+}
+
+// IDs of a tenant's organizations (both partitions). Tables without a
+// tenant_id belong to the tenant through these.
+async function getOrganizationIds(db: Database, tenantId: string): Promise<string[]> {
+  const organizations = await db
+    .select({ id: schema.organizations.id })
+    .from(schema.organizations)
+    .where(inArray(schema.organizations.tenantId, [tenantId, getSandboxTenantId(tenantId)]));
+  return organizations.map(({ id }) => id);
+}
+
+// Count a tenant's rows (both partitions) in every table. Rows of tables
+// without a tenant_id are counted by the organizations given, so counts after
+// the purge still find rows left behind by organizations that are gone.
+async function countTenantRows(
+  db: Database,
+  tenantId: string,
+  organizationIds: string[]
+): Promise<Record<string, number>> {
+  const partitions = [tenantId, getSandboxTenantId(tenantId)];
+  const counts: Record<string, number> = {};
+
+  const [tenants] = await db
+    .select({ value: count() })
+    .from(schema.tenants)
+    .where(inArray(schema.tenants.id, partitions));
+  counts.tenants = tenants.value;
+
+  for (const table of TENANT_DATA_TABLES) {
+    const [rows] = await db
+      .select({ value: count() })
+      .from(table as PgTable)
+      .where(
+        'tenantId' in table
+          ? inArray(table.tenantId, partitions)
+          : inArray(table.organizationId, organizationIds)
+      );
+    counts[getTableName(table)] = rows.value;
+  }
+
+  const [counters] = await db
+    .select({ value: count() })
+    .from(schema.rateLimitCounters)
+    .where(rateLimitCounterFilter(tenantId));
+  counts.rate_limit_counters = counters.value;
+
+  return counts;
+}
+
+// Permanently remove a deleted tenant and everything stored for it, then
+// check that nothing is left. Operators can purge before the grace period
+// ends. Nothing is audited, since the audit trail goes too; keep the report.
+export async function purgeTenant(db: Database, tenantId: string): Promise<TenantPurgeReport> {
+  const tenant = await getTenant(db, tenantId);
+  if (!tenant) {
+    throw new AppError('TENANT_NOT_FOUND', 'Tenant not found', 404);
+  }
+  if (tenant.status !== 'deleted') {
+    throw new AppError('TENANT_NOT_DELETED', 'Only deleted tenants can be purged', 409);
+  }
+
+  const organizationIds = await getOrganizationIds(db, tenantId);
+  const before = await countTenantRows(db, tenantId, organizationIds);
+
+  await db.transaction(async (tx) => {
+    await tx.delete(schema.rateLimitCounters).where(rateLimitCounterFilter(tenantId));
+    // Cascades to every tenant-owned table
+    await tx
+      .delete(schema.tenants)
+      .where(inArray(schema.tenants.id, [tenantId, getSandboxTenantId(tenantId)]));
+  });
+
+  const remaining = await countTenantRows(db, tenantId, organizationIds);
+  const tables = Object.fromEntries(
+    Object.entries(before).map(([table, rows]) => [
+      table,
+      { deleted: rows - remaining[table], remaining: remaining[table] },
+    ])
+  );
+
+  return {
+    tenantId,
+    purgedAt: new Date(),
+    tables,
+    verified: Object.values(remaining).every((rows) => rows === 0),
+  };
+}
+
+// Purge the deleted tenants whose grace period has ended. Run from the
+// Worker's scheduled handler.
+export async function purgeDeletedTenants(
+  db: Database,
+  now: Date = new Date()
+): Promise<TenantPurgeReport[]> {
+  const due = await db
+    .select({ id: schema.tenants.id })
+    .from(schema.tenants)
+    .where(and(eq(schema.tenants.status, 'deleted'), lte(schema.tenants.purgeAfter, now)));
+
+  const reports: TenantPurgeReport[] = [];
+  for (const { id } of due) {
+    reports.push(await purgeTenant(db, id));
+  }
+
+  return reports;
+}
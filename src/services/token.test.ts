@@ -0,0 +1,197 @@
+import { describe, test, expect, beforeEach } from 'vitest';
+import * as fc from 'fast-check';
+import {
+  signJwt,
+  verifyJwt,
+  issueAccessToken,
+  verifyAccessToken,
+  issueTokens,
+  refreshTokens,
+  revokeRefreshToken,
+} from './token';
+import { register } from './auth';
+import { createTenantScopedDb } from '../middleware/tenant-isolation';
+import { getSandboxTenantId } from './sandbox';
+import { createUnscopedDb } from '../db';
+import { schema } from '../db';
+
+const db = createUnscopedDb(process.env.DATABASE_URL!);
+
+// Tenant-owned rows need their tenant, and test-mode rows its sandbox partition
+async function createTestTenant(tenantId: string) {
+  await db
+    .insert(schema.tenants)
+    .values([
+      { id: tenantId, name: tenantId },
+      { id: getSandboxTenantId(tenantId), name: tenantId },
+    ])
+    .onConflictDoNothing();
+}
+
+const SECRET = 'test-secret';
+
+describe('Tokens - JWT Access Tokens', () => {
+  test('Signed payloads round-trip', () => {
+    fc.assert(
+      fc.property(fc.string(), fc.string(), (sub, tenantId) => {
+        const exp = Math.floor(Date.now() / 1000) + 60;
+        const token = signJwt({ sub, tenantId, exp }, SECRET);
+
+        expect(verifyJwt(token, SECRET)).toEqual({ sub, tenantId, exp });
+        return true;
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  test('Tokens signed with another secret are rejected', () => {
+    const token = signJwt({ sub: 'user_123', exp: Math.floor(Date.now() / 1000) + 60 }, SECRET);
+
+    expect(verifyJwt(token, 'other-secret')).toBeNull();
+  });
+
+  test('Tampered payloads are rejected', () => {
+    const { accessToken } = issueAccessToken(
+      { id: 'user_123', tenantId: 'tenant_a', email: 'a@example.com' },
+      SECRET,
+      60
+    );
+    const [header, , signature] = accessToken.split('.');
+    const forged = Buffer.from(
+      JSON.stringify({ sub: 'user_123', tenantId: 'tenant_b', email: 'a@example.com', exp: 9999999999 })
+    ).toString('base64url');
+
+    expect(verifyAccessToken(`${header}.${forged}.${signature}`, SECRET)).toBeNull();
+  });
+
+  test('Expired tokens are rejected', () => {
+    const { accessToken } = issueAccessToken(
+      { id: 'user_123', tenantId: 'tenant_a', email: 'a@example.com' },
+      SECRET,
+      60
+    );
+
+    expect(verifyJwt(accessToken, SECRET, Date.now() + 61_000)).toBeNull();
+  });
+
+  test('Tokens with a different algorithm are rejected', () => {
+    const header = Buffer.from(JSON.stringify({ alg: 'none', typ: 'JWT' })).toString('base64url');
+    const payload = Buffer.from(
+      JSON.stringify({ sub: 'user_123', tenantId: 'tenant_a', exp: 9999999999 })
+    ).toString('base64url');
+
+    expect(verifyJwt(`${header}.${payload}.`, SECRET)).toBeNull();
+  });
+
+  test('Access token claims carry the user identity', () => {
+    const { accessToken, expiresAt } = issueAccessToken(
+      { id: 'user_123', tenantId: 'tenant_a', email: 'a@example.com' },
+      SECRET,
+      900
+    );
+    const claims = verifyAccessToken(accessToken, SECRET);
+
+    expect(claims).toMatchObject({ sub: 'user_123', tenantId: 'tenant_a', email: 'a@example.com' });
+    expect(claims!.exp - claims!.iat).toBe(900);
+    expect(expiresAt.getTime()).toBe(claims!.exp * 1000);
+  });
+});
+
+describe('Tokens - Refresh Token Rotation', () => {
+  // Clean up database before each test
+  beforeEach(async () => {
+    await db.delete(schema.sessions);
+    await db.delete(schema.users);
+  });
+
+  async function createTokenUser() {
+    const email = `token_${Date.now()}@example.com`;
+    const tenantId = `tenant_${Date.now()}`;
+    await createTestTenant(tenantId);
+    const tenantDb = createTenantScopedDb(db, tenantId);
+    const { user } = await register(tenantDb, email, 'Password123', 4, 3600);
+    const tokens = await issueTokens(tenantDb, user, SECRET, 300, 3600);
+
+    return { user, tenantId, tokens };
+  }
+
+  test('Refresh tokens are stored hashed', async () => {
+    const { tokens } = await createTokenUser();
+
+    const rows = await db.select().from(schema.sessions);
+    const refreshRow = rows.find((row) => row.kind === 'refresh');
+
+    expect(refreshRow).toBeDefined();
+    expect(refreshRow!.token).not.toBe(tokens.refreshToken);
+  });
+
+  test('Refreshing rotates the refresh token', async () => {
+    const { user, tenantId, tokens } = await createTokenUser();
+    const tenantDb = createTenantScopedDb(db, tenantId);
+
+    const next = await refreshTokens(tenantDb, tokens.refreshToken, SECRET, 300, 3600);
+
+    expect(next.refreshToken).not.toBe(tokens.refreshToken);
+    expect(verifyAccessToken(next.accessToken, SECRET)?.sub).toBe(user.id);
+
+    // The new token can be used in turn
+    await expect(
+      refreshTokens(tenantDb, next.refreshToken, SECRET, 300, 3600)
+    ).resolves.toBeDefined();
+  });
+
+  test('Reusing a rotated token revokes the whole family', async () => {
+    const { tenantId, tokens } = await createTokenUser();
+    const tenantDb = createTenantScopedDb(db, tenantId);
+
+    const next = await refreshTokens(tenantDb, tokens.refreshToken, SECRET, 300, 3600);
+
+    await expect(
+      refreshTokens(tenantDb, tokens.refreshToken, SECRET, 300, 3600)
+    ).rejects.toThrow('Refresh token has already been used');
+
+    // The legitimately rotated token is revoked too
+    await expect(
+      refreshTokens(tenantDb, next.refreshToken, SECRET, 300, 3600)
+    ).rejects.toThrow('Invalid or expired refresh token');
+  });
+
+  test('A refresh that fails to issue tokens leaves the old token usable', async () => {
+    const { tenantId, tokens } = await createTokenUser();
+    const tenantDb = createTenantScopedDb(db, tenantId);
+
+    // An expiration this far out can't be stored, so issuing the new pair fails
+    await expect(
+      refreshTokens(tenantDb, tokens.refreshToken, SECRET, 300, 1e20)
+    ).rejects.toThrow();
+
+    await expect(
+      refreshTokens(tenantDb, tokens.refreshToken, SECRET, 300, 3600)
+    ).resolves.toBeDefined();
+  });
+
+  test('Refresh tokens are scoped to their tenant', async () => {
+    const { tenantId, tokens } = await createTokenUser();
+
+    await expect(
+      refreshTokens(
+        createTenantScopedDb(db, `${tenantId}_other`),
+        tokens.refreshToken,
+        SECRET,
+        300,
+        3600
+      )
+    ).rejects.toThrow('Invalid or expired refresh token');
+  });
+
+  test('Revoked tokens cannot be refreshed', async () => {
+    const { tenantId, tokens } = await createTokenUser();
+    const tenantDb = createTenantScopedDb(db, tenantId);
+
+    await revokeRefreshToken(tenantDb, tokens.refreshToken);
+
+    await expect(
+      refreshTokens(tenantDb, tokens.refreshToken, SECRET, 300, 3600)
+    ).rejects.toThrow('Invalid or expired refresh token');
+  });
+});
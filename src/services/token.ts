@@ -0,0 +1,235 @@
+import { eq, and, isNull } from 'drizzle-orm';
+import { schema } from '../db';
+import { User, AccessTokenClaims, TokenPair } from '../types';
+import { AppError } from '../middleware/error-handler';
+import { TenantScopedDb } from '../middleware/tenant-isolation';
+import { AuditContext, recordAuditEvent } from './audit';
+import * as crypto from 'crypto';
+
+const JWT_HEADER = { alg: 'HS256', typ: 'JWT' };
+
+// Generate a cryptographically random refresh token
+function generateRefreshToken(): string {
+  return crypto.randomBytes(32).toString('base64url');
+}
+
+// Hash a refresh token for storage (using SHA-256)
+function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+function encodeSegment(value: object): string {
+  return Buffer.from(JSON.stringify(value)).toString('base64url');
+}
+
+function sign(data: string, secret: string): Buffer {
+  return crypto.createHmac('sha256', secret).update(data).digest();
+}
+
+// Sign a payload as an HS256 JWT
+export function signJwt(payload: object, secret: string): string {
+  const data = `${encodeSegment(JWT_HEADER)}.${encodeSegment(payload)}`;
+  return `${data}.${sign(data, secret).toString('base64url')}`;
+}
+
+// Verify an HS256 JWT and return its payload, or null if the signature,
+// algorithm or expiry check fails
+export function verifyJwt<T extends { exp?: number }>(
+  token: string,
+  secret: string,
+  now: number = Date.now()
+): T | null {
+  const parts = token.split('.');
+  if (parts.length !== 3) {
+    return null;
+  }
+
+  const [headerSegment, payloadSegment, signatureSegment] = parts;
+  const expected = sign(`${headerSegment}.${payloadSegment}`, secret);
+  const signature = Buffer.from(signatureSegment, 'base64url');
+
+  if (signature.length !== expected.length || !crypto.timingSafeEqual(signature, expected)) {
+    return null;
+  }
+
+  try {
+    // Only accept the algorithm we sign with
+    const header = JSON.parse(Buffer.from(headerSegment, 'base64url').toString());
+    if (header.alg !== JWT_HEADER.alg) {
+      return null;
+    }
+
+    const payload = JSON.parse(Buffer.from(payloadSegment, 'base64url').toString()) as T;
+    if (typeof payload.exp !== 'number' || payload.exp * 1000 <= now) {
+      return null;
+    }
+
+    return payload;
+  } catch {
+    return null;
+  }
+}
+
+// Check whether a bearer token looks like a JWT rather than an opaque session token
+export function isJwt(token: string): boolean {
+  return token.split('.').length === 3;
+}
+
+// Issue a short-lived access token carrying the user's identity
+export function issueAccessToken(
+  user: Pick<User, 'id' | 'tenantId' | 'email'>,
+  secret: string,
+  expirationSeconds: number
+): { accessToken: string; expiresAt: Date } {
+  const iat = Math.floor(Date.now() / 1000);
+  const claims: AccessTokenClaims = {
+    sub: user.id,
+    tenantId: user.tenantId,
+    email: user.email,
+    iat,
+    exp: iat + expirationSeconds,
+  };
+
+  return {
+    accessToken: signJwt(claims, secret),
+    expiresAt: new Date(claims.exp * 1000),
+  };
+}
+
+// Verify an access token and return its claims
+export function verifyAccessToken(token: string, secret: string): AccessTokenClaims | null {
+  const claims = verifyJwt<AccessTokenClaims>(token, secret);
+  if (!claims || typeof claims.sub !== 'string' || typeof claims.tenantId !== 'string') {
+    return null;
+  }
+
+  return claims;
+}
+
+// Issue an access/refresh token pair. Refresh tokens are stored hashed in the
+// sessions table; every token issued from the same login shares a family.
+export async function issueTokens(
+  tenantDb: TenantScopedDb,
+  user: Pick<User, 'id' | 'tenantId' | 'email'>,
+  secret: string,
+  accessTokenExpiration: number,
+  refreshTokenExpiration: number,
+  familyId: string = crypto.randomUUID()
+): Promise<TokenPair> {
+  const { accessToken, expiresAt: accessTokenExpiresAt } = issueAccessToken(
+    user,
+    secret,
+    accessTokenExpiration
+  );
+
+  const refreshToken = generateRefreshToken();
+  const refreshTokenExpiresAt = new Date(Date.now() + refreshTokenExpiration * 1000);
+
+  await tenantDb.insert(schema.sessions, {
+    token: hashToken(refreshToken),
+    userId: user.id,
+    kind: 'refresh',
+    familyId,
+    createdAt: new Date(),
+    expiresAt: refreshTokenExpiresAt,
+  });
+
+  return { accessToken, accessTokenExpiresAt, refreshToken, refreshTokenExpiresAt };
+}
+
+// Exchange a refresh token for a new token pair. The presented token is
+// rotated out; presenting it again revokes every token in its family.
+export async function refreshTokens(
+  tenantDb: TenantScopedDb,
+  refreshToken: string,
+  secret: string,
+  accessTokenExpiration: number,
+  refreshTokenExpiration: number,
+  audit: AuditContext = {}
+): Promise<TokenPair> {
+  const tokenHash = hashToken(refreshToken);
+
+  const [stored] = await tenantDb.select(
+    schema.sessions,
+    and(eq(schema.sessions.token, tokenHash), eq(schema.sessions.kind, 'refresh')),
+    { limit: 1 }
+  );
+
+  if (!stored || stored.expiresAt < new Date()) {
+    throw new AppError('INVALID_REFRESH_TOKEN', 'Invalid or expired refresh token', 401);
+  }
+
+  // Claim the token and issue its replacement together, so a failed issue
+  // doesn't spend the token. The rotatedAt guard makes concurrent refreshes
+  // race safely.
+  const pair = await tenantDb.transaction(async (tx) => {
+    const [claimed] = await tx.update(
+      schema.sessions,
+      { rotatedAt: new Date() },
+      and(eq(schema.sessions.token, tokenHash), isNull(schema.sessions.rotatedAt))
+    );
+
+    if (!claimed) {
+      return null;
+    }
+
+    const [user] = await tx.select(schema.users, eq(schema.users.id, stored.userId), {
+      limit: 1,
+    });
+
+    if (!user) {
+      throw new AppError('INVALID_REFRESH_TOKEN', 'Invalid or expired refresh token', 401);
+    }
+
+    return issueTokens(
+      tx,
+      user,
+      secret,
+      accessTokenExpiration,
+      refreshTokenExpiration,
+      stored.familyId ?? undefined
+    );
+  });
+
+  if (!pair) {
+    // A rotated token was presented again, so assume it leaked
+    if (stored.familyId) {
+      await revokeTokenFamily(tenantDb, stored.familyId);
+    }
+    await recordAuditEvent(tenantDb, audit, {
+      action: 'user.refresh_token_reused',
+      targetType: 'user',
+      targetId: stored.userId,
+    });
+    throw new AppError('REFRESH_TOKEN_REUSED', 'Refresh token has already been used', 401);
+  }
+
+  return pair;
+}
+
+// Revoke a refresh token and every token rotated from the same login
+export async function revokeRefreshToken(
+  tenantDb: TenantScopedDb,
+  refreshToken: string,
+  audit: AuditContext = {}
+): Promise<void> {
+  const [stored] = await tenantDb.select(
+    schema.sessions,
+    and(eq(schema.sessions.token, hashToken(refreshToken)), eq(schema.sessions.kind, 'refresh')),
+    { limit: 1 }
+  );
+
+  if (stored?.familyId) {
+    await revokeTokenFamily(tenantDb, stored.familyId);
+    await recordAuditEvent(
+      tenantDb,
+      { ...audit, actorType: 'user', actorId: stored.userId },
+      { action: 'user.logout', targetType: 'user', targetId: stored.userId }
+    );
+  }
+}
+
+// Delete all refresh tokens in a family
+async function revokeTokenFamily(tenantDb: TenantScopedDb, familyId: string): Promise<void> {
+  await tenantDb.delete(schema.sessions, eq(schema.sessions.familyId, familyId));
+}
@@ -1,5 +1,6 @@
 import { describe, test, expect, beforeEach } from 'vitest';
 import * as fc from 'fast-check';
+import { and, eq } from 'drizzle-orm';
 import {
   recordUsage,
   getUsage,
@@ -10,10 +11,23 @@ import {
   resetUsage,
 } from './usage';
 import { defineTier, subscribe } from './subscription';
-import { createDb } from '../db';
+import { createTenantScopedDb } from '../middleware/tenant-isolation';
+import { getSandboxTenantId } from './sandbox';
+import { createUnscopedDb } from '../db';
 import { schema } from '../db';
 
-const db = createDb(process.env.DATABASE_URL!);
+const db = createUnscopedDb(process.env.DATABASE_URL!);
+
+// Tenant-owned rows need their tenant, and test-mode rows its sandbox partition
+async function createTestTenant(tenantId: string) {
+  await db
+    .insert(schema.tenants)
+    .values([
+      { id: tenantId, name: tenantId },
+      { id: getSandboxTenantId(tenantId), name: tenantId },
+    ])
+    .onConflictDoNothing();
+}
 
 // Generators for property-based testing
 const tenantIdArb = fc.string({ minLength: 5, maxLength: 20 }).map(s => `tenant_${s}`);
@@ -72,11 +86,13 @@ describe('Usage Service - Recording', () => {
 
     for (const { tenantId, metricName, quantity } of testCases) {
       const uniqueTenantId = `${tenantId}_${Date.now()}_${Math.random()}`;
+      await createTestTenant(uniqueTenantId);
+      const uniqueTenantDb = createTenantScopedDb(db, uniqueTenantId);
       const user = await createTestUser(uniqueTenantId, `user_${Date.now()}_${Math.random()}@test.com`);
       const org = await createTestOrg(uniqueTenantId, user.id, 'Test Org');
 
       // Record usage
-      const record = await recordUsage(db, org.id, uniqueTenantId, metricName, quantity);
+      const record = await recordUsage(uniqueTenantDb, org.id, metricName, quantity);
 
       // Verify record was created
       expect(record.id).toBeDefined();
@@ -86,7 +102,7 @@ describe('Usage Service - Recording', () => {
       expect(record.quantity).toBe(quantity);
 
       // Retrieve usage
-      const usage = await getUsage(db, org.id, uniqueTenantId, metricName);
+      const usage = await getUsage(uniqueTenantDb, org.id, metricName);
       expect(usage.total).toBe(quantity);
       expect(usage.records).toHaveLength(1);
     }
@@ -108,16 +124,18 @@ describe('Usage Service - Aggregation', () => {
     await db.delete(schema.users);
 
     const tenantId = `tenant_${Date.now()}`;
+    await createTestTenant(tenantId);
+    const tenantDb = createTenantScopedDb(db, tenantId);
     const user = await createTestUser(tenantId, `user_${Date.now()}@test.com`);
     const org = await createTestOrg(tenantId, user.id, 'Test Org');
 
     // Record multiple usage entries
-    await recordUsage(db, org.id, tenantId, 'api_calls', 100);
-    await recordUsage(db, org.id, tenantId, 'api_calls', 200);
-    await recordUsage(db, org.id, tenantId, 'api_calls', 300);
+    await recordUsage(tenantDb, org.id, 'api_calls', 100);
+    await recordUsage(tenantDb, org.id, 'api_calls', 200);
+    await recordUsage(tenantDb, org.id, 'api_calls', 300);
 
     // Get aggregated usage
-    const usage = await getUsage(db, org.id, tenantId, 'api_calls');
+    const usage = await getUsage(tenantDb, org.id, 'api_calls');
 
     expect(usage.total).toBe(600); // 100 + 200 + 300
     expect(usage.records).toHaveLength(3);
@@ -137,6 +155,8 @@ describe('Usage Service - Aggregation', () => {
     await db.delete(schema.users);
 
     const tenantId = `tenant_${Date.now()}`;
+    await createTestTenant(tenantId);
+    const tenantDb = createTenantScopedDb(db, tenantId);
     const user = await createTestUser(tenantId, `user_${Date.now()}@test.com`);
     
     // Create multiple organizations
@@ -145,12 +165,12 @@ describe('Usage Service - Aggregation', () => {
     const org3 = await createTestOrg(tenantId, user.id, 'Org 3');
 
     // Record usage for each org
-    await recordUsage(db, org1.id, tenantId, 'api_calls', 100);
-    await recordUsage(db, org2.id, tenantId, 'api_calls', 200);
-    await recordUsage(db, org3.id, tenantId, 'api_calls', 300);
+    await recordUsage(tenantDb, org1.id, 'api_calls', 100);
+    await recordUsage(tenantDb, org2.id, 'api_calls', 200);
+    await recordUsage(tenantDb, org3.id, 'api_calls', 300);
 
     // Get aggregated usage across all orgs
-    const aggregated = await getAggregatedUsage(db, tenantId, 'api_calls');
+    const aggregated = await getAggregatedUsage(tenantDb, 'api_calls');
 
     expect(aggregated.total).toBe(600); // 100 + 200 + 300
     expect(aggregated.byOrganization).toHaveLength(3);
@@ -181,26 +201,27 @@ describe('Usage Service - Limits', () => {
     await db.delete(schema.users);
 
     const tenantId = `tenant_${Date.now()}`;
+    await createTestTenant(tenantId);
+    const tenantDb = createTenantScopedDb(db, tenantId);
     const user = await createTestUser(tenantId, `user_${Date.now()}@test.com`);
     const org = await createTestOrg(tenantId, user.id, 'Test Org');
 
     // Define tier with limits
     const tier = await defineTier(
-      db,
-      tenantId,
+      tenantDb,
       'pro',
       ['api_access'],
       { api_calls: 1000 }
     );
 
     // Subscribe organization
-    await subscribe(db, org.id, tier.id, tenantId);
+    await subscribe(tenantDb, org.id, tier.id);
 
     // Record usage
-    await recordUsage(db, org.id, tenantId, 'api_calls', 500);
+    await recordUsage(tenantDb, org.id, 'api_calls', 500);
 
     // Check limit
-    const limitCheck = await checkUsageLimit(db, org.id, tenantId, 'api_calls');
+    const limitCheck = await checkUsageLimit(tenantDb, org.id, 'api_calls');
 
     expect(limitCheck.withinLimit).toBe(true);
     expect(limitCheck.limit).toBe(1000);
@@ -222,38 +243,64 @@ describe('Usage Service - Limits', () => {
     await db.delete(schema.users);
 
     const tenantId = `tenant_${Date.now()}`;
+    await createTestTenant(tenantId);
+    const tenantDb = createTenantScopedDb(db, tenantId);
     const user = await createTestUser(tenantId, `user_${Date.now()}@test.com`);
     const org = await createTestOrg(tenantId, user.id, 'Test Org');
 
     // Define tier with low limit
     const tier = await defineTier(
-      db,
-      tenantId,
+      tenantDb,
       'free',
       ['api_access'],
       { api_calls: 100 }
     );
 
-    await subscribe(db, org.id, tier.id, tenantId);
+    await subscribe(tenantDb, org.id, tier.id);
 
     // Record usage up to limit
-    await recordUsage(db, org.id, tenantId, 'api_calls', 100);
+    await recordUsage(tenantDb, org.id, 'api_calls', 100);
 
     // Check limit (at limit)
-    const atLimit = await checkUsageLimit(db, org.id, tenantId, 'api_calls');
+    const atLimit = await checkUsageLimit(tenantDb, org.id, 'api_calls');
     expect(atLimit.withinLimit).toBe(true);
     expect(atLimit.remaining).toBe(0);
 
     // Record more usage (over limit)
-    await recordUsage(db, org.id, tenantId, 'api_calls', 50);
+    await recordUsage(tenantDb, org.id, 'api_calls', 50);
 
     // Check limit (over limit)
-    const overLimit = await checkUsageLimit(db, org.id, tenantId, 'api_calls');
+    const overLimit = await checkUsageLimit(tenantDb, org.id, 'api_calls');
     expect(overLimit.withinLimit).toBe(false);
     expect(overLimit.usage).toBe(150);
     expect(overLimit.limit).toBe(100);
     expect(overLimit.remaining).toBe(0);
   });
+
+  test('Concurrent records crossing the limit raise usage.limit_exceeded once', async () => {
+    const tenantId = `tenant_${Date.now()}`;
+    await createTestTenant(tenantId);
+    const tenantDb = createTenantScopedDb(db, tenantId);
+    const user = await createTestUser(tenantId, `user_${Date.now()}@test.com`);
+    const org = await createTestOrg(tenantId, user.id, 'Test Org');
+    const tier = await defineTier(tenantDb, 'free', ['api_access'], { api_calls: 100 });
+    await subscribe(tenantDb, org.id, tier.id);
+
+    await Promise.all(
+      Array.from({ length: 10 }, () => recordUsage(tenantDb, org.id, 'api_calls', 20))
+    );
+
+    const events = await db
+      .select()
+      .from(schema.outbox)
+      .where(
+        and(
+          eq(schema.outbox.tenantId, tenantId),
+          eq(schema.outbox.eventType, 'usage.limit_exceeded')
+        )
+      );
+    expect(events).toHaveLength(1);
+  });
 });
 
 describe('Usage Service - Time Filtering', () => {
@@ -267,6 +314,8 @@ describe('Usage Service - Time Filtering', () => {
     await db.delete(schema.users);
 
     const tenantId = `tenant_${Date.now()}`;
+    await createTestTenant(tenantId);
+    const tenantDb = createTenantScopedDb(db, tenantId);
     const user = await createTestUser(tenantId, `user_${Date.now()}@test.com`);
     const org = await createTestOrg(tenantId, user.id, 'Test Org');
 
@@ -275,14 +324,14 @@ describe('Usage Service - Time Filtering', () => {
     const tomorrow = new Date(now.getTime() + 24 * 60 * 60 * 1000);
 
     // Record usage
-    await recordUsage(db, org.id, tenantId, 'api_calls', 100);
+    await recordUsage(tenantDb, org.id, 'api_calls', 100);
 
     // Get usage from yesterday to tomorrow (should include today's usage)
-    const usage = await getUsage(db, org.id, tenantId, 'api_calls', yesterday, tomorrow);
+    const usage = await getUsage(tenantDb, org.id, 'api_calls', yesterday, tomorrow);
     expect(usage.total).toBe(100);
 
     // Get usage from tomorrow onwards (should be empty)
-    const futureUsage = await getUsage(db, org.id, tenantId, 'api_calls', tomorrow);
+    const futureUsage = await getUsage(tenantDb, org.id, 'api_calls', tomorrow);
     expect(futureUsage.total).toBe(0);
   });
 
@@ -296,16 +345,18 @@ describe('Usage Service - Time Filtering', () => {
     await db.delete(schema.users);
 
     const tenantId = `tenant_${Date.now()}`;
+    await createTestTenant(tenantId);
+    const tenantDb = createTenantScopedDb(db, tenantId);
     const user = await createTestUser(tenantId, `user_${Date.now()}@test.com`);
     const org = await createTestOrg(tenantId, user.id, 'Test Org');
 
     const monthStart = new Date(new Date().getFullYear(), new Date().getMonth(), 1);
 
     // Record usage
-    await recordUsage(db, org.id, tenantId, 'api_calls', 250);
+    await recordUsage(tenantDb, org.id, 'api_calls', 250);
 
     // Get current usage from month start
-    const current = await getCurrentUsage(db, org.id, tenantId, 'api_calls', monthStart);
+    const current = await getCurrentUsage(tenantDb, org.id, 'api_calls', monthStart);
     expect(current).toBe(250);
   });
 });
@@ -321,17 +372,19 @@ describe('Usage Service - Multiple Metrics', () => {
     await db.delete(schema.users);
 
     const tenantId = `tenant_${Date.now()}`;
+    await createTestTenant(tenantId);
+    const tenantDb = createTenantScopedDb(db, tenantId);
     const user = await createTestUser(tenantId, `user_${Date.now()}@test.com`);
     const org = await createTestOrg(tenantId, user.id, 'Test Org');
 
     // Record usage for different metrics
-    await recordUsage(db, org.id, tenantId, 'api_calls', 100);
-    await recordUsage(db, org.id, tenantId, 'api_calls', 50);
-    await recordUsage(db, org.id, tenantId, 'storage_mb', 500);
-    await recordUsage(db, org.id, tenantId, 'team_members', 5);
+    await recordUsage(tenantDb, org.id, 'api_calls', 100);
+    await recordUsage(tenantDb, org.id, 'api_calls', 50);
+    await recordUsage(tenantDb, org.id, 'storage_mb', 500);
+    await recordUsage(tenantDb, org.id, 'team_members', 5);
 
     // Get all metrics
-    const metrics = await getAllUsageMetrics(db, org.id, tenantId);
+    const metrics = await getAllUsageMetrics(tenantDb, org.id);
 
     expect(metrics).toHaveLength(3);
     
@@ -356,24 +409,26 @@ describe('Usage Service - Reset', () => {
     await db.delete(schema.users);
 
     const tenantId = `tenant_${Date.now()}`;
+    await createTestTenant(tenantId);
+    const tenantDb = createTenantScopedDb(db, tenantId);
     const user = await createTestUser(tenantId, `user_${Date.now()}@test.com`);
     const org = await createTestOrg(tenantId, user.id, 'Test Org');
 
     // Record usage
-    await recordUsage(db, org.id, tenantId, 'api_calls', 100);
-    await recordUsage(db, org.id, tenantId, 'api_calls', 200);
+    await recordUsage(tenantDb, org.id, 'api_calls', 100);
+    await recordUsage(tenantDb, org.id, 'api_calls', 200);
 
     // Verify usage exists
-    const beforeReset = await getCurrentUsage(db, org.id, tenantId, 'api_calls');
+    const beforeReset = await getCurrentUsage(tenantDb, org.id, 'api_calls');
     expect(beforeReset).toBe(300);
 
     // Reset usage
     const now = new Date();
-    const deleted = await resetUsage(db, org.id, tenantId, 'api_calls', now);
+    const deleted = await resetUsage(tenantDb, org.id, 'api_calls', now);
     expect(deleted).toBe(2);
 
     // Verify usage is reset
-    const afterReset = await getCurrentUsage(db, org.id, tenantId, 'api_calls');
+    const afterReset = await getCurrentUsage(tenantDb, org.id, 'api_calls');
     expect(afterReset).toBe(0);
   });
 });
@@ -389,14 +444,16 @@ describe('Usage Service - Edge Cases', () => {
     await db.delete(schema.users);
 
     const tenantId = `tenant_${Date.now()}`;
+    await createTestTenant(tenantId);
+    const tenantDb = createTenantScopedDb(db, tenantId);
     const user = await createTestUser(tenantId, `user_${Date.now()}@test.com`);
     const org = await createTestOrg(tenantId, user.id, 'Test Org');
 
     // Record usage without subscription
-    await recordUsage(db, org.id, tenantId, 'api_calls', 1000);
+    await recordUsage(tenantDb, org.id, 'api_calls', 1000);
 
     // Check limit (should fail gracefully)
-    const limitCheck = await checkUsageLimit(db, org.id, tenantId, 'api_calls');
+    const limitCheck = await checkUsageLimit(tenantDb, org.id, 'api_calls');
     expect(limitCheck.withinLimit).toBe(false);
     expect(limitCheck.limit).toBe(0);
   });
@@ -411,25 +468,26 @@ describe('Usage Service - Edge Cases', () => {
     await db.delete(schema.users);
 
     const tenantId = `tenant_${Date.now()}`;
+    await createTestTenant(tenantId);
+    const tenantDb = createTenantScopedDb(db, tenantId);
     const user = await createTestUser(tenantId, `user_${Date.now()}@test.com`);
     const org = await createTestOrg(tenantId, user.id, 'Test Org');
 
     // Define tier without api_calls limit
     const tier = await defineTier(
-      db,
-      tenantId,
+      tenantDb,
       'enterprise',
       ['api_access'],
       { storage_mb: 10000 } // No api_calls limit
     );
 
-    await subscribe(db, org.id, tier.id, tenantId);
+    await subscribe(tenantDb, org.id, tier.id);
 
     // Record high usage
-    await recordUsage(db, org.id, tenantId, 'api_calls', 999999);
+    await recordUsage(tenantDb, org.id, 'api_calls', 999999);
 
     // Check limit (should be unlimited)
-    const limitCheck = await checkUsageLimit(db, org.id, tenantId, 'api_calls');
+    const limitCheck = await checkUsageLimit(tenantDb, org.id, 'api_calls');
     expect(limitCheck.withinLimit).toBe(true);
     expect(limitCheck.limit).toBe(-1); // -1 indicates unlimited
   });
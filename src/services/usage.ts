@@ -1,27 +1,44 @@
-import { eq, and, gte, lte } from 'drizzle-orm';
-import { Database } from '../db';
+import { eq, and, gte, lte, sql } from 'drizzle-orm';
 import { schema } from '../db';
 import { UsageRecord } from '../types';
-import { checkLimit } from './subscription';
+import { checkLimit, getSubscriptionStatus } from './subscription';
+import { AuditContext, recordAuditEvent } from './audit';
+import { enqueueOutboxEvent } from './outbox';
+import { TenantScopedDb } from '../middleware/tenant-isolation';
 
-// Record usage for an organization
+// Record usage for an organization. Usage records are their own append-only
+// trail, so they aren't copied into the audit log.
 export async function recordUsage(
-  db: Database,
+  tenantDb: TenantScopedDb,
   orgId: string,
-  tenantId: string,
   metricName: string,
   quantity: number
 ): Promise<UsageRecord> {
-  const [record] = await db
-    .insert(schema.usageRecords)
-    .values({
+  const record = await tenantDb.transaction(async (tx) => {
+    // Records of the same organization and metric take turns, so only one of
+    // them sees the usage cross the limit
+    await tx.db.execute(
+      sql`select pg_advisory_xact_lock(hashtext(${tx.tenantId}), hashtext(${`${orgId}:${metricName}`}))`
+    );
+    const exceeded = await getLimitExceeded(tx, orgId, metricName, quantity);
+
+    const [record] = await tx.insert(schema.usageRecords, {
       organizationId: orgId,
-      tenantId,
       metricName,
       quantity,
       timestamp: new Date(),
-    })
-    .returning();
+    });
+
+    if (exceeded) {
+      await enqueueOutboxEvent(tx, 'usage.limit_exceeded', {
+        organizationId: orgId,
+        metricName,
+        ...exceeded,
+      });
+    }
+
+    return record;
+  });
 
   return {
     id: record.id,
@@ -33,11 +50,30 @@ export async function recordUsage(
   };
 }
 
+// Check whether recording `quantity` takes an organization over the limit of
+// its active tier, so usage.limit_exceeded is raised once, by the record that
+// crosses it. Run it in the record's transaction, under the metric's lock.
+// Returns the limit and the usage after the record if so.
+async function getLimitExceeded(
+  tenantDb: TenantScopedDb,
+  orgId: string,
+  metricName: string,
+  quantity: number
+): Promise<{ limit: number; usage: number } | null> {
+  const subscription = await getSubscriptionStatus(tenantDb, orgId);
+  const limit = subscription?.status === 'active' ? subscription.limits[metricName] : undefined;
+  if (limit === undefined || limit === -1) {
+    return null;
+  }
+
+  const usage = (await getCurrentUsage(tenantDb, orgId, metricName)) + quantity;
+  return usage > limit && usage - quantity <= limit ? { limit, usage } : null;
+}
+
 // Get usage for an organization within a time period
 export async function getUsage(
-  db: Database,
+  tenantDb: TenantScopedDb,
   orgId: string,
-  tenantId: string,
   metricName: string,
   startDate?: Date,
   endDate?: Date
@@ -45,7 +81,6 @@ export async function getUsage(
   // Add date filters if provided
   const conditions = [
     eq(schema.usageRecords.organizationId, orgId),
-    eq(schema.usageRecords.tenantId, tenantId),
     eq(schema.usageRecords.metricName, metricName),
   ];
 
@@ -57,11 +92,9 @@ export async function getUsage(
     conditions.push(lte(schema.usageRecords.timestamp, endDate));
   }
 
-  const records = await db
-    .select()
-    .from(schema.usageRecords)
-    .where(and(...conditions))
-    .orderBy(schema.usageRecords.timestamp);
+  const records = await tenantDb.select(schema.usageRecords, and(...conditions), {
+    orderBy: schema.usageRecords.timestamp,
+  });
 
   const total = records.reduce((sum, record) => sum + record.quantity, 0);
 
@@ -80,23 +113,21 @@ export async function getUsage(
 
 // Get current usage total for a metric
 export async function getCurrentUsage(
-  db: Database,
+  tenantDb: TenantScopedDb,
   orgId: string,
-  tenantId: string,
   metricName: string,
   periodStart?: Date
 ): Promise<number> {
   const startDate = periodStart || new Date(0); // Default to beginning of time
 
-  const result = await getUsage(db, orgId, tenantId, metricName, startDate);
+  const result = await getUsage(tenantDb, orgId, metricName, startDate);
   return result.total;
 }
 
 // Check if organization has exceeded usage limit
 export async function checkUsageLimit(
-  db: Database,
+  tenantDb: TenantScopedDb,
   orgId: string,
-  tenantId: string,
   metricName: string,
   periodStart?: Date
 ): Promise<{
@@ -106,10 +137,10 @@ export async function checkUsageLimit(
   remaining: number;
 }> {
   // Get current usage
-  const usage = await getCurrentUsage(db, orgId, tenantId, metricName, periodStart);
+  const usage = await getCurrentUsage(tenantDb, orgId, metricName, periodStart);
 
   // Check subscription limit
-  const limitCheck = await checkLimit(db, orgId, metricName, usage, tenantId);
+  const limitCheck = await checkLimit(tenantDb, orgId, metricName, usage);
 
   // Calculate remaining based on limit
   let remaining: number;
@@ -131,8 +162,7 @@ export async function checkUsageLimit(
 
 // Get usage aggregated across all organizations for a tenant
 export async function getAggregatedUsage(
-  db: Database,
-  tenantId: string,
+  tenantDb: TenantScopedDb,
   metricName: string,
   startDate?: Date,
   endDate?: Date
@@ -140,10 +170,7 @@ export async function getAggregatedUsage(
   total: number;
   byOrganization: Array<{ organizationId: string; total: number }>;
 }> {
-  const conditions = [
-    eq(schema.usageRecords.tenantId, tenantId),
-    eq(schema.usageRecords.metricName, metricName),
-  ];
+  const conditions = [eq(schema.usageRecords.metricName, metricName)];
 
   if (startDate) {
     conditions.push(gte(schema.usageRecords.timestamp, startDate));
@@ -153,10 +180,7 @@ export async function getAggregatedUsage(
     conditions.push(lte(schema.usageRecords.timestamp, endDate));
   }
 
-  const records = await db
-    .select()
-    .from(schema.usageRecords)
-    .where(and(...conditions));
+  const records = await tenantDb.select(schema.usageRecords, and(...conditions));
 
   // Calculate total
   const total = records.reduce((sum, record) => sum + record.quantity, 0);
@@ -183,16 +207,12 @@ export async function getAggregatedUsage(
 
 // Get all usage metrics for an organization
 export async function getAllUsageMetrics(
-  db: Database,
+  tenantDb: TenantScopedDb,
   orgId: string,
-  tenantId: string,
   startDate?: Date,
   endDate?: Date
 ): Promise<Array<{ metricName: string; total: number }>> {
-  const conditions = [
-    eq(schema.usageRecords.organizationId, orgId),
-    eq(schema.usageRecords.tenantId, tenantId),
-  ];
+  const conditions = [eq(schema.usageRecords.organizationId, orgId)];
 
   if (startDate) {
     conditions.push(gte(schema.usageRecords.timestamp, startDate));
@@ -202,10 +222,7 @@ export async function getAllUsageMetrics(
     conditions.push(lte(schema.usageRecords.timestamp, endDate));
   }
 
-  const records = await db
-    .select()
-    .from(schema.usageRecords)
-    .where(and(...conditions));
+  const records = await tenantDb.select(schema.usageRecords, and(...conditions));
 
   // Group by metric name
   const byMetric = records.reduce((acc, record) => {
@@ -226,23 +243,27 @@ export async function getAllUsageMetrics(
 
 // Reset usage for a metric (useful for monthly resets)
 export async function resetUsage(
-  db: Database,
+  tenantDb: TenantScopedDb,
   orgId: string,
-  tenantId: string,
   metricName: string,
-  beforeDate: Date
+  beforeDate: Date,
+  audit: AuditContext = {}
 ): Promise<number> {
-  const result = await db
-    .delete(schema.usageRecords)
-    .where(
-      and(
-        eq(schema.usageRecords.organizationId, orgId),
-        eq(schema.usageRecords.tenantId, tenantId),
-        eq(schema.usageRecords.metricName, metricName),
-        lte(schema.usageRecords.timestamp, beforeDate)
-      )
+  const result = await tenantDb.delete(
+    schema.usageRecords,
+    and(
+      eq(schema.usageRecords.organizationId, orgId),
+      eq(schema.usageRecords.metricName, metricName),
+      lte(schema.usageRecords.timestamp, beforeDate)
     )
-    .returning();
+  );
+
+  await recordAuditEvent(tenantDb, audit, {
+    organizationId: orgId,
+    action: 'usage.reset',
+    targetType: 'usage_metric',
+    targetId: metricName,
+  });
 
   return result.length;
 }
@@ -0,0 +1,356 @@
+import { describe, test, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import * as fc from 'fast-check';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import {
+  WEBHOOK_MAX_ATTEMPTS,
+  signWebhookPayload,
+  getWebhookRetryDelayMs,
+  validateWebhookEvents,
+  validateWebhookUrl,
+  createWebhookEndpoint,
+  deleteWebhookEndpoint,
+  emitWebhookEvent,
+  deliverDueWebhooks,
+  listWebhookDeliveries,
+  redeliverWebhook,
+  WebhookFetch,
+} from './webhook';
+import { createUser } from './auth';
+import { dispatchOutbox } from './outbox';
+import { AppError } from '../middleware/error-handler';
+import { createTenantScopedDb } from '../middleware/tenant-isolation';
+import { getSandboxTenantId } from './sandbox';
+import { createUnscopedDb } from '../db';
+import { schema } from '../db';
+import { eq } from 'drizzle-orm';
+
+const db = createUnscopedDb(process.env.DATABASE_URL!);
+
+// Tenant-owned rows need their tenant, and test-mode rows its sandbox partition
+async function createTestTenant(tenantId: string) {
+  await db
+    .insert(schema.tenants)
+    .values([
+      { id: tenantId, name: tenantId },
+      { id: getSandboxTenantId(tenantId), name: tenantId },
+    ])
+    .onConflictDoNothing();
+}
+
+interface ReceivedRequest {
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+// Local stand-in for a tenant's webhook receiver. Responds with whatever
+// status is next in `responses` (200 once they run out).
+const received: ReceivedRequest[] = [];
+let responses: number[] = [];
+let server: http.Server;
+let receiverUrl: string;
+
+// Endpoints need a public https URL, so deliveries to it are sent to the local
+// receiver instead
+const endpointUrl = 'https://hooks.example.com/hooks';
+const forward: WebhookFetch = (_url, init) => fetch(receiverUrl, init);
+
+beforeAll(async () => {
+  server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', () => {
+      received.push({ headers: req.headers, body });
+      res.statusCode = responses.shift() ?? 200;
+      res.end();
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  receiverUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hooks`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+describe('Webhooks - Signatures and Retries', () => {
+  test('Signatures depend on the secret, timestamp and body', () => {
+    fc.assert(
+      fc.property(
+        fc.string({ minLength: 1 }),
+        fc.integer({ min: 0, max: 2 ** 31 }),
+        fc.string(),
+        (secret, timestamp, body) => {
+          const signature = signWebhookPayload(secret, timestamp, body);
+          expect(signature).toMatch(/^v1=[0-9a-f]{64}$/);
+          expect(signWebhookPayload(secret, timestamp, body)).toBe(signature);
+          expect(signWebhookPayload(`${secret}x`, timestamp, body)).not.toBe(signature);
+          expect(signWebhookPayload(secret, timestamp + 1, body)).not.toBe(signature);
+          expect(signWebhookPayload(secret, timestamp, `${body}x`)).not.toBe(signature);
+          return true;
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  test('Retry delays double per attempt up to a cap', () => {
+    expect(getWebhookRetryDelayMs(1)).toBe(60 * 1000);
+    expect(getWebhookRetryDelayMs(2)).toBe(2 * 60 * 1000);
+    expect(getWebhookRetryDelayMs(3)).toBe(4 * 60 * 1000);
+
+    for (let attempts = 1; attempts < 20; attempts++) {
+      expect(getWebhookRetryDelayMs(attempts + 1)).toBeGreaterThanOrEqual(
+        getWebhookRetryDelayMs(attempts)
+      );
+      expect(getWebhookRetryDelayMs(attempts)).toBeLessThanOrEqual(2 * 60 * 60 * 1000);
+    }
+  });
+
+  test('Endpoints must subscribe to known events', () => {
+    expect(validateWebhookEvents(['user.created', 'user.created'])).toEqual(['user.created']);
+    expect(validateWebhookEvents(['*'])).toEqual(['*']);
+    expect(() => validateWebhookEvents([])).toThrow(AppError);
+    expect(() => validateWebhookEvents(['user.deleted'])).toThrow(AppError);
+    expect(() => validateWebhookEvents('user.created')).toThrow(AppError);
+  });
+
+  test('Endpoint URLs must be https on a public host', () => {
+    for (const url of [
+      'https://hooks.example.com/hooks',
+      'https://8.8.8.8/hooks',
+      'https://[2606:4700::1111]/hooks',
+    ]) {
+      expect(validateWebhookUrl(url)).toBe(url);
+    }
+
+    for (const url of [
+      'not a url',
+      'http://hooks.example.com/hooks',
+      'ftp://hooks.example.com/hooks',
+      'https://localhost/hooks',
+      'https://api.localhost/hooks',
+      'https://printer.local/hooks',
+      'https://metadata/hooks',
+      'https://127.0.0.1/hooks',
+      'https://2130706433/hooks',
+      'https://10.1.2.3/hooks',
+      'https://172.16.0.1/hooks',
+      'https://192.168.1.1/hooks',
+      'https://100.64.0.1/hooks',
+      'https://169.254.169.254/latest/meta-data',
+      'https://0.0.0.0/hooks',
+      'https://224.0.0.1/hooks',
+      'https://255.255.255.255/hooks',
+      'https://[::1]/hooks',
+      'https://[::]/hooks',
+      'https://[::ffff:127.0.0.1]/hooks',
+      'https://[64:ff9b::a00:1]/hooks',
+      'https://[fd00::1]/hooks',
+      'https://[fe80::1]/hooks',
+      'https://[ff02::1]/hooks',
+    ]) {
+      expect(() => validateWebhookUrl(url)).toThrow(AppError);
+    }
+  });
+});
+
+describe('Webhooks - Delivery', () => {
+  beforeEach(async () => {
+    await db.delete(schema.webhookEndpoints);
+    received.length = 0;
+    responses = [];
+  });
+
+  test('Invalid endpoint URLs are rejected', async () => {
+    const tenantId = `tenant_${Date.now()}`;
+    await createTestTenant(tenantId);
+    const tenantDb = createTenantScopedDb(db, tenantId);
+
+    await expect(
+      createWebhookEndpoint(tenantDb, 'not a url', ['user.created'])
+    ).rejects.toThrow(AppError);
+    await expect(
+      createWebhookEndpoint(tenantDb, 'ftp://example.com/hooks', ['user.created'])
+    ).rejects.toThrow(AppError);
+    await expect(
+      createWebhookEndpoint(tenantDb, receiverUrl, ['user.created'])
+    ).rejects.toThrow(AppError);
+  });
+
+  test('Service events are delivered signed to subscribed endpoints', async () => {
+    const tenantId = `tenant_${Date.now()}`;
+    await createTestTenant(tenantId);
+    const tenantDb = createTenantScopedDb(db, tenantId);
+    const { secret } = await createWebhookEndpoint(tenantDb, endpointUrl, ['user.created']);
+    await createWebhookEndpoint(tenantDb, endpointUrl, ['subscription.updated']);
+
+    const user = await createUser(tenantDb, 'hook@example.com', 'password123', 4);
+    await dispatchOutbox(db);
+    const sent = await deliverDueWebhooks(db, { fetch: forward });
+
+    expect(sent).toBe(1);
+    expect(received).toHaveLength(1);
+
+    const [request] = received;
+    const payload = JSON.parse(request.body);
+    expect(payload).toMatchObject({
+      type: 'user.created',
+      data: { userId: user.id, email: 'hook@example.com' },
+    });
+    expect(request.headers['content-type']).toBe('application/json');
+    expect(request.headers['x-webhook-id']).toBe(payload.id);
+    expect(request.headers['x-webhook-event']).toBe('user.created');
+
+    const timestamp = Number(request.headers['x-webhook-timestamp']);
+    expect(Math.abs(timestamp - Date.now() / 1000)).toBeLessThan(60);
+    expect(request.headers['x-webhook-signature']).toBe(
+      signWebhookPayload(secret, timestamp, request.body)
+    );
+
+    // Nothing is sent twice
+    expect(await deliverDueWebhooks(db, { fetch: forward })).toBe(0);
+  });
+
+  test('Queuing an event again with its ID adds no deliveries', async () => {
+    const tenantId = `tenant_${Date.now()}`;
+    await createTestTenant(tenantId);
+    const tenantDb = createTenantScopedDb(db, tenantId);
+    const { endpoint } = await createWebhookEndpoint(tenantDb, endpointUrl, ['*']);
+    const event = { id: crypto.randomUUID(), createdAt: new Date() };
+
+    await emitWebhookEvent(tenantDb, 'user.created', { userId: 'user_1' }, event);
+    await emitWebhookEvent(tenantDb, 'user.created', { userId: 'user_1' }, event);
+
+    expect(await listWebhookDeliveries(tenantDb, endpoint.id)).toHaveLength(1);
+  });
+
+  test('Events are not delivered to other tenants', async () => {
+    const tenantId = `tenant_${Date.now()}`;
+    await createTestTenant(tenantId);
+    await createTestTenant(`${tenantId}_other`);
+    const otherTenantDb = createTenantScopedDb(db, `${tenantId}_other`);
+    await createWebhookEndpoint(otherTenantDb, endpointUrl, ['*']);
+
+    await emitWebhookEvent(createTenantScopedDb(db, tenantId), 'user.created', { userId: 'user_1' });
+
+    expect(await deliverDueWebhooks(db, { fetch: forward })).toBe(0);
+    expect(received).toHaveLength(0);
+  });
+
+  test('Failed deliveries are retried with backoff and logged', async () => {
+    const tenantId = `tenant_${Date.now()}`;
+    await createTestTenant(tenantId);
+    const tenantDb = createTenantScopedDb(db, tenantId);
+    const { endpoint } = await createWebhookEndpoint(tenantDb, endpointUrl, ['*']);
+    responses = [500];
+
+    await emitWebhookEvent(tenantDb, 'usage.limit_exceeded', { metricName: 'api_calls' });
+    await deliverDueWebhooks(db, { fetch: forward });
+
+    let [delivery] = await listWebhookDeliveries(tenantDb, endpoint.id);
+    expect(delivery).toMatchObject({
+      status: 'pending',
+      attempts: 1,
+      lastResponseStatus: 500,
+      deliveredAt: null,
+    });
+    expect(delivery.nextAttemptAt!.getTime()).toBeGreaterThan(Date.now());
+
+    // Not due yet
+    expect(await deliverDueWebhooks(db, { fetch: forward })).toBe(0);
+
+    // Once the backoff has passed the retry goes through
+    await deliverDueWebhooks(db, {
+      fetch: forward,
+      now: new Date(delivery.nextAttemptAt!.getTime() + 1000),
+    });
+
+    [delivery] = await listWebhookDeliveries(tenantDb, endpoint.id);
+    expect(delivery).toMatchObject({ status: 'succeeded', attempts: 2, lastResponseStatus: 200 });
+    expect(delivery.nextAttemptAt).toBeNull();
+    expect(received).toHaveLength(2);
+    expect(received[1].headers['x-webhook-id']).toBe(received[0].headers['x-webhook-id']);
+  });
+
+  test('Deliveries fail after the maximum number of attempts', async () => {
+    const tenantId = `tenant_${Date.now()}`;
+    await createTestTenant(tenantId);
+    const tenantDb = createTenantScopedDb(db, tenantId);
+    const { endpoint } = await createWebhookEndpoint(tenantDb, endpointUrl, ['*']);
+    responses = Array(WEBHOOK_MAX_ATTEMPTS).fill(503);
+
+    await emitWebhookEvent(tenantDb, 'user.created', { userId: 'user_1' });
+
+    let now = Date.now();
+    for (let i = 0; i < WEBHOOK_MAX_ATTEMPTS; i++) {
+      expect(await deliverDueWebhooks(db, { fetch: forward, now: new Date(now) })).toBe(1);
+      now += getWebhookRetryDelayMs(i + 1) + 1000;
+    }
+
+    const [delivery] = await listWebhookDeliveries(tenantDb, endpoint.id);
+    expect(delivery).toMatchObject({ status: 'failed', attempts: WEBHOOK_MAX_ATTEMPTS });
+    expect(delivery.nextAttemptAt).toBeNull();
+    expect(await deliverDueWebhooks(db, { fetch: forward, now: new Date(now) })).toBe(0);
+  });
+
+  test('Deliveries can be sent again with the same event ID', async () => {
+    const tenantId = `tenant_${Date.now()}`;
+    await createTestTenant(tenantId);
+    const tenantDb = createTenantScopedDb(db, tenantId);
+    const { endpoint } = await createWebhookEndpoint(tenantDb, endpointUrl, ['*']);
+
+    await emitWebhookEvent(tenantDb, 'user.created', { userId: 'user_1' });
+    await deliverDueWebhooks(db, { fetch: forward });
+    const [original] = await listWebhookDeliveries(tenantDb, endpoint.id);
+
+    const redelivery = await redeliverWebhook(tenantDb, original.id, forward);
+
+    expect(redelivery.id).not.toBe(original.id);
+    expect(redelivery).toMatchObject({
+      eventId: original.eventId,
+      redeliveryOf: original.id,
+      status: 'succeeded',
+      attempts: 1,
+    });
+    expect(received).toHaveLength(2);
+    expect(received[1].body).toBe(received[0].body);
+    expect(await listWebhookDeliveries(tenantDb, endpoint.id)).toHaveLength(2);
+
+    // Other tenants can't redeliver it
+    const otherTenantDb = createTenantScopedDb(db, `${tenantId}_other`);
+    await expect(redeliverWebhook(otherTenantDb, original.id)).rejects.toThrow(AppError);
+  });
+
+  test('Deliveries of suspended tenants wait until the tenant is active', async () => {
+    const tenantId = `tenant_${Date.now()}`;
+    await createTestTenant(tenantId);
+    const sandboxDb = createTenantScopedDb(db, getSandboxTenantId(tenantId));
+    await createWebhookEndpoint(sandboxDb, endpointUrl, ['*']);
+    await emitWebhookEvent(sandboxDb, 'user.created', { userId: 'user_1' });
+
+    const setStatus = (status: string) =>
+      db.update(schema.tenants).set({ status }).where(eq(schema.tenants.id, tenantId));
+
+    await setStatus('suspended');
+    expect(await deliverDueWebhooks(db, { fetch: forward })).toBe(0);
+
+    await setStatus('active');
+    expect(await deliverDueWebhooks(db, { fetch: forward })).toBe(1);
+    expect(received).toHaveLength(1);
+  });
+
+  test('Deleting an endpoint stops its deliveries', async () => {
+    const tenantId = `tenant_${Date.now()}`;
+    await createTestTenant(tenantId);
+    const tenantDb = createTenantScopedDb(db, tenantId);
+    const { endpoint } = await createWebhookEndpoint(tenantDb, endpointUrl, ['*']);
+
+    await emitWebhookEvent(tenantDb, 'user.created', { userId: 'user_1' });
+    await deleteWebhookEndpoint(tenantDb, endpoint.id);
+
+    expect(await deliverDueWebhooks(db, { fetch: forward })).toBe(0);
+    expect(received).toHaveLength(0);
+    await expect(deleteWebhookEndpoint(tenantDb, endpoint.id)).rejects.toThrow(AppError);
+  });
+});
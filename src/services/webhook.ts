@@ -0,0 +1,565 @@
+import { eq, and, or, lte, desc, inArray, notLike, sql, SQL } from 'drizzle-orm';
+import { Database } from '../db';
+import { schema } from '../db';
+import { WebhookEndpoint, WebhookDelivery, WebhookDeliveryStatus } from '../types';
+import { AppError } from '../middleware/error-handler';
+import { TenantScopedDb } from '../middleware/tenant-isolation';
+import { isValidURL } from '../middleware/validation';
+import { AuditContext, recordAuditEvent, diffChanges } from './audit';
+import { getSandboxTenantId } from './sandbox';
+import * as crypto from 'crypto';
+
+/**
+ * Webhooks
+ *
+ * Tenants register endpoints for domain events. The outbox dispatcher hands
+ * each event to emitWebhookEvent, which queues one delivery per subscribed
+ * endpoint.
+ * deliverDueWebhooks (run from the Worker's scheduled handler) sends queued
+ * deliveries and retries failures with exponential backoff. Every delivery is
+ * kept as a log that tenants can inspect and redeliver from.
+ */
+
+// Events endpoints can subscribe to ("*" subscribes to all of them)
+export const WEBHOOK_EVENTS = [
+  'user.created',
+  'organization.member_invited',
+  'organization.member_added',
+  'organization.member_removed',
+  'subscription.created',
+  'subscription.updated',
+  'subscription.cancelled',
+  'usage.limit_exceeded',
+] as const;
+
+export type WebhookEventType = (typeof WEBHOOK_EVENTS)[number];
+
+// Headers sent with every delivery. Consumers should verify the signature and
+// use the ID to ignore events they have already processed.
+export const WEBHOOK_ID_HEADER = 'X-Webhook-Id';
+export const WEBHOOK_EVENT_HEADER = 'X-Webhook-Event';
+export const WEBHOOK_TIMESTAMP_HEADER = 'X-Webhook-Timestamp';
+export const WEBHOOK_SIGNATURE_HEADER = 'X-Webhook-Signature';
+
+// Attempts per delivery before it is marked failed (about 4 hours of retries)
+export const WEBHOOK_MAX_ATTEMPTS = 8;
+
+const BASE_RETRY_DELAY_MS = 60 * 1000; // 1 minute, doubling per attempt
+const MAX_RETRY_DELAY_MS = 2 * 60 * 60 * 1000; // 2 hours
+const DELIVERY_TIMEOUT_MS = 10 * 1000;
+
+// Deliveries are claimed for this long, so a run that dies mid-send is retried
+const CLAIM_DURATION_MS = 5 * 60 * 1000;
+const DELIVERY_BATCH_SIZE = 50;
+
+export const DEFAULT_DELIVERY_PAGE_SIZE = 50;
+export const MAX_DELIVERY_PAGE_SIZE = 100;
+
+export type WebhookFetch = (url: string, init: RequestInit) => Promise<Response>;
+
+// Hostnames that only resolve on a local network
+const LOCAL_HOSTNAME_SUFFIXES = ['.localhost', '.local', '.internal', '.home.arpa'];
+
+// IPv4 ranges that aren't publicly routable: "this" network, private, shared
+// address space, loopback, link-local, IETF protocol assignments,
+// documentation, 6to4 relay, benchmarking, multicast and reserved
+const BLOCKED_IPV4_RANGES: Array<[string, number]> = [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.0.2.0', 24],
+  ['192.88.99.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['198.51.100.0', 24],
+  ['203.0.113.0', 24],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+];
+
+// Generate a signing secret for a new endpoint
+export function generateWebhookSecret(): string {
+  return `whsec_${crypto.randomBytes(24).toString('base64url')}`;
+}
+
+// Signature of a delivery: HMAC-SHA256 over "<timestamp>.<body>", so a captured
+// request can't be replayed with a different timestamp
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  const hmac = crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  return `v1=${hmac}`;
+}
+
+// Delay before the next attempt after `attempts` failed attempts
+export function getWebhookRetryDelayMs(attempts: number): number {
+  return Math.min(BASE_RETRY_DELAY_MS * 2 ** Math.max(0, attempts - 1), MAX_RETRY_DELAY_MS);
+}
+
+// Check that an endpoint subscribes to a non-empty list of known events
+export function validateWebhookEvents(events: unknown): string[] {
+  if (
+    !Array.isArray(events) ||
+    events.length === 0 ||
+    !events.every(
+      (event) => event === '*' || (WEBHOOK_EVENTS as readonly unknown[]).includes(event)
+    )
+  ) {
+    throw new AppError('INVALID_INPUT', 'events must be a non-empty array of known events', 400, {
+      field: 'events',
+      allowed: ['*', ...WEBHOOK_EVENTS],
+    });
+  }
+
+  return Array.from(new Set(events as string[]));
+}
+
+// Parse a dotted-quad IPv4 address into a number
+function parseIpv4(address: string): number | null {
+  const parts = address.split('.');
+  const isOctet = (part: string) => /^\d{1,3}$/.test(part) && Number(part) <= 255;
+  if (parts.length !== 4 || !parts.every(isOctet)) {
+    return null;
+  }
+  return parts.reduce((value, part) => value * 256 + Number(part), 0);
+}
+
+function isBlockedIpv4(address: number): boolean {
+  return BLOCKED_IPV4_RANGES.some(([base, prefixLength]) => {
+    const size = 2 ** (32 - prefixLength);
+    return Math.floor(address / size) === Math.floor(parseIpv4(base)! / size);
+  });
+}
+
+// Expand an IPv6 address into its eight 16-bit groups
+function parseIpv6(address: string): number[] | null {
+  // A trailing dotted quad stands for the last two groups
+  const withIpv4 = address.match(/^(.*:)(\d+\.\d+\.\d+\.\d+)$/);
+  if (withIpv4) {
+    const ipv4 = parseIpv4(withIpv4[2]);
+    if (ipv4 === null) return null;
+    address = `${withIpv4[1]}${Math.floor(ipv4 / 65536).toString(16)}:${(ipv4 % 65536).toString(16)}`;
+  }
+
+  const halves = address.split('::');
+  if (halves.length > 2) return null;
+  const parseGroups = (part: string) =>
+    (part ? part.split(':') : []).map((group) =>
+      /^[0-9a-f]{1,4}$/i.test(group) ? parseInt(group, 16) : NaN
+    );
+  const head = parseGroups(halves[0]);
+  const tail = halves.length === 2 ? parseGroups(halves[1]) : [];
+  const missing = 8 - head.length - tail.length;
+  if (halves.length === 2 ? missing < 1 : missing !== 0) return null;
+
+  const groups = [...head, ...Array(missing).fill(0), ...tail];
+  return groups.some(Number.isNaN) ? null : groups;
+}
+
+function isBlockedIpv6(groups: number[]): boolean {
+  const [first, second] = groups;
+  const isZero = (group: number) => group === 0;
+
+  // IPv4-mapped (::ffff:0:0/96) and NAT64 (64:ff9b::/96) addresses are checked
+  // as the IPv4 address they carry
+  if (
+    (groups.slice(0, 5).every(isZero) && groups[5] === 0xffff) ||
+    (first === 0x64 && second === 0xff9b && groups.slice(2, 6).every(isZero))
+  ) {
+    return isBlockedIpv4(groups[6] * 65536 + groups[7]);
+  }
+
+  return (
+    groups.slice(0, 6).every(isZero) || // unspecified, loopback and IPv4-compatible
+    (first === 0x100 && groups.slice(1, 4).every(isZero)) || // discard
+    (first === 0x2001 && second === 0xdb8) || // documentation
+    (first & 0xfe00) === 0xfc00 || // unique local
+    (first & 0xffc0) === 0xfe80 || // link-local
+    (first & 0xffc0) === 0xfec0 || // site-local
+    (first & 0xff00) === 0xff00 // multicast
+  );
+}
+
+// Whether deliveries may be sent to a URL: https, on a host that isn't on the
+// service's own network. Hostnames are checked by name only; Workers can't
+// fetch private addresses, whatever a name resolves to.
+function isPublicHttpsUrl(url: string): boolean {
+  if (!isValidURL(url)) return false;
+
+  const { protocol, hostname } = new URL(url);
+  if (protocol !== 'https:') return false;
+
+  const host = hostname.toLowerCase().replace(/\.$/, '');
+  if (host.startsWith('[')) {
+    const groups = parseIpv6(host.slice(1, -1));
+    return groups !== null && !isBlockedIpv6(groups);
+  }
+
+  const ipv4 = parseIpv4(host);
+  if (ipv4 !== null) return !isBlockedIpv4(ipv4);
+
+  // Single-label names (e.g. "localhost" or "metadata") only resolve locally
+  return host.includes('.') && !LOCAL_HOSTNAME_SUFFIXES.some((suffix) => host.endsWith(suffix));
+}
+
+// Check that an endpoint URL is https on a public host
+export function validateWebhookUrl(url: unknown): string {
+  if (typeof url !== 'string' || !isPublicHttpsUrl(url)) {
+    throw new AppError('INVALID_INPUT', 'url must be an https URL on a public host', 400, {
+      field: 'url',
+    });
+  }
+
+  return url;
+}
+
+function toWebhookEndpoint(record: typeof schema.webhookEndpoints.$inferSelect): WebhookEndpoint {
+  return {
+    id: record.id,
+    tenantId: record.tenantId,
+    url: record.url,
+    events: record.events,
+    createdAt: record.createdAt,
+  };
+}
+
+function toWebhookDelivery(record: typeof schema.webhookDeliveries.$inferSelect): WebhookDelivery {
+  return {
+    id: record.id,
+    endpointId: record.endpointId,
+    eventId: record.eventId,
+    eventType: record.eventType,
+    payload: record.payload,
+    status: record.status as WebhookDeliveryStatus,
+    attempts: record.attempts,
+    nextAttemptAt: record.nextAttemptAt,
+    lastResponseStatus: record.lastResponseStatus,
+    lastError: record.lastError,
+    createdAt: record.createdAt,
+    deliveredAt: record.deliveredAt,
+    redeliveryOf: record.redeliveryOf,
+  };
+}
+
+// Register an endpoint. The secret is only returned here.
+export async function createWebhookEndpoint(
+  tenantDb: TenantScopedDb,
+  url: string,
+  events: string[],
+  audit: AuditContext = {}
+): Promise<{ endpoint: WebhookEndpoint; secret: string }> {
+  validateWebhookUrl(url);
+  const subscribed = validateWebhookEvents(events);
+  const secret = generateWebhookSecret();
+
+  const [record] = await tenantDb.insert(schema.webhookEndpoints, {
+    url,
+    secret,
+    events: subscribed,
+    createdAt: new Date(),
+  });
+
+  await recordAuditEvent(tenantDb, audit, {
+    action: 'webhook_endpoint.created',
+    targetType: 'webhook_endpoint',
+    targetId: record.id,
+    changes: diffChanges(null, { url, events: subscribed }),
+  });
+
+  return { endpoint: toWebhookEndpoint(record), secret };
+}
+
+// List a tenant's endpoints, oldest first
+export async function listWebhookEndpoints(tenantDb: TenantScopedDb): Promise<WebhookEndpoint[]> {
+  const records = await tenantDb.select(schema.webhookEndpoints, undefined, {
+    orderBy: schema.webhookEndpoints.createdAt,
+  });
+
+  return records.map(toWebhookEndpoint);
+}
+
+// Delete an endpoint along with its delivery log
+export async function deleteWebhookEndpoint(
+  tenantDb: TenantScopedDb,
+  endpointId: string,
+  audit: AuditContext = {}
+): Promise<void> {
+  const [record] = await tenantDb.delete(
+    schema.webhookEndpoints,
+    eq(schema.webhookEndpoints.id, endpointId)
+  );
+
+  if (!record) {
+    throw new AppError('WEBHOOK_ENDPOINT_NOT_FOUND', 'Webhook endpoint not found', 404);
+  }
+
+  await recordAuditEvent(tenantDb, audit, {
+    action: 'webhook_endpoint.deleted',
+    targetType: 'webhook_endpoint',
+    targetId: record.id,
+    changes: diffChanges({ url: record.url }, { url: null }),
+  });
+}
+
+// Queue an event for every endpoint of the tenant that subscribes to it. Pass
+// the event's ID to queue it idempotently: endpoints that already have a
+// delivery of that event don't get a second one.
+export async function emitWebhookEvent(
+  tenantDb: TenantScopedDb,
+  type: WebhookEventType,
+  data: Record<string, unknown>,
+  event: { id?: string; createdAt?: Date } = {}
+): Promise<void> {
+  const endpoints = await tenantDb.select(schema.webhookEndpoints);
+
+  const subscribed = endpoints.filter(
+    (endpoint) => endpoint.events.includes('*') || endpoint.events.includes(type)
+  );
+  if (subscribed.length === 0) {
+    return;
+  }
+
+  const eventId = event.id ?? crypto.randomUUID();
+  const now = new Date();
+  const payload = {
+    id: eventId,
+    type,
+    createdAt: (event.createdAt ?? now).toISOString(),
+    data,
+  };
+
+  // The scoped insert helper can't skip conflicts, so the tenant is set here
+  await tenantDb.db
+    .insert(schema.webhookDeliveries)
+    .values(
+      subscribed.map((endpoint) => ({
+        endpointId: endpoint.id,
+        tenantId: tenantDb.tenantId,
+        eventId,
+        eventType: type,
+        payload,
+        status: 'pending',
+        nextAttemptAt: now,
+        createdAt: now,
+      }))
+    )
+    .onConflictDoNothing();
+}
+
+// Send one delivery and record the outcome, scheduling a retry on failure
+async function attemptDelivery(
+  db: Database,
+  delivery: typeof schema.webhookDeliveries.$inferSelect,
+  endpoint: typeof schema.webhookEndpoints.$inferSelect,
+  fetchFn: WebhookFetch,
+  now: Date = new Date()
+): Promise<WebhookDelivery> {
+  const body = JSON.stringify(delivery.payload);
+  const timestamp = Math.floor(Date.now() / 1000);
+
+  let responseStatus: number | null = null;
+  let error: string | null = null;
+
+  try {
+    // Endpoints registered before URLs were checked may point anywhere
+    if (!isPublicHttpsUrl(endpoint.url)) {
+      throw new Error('Endpoint URL is not an https URL on a public host');
+    }
+
+    const res = await fetchFn(endpoint.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        [WEBHOOK_ID_HEADER]: delivery.eventId,
+        [WEBHOOK_EVENT_HEADER]: delivery.eventType,
+        [WEBHOOK_TIMESTAMP_HEADER]: timestamp.toString(),
+        [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(endpoint.secret, timestamp, body),
+      },
+      body,
+      // A public endpoint mustn't be able to forward the delivery elsewhere
+      redirect: 'manual',
+      signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+    });
+    responseStatus = res.status;
+    if (!res.ok) {
+      error = `Endpoint responded with ${res.status}`;
+    }
+  } catch (err) {
+    error = err instanceof Error ? err.message : String(err);
+  }
+
+  const attempts = delivery.attempts + 1;
+  const succeeded = error === null;
+  const exhausted = !succeeded && attempts >= WEBHOOK_MAX_ATTEMPTS;
+
+  const [updated] = await db
+    .update(schema.webhookDeliveries)
+    .set({
+      status: succeeded ? 'succeeded' : exhausted ? 'failed' : 'pending',
+      attempts,
+      nextAttemptAt:
+        succeeded || exhausted
+          ? null
+          : new Date(now.getTime() + getWebhookRetryDelayMs(attempts)),
+      lastResponseStatus: responseStatus,
+      lastError: error,
+      deliveredAt: succeeded ? new Date() : null,
+    })
+    .where(eq(schema.webhookDeliveries.id, delivery.id))
+    .returning();
+
+  return toWebhookDelivery(updated);
+}
+
+// Deliveries of active tenants. A sandbox partition follows its tenant's
+// status.
+function isTenantActive(db: Database): SQL {
+  const activeTenants = and(
+    eq(schema.tenants.status, 'active'),
+    notLike(schema.tenants.id, getSandboxTenantId('%'))
+  );
+
+  return or(
+    inArray(
+      schema.webhookDeliveries.tenantId,
+      db.select({ id: schema.tenants.id }).from(schema.tenants).where(activeTenants)
+    ),
+    inArray(
+      schema.webhookDeliveries.tenantId,
+      db
+        .select({ id: sql<string>`${schema.tenants.id} || ${getSandboxTenantId('')}` })
+        .from(schema.tenants)
+        .where(activeTenants)
+    )
+  )!;
+}
+
+// Send every delivery that is due. Deliveries are claimed before sending, so
+// overlapping runs don't send the same attempt twice. Deliveries of suspended
+// or deleted tenants wait until the tenant is active again. Returns the
+// number sent.
+export async function deliverDueWebhooks(
+  db: Database,
+  options: { fetch?: WebhookFetch; now?: Date } = {}
+): Promise<number> {
+  const fetchFn = options.fetch ?? fetch;
+  const now = options.now ?? new Date();
+  const due = and(
+    eq(schema.webhookDeliveries.status, 'pending'),
+    lte(schema.webhookDeliveries.nextAttemptAt, now),
+    isTenantActive(db)
+  );
+
+  const claimed = await db
+    .update(schema.webhookDeliveries)
+    .set({ nextAttemptAt: new Date(now.getTime() + CLAIM_DURATION_MS) })
+    .where(
+      and(
+        due,
+        inArray(
+          schema.webhookDeliveries.id,
+          db
+            .select({ id: schema.webhookDeliveries.id })
+            .from(schema.webhookDeliveries)
+            .where(due)
+            .orderBy(schema.webhookDeliveries.nextAttemptAt)
+            .limit(DELIVERY_BATCH_SIZE)
+        )
+      )
+    )
+    .returning();
+
+  if (claimed.length === 0) {
+    return 0;
+  }
+
+  const endpoints = await db
+    .select()
+    .from(schema.webhookEndpoints)
+    .where(
+      inArray(
+        schema.webhookEndpoints.id,
+        claimed.map((delivery) => delivery.endpointId)
+      )
+    );
+  const endpointsById = new Map(endpoints.map((endpoint) => [endpoint.id, endpoint]));
+
+  let sent = 0;
+  for (const delivery of claimed) {
+    const endpoint = endpointsById.get(delivery.endpointId);
+    // Endpoints deleted since the claim take their deliveries with them
+    if (endpoint) {
+      await attemptDelivery(db, delivery, endpoint, fetchFn, now);
+      sent++;
+    }
+  }
+
+  return sent;
+}
+
+// List an endpoint's deliveries, newest first
+export async function listWebhookDeliveries(
+  tenantDb: TenantScopedDb,
+  endpointId: string,
+  options: { status?: WebhookDeliveryStatus; limit?: number } = {}
+): Promise<WebhookDelivery[]> {
+  const limit = options.limit ?? DEFAULT_DELIVERY_PAGE_SIZE;
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_DELIVERY_PAGE_SIZE) {
+    throw new AppError(
+      'INVALID_INPUT',
+      `limit must be an integer between 1 and ${MAX_DELIVERY_PAGE_SIZE}`,
+      400,
+      { field: 'limit' }
+    );
+  }
+
+  const records = await tenantDb.select(
+    schema.webhookDeliveries,
+    and(
+      eq(schema.webhookDeliveries.endpointId, endpointId),
+      options.status ? eq(schema.webhookDeliveries.status, options.status) : undefined
+    ),
+    { orderBy: desc(schema.webhookDeliveries.createdAt), limit }
+  );
+
+  return records.map(toWebhookDelivery);
+}
+
+// Send an earlier delivery's event again right away. The redelivery gets its
+// own log entry (and retries) but keeps the event ID, so consumers can tell it
+// apart from a new event.
+export async function redeliverWebhook(
+  tenantDb: TenantScopedDb,
+  deliveryId: string,
+  fetchFn: WebhookFetch = fetch
+): Promise<WebhookDelivery> {
+  const [row] = await tenantDb.db
+    .select({ delivery: schema.webhookDeliveries, endpoint: schema.webhookEndpoints })
+    .from(schema.webhookDeliveries)
+    .innerJoin(
+      schema.webhookEndpoints,
+      eq(schema.webhookDeliveries.endpointId, schema.webhookEndpoints.id)
+    )
+    .where(tenantDb.scope(schema.webhookDeliveries, eq(schema.webhookDeliveries.id, deliveryId)))
+    .limit(1);
+
+  if (!row) {
+    throw new AppError('WEBHOOK_DELIVERY_NOT_FOUND', 'Webhook delivery not found', 404);
+  }
+
+  const [redelivery] = await tenantDb.insert(schema.webhookDeliveries, {
+    endpointId: row.endpoint.id,
+    eventId: row.delivery.eventId,
+    eventType: row.delivery.eventType,
+    payload: row.delivery.payload,
+    status: 'pending',
+    // Claimed until the attempt below records its outcome
+    nextAttemptAt: new Date(Date.now() + CLAIM_DURATION_MS),
+    createdAt: new Date(),
+    redeliveryOf: row.delivery.id,
+  });
+
+  return attemptDelivery(tenantDb.db, redelivery, row.endpoint, fetchFn);
+}
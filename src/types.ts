@@ -1,10 +1,36 @@
 // Core type definitions for the SaaS Backend Layer
 
+import type { Logger, RedactionPolicy } from './middleware/logger';
+import type { AppConfig, TenantConfigOverrides } from './config';
+
+export type TenantStatus = 'active' | 'suspended' | 'deleted';
+
+// A customer of the platform, provisioned by an operator
+export interface Tenant {
+  id: string;
+  name: string;
+  status: TenantStatus;
+  plan: string | null;
+  metadata: Record<string, unknown>;
+  purgeAfter: Date | null; // When a deleted tenant's data is purged
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Result of purging a tenant: rows removed and rows left behind, by table
+export interface TenantPurgeReport {
+  tenantId: string;
+  purgedAt: Date;
+  tables: Record<string, { deleted: number; remaining: number }>;
+  verified: boolean; // No rows were left behind
+}
+
 export interface User {
   id: string;
   tenantId: string;
   email: string;
   passwordHash: string;
+  emailVerifiedAt: Date | null;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -17,6 +43,30 @@ export interface Session {
   expiresAt: Date;
 }
 
+// Claims carried by stateless JWT access tokens
+export interface AccessTokenClaims {
+  sub: string; // user ID
+  tenantId: string;
+  email: string;
+  iat: number;
+  exp: number;
+}
+
+// Access/refresh token pair issued in token mode
+export interface TokenPair {
+  accessToken: string;
+  accessTokenExpiresAt: Date;
+  refreshToken: string;
+  refreshTokenExpiresAt: Date;
+}
+
+// Returned by login when the user must still present a second factor
+export interface MfaChallenge {
+  mfaRequired: true;
+  challengeToken: string;
+  expiresAt: Date;
+}
+
 export interface Organization {
   id: string;
   tenantId: string;
@@ -79,17 +129,106 @@ export interface UsageRecord {
   timestamp: Date;
 }
 
+export interface TenantSettings {
+  tenantId: string;
+  requireEmailVerification: boolean;
+  // Extra log redaction on top of the defaults (e.g. for GDPR-sensitive tenants)
+  logRedaction: RedactionPolicy;
+  // Overrides layered on the environment's configuration (see getTenantConfig)
+  config: TenantConfigOverrides;
+}
+
+// Who performed an audited action
+export type AuditActorType = 'user' | 'api_key' | 'operator' | 'system';
+
+// Before and after values of each field an audited action changed
+export type AuditChanges = Record<string, { before: unknown; after: unknown }>;
+
+// Security or administrative event in a tenant's audit trail
+export interface AuditEvent {
+  id: string;
+  tenantId: string;
+  organizationId: string | null;
+  actorType: AuditActorType;
+  actorId: string | null;
+  action: string; // e.g. organization.member_removed
+  targetType: string;
+  targetId: string | null;
+  changes: AuditChanges | null;
+  ipAddress: string | null;
+  requestId: string | null;
+  createdAt: Date;
+}
+
+// Endpoint that receives a tenant's webhook events (the secret is only
+// returned once, on creation)
+export interface WebhookEndpoint {
+  id: string;
+  tenantId: string;
+  url: string;
+  events: string[];
+  createdAt: Date;
+}
+
+export type WebhookDeliveryStatus = 'pending' | 'succeeded' | 'failed';
+
+// One attempt series at delivering an event to an endpoint
+export interface WebhookDelivery {
+  id: string;
+  endpointId: string;
+  eventId: string;
+  eventType: string;
+  payload: unknown;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  nextAttemptAt: Date | null;
+  lastResponseStatus: number | null;
+  lastError: string | null;
+  createdAt: Date;
+  deliveredAt: Date | null;
+  redeliveryOf: string | null; // Delivery this one was manually redelivered from
+}
+
+export type OutboxEventStatus = 'pending' | 'dispatched' | 'failed';
+
+// A domain event waiting in (or dispatched from) the outbox
+export interface OutboxEvent {
+  id: string; // Also the idempotency key consumers dedupe on
+  tenantId: string;
+  eventType: string;
+  payload: Record<string, unknown>;
+  status: OutboxEventStatus;
+  attempts: number;
+  availableAt: Date | null;
+  lastError: string | null;
+  createdAt: Date;
+  dispatchedAt: Date | null;
+}
+
+// Live keys act on real data; test keys act on the tenant's sandbox
+export type ApiKeyMode = 'live' | 'test';
+
+// API key metadata (the plaintext key is only returned once, on creation)
 export interface ApiKey {
-  key: string;
+  id: string;
   tenantId: string;
   name: string;
+  prefix: string;
+  mode: ApiKeyMode;
+  scopes: string[];
   createdAt: Date;
   lastUsedAt: Date | null;
+  expiresAt: Date | null;
+  revokedAt: Date | null;
 }
 
 // Context types for request handling
 export interface TenantContext {
+  // Data partition for the request: the tenant ID, or its sandbox for test keys
   tenantId: string;
+  mode: ApiKeyMode;
+  scopes: string[];
+  apiKeyId: string;
 }
 
 export interface UserContext extends TenantContext {
@@ -106,11 +245,50 @@ export interface Env {
   JWT_SECRET: string;
   BCRYPT_WORK_FACTOR: string;
   SESSION_EXPIRATION: string;
+  PASSWORD_RESET_EXPIRATION?: string;
+  EMAIL_VERIFICATION_EXPIRATION?: string;
+  ACCESS_TOKEN_EXPIRATION?: string;
+  REFRESH_TOKEN_EXPIRATION?: string;
+  API_KEY_ROTATION_GRACE_PERIOD?: string;
+  INVITATION_EXPIRATION?: string;
+  TENANT_DELETION_GRACE_PERIOD?: string;
   RATE_LIMIT_PER_MINUTE: string;
+  RATE_LIMIT_STORE?: string;
+  RATE_LIMIT_ALGORITHM?: string;
   ENVIRONMENT: string;
   RESEND_API_KEY: string;
+  OPERATOR_TOKEN?: string;
+  LOG_LEVEL?: string;
+  LOG_SAMPLE_RATE?: string;
+  LOG_SINK_URL?: string;
+  LOG_SINK_TOKEN?: string;
+  
+  // Durable Object namespace for the durable_object rate limit store
+  RATE_LIMITER?: DurableObjectNamespace;
 }
 
+// Hono app environment (bindings plus values set on the request context)
+export interface Variables {
+  requestId: string;
+  tenantId: string;
+  mode: ApiKeyMode;
+  // Scopes granted to the API key that authenticated the request
+  scopes: string[];
+  apiKeyId: string;
+  // Set by sessionAuth once the end user's session is validated
+  userId: string;
+  email: string;
+  // Request-scoped logger, set by accessLogMiddleware
+  logger: Logger;
+  // The tenant's configuration, set by apiKeyAuth (read it with getConfig)
+  config: AppConfig;
+}
+
+export type AppEnv = {
+  Bindings: Env;
+  Variables: Variables;
+};
+
 // Error types
 export interface ErrorResponse {
   error: {